@@ -0,0 +1,21 @@
+#!/bin/bash
+# Cron job script for ASIN list price monitors
+# Run every 15 minutes
+
+# Load environment variables
+source /home/deploy/strefrontstalker/.env.production
+
+# Set the API endpoint
+API_URL="${NEXT_PUBLIC_SITE_URL}/api/cron/check-asin-monitors"
+
+# Execute the cron job with authentication
+curl -X GET \
+  -H "Authorization: Bearer ${CRON_SECRET}" \
+  -H "User-Agent: system-cron/1.0" \
+  -H "Content-Type: application/json" \
+  --max-time 300 \
+  "${API_URL}" \
+  >> /home/deploy/strefrontstalker/logs/cron-asin-monitors.log 2>&1
+
+# Log completion
+echo "[$(date)] ASIN monitor check completed" >> /home/deploy/strefrontstalker/logs/cron-asin-monitors.log
@@ -0,0 +1,21 @@
+#!/bin/bash
+# Cron job script for refreshing daily exchange rates
+# Run daily at 1:30 AM UTC (before scheduled scans)
+
+# Load environment variables
+source /home/deploy/strefrontstalker/.env.production
+
+# Set the API endpoint
+API_URL="${NEXT_PUBLIC_SITE_URL}/api/exchange-rates"
+
+# Execute the cron job with authentication
+curl -X POST \
+  -H "Authorization: Bearer ${CRON_SECRET}" \
+  -H "User-Agent: system-cron/1.0" \
+  -H "Content-Type: application/json" \
+  --max-time 60 \
+  "${API_URL}" \
+  >> /home/deploy/strefrontstalker/logs/cron-exchange-rates.log 2>&1
+
+# Log completion
+echo "[$(date)] Exchange rate refresh completed" >> /home/deploy/strefrontstalker/logs/cron-exchange-rates.log
@@ -0,0 +1,21 @@
+#!/bin/bash
+# Cron job script for the notification queue and daily/weekly digests
+# Run every 5 minutes
+
+# Load environment variables
+source /home/deploy/strefrontstalker/.env.production
+
+# Set the API endpoint
+API_URL="${NEXT_PUBLIC_SITE_URL}/api/cron/process-notifications"
+
+# Execute the cron job with authentication
+curl -X GET \
+  -H "Authorization: Bearer ${CRON_SECRET}" \
+  -H "User-Agent: system-cron/1.0" \
+  -H "Content-Type: application/json" \
+  --max-time 240 \
+  "${API_URL}" \
+  >> /home/deploy/strefrontstalker/logs/cron-notifications.log 2>&1
+
+# Log completion
+echo "[$(date)] Notification processing completed" >> /home/deploy/strefrontstalker/logs/cron-notifications.log
@@ -72,6 +72,9 @@ crontab -l 2>/dev/null > "$TEMP_CRON" || true
 sed -i '/# Strefrontstalker/d' "$TEMP_CRON" 2>/dev/null || true
 sed -i '/check-schedules/d' "$TEMP_CRON" 2>/dev/null || true
 sed -i '/check-arbitrage-schedules/d' "$TEMP_CRON" 2>/dev/null || true
+sed -i '/check-asin-monitors/d' "$TEMP_CRON" 2>/dev/null || true
+sed -i '/process-notifications/d' "$TEMP_CRON" 2>/dev/null || true
+sed -i '/api\/exchange-rates/d' "$TEMP_CRON" 2>/dev/null || true
 
 # Add new cron jobs
 cat >> "$TEMP_CRON" << EOF
@@ -82,6 +85,15 @@ cat >> "$TEMP_CRON" << EOF
 # Strefrontstalker - Arbitrage Scans (every hour at :30)  
 30 * * * * curl -s -H "Authorization: Bearer $CRON_SECRET" "$SITE_URL/api/cron/check-arbitrage-schedules" >> "$APP_DIR/logs/cron-arbitrage.log" 2>&1
 
+# Strefrontstalker - ASIN List Price Monitors (every 15 minutes)
+*/15 * * * * curl -s -H "Authorization: Bearer $CRON_SECRET" "$SITE_URL/api/cron/check-asin-monitors" >> "$APP_DIR/logs/cron-asin-monitors.log" 2>&1
+
+# Strefrontstalker - Notification Queue and Digests (every 5 minutes)
+*/5 * * * * curl -s -H "Authorization: Bearer $CRON_SECRET" "$SITE_URL/api/cron/process-notifications" >> "$APP_DIR/logs/cron-notifications.log" 2>&1
+
+# Strefrontstalker - Exchange Rates (daily at 01:30)
+30 1 * * * curl -s -X POST -H "Authorization: Bearer $CRON_SECRET" "$SITE_URL/api/exchange-rates" >> "$APP_DIR/logs/cron-exchange-rates.log" 2>&1
+
 EOF
 
 # Install the new crontab
@@ -95,10 +107,14 @@ echo
 echo "Installed cron jobs:"
 echo "- Storefront updates: Every hour at :00 minutes"
 echo "- Arbitrage scans: Every hour at :30 minutes"
+echo "- ASIN list monitors: Every 15 minutes"
+echo "- Exchange rates: Daily at 01:30"
 echo
 echo "Log files:"
 echo "- Storefront: $APP_DIR/logs/cron-storefront.log"
 echo "- Arbitrage: $APP_DIR/logs/cron-arbitrage.log"
+echo "- ASIN monitors: $APP_DIR/logs/cron-asin-monitors.log"
+echo "- Notifications: $APP_DIR/logs/cron-notifications.log"
 echo
 echo "To verify cron jobs are installed:"
 echo "  crontab -l"
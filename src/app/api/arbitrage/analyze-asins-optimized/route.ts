@@ -1,106 +1,37 @@
+import 'reflect-metadata';
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
-import { SPAPIProductFeesClient } from '@/lib/sp-api-product-fees';
-import { SPAPICatalogClient } from '@/lib/sp-api-catalog';
 import { checkEnvVars } from '@/lib/env-check';
 import { validateApiRequest, AuthError } from '@/lib/auth';
-import { validateRequestBody, apiSchemas, ValidationError } from '@/lib/validation';
-import { sendStreamError, AppError } from '@/lib/error-handling';
-import { BlacklistService } from '@/lib/blacklist-service';
-import { categorizeProfitLevel, type ProfitCategory } from '@/lib/profit-categorizer';
-import { estimateMonthlySalesFromRank } from '@/lib/sales-estimator';
-import { PriceHistoryService } from '@/lib/price-history-service';
-import { notificationService } from '@/lib/notification-service';
-
-// Marketplace IDs
-const MARKETPLACES = {
-  UK: { id: 'A1F83G8C2ARO7P', currency: 'GBP', region: 'eu' },
-  DE: { id: 'A1PA6795UKMFR9', currency: 'EUR', region: 'eu' },
-  FR: { id: 'A13V1IB3VIYZZH', currency: 'EUR', region: 'eu' },
-  IT: { id: 'APJ6JRA9NG5V4', currency: 'EUR', region: 'eu' },
-  ES: { id: 'A1RKKUPIHCS9HS', currency: 'EUR', region: 'eu' }
-};
-
-const EUR_TO_GBP_RATE = 0.86;
-
-// OPTIMIZED Rate Limits Configuration
-const RATE_LIMITS = {
-  COMPETITIVE_PRICING: {
-    requestsPerSecond: 0.5,  // Amazon limit
-    itemsPerRequest: 20,      // Maximum batch size
-    burstSize: 1,
-    minInterval: 2000         // 2 seconds between requests
-  },
-  PRODUCT_FEES: {
-    requestsPerSecond: 1,
-    burstSize: 2,
-    minInterval: 1000         // 1 second between requests
-  },
-  CATALOG: {
-    requestsPerSecond: 2,
-    burstSize: 2,
-    minInterval: 500          // 500ms between requests
-  }
-};
-
-// Rate limiter class for better control
-class RateLimiter {
-  private lastRequestTime: Map<string, number> = new Map();
-  private requestQueue: Map<string, Promise<void>> = new Map();
-  
-  async throttle(key: string, minInterval: number): Promise<void> {
-    const now = Date.now();
-    const lastTime = this.lastRequestTime.get(key) || 0;
-    const timeSinceLastRequest = now - lastTime;
-    
-    if (timeSinceLastRequest < minInterval) {
-      const delay = minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-    
-    this.lastRequestTime.set(key, Date.now());
-  }
-  
-  // Create a queue for sequential requests per marketplace
-  async queueRequest<T>(key: string, minInterval: number, fn: () => Promise<T>): Promise<T> {
-    const previousRequest = this.requestQueue.get(key) || Promise.resolve();
-    
-    const currentRequest = previousRequest.then(async () => {
-      await this.throttle(key, minInterval);
-      return fn();
-    });
-    
-    // Store as Promise<void> to maintain type consistency
-    this.requestQueue.set(key, currentRequest.then(() => {}).catch(() => {}));
-    return currentRequest;
-  }
-}
-
-interface StreamMessage {
-  type: 'progress' | 'opportunity' | 'complete' | 'error';
-  data: any;
-}
+import { ValidationError } from '@/lib/validation';
+import { AppError } from '@/lib/error-handling';
+import { initializeContainer, container, TOKENS } from '@/infrastructure/container';
+import { ArbitrageAnalysisServiceV3 } from '@/services/arbitrage/ArbitrageAnalysisService.v3';
+import { StreamingService } from '@/services/streaming/StreamingService';
+import { AsinListProductSource, normalizeAsins } from '@/services/arbitrage/product-sources';
 
 export async function POST(request: NextRequest) {
   try {
     // Validate authentication
     const user = await validateApiRequest(request);
-    
+
     // Validate request body
     const body = await request.json();
     if (!body.asins || !Array.isArray(body.asins) || body.asins.length === 0) {
       throw new ValidationError('ASINs array is required', 'asins');
     }
-    
-    const asins = body.asins;
-    const debug = body.debug || false;
+
+    if (normalizeAsins(body.asins).length === 0) {
+      throw new ValidationError('No valid ASINs provided', 'asins');
+    }
+
+    if (body.profileId !== undefined && typeof body.profileId !== 'string') {
+      throw new ValidationError('Invalid sourcing profile', 'profileId');
+    }
 
     // Check required environment variables
     const envCheck = checkEnvVars({
-      supabase: { url: true, serviceKey: true },
-      aws: { accessKeyId: true, secretAccessKey: true },
-      amazon: { accessKeyId: true, secretAccessKey: true, refreshToken: true, marketplaceId: true }
+      supabase: { url: true, serviceKey: true }
     });
 
     if (!envCheck.success) {
@@ -116,575 +47,39 @@ export async function POST(request: NextRequest) {
       envCheck.values.supabaseServiceKey
     );
 
-    // Validate ASINs
-    const validASINs = asins.filter((asin: string) => /^[A-Z0-9]{10}$/i.test(asin)).map((a: string) => a.toUpperCase());
-    if (validASINs.length === 0) {
-      throw new ValidationError('No valid ASINs provided', 'asins');
-    }
-
-    // Create abort controller for client disconnection handling
-    const abortController = new AbortController();
-
-    // Create streaming response
-    const stream = new ReadableStream({
-      async start(controller) {
-        let isControllerClosed = false;
-        
-        // Track controller state
-        const originalClose = controller.close.bind(controller);
-        controller.close = () => {
-          isControllerClosed = true;
-          originalClose();
-        };
-
-        const sendMessage = (message: StreamMessage) => {
-          if (!isControllerClosed) {
-            try {
-              const data = `data: ${JSON.stringify(message)}\n\n`;
-              controller.enqueue(new TextEncoder().encode(data));
-            } catch (error) {
-              console.log('[STREAM] Controller is closed, skipping message:', message.type);
-            }
-          }
-        };
-
-        let scanId: string | null = null;
-        const rateLimiter = new RateLimiter();
-
-        try {
-          sendMessage({ type: 'progress', data: { step: 'Initializing scan...', progress: 0 } });
-
-          // Create scan record
-          const { data: scan, error: scanError } = await supabase
-            .from('arbitrage_scans')
-            .insert({
-              user_id: user.id,
-              scan_type: 'asin_check',
-              storefront_name: 'ASIN Checker',
-              status: 'running',
-              metadata: {
-                exchange_rate: EUR_TO_GBP_RATE,
-                marketplaces: Object.keys(MARKETPLACES),
-                asins_count: validASINs.length
-              }
-            })
-            .select()
-            .single();
-
-          if (scanError || !scan) {
-            console.error('Scan creation error:', scanError);
-            sendMessage({ type: 'error', data: { error: `Failed to create scan record: ${scanError?.message || 'Unknown error'}` } });
-            return;
-          }
-
-          scanId = scan.id;
-
-          // Helper function to update scan progress in database
-          const updateScanProgress = async (progress: number, step: string, processedCount: number = 0) => {
-            try {
-              await supabase
-                .from('arbitrage_scans')
-                .update({
-                  progress_percentage: Math.min(100, Math.round(progress)),
-                  current_step: step,
-                  processed_count: processedCount,
-                  last_updated: new Date().toISOString()
-                })
-                .eq('id', scanId);
-            } catch (error) {
-              console.error('Failed to update scan progress:', error);
-            }
-          };
-
-          // Initialize SP-API clients
-          const credentials = {
-            accessKeyId: envCheck.values.awsAccessKeyId,
-            secretAccessKey: envCheck.values.awsSecretAccessKey,
-            sessionToken: undefined,
-            region: envCheck.values.awsRegion || 'eu-west-1',
-          };
-          
-          const spApiConfig = {
-            clientId: envCheck.values.amazonAccessKeyId,
-            clientSecret: envCheck.values.amazonSecretAccessKey,
-            refreshToken: envCheck.values.amazonRefreshToken,
-            marketplaceId: MARKETPLACES.UK.id,
-            region: 'eu' as const,
-          };
-
-          const pricingClient = new SPAPICompetitivePricingClient(credentials, spApiConfig);
-          const feesClient = new SPAPIProductFeesClient(credentials, spApiConfig);
-          const catalogClient = new SPAPICatalogClient(credentials, spApiConfig);
-
-          // Initialize blacklist service
-          const blacklistService = new BlacklistService(
-            envCheck.values.supabaseUrl,
-            envCheck.values.supabaseServiceKey
-          );
-          
-          const blacklistedAsins = await blacklistService.getBlacklistedAsins(user.id);
-          const { filteredProducts, excludedCount } = blacklistService.filterBlacklistedProducts(
-            validASINs.map((asin: string) => ({ asin })),
-            blacklistedAsins
-          );
-
-          const finalAsins = filteredProducts.map(p => p.asin);
-          
-          if (excludedCount > 0) {
-            const step = `Excluded ${excludedCount} blacklisted ASINs. Processing ${finalAsins.length} ASINs...`;
-            sendMessage({ 
-              type: 'progress', 
-              data: { 
-                step, 
-                progress: 5,
-                scanId
-              } 
-            });
-            await updateScanProgress(5, step, 0);
-          }
-
-          // OPTIMIZATION 1: Process UK pricing in larger batches (20 ASINs)
-          const batchSize = RATE_LIMITS.COMPETITIVE_PRICING.itemsPerRequest;
-          const ukPricingData = new Map<string, any>();
-          
-          // Process UK pricing in optimized batches
-          const ukBatches: string[][] = [];
-          for (let i = 0; i < finalAsins.length; i += batchSize) {
-            ukBatches.push(finalAsins.slice(i, Math.min(i + batchSize, finalAsins.length)));
-          }
+    initializeContainer(supabase);
 
-          const ukPricingStep = `Starting UK pricing for ${finalAsins.length} ASINs (${ukBatches.length} batches)...`;
-          sendMessage({ 
-            type: 'progress', 
-            data: { 
-              step: ukPricingStep, 
-              progress: 10,
-              scanId,
-              totalAsins: finalAsins.length,
-              processedCount: 0
-            } 
-          });
-          await updateScanProgress(10, ukPricingStep, 0);
+    const scanEngine = container.resolve<ArbitrageAnalysisServiceV3>(TOKENS.ScanEngine);
+    const streamingService = container.resolve<StreamingService>(TOKENS.StreamingService);
 
-          for (let batchIndex = 0; batchIndex < ukBatches.length; batchIndex++) {
-            const batchAsins = ukBatches[batchIndex];
-            
-            try {
-              await rateLimiter.throttle('uk-pricing', RATE_LIMITS.COMPETITIVE_PRICING.minInterval);
-              
-              const ukPricingBatch = await pricingClient.getCompetitivePricing(
-                batchAsins,
-                MARKETPLACES.UK.id,
-                'Asin',
-                'Consumer'
-              );
-              
-              // Process UK pricing results
-              for (const product of ukPricingBatch) {
-                if (product.asin) {
-                  const competitivePrices = (product.competitivePricing as any)?.CompetitivePrices || [];
-                  const newConditionPrices = competitivePrices.filter(
-                    (cp: any) => cp.condition === 'New' || cp.condition === 'new' || !cp.condition
-                  );
-                  
-                  if (newConditionPrices.length > 0) {
-                    const buyBoxPrice = newConditionPrices.find((cp: any) => cp.CompetitivePriceId === '1');
-                    const featuredPrice = newConditionPrices.find((cp: any) => cp.CompetitivePriceId === 'B2C' || cp.CompetitivePriceId === '2');
-                    const priceData = buyBoxPrice || featuredPrice || newConditionPrices[0];
-                    
-                    if (priceData?.Price) {
-                      const listingPrice = priceData.Price.ListingPrice || priceData.Price.LandedPrice;
-                      if (listingPrice?.Amount && listingPrice?.CurrencyCode) {
-                        ukPricingData.set(product.asin, {
-                          price: listingPrice.Amount,
-                          currency: listingPrice.CurrencyCode,
-                          numberOfOffers: (product.competitivePricing as any)?.NumberOfOfferListings?.find(
-                            (l: any) => l.condition === 'New'
-                          )?.Count || 0,
-                          salesRankings: product.salesRankings
-                        });
-                      }
-                    }
-                  }
-                }
-              }
-              
-              const batchProgress = 10 + (batchIndex / ukBatches.length) * 15;
-              const processedSoFar = Math.min((batchIndex + 1) * batchSize, finalAsins.length);
-              const batchStep = `UK pricing: ${processedSoFar} of ${finalAsins.length} ASINs (batch ${batchIndex + 1}/${ukBatches.length})`;
-              sendMessage({ 
-                type: 'progress', 
-                data: { 
-                  step: batchStep, 
-                  progress: batchProgress,
-                  scanId,
-                  processedCount: processedSoFar,
-                  totalAsins: finalAsins.length
-                } 
-              });
-              await updateScanProgress(batchProgress, batchStep, processedSoFar);
-              
-            } catch (batchError: any) {
-              console.error('UK pricing batch error:', batchError);
-              // Continue with next batch
-            }
-          }
-
-          const euStep = `UK pricing complete. Fetching EU prices for ${finalAsins.length} ASINs (4 marketplaces)...`;
-          sendMessage({ 
-            type: 'progress', 
-            data: { 
-              step: euStep, 
-              progress: 25,
-              scanId,
-              totalAsins: finalAsins.length,
-              processedCount: finalAsins.length // UK done
-            } 
-          });
-          await updateScanProgress(25, euStep, finalAsins.length);
-
-          // OPTIMIZATION 2: Pre-fetch EU marketplace pricing in parallel batches
-          const euMarketplaces = Object.entries(MARKETPLACES).filter(([key]) => key !== 'UK');
-          const euPricingData = new Map<string, Map<string, any>>();
-          
-          // Initialize maps for each marketplace
-          euMarketplaces.forEach(([country]) => {
-            euPricingData.set(country, new Map());
-          });
-
-          // Process EU marketplaces in parallel with rate limiting per marketplace
-          const euPricingPromises = euMarketplaces.map(async ([country, marketplace]) => {
-            const marketplacePricingData = euPricingData.get(country)!;
-            
-            for (let batchIndex = 0; batchIndex < ukBatches.length; batchIndex++) {
-              const batchAsins = ukBatches[batchIndex];
-              
-              try {
-                // Use queue to ensure proper rate limiting per marketplace
-                const pricingBatch = await rateLimiter.queueRequest(
-                  `eu-pricing-${country}`,
-                  RATE_LIMITS.COMPETITIVE_PRICING.minInterval,
-                  () => pricingClient.getCompetitivePricing(
-                    batchAsins,
-                    marketplace.id,
-                    'Asin',
-                    'Consumer'
-                  )
-                );
-                
-                // Process EU pricing results
-                for (const product of pricingBatch) {
-                  if (product.asin) {
-                    const competitivePrices = (product.competitivePricing as any)?.CompetitivePrices || [];
-                    const newConditionPrices = competitivePrices.filter(
-                      (cp: any) => cp.condition === 'New' || cp.condition === 'new' || !cp.condition
-                    );
-                    
-                    if (newConditionPrices.length > 0) {
-                      const priceData = newConditionPrices[0];
-                      if (priceData?.Price) {
-                        const listingPrice = priceData.Price.ListingPrice || priceData.Price.LandedPrice;
-                        if (listingPrice?.Amount) {
-                          marketplacePricingData.set(product.asin, {
-                            price: listingPrice.Amount,
-                            currency: listingPrice.CurrencyCode || marketplace.currency
-                          });
-                        }
-                      }
-                    }
-                  }
-                }
-              } catch (error: any) {
-                console.error(`EU pricing error for ${country}:`, error);
-              }
-            }
-          });
-
-          // Wait for all EU marketplace pricing to complete
-          await Promise.all(euPricingPromises);
-
-          const analyzeStep = `Pricing fetched. Analyzing ${finalAsins.length} ASINs for arbitrage opportunities...`;
-          sendMessage({ 
-            type: 'progress', 
-            data: { 
-              step: analyzeStep, 
-              progress: 45,
-              scanId,
-              totalAsins: finalAsins.length,
-              processedCount: 0
-            } 
-          });
-          await updateScanProgress(45, analyzeStep, 0);
-
-          // OPTIMIZATION 3: Process opportunities with optimized fee calculation
-          let processedCount = 0;
-          let opportunitiesFound = 0;
-          const opportunities = [];
-
-          for (const asin of finalAsins) {
-            // Skip if no UK price
-            const ukPricing = ukPricingData.get(asin);
-            if (!ukPricing?.price) {
-              processedCount++;
-              continue;
-            }
-
-            try {
-              // Get catalog data (with rate limiting)
-              let productName = asin;
-              let productImage = '';
-              let salesRank = 0;
-              
-              try {
-                await rateLimiter.throttle('catalog', RATE_LIMITS.CATALOG.minInterval);
-                
-                const catalogData = await catalogClient.getCatalogItem(
-                  asin,
-                  [MARKETPLACES.UK.id],
-                  ['attributes', 'images', 'salesRanks', 'summaries']
-                );
-                
-                // Try multiple sources for the product title
-                if (catalogData?.attributes?.title?.[0]?.value) {
-                  productName = catalogData.attributes.title[0].value;
-                } else if (catalogData?.summaries?.[0]?.itemName) {
-                  productName = catalogData.summaries[0].itemName;
-                } else if (catalogData?.attributes?.item_name?.[0]?.value) {
-                  productName = catalogData.attributes.item_name[0].value;
-                }
-                if (catalogData?.images?.[0]?.images?.[0]?.link) {
-                  productImage = catalogData.images[0].images[0].link;
-                }
-                if (catalogData?.salesRanks?.[0]?.ranks?.[0]?.rank) {
-                  salesRank = catalogData.salesRanks[0].ranks[0].rank;
-                }
-              } catch (catalogError) {
-                console.error('Catalog error for', asin, catalogError);
-              }
-
-              const salesPerMonth = salesRank > 0 ? estimateMonthlySalesFromRank(salesRank) : 0;
-
-              // Calculate fees (with rate limiting)
-              await rateLimiter.throttle('fees', RATE_LIMITS.PRODUCT_FEES.minInterval);
-              
-              const feesEstimate = await feesClient.getMyFeesEstimateForASIN(
-                asin,
-                {
-                  listingPrice: {
-                    currencyCode: 'GBP',
-                    amount: ukPricing.price
-                  }
-                },
-                MARKETPLACES.UK.id
-              );
-
-              if (feesEstimate.status === 'Success' && feesEstimate.feesEstimate) {
-                const fees = feesEstimate.feesEstimate;
-                const feeDetails = fees.feeDetailList || [];
-                
-                const referralFee = feeDetails.find(f => f.feeType === 'ReferralFee')?.finalFee.amount || 0;
-                const amazonFees = fees.totalFeesEstimate?.amount || 0;
-                const digitalServicesFee = amazonFees * 0.02;
-
-                // Check EU prices for opportunities
-                const euPrices: any[] = [];
-                let bestOpportunity: any = null;
-
-                for (const [country, marketplacePricingMap] of euPricingData.entries()) {
-                  const euPricing = marketplacePricingMap.get(asin);
-                  if (euPricing?.price) {
-                    const sourcePrice = euPricing.price;
-                    const sourcePriceGBP = euPricing.currency === 'EUR' 
-                      ? sourcePrice * EUR_TO_GBP_RATE 
-                      : sourcePrice;
-
-                    const vatRate = 0.20;
-                    const vatOnSale = ukPricing.price / (1 + vatRate) * vatRate;
-                    const netRevenue = ukPricing.price - vatOnSale;
-                    const totalCosts = sourcePriceGBP + amazonFees + digitalServicesFee;
-                    const profit = netRevenue - totalCosts;
-                    const roi = (profit / sourcePriceGBP) * 100;
-                    const profitMargin = (profit / netRevenue) * 100;
-
-                    const marketplacePrice = {
-                      marketplace: country,
-                      sourcePrice,
-                      sourcePriceGBP,
-                      profit,
-                      profitMargin,
-                      roi,
-                      totalCost: totalCosts
-                    };
-
-                    euPrices.push(marketplacePrice);
-
-                    if (!bestOpportunity || roi > bestOpportunity.roi) {
-                      bestOpportunity = marketplacePrice;
-                    }
-                  }
-                }
-
-                if (bestOpportunity) {
-                  const profitCategory = categorizeProfitLevel(bestOpportunity.profit);
-                  
-                  if (bestOpportunity.profit > 0) {
-                    opportunitiesFound++;
-                  }
-
-                  // Save to database
-                  if (scanId) {
-                    await supabase
-                      .from('arbitrage_opportunities')
-                      .insert({
-                        scan_id: scanId,
-                        asin,
-                        product_name: productName,
-                        product_image: productImage,
-                        target_price: ukPricing.price,
-                        amazon_fees: amazonFees,
-                        referral_fee: referralFee,
-                        digital_services_fee: digitalServicesFee,
-                        uk_competitors: ukPricing.numberOfOffers,
-                        uk_sales_rank: salesRank,
-                        sales_per_month: salesPerMonth,
-                        best_source_marketplace: bestOpportunity.marketplace,
-                        best_source_price: bestOpportunity.sourcePrice,
-                        best_source_price_gbp: bestOpportunity.sourcePriceGBP,
-                        best_profit: bestOpportunity.profit,
-                        best_roi: bestOpportunity.roi,
-                        profit_category: profitCategory,
-                        all_marketplace_prices: { euPrices }
-                      });
-                  }
-
-                  const opportunity = {
-                    asin,
-                    productName,
-                    productImage,
-                    targetPrice: ukPricing.price,
-                    amazonFees,
-                    referralFee,
-                    digitalServicesFee,
-                    ukCompetitors: ukPricing.numberOfOffers,
-                    ukSalesRank: salesRank,
-                    salesPerMonth,
-                    euPrices: euPrices.sort((a, b) => b.roi - a.roi),
-                    bestOpportunity,
-                    profitCategory
-                  };
-
-                  opportunities.push(opportunity);
-                  sendMessage({ type: 'opportunity', data: opportunity });
-                }
-              }
-            } catch (error: any) {
-              console.error(`Error processing ${asin}:`, error);
-            }
-
-            processedCount++;
-            
-            // Update progress
-            if (processedCount % 10 === 0 || processedCount === finalAsins.length) {
-              const currentProgress = 45 + (processedCount / finalAsins.length) * 50;
-              const currentStep = `Analyzed ${processedCount}/${finalAsins.length} ASINs, found ${opportunitiesFound} opportunities`;
-              sendMessage({ 
-                type: 'progress', 
-                data: { 
-                  step: currentStep, 
-                  progress: currentProgress,
-                  scanId,
-                  processedCount,
-                  totalAsins: finalAsins.length,
-                  opportunitiesFound
-                } 
-              });
-              // Update database progress every 10 ASINs
-              await updateScanProgress(currentProgress, currentStep, processedCount);
-            }
-          }
-
-          // Update scan record
-          if (scanId) {
-            await supabase
-              .from('arbitrage_scans')
-              .update({
-                status: 'completed',
-                total_products: validASINs.length,
-                unique_asins: finalAsins.length,
-                opportunities_found: opportunitiesFound,
-                completed_at: new Date().toISOString(),
-                progress_percentage: 100,
-                current_step: 'Analysis complete',
-                processed_count: finalAsins.length,
-                last_updated: new Date().toISOString(),
-                metadata: {
-                  excluded_asins: excludedCount,
-                  exchange_rate: EUR_TO_GBP_RATE
-                }
-              })
-              .eq('id', scanId);
-          }
-
-          sendMessage({ 
-            type: 'complete', 
-            data: { 
-              totalAsins: finalAsins.length,
-              opportunitiesFound,
-              message: `Analysis complete! Analyzed ${finalAsins.length} ASINs and found ${opportunitiesFound} profitable opportunities.`,
-              scanId
-            } 
-          });
-
-        } catch (error: any) {
-          console.error('Streaming analysis error:', error);
-          
-          if (scanId) {
-            await supabase
-              .from('arbitrage_scans')
-              .update({
-                status: 'failed',
-                error_message: error.message || 'Analysis failed',
-                completed_at: new Date().toISOString()
-              })
-              .eq('id', scanId);
-          }
-          
-          sendMessage({ 
-            type: 'error', 
-            data: { error: error.message || 'Analysis failed' } 
-          });
-        } finally {
-          controller.close();
-        }
-      }
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+    const stream = streamingService.createSSEStream(
+      scanEngine.analyzeProductsStream(new AsinListProductSource(body.asins), {
+        userId: user.id,
+        profileId: body.profileId,
+        debug: body.debug || false
+      }),
+      message => message
+    );
 
+    return streamingService.createSSEResponse(stream);
   } catch (error) {
     console.error('Request error:', error);
-    
+
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: 401 });
     }
-    
+
     if (error instanceof ValidationError) {
       return NextResponse.json({ error: error.message, field: error.field }, { status: 400 });
     }
-    
+
     if (error instanceof AppError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
     }
-    
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
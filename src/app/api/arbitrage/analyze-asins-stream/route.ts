@@ -1,232 +1,59 @@
+import 'reflect-metadata';
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
-import { SPAPIProductFeesClient } from '@/lib/sp-api-product-fees';
-import { SPAPICatalogClient } from '@/lib/sp-api-catalog';
 import { checkEnvVars } from '@/lib/env-check';
 import { validateApiRequest, AuthError } from '@/lib/auth';
 import { ValidationError } from '@/lib/validation';
 import { AppError } from '@/lib/error-handling';
-import { BlacklistService } from '@/lib/blacklist-service';
-import { categorizeProfitLevel } from '@/lib/profit-categorizer';
-import { estimateMonthlySalesFromRank } from '@/lib/sales-estimator';
-import { KeepaProductService } from '@/services/keepa-product-service';
-import { KeepaComprehensiveAPI } from '@/lib/keepa-comprehensive-api';
-import { AIDealAnalyzer } from '@/services/ai-deal-analyzer';
+import { DEFAULT_SCAN_DIRECTION, isScanDirection } from '@/lib/reverse-arbitrage';
+import { initializeContainer, container, TOKENS } from '@/infrastructure/container';
+import { ArbitrageAnalysisServiceV3 } from '@/services/arbitrage/ArbitrageAnalysisService.v3';
+import { StreamingService } from '@/services/streaming/StreamingService';
+import {
+  AsinListProductSource,
+  CsvProductSource,
+  ProductSource,
+  normalizeAsins
+} from '@/services/arbitrage/product-sources';
 
-// Marketplace IDs
-const MARKETPLACES = {
-  UK: { id: 'A1F83G8C2ARO7P', currency: 'GBP', region: 'eu' },
-  DE: { id: 'A1PA6795UKMFR9', currency: 'EUR', region: 'eu' },
-  FR: { id: 'A13V1IB3VIYZZH', currency: 'EUR', region: 'eu' },
-  IT: { id: 'APJ6JRA9NG5V4', currency: 'EUR', region: 'eu' },
-  ES: { id: 'A1RKKUPIHCS9HS', currency: 'EUR', region: 'eu' }
-};
-
-const EUR_TO_GBP_RATE = 0.86;
-
-// Rate Limits Configuration
-const RATE_LIMITS = {
-  COMPETITIVE_PRICING: {
-    requestsPerSecond: 0.5,
-    itemsPerRequest: 20,  // SP-API has a hard limit of 20 ASINs per request
-    minInterval: 1500     // Reduced from 2000ms to 1500ms
-  },
-  PRODUCT_FEES: {
-    requestsPerSecond: 1,
-    minInterval: 800      // Reduced from 1000ms to 800ms  
-  },
-  CATALOG: {
-    requestsPerSecond: 2,
-    minInterval: 400      // Reduced from 500ms to 400ms
-  }
-};
-
-// Simple rate limiter
-class RateLimiter {
-  private lastRequestTime: Map<string, number> = new Map();
-  
-  async throttle(key: string, minInterval: number): Promise<void> {
-    const now = Date.now();
-    const lastTime = this.lastRequestTime.get(key) || 0;
-    const timeSinceLastRequest = now - lastTime;
-    
-    if (timeSinceLastRequest < minInterval) {
-      await new Promise(resolve => setTimeout(resolve, minInterval - timeSinceLastRequest));
-    }
-    
-    this.lastRequestTime.set(key, Date.now());
-  }
-}
-
-// Helper function to get price history for ASINs
-async function getPriceHistory(supabase: any, userId: string, asins: string[]): Promise<Map<string, Map<string, any>>> {
-  const priceHistoryMap = new Map<string, Map<string, any>>();
-  
+export async function POST(request: NextRequest) {
   try {
-    const { data: latestPrices, error } = await supabase
-      .from('latest_asin_price_history')
-      .select('asin, marketplace, old_price, new_price, price_change_amount, price_change_percentage, change_detected_at, is_first_check')
-      .eq('user_id', userId)
-      .in('asin', asins);
+    // Validate authentication
+    const user = await validateApiRequest(request);
 
-    if (!error && latestPrices) {
-      for (const price of latestPrices) {
-        if (!priceHistoryMap.has(price.asin)) {
-          priceHistoryMap.set(price.asin, new Map());
-        }
-        priceHistoryMap.get(price.asin)!.set(price.marketplace, price);
-      }
-    }
-  } catch (error) {
-    console.error('Error fetching price history:', error);
-  }
-  
-  return priceHistoryMap;
-}
+    // Validate request body - either an ASIN list or the text of a CSV upload
+    const body = await request.json();
+    let source: ProductSource;
 
-// Helper function to calculate price changes and update history
-async function updatePriceHistory(
-  supabase: any, 
-  userId: string, 
-  scanId: string,
-  asin: string, 
-  productName: string,
-  ukPrice: number, 
-  bestEuPrice: number, 
-  bestEuMarketplace: string,
-  previousPrices: Map<string, any>
-): Promise<PriceHistory> {
-  const now = new Date().toISOString();
-  
-  // Get previous UK price
-  const prevUkPrice = previousPrices.get('UK');
-  const ukPriceHistory: PriceHistoryInfo = {
-    newPrice: ukPrice,
-    isFirstCheck: !prevUkPrice,
-    lastChecked: now
-  };
-  
-  if (prevUkPrice) {
-    ukPriceHistory.oldPrice = prevUkPrice.new_price;
-    ukPriceHistory.changeAmount = ukPrice - prevUkPrice.new_price;
-    ukPriceHistory.changePercentage = ((ukPrice - prevUkPrice.new_price) / prevUkPrice.new_price) * 100;
-  }
-  
-  // Get previous EU price for best marketplace
-  const prevEuPrice = previousPrices.get(bestEuMarketplace);
-  const euPriceHistory: PriceHistoryInfo & { marketplace: string } = {
-    marketplace: bestEuMarketplace,
-    newPrice: bestEuPrice,
-    isFirstCheck: !prevEuPrice,
-    lastChecked: now
-  };
-  
-  if (prevEuPrice) {
-    euPriceHistory.oldPrice = prevEuPrice.new_price;
-    euPriceHistory.changeAmount = bestEuPrice - prevEuPrice.new_price;
-    euPriceHistory.changePercentage = ((bestEuPrice - prevEuPrice.new_price) / prevEuPrice.new_price) * 100;
-  }
-  
-  // Insert/update price history records
-  const priceHistoryInserts = [];
-  
-  // UK price history
-  priceHistoryInserts.push({
-    user_id: userId,
-    asin,
-    marketplace: 'UK',
-    old_price: ukPriceHistory.oldPrice || null,
-    new_price: ukPrice,
-    old_price_currency: 'GBP',
-    new_price_currency: 'GBP',
-    price_change_amount: ukPriceHistory.changeAmount || null,
-    price_change_percentage: ukPriceHistory.changePercentage || null,
-    product_name: productName,
-    change_detected_at: now,
-    scan_id: scanId,
-    is_first_check: ukPriceHistory.isFirstCheck
-  });
-  
-  // EU price history
-  priceHistoryInserts.push({
-    user_id: userId,
-    asin,
-    marketplace: bestEuMarketplace,
-    old_price: euPriceHistory.oldPrice || null,
-    new_price: bestEuPrice,
-    old_price_currency: 'EUR',
-    new_price_currency: 'EUR',
-    price_change_amount: euPriceHistory.changeAmount || null,
-    price_change_percentage: euPriceHistory.changePercentage || null,
-    product_name: productName,
-    change_detected_at: now,
-    scan_id: scanId,
-    is_first_check: euPriceHistory.isFirstCheck
-  });
-  
-  try {
-    // Insert into asin_price_history
-    await supabase
-      .from('asin_price_history')
-      .insert(priceHistoryInserts);
-      
-    // Upsert into latest_asin_price_history
-    await supabase
-      .from('latest_asin_price_history')
-      .upsert(priceHistoryInserts, { 
-        onConflict: 'user_id,asin,marketplace',
-        ignoreDuplicates: false 
-      });
-  } catch (error) {
-    console.error('Error updating price history:', error);
-  }
-  
-  return {
-    uk: ukPriceHistory,
-    bestEu: euPriceHistory
-  };
-}
+    if (typeof body.csv === 'string' && body.csv.trim()) {
+      source = new CsvProductSource(body.csv, body.fileName);
+    } else {
+      if (!body.asins || !Array.isArray(body.asins) || body.asins.length === 0) {
+        throw new ValidationError('ASINs array is required', 'asins');
+      }
 
-interface StreamMessage {
-  type: 'progress' | 'opportunity' | 'complete' | 'error';
-  data: any;
-}
+      if (normalizeAsins(body.asins).length === 0) {
+        throw new ValidationError('No valid ASINs provided', 'asins');
+      }
 
-interface PriceHistoryInfo {
-  oldPrice?: number;
-  newPrice: number;
-  changeAmount?: number | null;
-  changePercentage?: number | null;
-  isFirstCheck: boolean;
-  lastChecked?: string;
-}
+      source = new AsinListProductSource(body.asins, 'ASIN Checker (Stream)');
+    }
 
-interface PriceHistory {
-  uk: PriceHistoryInfo;
-  bestEu: PriceHistoryInfo & { marketplace: string };
-}
+    if (body.direction !== undefined && !isScanDirection(body.direction)) {
+      throw new ValidationError('Invalid scan direction', 'direction');
+    }
 
-export async function POST(request: NextRequest) {
-  try {
-    // Validate authentication
-    const user = await validateApiRequest(request);
-    
-    // Validate request body
-    const body = await request.json();
-    if (!body.asins || !Array.isArray(body.asins) || body.asins.length === 0) {
-      throw new ValidationError('ASINs array is required', 'asins');
+    if (body.profileId !== undefined && typeof body.profileId !== 'string') {
+      throw new ValidationError('Invalid sourcing profile', 'profileId');
     }
-    
-    const asins = body.asins;
+
+    const direction = body.direction || DEFAULT_SCAN_DIRECTION;
     const includeKeepa = body.includeKeepa !== false; // Default to true for backward compatibility
     const includeAIAnalysis = body.includeAIAnalysis !== false; // Default to true for enhanced analysis
 
     // Check required environment variables
     const envCheck = checkEnvVars({
-      supabase: { url: true, serviceKey: true },
-      aws: { accessKeyId: true, secretAccessKey: true },
-      amazon: { accessKeyId: true, secretAccessKey: true, refreshToken: true, marketplaceId: true }
+      supabase: { url: true, serviceKey: true }
     });
 
     if (!envCheck.success) {
@@ -238,839 +65,44 @@ export async function POST(request: NextRequest) {
       envCheck.values.supabaseServiceKey
     );
 
-    // Validate ASINs
-    const validASINs = asins.filter((asin: string) => /^[A-Z0-9]{10}$/i.test(asin)).map((a: string) => a.toUpperCase());
-    if (validASINs.length === 0) {
-      throw new ValidationError('No valid ASINs provided', 'asins');
-    }
-
-    // Create streaming response
-    const stream = new ReadableStream({
-      async start(controller) {
-        let isControllerClosed = false;
-        
-        const originalClose = controller.close.bind(controller);
-        controller.close = () => {
-          isControllerClosed = true;
-          originalClose();
-        };
-
-        const sendMessage = (message: StreamMessage) => {
-          if (!isControllerClosed) {
-            try {
-              const data = `data: ${JSON.stringify(message)}\n\n`;
-              controller.enqueue(new TextEncoder().encode(data));
-            } catch (error) {
-              console.log('[STREAM] Controller is closed, skipping message:', message.type);
-            }
-          }
-        };
-
-        let scanId: string | null = null;
-        const rateLimiter = new RateLimiter();
-
-        // Helper function to update scan progress
-        const updateScanProgress = async (progress: number, step: string, processedCount: number = 0) => {
-          if (!scanId) return;
-          try {
-            await supabase
-              .from('arbitrage_scans')
-              .update({
-                progress_percentage: Math.min(100, Math.round(progress)),
-                current_step: step,
-                processed_count: processedCount,
-                last_updated: new Date().toISOString()
-              })
-              .eq('id', scanId);
-          } catch (error) {
-            console.error('Failed to update scan progress:', error);
-          }
-        };
-
-        try {
-          sendMessage({ type: 'progress', data: { step: 'Initializing scan...', progress: 0 } });
-
-          // Create scan record
-          const { data: scan, error: scanError } = await supabase
-            .from('arbitrage_scans')
-            .insert({
-              user_id: user.id,
-              scan_type: 'asin_check',
-              storefront_name: 'ASIN Checker (Stream)',
-              status: 'running',
-              metadata: {
-                exchange_rate: EUR_TO_GBP_RATE,
-                marketplaces: Object.keys(MARKETPLACES),
-                asins_count: validASINs.length,
-                batch_size: RATE_LIMITS.COMPETITIVE_PRICING.itemsPerRequest,
-                include_keepa: includeKeepa,
-                include_ai_analysis: includeAIAnalysis
-              }
-            })
-            .select()
-            .single();
-
-          if (scanError || !scan) {
-            sendMessage({ type: 'error', data: { error: 'Failed to create scan record' } });
-            return;
-          }
-
-          scanId = scan.id;
-
-          // Initialize SP-API clients
-          const credentials = {
-            accessKeyId: envCheck.values.awsAccessKeyId,
-            secretAccessKey: envCheck.values.awsSecretAccessKey,
-            sessionToken: undefined,
-            region: envCheck.values.awsRegion || 'eu-west-1',
-          };
-          
-          const spApiConfig = {
-            clientId: envCheck.values.amazonAccessKeyId,
-            clientSecret: envCheck.values.amazonSecretAccessKey,
-            refreshToken: envCheck.values.amazonRefreshToken,
-            marketplaceId: MARKETPLACES.UK.id,
-            region: 'eu' as const,
-          };
-
-          const pricingClient = new SPAPICompetitivePricingClient(credentials, spApiConfig);
-          const feesClient = new SPAPIProductFeesClient(credentials, spApiConfig);
-          const catalogClient = new SPAPICatalogClient(credentials, spApiConfig);
-          
-          // Initialize Keepa service if API key is available and requested
-          let keepaService: KeepaProductService | null = null;
-          let keepaComprehensiveApi: KeepaComprehensiveAPI | null = null;
-          let aiAnalyzer: AIDealAnalyzer | null = null;
-          
-          const keepaApiKey = process.env.KEEPA_API_KEY;
-          if (keepaApiKey && includeKeepa) {
-            console.log('[KEEPA] API key found, initializing service for user:', user.id);
-            keepaService = new KeepaProductService(keepaApiKey, user.id, 2); // UK domain
-            
-            // Initialize AI services if requested
-            if (includeAIAnalysis) {
-              console.log('[AI] Initializing comprehensive Keepa API and AI analyzer');
-              keepaComprehensiveApi = new KeepaComprehensiveAPI(keepaApiKey, 2);
-              aiAnalyzer = new AIDealAnalyzer();
-            }
-          } else {
-            const reason = !keepaApiKey ? 'No API key found in environment' : 'Disabled for faster processing';
-            console.log(`[KEEPA] ${reason} - SPM data will use BSR estimates only`);
-            
-            // Send progress message to UI about Keepa status
-            sendMessage({ 
-              type: 'progress', 
-              data: { 
-                step: `Keepa SPM disabled: ${reason}. Using BSR estimates for sales data.`, 
-                progress: 5,
-                keepaStatus: 'disabled',
-                keepaReason: reason
-              } 
-            });
-          }
-
-          // Initialize blacklist service
-          const blacklistService = new BlacklistService(
-            envCheck.values.supabaseUrl,
-            envCheck.values.supabaseServiceKey
-          );
-          
-          const blacklistedAsins = await blacklistService.getBlacklistedAsins(user.id);
-          const { filteredProducts, excludedCount } = blacklistService.filterBlacklistedProducts(
-            validASINs.map((asin: string) => ({ asin })),
-            blacklistedAsins
-          );
-
-          const finalAsins = filteredProducts.map(p => p.asin);
-          
-          // Check Keepa token availability
-          let keepaTokenStatus = null;
-          if (keepaService) {
-            try {
-              const tokenStatus = await keepaService.getTokenStatus();
-              const estimateInfo = await keepaService.estimateProcessingTime(finalAsins.length, true);
-              keepaTokenStatus = {
-                available: tokenStatus.availableTokens,
-                needed: estimateInfo.tokensNeeded,
-                waitTime: estimateInfo.waitTimeMs,
-              };
-              
-              console.log('[KEEPA] Token status check:', {
-                available: tokenStatus.availableTokens,
-                needed: estimateInfo.tokensNeeded,
-                sufficient: tokenStatus.availableTokens >= estimateInfo.tokensNeeded,
-                waitTime: estimateInfo.waitTimeMs
-              });
-              
-              if (estimateInfo.waitTimeMs > 0) {
-                sendMessage({ 
-                  type: 'progress', 
-                  data: { 
-                    step: `Keepa tokens: ${tokenStatus.availableTokens} available, ${estimateInfo.tokensNeeded} needed. Wait time: ${Math.ceil(estimateInfo.waitTimeMs / 1000)}s`, 
-                    progress: 3,
-                    scanId,
-                    keepaTokens: {
-                      available: tokenStatus.availableTokens,
-                      needed: estimateInfo.tokensNeeded,
-                      sufficient: tokenStatus.availableTokens >= estimateInfo.tokensNeeded
-                    }
-                  } 
-                });
-              } else {
-                sendMessage({ 
-                  type: 'progress', 
-                  data: { 
-                    step: `Keepa ready: ${tokenStatus.availableTokens} tokens available for ${estimateInfo.tokensNeeded} needed`, 
-                    progress: 3,
-                    scanId,
-                    keepaTokens: {
-                      available: tokenStatus.availableTokens,
-                      needed: estimateInfo.tokensNeeded,
-                      sufficient: tokenStatus.availableTokens >= estimateInfo.tokensNeeded
-                    }
-                  } 
-                });
-              }
-              
-              if (tokenStatus.availableTokens < estimateInfo.tokensNeeded) {
-                sendMessage({ 
-                  type: 'progress', 
-                  data: { 
-                    step: `⚠️ Warning: Only ${tokenStatus.availableTokens} Keepa tokens available, ${estimateInfo.tokensNeeded} needed. SPM data will be limited.`, 
-                    progress: 4,
-                    keepaWarning: true
-                  } 
-                });
-              }
-              
-            } catch (error) {
-              console.error('[KEEPA] Error checking token status:', error);
-              sendMessage({ 
-                type: 'progress', 
-                data: { 
-                  step: `Keepa token check failed: ${error instanceof Error ? error.message : 'Unknown error'}. SPM data may be unavailable.`, 
-                  progress: 3,
-                  keepaError: true
-                } 
-              });
-            }
-          }
-          
-          if (excludedCount > 0) {
-            sendMessage({ 
-              type: 'progress', 
-              data: { 
-                step: `Excluded ${excludedCount} blacklisted ASINs. Processing ${finalAsins.length} ASINs...`, 
-                progress: 5,
-                scanId,
-                keepaTokenStatus
-              } 
-            });
-          }
-
-          // STREAMING APPROACH: Process each batch completely before moving to next
-          const batchSize = RATE_LIMITS.COMPETITIVE_PRICING.itemsPerRequest;
-          let totalProcessed = 0;
-          let opportunitiesFound = 0;
-
-          // Process in batches
-          for (let batchStart = 0; batchStart < finalAsins.length; batchStart += batchSize) {
-            const batchEnd = Math.min(batchStart + batchSize, finalAsins.length);
-            const batchAsins = finalAsins.slice(batchStart, batchEnd);
-            const batchNumber = Math.floor(batchStart / batchSize) + 1;
-            const totalBatches = Math.ceil(finalAsins.length / batchSize);
-            
-            // Update progress for this batch
-            const batchProgress = (batchStart / finalAsins.length) * 100;
-            const progressMessage = `Processing batch ${batchNumber}/${totalBatches} (ASINs ${batchStart + 1}-${batchEnd} of ${finalAsins.length})`;
-            
-            sendMessage({ 
-              type: 'progress', 
-              data: { 
-                step: progressMessage,
-                progress: batchProgress,
-                scanId,
-                processedCount: totalProcessed,
-                totalAsins: finalAsins.length
-              } 
-            });
-            
-            await updateScanProgress(batchProgress, progressMessage, totalProcessed);
-
-            // Fetch price history for this batch
-            const priceHistoryMap = await getPriceHistory(supabase, user.id, batchAsins);
-
-            try {
-              // Step 1: Fetch UK pricing for this batch
-              await rateLimiter.throttle('uk-pricing', RATE_LIMITS.COMPETITIVE_PRICING.minInterval);
-              
-              const ukPricingBatch = await pricingClient.getCompetitivePricing(
-                batchAsins,
-                MARKETPLACES.UK.id,
-                'Asin',
-                'Consumer'
-              );
-
-              // Parse UK pricing
-              const ukPricingMap = new Map<string, any>();
-              for (const product of ukPricingBatch) {
-                if (product.asin) {
-                  const competitivePrices = (product.competitivePricing as any)?.CompetitivePrices || [];
-                  const newConditionPrices = competitivePrices.filter(
-                    (cp: any) => cp.condition === 'New' || !cp.condition
-                  );
-                  
-                  if (newConditionPrices.length > 0) {
-                    const priceData = newConditionPrices[0];
-                    if (priceData?.Price) {
-                      const listingPrice = priceData.Price.ListingPrice || priceData.Price.LandedPrice;
-                      if (listingPrice?.Amount) {
-                        ukPricingMap.set(product.asin, {
-                          price: listingPrice.Amount,
-                          currency: listingPrice.CurrencyCode,
-                          numberOfOffers: (product.competitivePricing as any)?.NumberOfOfferListings?.find(
-                            (l: any) => l.condition === 'New'
-                          )?.Count || 0,
-                          salesRankings: product.salesRankings
-                        });
-                      }
-                    }
-                  }
-                }
-              }
-
-              // Step 2: Fetch EU pricing for this batch (all marketplaces in parallel)
-              const euPricingMap = new Map<string, Map<string, any>>();
-              const euMarketplaces = Object.entries(MARKETPLACES).filter(([key]) => key !== 'UK');
-              
-              const euPromises = euMarketplaces.map(async ([country, marketplace]) => {
-                try {
-                  await rateLimiter.throttle(`eu-pricing-${country}`, RATE_LIMITS.COMPETITIVE_PRICING.minInterval);
-                  
-                  const euPricingBatch = await pricingClient.getCompetitivePricing(
-                    batchAsins,
-                    marketplace.id,
-                    'Asin',
-                    'Consumer'
-                  );
-
-                  for (const product of euPricingBatch) {
-                    if (product.asin) {
-                      const competitivePrices = (product.competitivePricing as any)?.CompetitivePrices || [];
-                      const newConditionPrices = competitivePrices.filter(
-                        (cp: any) => cp.condition === 'New' || !cp.condition
-                      );
-                      
-                      if (newConditionPrices.length > 0) {
-                        const priceData = newConditionPrices[0];
-                        if (priceData?.Price) {
-                          const listingPrice = priceData.Price.ListingPrice || priceData.Price.LandedPrice;
-                          if (listingPrice?.Amount) {
-                            if (!euPricingMap.has(product.asin)) {
-                              euPricingMap.set(product.asin, new Map());
-                            }
-                            euPricingMap.get(product.asin)!.set(country, {
-                              price: listingPrice.Amount,
-                              currency: listingPrice.CurrencyCode || marketplace.currency
-                            });
-                          }
-                        }
-                      }
-                    }
-                  }
-                } catch (error) {
-                  console.error(`EU pricing error for ${country}:`, error);
-                }
-              });
-
-              await Promise.all(euPromises);
-
-              // Step 3: Analyze each ASIN in this batch immediately
-              for (const asin of batchAsins) {
-                const ukPricing = ukPricingMap.get(asin);
-                if (!ukPricing?.price) {
-                  totalProcessed++;
-                  continue;
-                }
-
-                try {
-                  // Get catalog data
-                  let productName = asin;
-                  let productImage = '';
-                  let salesRank = 0;
-                  
-                  try {
-                    await rateLimiter.throttle('catalog', RATE_LIMITS.CATALOG.minInterval);
-                    
-                    const catalogData = await catalogClient.getCatalogItem(
-                      asin,
-                      [MARKETPLACES.UK.id],
-                      ['attributes', 'images', 'salesRanks', 'summaries']
-                    );
-                    
-                    // Try multiple sources for the product title
-                    if (catalogData?.attributes?.title?.[0]?.value) {
-                      productName = catalogData.attributes.title[0].value;
-                    } else if (catalogData?.summaries?.[0]?.itemName) {
-                      productName = catalogData.summaries[0].itemName;
-                    } else if (catalogData?.attributes?.item_name?.[0]?.value) {
-                      productName = catalogData.attributes.item_name[0].value;
-                    }
-                    
-                    // Log if we couldn't find a title
-                    if (productName === asin) {
-                      console.log(`No title found for ASIN ${asin}, using ASIN as name. Available data:`, {
-                        hasAttributes: !!catalogData?.attributes,
-                        hasSummaries: !!catalogData?.summaries,
-                        attributeKeys: catalogData?.attributes ? Object.keys(catalogData.attributes) : []
-                      });
-                    }
-                    if (catalogData?.images?.[0]?.images?.[0]?.link) {
-                      productImage = catalogData.images[0].images[0].link;
-                    }
-                    if (catalogData?.salesRanks?.[0]?.ranks?.[0]?.rank) {
-                      salesRank = catalogData.salesRanks[0].ranks[0].rank;
-                    }
-                  } catch (catalogError) {
-                    console.error('Catalog error for', asin, catalogError);
-                  }
-
-                  let salesPerMonth = salesRank > 0 ? estimateMonthlySalesFromRank(salesRank) : 0;
-                  let keepaSalesData = null;
-                  let keepaGraphUrl = null;
-                  
-                  // Fetch Keepa data if service is available
-                  if (keepaService) {
-                    try {
-                      console.log(`[KEEPA] Fetching data for ASIN: ${asin}`);
-                      const keepaResult = await keepaService.enrichProduct(asin, true);
-                      if (keepaResult.keepaData) {
-                        keepaSalesData = keepaResult.keepaData;
-                        keepaGraphUrl = keepaResult.graphUrl;
-                        console.log(`[KEEPA] Data received for ${asin}:`, {
-                          estimatedSales: keepaSalesData.estimatedMonthlySales,
-                          salesDrops30d: keepaSalesData.salesDrops30d,
-                          salesDrops90d: keepaSalesData.salesDrops90d,
-                          competitors: keepaSalesData.competitorCount
-                        });
-                        
-                        // Use Keepa's more accurate sales estimate if available
-                        if (keepaSalesData.estimatedMonthlySales && keepaSalesData.estimatedMonthlySales > 0) {
-                          salesPerMonth = keepaSalesData.estimatedMonthlySales;
-                          console.log(`[SPM] ASIN ${asin}: Updated SPM from Keepa data (${keepaSalesData.estimatedMonthlySales}/mo, source: ${keepaSalesData.spmDataSource}, confidence: ${keepaSalesData.spmConfidence})`);
-                        } else if (salesPerMonth > 0) {
-                          console.log(`[SPM] ASIN ${asin}: Using BSR estimate (${salesPerMonth}/mo from rank ${salesRank})`);
-                        } else {
-                          console.log(`[SPM] ASIN ${asin}: No SPM data available (Keepa: ${keepaSalesData.estimatedMonthlySales || 'null'}, BSR est: ${salesPerMonth})`);
-                        }
-                        
-                        // Update product name if not found from catalog
-                        if (productName === asin && keepaSalesData.title) {
-                          productName = keepaSalesData.title;
-                        }
-                        
-                        // Update product image if not found from catalog
-                        if (!productImage && keepaSalesData.mainImage) {
-                          productImage = keepaSalesData.mainImage;
-                        }
-                      } else {
-                        console.log(`[KEEPA] No data returned for ASIN: ${asin} - may be unlisted or have no sales history`);
-                      }
-                    } catch (keepaError) {
-                      console.error(`[KEEPA] Error fetching data for ASIN ${asin}:`, {
-                        error: keepaError instanceof Error ? keepaError.message : String(keepaError),
-                        asin,
-                        timestamp: new Date().toISOString()
-                      });
-                      
-                      // Log additional context for debugging
-                      if (keepaError && typeof keepaError === 'object' && 'response' in keepaError) {
-                        const axiosError = keepaError as any;
-                        console.error(`[KEEPA] HTTP Error details for ${asin}:`, {
-                          status: axiosError.response?.status,
-                          statusText: axiosError.response?.statusText,
-                          data: axiosError.response?.data
-                        });
-                      }
-                      
-                      // Continue without Keepa data - this is expected behavior
-                    }
-                  } else {
-                    console.log('[KEEPA] Service not available, skipping Keepa data fetch');
-                  }
-
-                  // Calculate fees
-                  await rateLimiter.throttle('fees', RATE_LIMITS.PRODUCT_FEES.minInterval);
-                  
-                  const feesEstimate = await feesClient.getMyFeesEstimateForASIN(
-                    asin,
-                    {
-                      listingPrice: {
-                        currencyCode: 'GBP',
-                        amount: ukPricing.price
-                      }
-                    },
-                    MARKETPLACES.UK.id
-                  );
-
-                  if (feesEstimate.status === 'Success' && feesEstimate.feesEstimate) {
-                    const fees = feesEstimate.feesEstimate;
-                    const feeDetails = fees.feeDetailList || [];
-                    
-                    const referralFee = feeDetails.find(f => f.feeType === 'ReferralFee')?.finalFee.amount || 0;
-                    const amazonFees = fees.totalFeesEstimate?.amount || 0;
-                    const digitalServicesFee = amazonFees * 0.02;
-
-                    // Check EU prices for opportunities
-                    const euPrices: any[] = [];
-                    let bestOpportunity: any = null;
-                    const euPricingForAsin = euPricingMap.get(asin);
-
-                    if (euPricingForAsin) {
-                      for (const [country, pricing] of euPricingForAsin.entries()) {
-                        const sourcePrice = pricing.price;
-                        const sourcePriceGBP = pricing.currency === 'EUR' 
-                          ? sourcePrice * EUR_TO_GBP_RATE 
-                          : sourcePrice;
-
-                        const vatRate = 0.20;
-                        const vatOnSale = ukPricing.price / (1 + vatRate) * vatRate;
-                        const netRevenue = ukPricing.price - vatOnSale;
-                        const totalCosts = sourcePriceGBP + amazonFees + digitalServicesFee;
-                        const profit = netRevenue - totalCosts;
-                        const roi = (profit / sourcePriceGBP) * 100;
-                        const profitMargin = (profit / netRevenue) * 100;
-
-                        const marketplacePrice = {
-                          marketplace: country,
-                          sourcePrice,
-                          sourcePriceGBP,
-                          profit,
-                          profitMargin,
-                          roi,
-                          totalCost: totalCosts
-                        };
-
-                        euPrices.push(marketplacePrice);
-
-                        if (!bestOpportunity || roi > bestOpportunity.roi) {
-                          bestOpportunity = marketplacePrice;
-                        }
-                      }
-                    }
-
-                    if (bestOpportunity) {
-                      const profitCategory = categorizeProfitLevel(bestOpportunity.profit);
-                      
-                      if (bestOpportunity.profit > 0) {
-                        opportunitiesFound++;
-                      }
-
-                      // Update price history and get change information
-                      const previousPrices = priceHistoryMap.get(asin) || new Map();
-                      const priceHistory = scanId ? await updatePriceHistory(
-                        supabase,
-                        user.id,
-                        scanId,
-                        asin,
-                        productName,
-                        ukPricing.price,
-                        bestOpportunity.sourcePrice,
-                        bestOpportunity.marketplace,
-                        previousPrices
-                      ) : {
-                        uk: { newPrice: ukPricing.price, isFirstCheck: true },
-                        bestEu: { marketplace: bestOpportunity.marketplace, newPrice: bestOpportunity.sourcePrice, isFirstCheck: true }
-                      };
-
-                      // Save to database
-                      if (scanId) {
-                        await supabase
-                          .from('arbitrage_opportunities')
-                          .insert({
-                            scan_id: scanId,
-                            asin,
-                            product_name: productName,
-                            product_image: productImage,
-                            target_price: ukPricing.price,
-                            amazon_fees: amazonFees,
-                            referral_fee: referralFee,
-                            digital_services_fee: digitalServicesFee,
-                            uk_competitors: ukPricing.numberOfOffers,
-                            uk_sales_rank: salesRank,
-                            sales_per_month: salesPerMonth,
-                            best_source_marketplace: bestOpportunity.marketplace,
-                            best_source_price: bestOpportunity.sourcePrice,
-                            best_source_price_gbp: bestOpportunity.sourcePriceGBP,
-                            best_profit: bestOpportunity.profit,
-                            best_roi: bestOpportunity.roi,
-                            profit_category: profitCategory,
-                            all_marketplace_prices: { euPrices },
-                            keepa_sales_data: keepaSalesData,
-                            keepa_graph_url: keepaGraphUrl,
-                            spm_data_source: keepaSalesData?.spmDataSource || (salesPerMonth > 0 ? 'estimate' : 'none'),
-                            spm_confidence: keepaSalesData?.spmConfidence || (salesPerMonth > 0 ? 'low' : 'none')
-                          });
-                      }
-
-                      // Perform AI Analysis if enabled and services available
-                      let aiAnalysis = null;
-                      if (includeAIAnalysis && keepaComprehensiveApi && aiAnalyzer && bestOpportunity.profit > 0) {
-                        try {
-                          console.log(`[AI] Starting analysis for profitable ASIN: ${asin}`);
-                          
-                          // Get comprehensive Keepa data for AI analysis
-                          const comprehensiveData = await keepaComprehensiveApi.getComprehensiveData(asin, {
-                            includePriceHistory: false, // Skip history for speed in real-time
-                            includeOfferHistory: true,
-                            includeRankHistory: false,
-                            daysBack: 90, // 3 months for real-time analysis
-                            includeReviews: false
-                          });
-                          
-                          if (comprehensiveData) {
-                            // Override Keepa FBA count with accurate SP-API data
-                            const correctedComprehensiveData = {
-                              ...comprehensiveData,
-                              fbaOfferCount: ukPricing.numberOfOffers, // Use SP-API count instead of Keepa's potentially inaccurate count
-                              totalOfferCount: ukPricing.numberOfOffers
-                            };
-                            
-                            // Prepare arbitrage context for AI
-                            const arbitrageContext = {
-                              buyPrice: bestOpportunity.sourcePriceGBP,
-                              sellPrice: ukPricing.price,
-                              profit: bestOpportunity.profit,
-                              roi: bestOpportunity.roi
-                            };
-                            
-                            // Generate AI analysis with corrected competition data and OpenAI enhancement
-                            aiAnalysis = await aiAnalyzer.analyzeComprehensively(correctedComprehensiveData, arbitrageContext, { 
-                              useOpenAI: true // Enable OpenAI enhancement for streaming analysis
-                            });
-                            
-                            // Store AI analysis in database for this opportunity
-                            if (scanId) {
-                              const { data: savedAnalysis } = await supabase
-                                .from('ai_deal_analysis')
-                                .insert({
-                                  asin,
-                                  user_id: user.id,
-                                  ai_score: aiAnalysis.aiScore,
-                                  confidence_percentage: aiAnalysis.confidence,
-                                  deal_classification: aiAnalysis.dealType,
-                                  sales_score: aiAnalysis.salesScore,
-                                  price_score: aiAnalysis.priceScore,
-                                  competition_score: aiAnalysis.competitionScore,
-                                  opportunity_score: aiAnalysis.opportunityScore,
-                                  risk_score: aiAnalysis.riskScore,
-                                  predicted_price_30d: aiAnalysis.predictedPriceIn30Days,
-                                  predicted_sales_30d: aiAnalysis.predictedSalesIn30Days,
-                                  optimal_buy_timing: aiAnalysis.optimalBuyingWindow,
-                                  price_trend: aiAnalysis.priceTrend,
-                                  sales_trend: aiAnalysis.salesTrend,
-                                  competition_trend: aiAnalysis.competitionTrend,
-                                  current_price_percentile: aiAnalysis.currentPricePercentile,
-                                  sales_velocity_rank: aiAnalysis.salesVelocityRank,
-                                  top_insights: aiAnalysis.topInsights,
-                                  warnings: aiAnalysis.warnings,
-                                  opportunities: aiAnalysis.opportunities,
-                                  keepa_data_snapshot: correctedComprehensiveData,
-                                  arbitrage_context: arbitrageContext,
-                                  data_completeness: comprehensiveData.dataCompleteness,
-                                  keepa_data_source: comprehensiveData.spmDataSource,
-                                  keepa_confidence: comprehensiveData.spmConfidence,
-                                })
-                                .select('id')
-                                .single();
-                              
-                              // Store OpenAI enhanced analysis if available
-                              if (aiAnalysis.openaiAnalysis && savedAnalysis) {
-                                await supabase
-                                  .from('openai_analysis')
-                                  .insert({
-                                    asin,
-                                    user_id: user.id,
-                                    base_ai_analysis_id: savedAnalysis.id,
-                                    gpt_insights: aiAnalysis.openaiAnalysis.gptInsights,
-                                    gpt_quality_score: aiAnalysis.openaiAnalysis.gptQualityScore,
-                                    gpt_confidence: aiAnalysis.openaiAnalysis.gptConfidence,
-                                    gpt_price_prediction: aiAnalysis.openaiAnalysis.gptPricePrediction,
-                                    gpt_sales_prediction: aiAnalysis.openaiAnalysis.gptSalesPrediction,
-                                    gpt_timing_recommendation: aiAnalysis.openaiAnalysis.gptTimingRecommendation,
-                                    gpt_risks: aiAnalysis.openaiAnalysis.gptRisks,
-                                    gpt_opportunities: aiAnalysis.openaiAnalysis.gptOpportunities,
-                                    category_specific_insights: aiAnalysis.openaiAnalysis.categorySpecificInsights,
-                                    seasonal_factors: aiAnalysis.openaiAnalysis.seasonalFactors,
-                                    market_context_analysis: aiAnalysis.openaiAnalysis.marketContextAnalysis,
-                                    score_adjustment: aiAnalysis.openaiAnalysis.scoreAdjustment,
-                                    adjustment_reason: aiAnalysis.openaiAnalysis.adjustmentReason,
-                                    prompt_tokens: aiAnalysis.openaiAnalysis.promptTokens,
-                                    completion_tokens: aiAnalysis.openaiAnalysis.completionTokens,
-                                    estimated_cost: aiAnalysis.openaiAnalysis.estimatedCost,
-                                  });
-                              }
-                            }
-                            
-                            console.log(`[AI] Analysis complete for ${asin}: Score ${aiAnalysis.aiScore}/1000, Classification: ${aiAnalysis.dealType}`);
-                          }
-                        } catch (aiError) {
-                          console.error(`[AI] Error analyzing ${asin}:`, aiError);
-                          // Continue without AI analysis - don't fail the entire opportunity
-                        }
-                      }
-
-                      // IMMEDIATELY send opportunity to UI (now with AI analysis)
-                      const opportunity = {
-                        asin,
-                        productName,
-                        productImage,
-                        targetPrice: ukPricing.price,
-                        amazonFees,
-                        referralFee,
-                        digitalServicesFee,
-                        keepaSalesData,
-                        keepaGraphUrl,
-                        ukCompetitors: ukPricing.numberOfOffers,
-                        ukSalesRank: salesRank,
-                        salesPerMonth,
-                        euPrices: euPrices.sort((a, b) => b.roi - a.roi),
-                        bestOpportunity,
-                        profitCategory,
-                        priceHistory,
-                        aiAnalysis: aiAnalysis ? {
-                          aiScore: aiAnalysis.aiScore,
-                          dealClassification: aiAnalysis.dealType,
-                          confidence: aiAnalysis.confidence,
-                          priceTrend: aiAnalysis.priceTrend,
-                          salesTrend: aiAnalysis.salesTrend,
-                          competitionTrend: aiAnalysis.competitionTrend,
-                          currentPricePercentile: aiAnalysis.currentPricePercentile,
-                          salesVelocityRank: aiAnalysis.salesVelocityRank,
-                          optimalBuyingWindow: aiAnalysis.optimalBuyingWindow,
-                          topInsights: aiAnalysis.topInsights.slice(0, 3), // Top 3 for UI
-                          warnings: aiAnalysis.warnings.slice(0, 2), // Top 2 warnings
-                          scoreBreakdown: {
-                            sales: aiAnalysis.salesScore,
-                            price: aiAnalysis.priceScore,
-                            competition: aiAnalysis.competitionScore,
-                            opportunity: aiAnalysis.opportunityScore,
-                            risk: aiAnalysis.riskScore
-                          }
-                        } : null
-                      };
-
-                      sendMessage({ type: 'opportunity', data: opportunity });
-                    }
-                  }
-                } catch (error: any) {
-                  console.error(`Error processing ${asin}:`, error);
-                }
-
-                totalProcessed++;
-                
-                // Update progress after each ASIN
-                const currentProgress = (totalProcessed / finalAsins.length) * 100;
-                const currentStep = `Analyzed ${totalProcessed}/${finalAsins.length} ASINs, found ${opportunitiesFound} opportunities`;
-                
-                sendMessage({ 
-                  type: 'progress', 
-                  data: { 
-                    step: currentStep,
-                    progress: currentProgress,
-                    scanId,
-                    processedCount: totalProcessed,
-                    totalAsins: finalAsins.length,
-                    opportunitiesFound
-                  } 
-                });
-                
-                // Update database every 5 ASINs
-                if (totalProcessed % 5 === 0) {
-                  await updateScanProgress(currentProgress, currentStep, totalProcessed);
-                }
-              }
-
-            } catch (batchError: any) {
-              console.error(`Batch processing error:`, batchError);
-            }
-          }
-
-          // Update scan record as completed
-          if (scanId) {
-            await supabase
-              .from('arbitrage_scans')
-              .update({
-                status: 'completed',
-                total_products: validASINs.length,
-                unique_asins: finalAsins.length,
-                opportunities_found: opportunitiesFound,
-                completed_at: new Date().toISOString(),
-                progress_percentage: 100,
-                current_step: 'Analysis complete',
-                processed_count: finalAsins.length,
-                last_updated: new Date().toISOString()
-              })
-              .eq('id', scanId);
-          }
-
-          sendMessage({ 
-            type: 'complete', 
-            data: { 
-              totalAsins: finalAsins.length,
-              opportunitiesFound,
-              message: `Analysis complete! Analyzed ${finalAsins.length} ASINs and found ${opportunitiesFound} profitable opportunities.`,
-              scanId
-            } 
-          });
-
-        } catch (error: any) {
-          console.error('Streaming analysis error:', error);
-          
-          if (scanId) {
-            await supabase
-              .from('arbitrage_scans')
-              .update({
-                status: 'failed',
-                error_message: error.message || 'Analysis failed',
-                completed_at: new Date().toISOString()
-              })
-              .eq('id', scanId);
-          }
-          
-          sendMessage({ 
-            type: 'error', 
-            data: { error: error.message || 'Analysis failed' } 
-          });
-        } finally {
-          controller.close();
+    initializeContainer(supabase);
+
+    const scanEngine = container.resolve<ArbitrageAnalysisServiceV3>(TOKENS.ScanEngine);
+    const streamingService = container.resolve<StreamingService>(TOKENS.StreamingService);
+
+    const stream = streamingService.createSSEStream(
+      scanEngine.analyzeProductsStream(source, {
+        userId: user.id,
+        direction,
+        profileId: body.profileId,
+        enrichments: {
+          priceHistory: true,
+          keepa: { includeKeepa, includeAIAnalysis }
+        },
+        metadata: {
+          include_keepa: includeKeepa,
+          include_ai_analysis: includeAIAnalysis
         }
-      }
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+      }),
+      message => message
+    );
 
+    return streamingService.createSSEResponse(stream);
   } catch (error) {
     console.error('Request error:', error);
-    
+
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: 401 });
     }
-    
+
     if (error instanceof ValidationError) {
       return NextResponse.json({ error: error.message, field: error.field }, { status: 400 });
     }
-    
+
     if (error instanceof AppError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
     }
-    
+
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
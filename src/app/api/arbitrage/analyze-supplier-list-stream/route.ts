@@ -0,0 +1,107 @@
+import 'reflect-metadata';
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { checkEnvVars } from '@/lib/env-check';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { ValidationError } from '@/lib/validation';
+import { AppError } from '@/lib/error-handling';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { toSupplierColumnMapping } from '@/lib/supplier-price-list';
+import { initializeContainer, container, TOKENS } from '@/infrastructure/container';
+import { ArbitrageAnalysisServiceV3 } from '@/services/arbitrage/ArbitrageAnalysisService.v3';
+import { StreamingService } from '@/services/streaming/StreamingService';
+import { SupplierPriceListProductSource } from '@/services/arbitrage/product-sources';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Validate authentication
+    const user = await validateApiRequest(request);
+
+    // Validate request body - the uploaded price list and how its columns map
+    const body = await request.json();
+
+    if (typeof body.fileBase64 !== 'string' || !body.fileBase64) {
+      throw new ValidationError('A CSV or XLSX file is required', 'file');
+    }
+
+    const supplierName = typeof body.supplierName === 'string' ? body.supplierName.trim() : '';
+    if (!supplierName) {
+      throw new ValidationError('Supplier name is required', 'supplierName');
+    }
+
+    const mapping = toSupplierColumnMapping(body.mapping);
+    if (!mapping) {
+      throw new ValidationError('Map the barcode and cost columns', 'mapping');
+    }
+
+    if (body.profileId !== undefined && typeof body.profileId !== 'string') {
+      throw new ValidationError('Invalid sourcing profile', 'profileId');
+    }
+
+    let rows: string[][];
+    try {
+      rows = readSpreadsheet(Buffer.from(body.fileBase64, 'base64'), body.fileName);
+    } catch (parseError) {
+      throw new ValidationError(
+        parseError instanceof Error ? parseError.message : 'Could not read the file',
+        'file'
+      );
+    }
+
+    const includeKeepa = body.includeKeepa !== false;
+
+    // Check required environment variables
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true }
+    });
+
+    if (!envCheck.success) {
+      throw new AppError('Service temporarily unavailable', 503, 'SERVICE_UNAVAILABLE');
+    }
+
+    const supabase = createClient(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    );
+
+    initializeContainer(supabase);
+
+    const scanEngine = container.resolve<ArbitrageAnalysisServiceV3>(TOKENS.ScanEngine);
+    const streamingService = container.resolve<StreamingService>(TOKENS.StreamingService);
+
+    const source = new SupplierPriceListProductSource(rows, mapping, supplierName, body.fileName);
+
+    // Supplier deals have no EU price to compare, so the AI EU-vs-UK analysis doesn't apply
+    const stream = streamingService.createSSEStream(
+      scanEngine.analyzeProductsStream(source, {
+        userId: user.id,
+        profileId: body.profileId,
+        enrichments: {
+          keepa: { includeKeepa, includeAIAnalysis: false }
+        },
+        metadata: {
+          include_keepa: includeKeepa
+        }
+      }),
+      message => message
+    );
+
+    return streamingService.createSSEResponse(stream);
+  } catch (error) {
+    console.error('Request error:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, field: error.field }, { status: 400 });
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
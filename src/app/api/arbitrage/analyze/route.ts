@@ -3,18 +3,12 @@ import { createClient } from '@supabase/supabase-js';
 import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
 import { SPAPIProductFeesClient } from '@/lib/sp-api-product-fees';
 import { checkEnvVars } from '@/lib/env-check';
+import { exchangeRateService, convertWithSnapshot } from '@/lib/exchange-rates';
+import { MARKETPLACES, getScanMarketplaces, getMarketplaceCurrencies } from '@/lib/amazon-marketplaces';
 
 // Marketplace IDs
-const MARKETPLACES = {
-  UK: { id: 'A1F83G8C2ARO7P', currency: 'GBP', region: 'eu' },
-  DE: { id: 'A1PA6795UKMFR9', currency: 'EUR', region: 'eu' },
-  FR: { id: 'A13V1IB3VIYZZH', currency: 'EUR', region: 'eu' },
-  IT: { id: 'APJ6JRA9NG5V4', currency: 'EUR', region: 'eu' },
-  ES: { id: 'A1RKKUPIHCS9HS', currency: 'EUR', region: 'eu' }
-};
 
 // Current EUR to GBP exchange rate (you should fetch this from an API)
-const EUR_TO_GBP_RATE = 0.86; // Example rate
 
 interface EUMarketplacePrice {
   marketplace: string;
@@ -102,6 +96,10 @@ export async function POST(request: NextRequest) {
     const pricingClient = new SPAPICompetitivePricingClient(credentials, spApiConfig);
     const feesClient = new SPAPIProductFeesClient(credentials, spApiConfig);
 
+    const rateSnapshot = await exchangeRateService.getSnapshot(
+      getMarketplaceCurrencies()
+    );
+
     // Step 1: Fetch all ASINs from the storefront
     console.log('Fetching products for storefront:', storefrontId);
     
@@ -127,6 +125,7 @@ export async function POST(request: NextRequest) {
       .from('products')
       .select('*')
       .eq('storefront_id', storefrontId)
+      .is('removed_at', null)
       .limit(100); // Limit to prevent overwhelming the API
 
     console.log('Products query result:', { 
@@ -147,7 +146,8 @@ export async function POST(request: NextRequest) {
       const { count } = await supabase
         .from('products')
         .select('*', { count: 'exact', head: true })
-        .eq('storefront_id', storefrontId);
+        .eq('storefront_id', storefrontId)
+        .is('removed_at', null);
         
       console.log('Product count check:', count);
       
@@ -172,7 +172,7 @@ export async function POST(request: NextRequest) {
 
       try {
         // Step 2: Get competitive pricing for all marketplaces
-        const pricingPromises = Object.entries(MARKETPLACES).map(async ([country, marketplace]) => {
+        const pricingPromises = getScanMarketplaces().map(async ([country, marketplace]) => {
           try {
             console.log(`Fetching pricing for ${country} marketplace (${marketplace.id})`);
             const pricing = await pricingClient.getCompetitivePricing(
@@ -317,9 +317,7 @@ export async function POST(request: NextRequest) {
             const priceData = data as any;
             // Convert EUR to GBP
             const sourcePrice = priceData.price;
-            const sourcePriceGBP = priceData.currency === 'EUR' 
-              ? sourcePrice * EUR_TO_GBP_RATE 
-              : sourcePrice;
+            const sourcePriceGBP = convertWithSnapshot(sourcePrice, priceData.currency, rateSnapshot);
 
             console.log(`${asin} - ${country} Price: ${priceData.currency} ${sourcePrice} (£${sourcePriceGBP})`);
 
@@ -400,7 +398,7 @@ export async function POST(request: NextRequest) {
       totalOpportunities: opportunities.length,
       productsAnalyzed: products.length,
       errors: errors.length > 0 ? errors : undefined,
-      exchangeRate: EUR_TO_GBP_RATE
+      exchangeRate: rateSnapshot.rates.EUR
     });
 
   } catch (error: any) {
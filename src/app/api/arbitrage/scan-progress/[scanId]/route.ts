@@ -65,8 +65,16 @@ export async function GET(
         best_source_price_gbp,
         best_profit,
         best_roi,
+        landed_cost,
+        landed_profit,
+        landed_roi,
+        landed_cost_breakdown,
+        buy_box_analysis,
+        restriction_status,
         profit_category,
         all_marketplace_prices,
+        target_marketplace,
+        storefronts,
         keepa_sales_data,
         keepa_graph_url
       `)
@@ -164,6 +172,7 @@ export async function GET(
         id: scan.id,
         status: scan.status,
         scan_type: scan.scan_type,
+        direction: scan.direction,
         storefront_name: scan.storefront_name,
         started_at: scan.started_at,
         completed_at: scan.completed_at,
@@ -175,6 +184,8 @@ export async function GET(
         unique_asins: scan.unique_asins,
         opportunities_found: scan.opportunities_found || 0,
         last_updated: scan.last_updated,
+        resume_count: scan.resume_count || 0,
+        control_request: scan.control_request || null,
         metadata: scan.metadata
       },
       opportunities: opportunitiesWithPriceHistory,
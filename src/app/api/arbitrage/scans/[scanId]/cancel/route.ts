@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { AppError } from '@/lib/error-handling';
+import { cancelScan } from '@/services/arbitrage/scan-controls';
+
+// Cancel a paused scan, or ask the scan engine to stop after the current batch
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ scanId: string }> }
+) {
+  try {
+    // Validate authentication
+    const user = await validateApiRequest(request);
+    const { scanId } = await params;
+
+    if (!scanId) {
+      return NextResponse.json(
+        { error: 'Scan ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const result = await cancelScan(supabase, scanId, user.id);
+
+    return NextResponse.json({
+      success: true,
+      scanId: result.scanId,
+      status: result.status,
+      controlRequest: result.controlRequest
+    });
+
+  } catch (error) {
+    console.error('Error in scan cancel:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
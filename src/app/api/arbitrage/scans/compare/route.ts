@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { AppError } from '@/lib/error-handling';
+import { compareScans } from '@/services/arbitrage/scan-diff';
+
+// Diff two scans of the same storefront: GET /api/arbitrage/scans/compare?base=<scanId>&head=<scanId>
+export async function GET(request: NextRequest) {
+  try {
+    // Validate authentication
+    const user = await validateApiRequest(request);
+
+    const baseScanId = request.nextUrl.searchParams.get('base');
+    const headScanId = request.nextUrl.searchParams.get('head');
+
+    if (!baseScanId || !headScanId) {
+      return NextResponse.json(
+        { error: 'Both base and head scan IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const diff = await compareScans(supabase, user.id, baseScanId, headScanId);
+
+    return NextResponse.json({
+      success: true,
+      ...diff
+    });
+
+  } catch (error) {
+    console.error('Error comparing scans:', error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
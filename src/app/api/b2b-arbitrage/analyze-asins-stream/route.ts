@@ -8,16 +8,14 @@ import { validateApiRequest, AuthError } from '@/lib/auth';
 import { ValidationError } from '@/lib/validation';
 import { AppError } from '@/lib/error-handling';
 import { BlacklistService } from '@/lib/blacklist-service';
+import { findBlacklistRule } from '@/lib/blacklist-rules';
 import { calculateB2BProfit } from '@/lib/b2b-profit-calculator';
 import { estimateMonthlySalesFromRank } from '@/lib/sales-estimator';
 import { KeepaProductService } from '@/services/keepa-product-service';
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
 
-// UK Marketplace configuration
-const UK_MARKETPLACE = {
-  id: 'A1F83G8C2ARO7P',
-  currency: 'GBP',
-  region: 'eu' as const
-};
+// B2B arbitrage buys and sells within the UK marketplace
+const UK_MARKETPLACE = MARKETPLACES.UK;
 
 // Rate Limits Configuration - REDUCED for B2B to avoid quota issues
 const RATE_LIMITS = {
@@ -188,7 +186,7 @@ export async function POST(request: NextRequest) {
           const keepaApiKey = process.env.KEEPA_API_KEY;
           if (keepaApiKey) {
             console.log('[KEEPA] API key found, initializing service for B2B arbitrage');
-            keepaService = new KeepaProductService(keepaApiKey, user.id, 2); // UK domain
+            keepaService = new KeepaProductService(keepaApiKey, user.id, MARKETPLACES.UK.keepaDomainId ?? 2);
           }
 
           // Initialize blacklist service
@@ -198,6 +196,9 @@ export async function POST(request: NextRequest) {
           );
           
           const blacklistedAsins = await blacklistService.getBlacklistedAsins(user.id);
+          // Rules need catalog data, so they're checked per ASIN after its lookup
+          const blacklistRules = await blacklistService.getBlacklistRules(user.id);
+          const ruleExclusions: Record<string, number> = {};
           const { filteredProducts, excludedCount } = blacklistService.filterBlacklistedProducts(
             validASINs.map((asin: string) => ({ asin })),
             blacklistedAsins
@@ -369,7 +370,7 @@ export async function POST(request: NextRequest) {
                       salesRankings: product.salesRankings
                     });
                     
-                    console.log(`B2B Lowest price for ${product.asin}: £${(lowestPrice / 1.20).toFixed(2)} ex-VAT (£${lowestPrice.toFixed(2)} inc-VAT) at quantity ${lowestPriceData.quantityTier || 1}`);
+                    console.log(`B2B Lowest price for ${product.asin}: £${(lowestPrice / (1 + UK_MARKETPLACE.vatRate)).toFixed(2)} ex-VAT (£${lowestPrice.toFixed(2)} inc-VAT) at quantity ${lowestPriceData.quantityTier || 1}`);
                   }
                 }
               }
@@ -427,6 +428,8 @@ export async function POST(request: NextRequest) {
                   let productName = asin;
                   let productImage = '';
                   let salesRank = 0;
+                  let brand: string | undefined;
+                  let category: string | undefined;
                   
                   try {
                     await rateLimiter.throttle('catalog', RATE_LIMITS.CATALOG.minInterval);
@@ -434,8 +437,11 @@ export async function POST(request: NextRequest) {
                     const catalogData = await catalogClient.getCatalogItem(
                       asin,
                       [UK_MARKETPLACE.id],
-                      ['attributes', 'images', 'salesRanks', 'summaries']
+                      ['attributes', 'images', 'salesRanks', 'summaries', 'productTypes']
                     );
+
+                    brand = catalogData?.summaries?.[0]?.brandName || catalogData?.attributes?.brand?.[0]?.value;
+                    category = catalogData?.productTypes?.[0]?.productType;
                     
                     // Get product title
                     if (catalogData?.attributes?.title?.[0]?.value) {
@@ -459,6 +465,14 @@ export async function POST(request: NextRequest) {
                     console.error(`Catalog error for ${asin}:`, catalogError);
                   }
 
+                  const blacklistRule = findBlacklistRule(blacklistRules, { asin, productName, brand, category });
+                  if (blacklistRule) {
+                    console.log(`Skipping ${asin} - blacklisted by ${blacklistRule.ruleType} rule "${blacklistRule.pattern}"`);
+                    ruleExclusions[blacklistRule.id] = (ruleExclusions[blacklistRule.id] || 0) + 1;
+                    totalProcessed++;
+                    continue;
+                  }
+
                   // Get fees from SP-API
                   let referralFee = 0;
                   let fbaFee = 0;
@@ -648,6 +662,10 @@ export async function POST(request: NextRequest) {
             })
             .eq('id', scanId);
 
+          if (scanId) {
+            await blacklistService.recordRuleExclusions(scanId, blacklistRules, ruleExclusions);
+          }
+
           // Send completion message
           sendMessage({ 
             type: 'complete', 
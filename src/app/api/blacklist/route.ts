@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { validateApiRequest, AuthError } from '@/lib/auth';
 import { checkEnvVars } from '@/lib/env-check';
+import { BlacklistService } from '@/lib/blacklist-service';
 
 interface BlacklistItem {
   id: string;
@@ -97,31 +98,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = createClient(
+    // Add ASIN to blacklist
+    const blacklistService = new BlacklistService(
       envCheck.values.supabaseUrl,
       envCheck.values.supabaseServiceKey
     );
 
-    // Add ASIN to blacklist
-    const { data, error } = await supabase
-      .from('asin_blacklist')
-      .insert({
-        user_id: user.id,
-        asin: body.asin.toUpperCase(), // Normalize to uppercase
-        reason: body.reason || null
-      })
-      .select('id, asin, reason, created_at')
-      .single();
-
-    if (error) {
-      // Handle duplicate ASIN error
-      if (error.code === '23505') { // Unique constraint violation
-        return NextResponse.json(
-          { error: 'ASIN is already blacklisted' },
-          { status: 409 }
-        );
-      }
-
+    let result;
+    try {
+      result = await blacklistService.addAsin(user.id, body.asin, body.reason);
+    } catch (error) {
       console.error('Error adding to blacklist:', error);
       return NextResponse.json(
         { error: 'Failed to add ASIN to blacklist' },
@@ -129,9 +115,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Handle duplicate ASIN error
+    if (!result.item) {
+      return NextResponse.json(
+        { error: 'ASIN is already blacklisted' },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({ 
       message: 'ASIN added to blacklist successfully',
-      blacklistItem: data
+      blacklistItem: result.item
     });
 
   } catch (error) {
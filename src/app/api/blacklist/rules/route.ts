@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { checkEnvVars } from '@/lib/env-check';
+import { BlacklistService } from '@/lib/blacklist-service';
+import { isBlacklistRuleType } from '@/lib/blacklist-rules';
+
+interface AddBlacklistRuleRequest {
+  ruleType: string;
+  pattern: string;
+  reason?: string;
+}
+
+function getServiceCredentials() {
+  const envCheck = checkEnvVars({
+    supabase: { url: true, serviceKey: true }
+  });
+
+  return envCheck.success ? envCheck.values : null;
+}
+
+// GET - Fetch the user's brand, category, keyword and seller rules
+export async function GET(request: NextRequest) {
+  try {
+    // Validate authentication
+    const user = await validateApiRequest(request);
+
+    const credentials = getServiceCredentials();
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+
+    const blacklistService = new BlacklistService(
+      credentials.supabaseUrl,
+      credentials.supabaseServiceKey
+    );
+
+    const rules = await blacklistService.getBlacklistRules(user.id);
+
+    return NextResponse.json({ rules });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    console.error('Blacklist rules GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a rule
+export async function POST(request: NextRequest) {
+  try {
+    // Validate authentication
+    const user = await validateApiRequest(request);
+
+    const body: AddBlacklistRuleRequest = await request.json();
+
+    if (!isBlacklistRuleType(body.ruleType)) {
+      return NextResponse.json(
+        { error: 'Rule type must be brand, category, keyword or seller' },
+        { status: 400 }
+      );
+    }
+
+    const pattern = typeof body.pattern === 'string' ? body.pattern.trim() : '';
+
+    // A pattern of only wildcards would exclude every product
+    if (!pattern || pattern.length > 255 || !/[^*?\s]/.test(pattern)) {
+      return NextResponse.json(
+        { error: 'Pattern must contain text other than wildcards (max 255 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const credentials = getServiceCredentials();
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+
+    const blacklistService = new BlacklistService(
+      credentials.supabaseUrl,
+      credentials.supabaseServiceKey
+    );
+
+    let result;
+    try {
+      result = await blacklistService.addRule(user.id, {
+        ruleType: body.ruleType,
+        pattern,
+        reason: typeof body.reason === 'string' ? body.reason.trim() : null
+      });
+    } catch (error) {
+      console.error('Error adding blacklist rule:', error);
+      return NextResponse.json(
+        { error: 'Failed to add blacklist rule' },
+        { status: 500 }
+      );
+    }
+
+    if (!result.rule) {
+      return NextResponse.json(
+        { error: 'This rule already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Blacklist rule added successfully',
+      rule: result.rule
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    console.error('Blacklist rules POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a rule
+export async function DELETE(request: NextRequest) {
+  try {
+    // Validate authentication
+    const user = await validateApiRequest(request);
+
+    const { searchParams } = new URL(request.url);
+    const ruleId = searchParams.get('id');
+
+    if (!ruleId) {
+      return NextResponse.json(
+        { error: 'Rule id is required' },
+        { status: 400 }
+      );
+    }
+
+    const credentials = getServiceCredentials();
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+
+    const supabase = createClient(
+      credentials.supabaseUrl,
+      credentials.supabaseServiceKey
+    );
+
+    const { error } = await supabase
+      .from('blacklist_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error removing blacklist rule:', error);
+      return NextResponse.json(
+        { error: 'Failed to remove blacklist rule' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Blacklist rule removed successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    console.error('Blacklist rules DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -37,6 +37,7 @@ export async function POST(request: NextRequest) {
       .from('products')
       .select('id, asin, product_name')
       .eq('storefront_id', storefrontId)
+      .is('removed_at', null)
       .limit(limit * 2); // Get more to account for filtering
     
     const products = allProducts?.filter(p => p.product_name === p.asin).slice(0, limit) || [];
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServiceRoleClient } from '@/lib/supabase-server'
+import { ScanJobWorker } from '@/services/scan-job-worker'
+import {
+  AllSellersProductSource,
+  ProductSource,
+  StorefrontGroupProductSource,
+  StorefrontProductSource
+} from '@/services/arbitrage/product-sources'
 
 interface ArbitrageScheduleDue {
   id: string
@@ -9,7 +16,7 @@ interface ArbitrageScheduleDue {
   time_of_day: string
   timezone: string
   days_of_week: number[]
-  scan_type: 'single' | 'all'
+  scan_type: 'single' | 'all' | 'group'
   storefront_id: string | null
   storefront_name: string | null
   seller_id: string | null
@@ -17,6 +24,14 @@ interface ArbitrageScheduleDue {
   next_run: string
 }
 
+interface ScanTriggerResult {
+  success: boolean
+  scan_id?: string
+  opportunities_found?: number
+  products_analyzed?: number
+  error?: string
+}
+
 export async function GET(request: NextRequest) {
   console.log('🕐 Cron job: Checking for scheduled arbitrage scans...')
   
@@ -78,7 +93,7 @@ export async function GET(request: NextRequest) {
           continue
         }
 
-        // Trigger actual arbitrage scan via internal API call
+        // Run the arbitrage scan in-process on the scan engine
         const scanResponse = await triggerArbitrageScan(schedule)
         
         if (!scanResponse.success) {
@@ -147,78 +162,44 @@ export async function GET(request: NextRequest) {
 /**
  * Trigger an actual arbitrage scan based on the schedule
  */
-async function triggerArbitrageScan(schedule: ArbitrageScheduleDue) {
+async function triggerArbitrageScan(schedule: ArbitrageScheduleDue): Promise<ScanTriggerResult> {
   try {
     const supabase = getServiceRoleClient()
-    
-    // Create a scan record first
-    const { data: scanData, error: scanError } = await supabase
-      .from('arbitrage_scans')
-      .insert({
-        user_id: schedule.user_id,
-        scan_type: schedule.scan_type === 'single' ? 'single_seller' : 'all_sellers',
-        status: 'running',
-        started_at: new Date().toISOString(),
-        storefront_id: schedule.storefront_id
-      })
-      .select()
+
+    // The due-schedules view predates sourcing profiles and groups, so read them from the settings row
+    const { data: scheduleSettings } = await supabase
+      .from('user_arbitrage_schedule_settings')
+      .select('sourcing_profile_id, storefront_group_id')
+      .eq('id', schedule.id)
       .single()
+    const profileId: string | undefined = scheduleSettings?.sourcing_profile_id || undefined
 
-    if (scanError || !scanData) {
-      return {
-        success: false,
-        error: 'Failed to create scan record'
+    if (schedule.scan_type === 'group') {
+      if (!scheduleSettings?.storefront_group_id) {
+        return {
+          success: false,
+          error: 'No storefront group selected for group scan type'
+        }
       }
+      return await performScan(
+        schedule.user_id,
+        new StorefrontGroupProductSource(scheduleSettings.storefront_group_id),
+        `storefront group ${scheduleSettings.storefront_group_id}`,
+        profileId
+      )
     }
 
-    const scanId = scanData.id
-
-    try {
-      let scanResults
-      
-      if (schedule.scan_type === 'single') {
-        // Trigger single storefront scan
-        scanResults = await performSingleStorefrontScan(schedule.user_id, schedule.storefront_id!, scanId)
-      } else {
-        // Trigger all storefronts scan
-        scanResults = await performAllStorefrontsScan(schedule.user_id, scanId)
-      }
-
-      // Update scan record with results
-      await supabase
-        .from('arbitrage_scans')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          total_products: scanResults.products_analyzed,
-          opportunities_found: scanResults.opportunities_found
-        })
-        .eq('id', scanId)
-
-      return {
-        success: true,
-        scan_id: scanId,
-        opportunities_found: scanResults.opportunities_found,
-        products_analyzed: scanResults.products_analyzed
-      }
-
-    } catch (scanError) {
-      // Update scan record as failed
-      await supabase
-        .from('arbitrage_scans')
-        .update({
-          status: 'failed',
-          completed_at: new Date().toISOString(),
-          error_message: scanError instanceof Error ? scanError.message : 'Unknown error'
-        })
-        .eq('id', scanId)
-
-      return {
-        success: false,
-        error: scanError instanceof Error ? scanError.message : 'Scan execution failed'
-      }
+    if (schedule.scan_type === 'single') {
+      return await performScan(
+        schedule.user_id,
+        new StorefrontProductSource(schedule.storefront_id!),
+        `storefront ${schedule.storefront_id}`,
+        profileId
+      )
     }
 
+    return await performScan(schedule.user_id, new AllSellersProductSource(), `all storefronts of user ${schedule.user_id}`, profileId)
+
   } catch (error) {
     return {
       success: false,
@@ -228,212 +209,37 @@ async function triggerArbitrageScan(schedule: ArbitrageScheduleDue) {
 }
 
 /**
- * Perform a single storefront arbitrage scan
+ * Run a scheduled scan in-process on the v3 engine, which creates the scan
+ * record and keeps the sourcing profile in its job config
  */
-async function performSingleStorefrontScan(userId: string, storefrontId: string, scanId: string) {
-  console.log(`📊 Performing single storefront scan for storefront ${storefrontId}`)
-  
-  try {
-    const supabase = getServiceRoleClient()
-    
-    // Get products from the storefront
-    const { data: products, error: productsError } = await supabase
-      .from('products')
-      .select('asin, product_name, price, availability, current_sales_rank')
-      .eq('storefront_id', storefrontId)
-      .limit(100) // Limit for scheduled scans to avoid long execution times
-    
-    if (productsError || !products || products.length === 0) {
-      console.log(`No products found for storefront ${storefrontId}`)
-      return {
-        opportunities_found: 0,
-        products_analyzed: 0
-      }
-    }
-    
-    console.log(`Found ${products.length} products to analyze for storefront ${storefrontId}`)
-    
-    // Use the internal API to perform the analysis
-    // This will respect rate limits automatically
-    const analysisUrl = `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/api/arbitrage/analyze-stream`
-    
-    const response = await fetch(analysisUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.CRON_SECRET || 'default-secret'}`
-      },
-      body: JSON.stringify({
-        storefrontId: storefrontId,
-        maxProducts: 50, // Limit for scheduled scans
-        scheduled: true  // Flag to indicate this is a scheduled scan
-      })
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Analysis API returned ${response.status}`)
-    }
-    
-    // For scheduled scans, we don't need the streaming response
-    // Just wait for completion and return summary
-    let opportunitiesFound = 0
-    let productsAnalyzed = 0
-    
-    const reader = response.body?.getReader()
-    if (reader) {
-      const decoder = new TextDecoder()
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-          
-          const chunk = decoder.decode(value)
-          const lines = chunk.split('\n')
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const message = JSON.parse(line.slice(6))
-                
-                switch (message.type) {
-                  case 'opportunity':
-                    opportunitiesFound++
-                    break
-                  case 'complete':
-                    productsAnalyzed = message.data.totalProducts || products.length
-                    break
-                }
-              } catch (parseError) {
-                // Ignore parse errors in scheduled scans
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock()
-      }
-    }
-    
-    console.log(`✅ Single storefront scan completed: ${opportunitiesFound} opportunities from ${productsAnalyzed} products`)
-    
-    return {
-      opportunities_found: opportunitiesFound,
-      products_analyzed: productsAnalyzed
-    }
-    
-  } catch (error: any) {
-    console.error(`❌ Error in single storefront scan for ${storefrontId}:`, error)
-    
-    // Return mock data as fallback to prevent cron job failure
-    return {
-      opportunities_found: 0,
-      products_analyzed: 0
-    }
-  }
-}
+async function performScan(
+  userId: string,
+  source: ProductSource,
+  description: string,
+  profileId?: string
+): Promise<ScanTriggerResult> {
+  console.log(`📊 Performing scheduled scan of ${description}`)
 
-/**
- * Perform an all storefronts arbitrage scan
- */
-async function performAllStorefrontsScan(userId: string, scanId: string) {
-  console.log(`📊 Performing all storefronts scan for user ${userId}`)
-  
   try {
-    const supabase = getServiceRoleClient()
-    
-    // Get user's storefronts
-    const { data: storefronts, error: storefrontsError } = await supabase
-      .from('storefronts')
-      .select('id, name, seller_id')
-      .eq('user_id', userId)
-    
-    if (storefrontsError || !storefronts || storefronts.length === 0) {
-      console.log(`No storefronts found for user ${userId}`)
-      return {
-        opportunities_found: 0,
-        products_analyzed: 0
-      }
-    }
-    
-    console.log(`Found ${storefronts.length} storefronts for user ${userId}`)
-    
-    // Use the internal API to perform all sellers analysis
-    // This will respect rate limits automatically
-    const analysisUrl = `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/api/arbitrage/analyze-all-sellers`
-    
-    const response = await fetch(analysisUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.CRON_SECRET || 'default-secret'}`
-      },
-      body: JSON.stringify({
-        maxProducts: 200, // Limit for scheduled scans
-        scheduled: true   // Flag to indicate this is a scheduled scan
-      })
+    const result = await ScanJobWorker.getInstance().runScan(source, {
+      userId,
+      notify: true,
+      profileId
     })
-    
-    if (!response.ok) {
-      throw new Error(`Analysis API returned ${response.status}`)
-    }
-    
-    // For scheduled scans, we don't need the streaming response
-    // Just wait for completion and return summary
-    let opportunitiesFound = 0
-    let productsAnalyzed = 0
-    
-    const reader = response.body?.getReader()
-    if (reader) {
-      const decoder = new TextDecoder()
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-          
-          const chunk = decoder.decode(value)
-          const lines = chunk.split('\n')
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const message = JSON.parse(line.slice(6))
-                
-                switch (message.type) {
-                  case 'opportunity':
-                    opportunitiesFound++
-                    break
-                  case 'complete':
-                    productsAnalyzed = message.data.totalProducts || 0
-                    opportunitiesFound = message.data.opportunitiesFound || opportunitiesFound
-                    break
-                }
-              } catch (parseError) {
-                // Ignore parse errors in scheduled scans
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock()
-      }
-    }
-    
-    console.log(`✅ All storefronts scan completed: ${opportunitiesFound} opportunities from ${productsAnalyzed} products`)
-    
+
+    console.log(`✅ Scheduled scan of ${description} completed: ${result.opportunities.length} opportunities`)
+
     return {
-      opportunities_found: opportunitiesFound,
-      products_analyzed: productsAnalyzed
+      success: true,
+      scan_id: result.scanId,
+      opportunities_found: result.complete?.opportunitiesFound ?? result.opportunities.length,
+      products_analyzed: result.complete?.productsAnalyzed || 0
     }
-    
-  } catch (error: any) {
-    console.error(`❌ Error in all storefronts scan for user ${userId}:`, error)
-    
-    // Return fallback data to prevent cron job failure
+  } catch (error) {
+    console.error(`❌ Error in scheduled scan of ${description}:`, error)
     return {
-      opportunities_found: 0,
-      products_analyzed: 0
+      success: false,
+      error: error instanceof Error ? error.message : 'Scan execution failed'
     }
   }
 }
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AsinMonitorExecutor } from '@/services/asin-monitor-executor'
+
+export async function GET(request: NextRequest) {
+  console.log('🕐 Cron job: Checking for due ASIN list monitors...')
+
+  try {
+    // Only the cron script's CRON_SECRET bearer is accepted; a User-Agent can be sent by anyone
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      console.log('❌ Unauthorized cron request')
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Process at most 10 lists per run to keep within the pricing quota
+    const results = await AsinMonitorExecutor.getInstance().runDueMonitors(10)
+
+    if (results.length === 0) {
+      return NextResponse.json({
+        message: 'No ASIN monitors due for execution',
+        processed: 0
+      })
+    }
+
+    const successful = results.filter(r => r.success).length
+    const failed = results.filter(r => !r.success).length
+
+    console.log(`🏁 ASIN monitor cron job completed: ${successful} successful, ${failed} failed`)
+
+    return NextResponse.json({
+      message: `Processed ${results.length} ASIN monitors`,
+      successful,
+      failed,
+      pricesRecorded: results.reduce((sum, r) => sum + r.pricesRecorded, 0),
+      alertsSent: results.reduce((sum, r) => sum + r.alertsSent, 0)
+    })
+
+  } catch (error) {
+    console.error('❌ Error in ASIN monitor cron job:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notificationService } from '@/lib/notification-service'
+
+export async function GET(request: NextRequest) {
+  console.log('🕐 Cron job: Processing notification queue and digests...')
+
+  try {
+    // Only the cron script's CRON_SECRET bearer is accepted; a User-Agent can be sent by anyone
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      console.log('❌ Unauthorized cron request')
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await notificationService.processQueue()
+
+    return NextResponse.json({ message: 'Notification queue processed' })
+
+  } catch (error) {
+    console.error('❌ Error in notification queue cron job:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
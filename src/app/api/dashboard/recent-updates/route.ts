@@ -61,6 +61,7 @@ export async function GET(request: NextRequest) {
         .from('products')
         .select('asin, product_name, created_at', { count: 'exact' })
         .eq('storefront_id', storefront.id)
+        .is('removed_at', null)
         .gte('created_at', twentyFourHoursAgo.toISOString())
         .order('created_at', { ascending: false })
         .limit(5) // Get top 5 most recent for preview
@@ -83,6 +84,7 @@ export async function GET(request: NextRequest) {
         .from('products')
         .select('*', { count: 'exact', head: true })
         .eq('storefront_id', storefront.id)
+        .is('removed_at', null)
 
       // Only include storefronts with recent activity
       if ((addedCount || 0) > 0 || removedCount > 0 || 
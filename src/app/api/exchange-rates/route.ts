@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { exchangeRateService } from '@/lib/exchange-rates';
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+
+// GET - Current exchange rates (to GBP) for all supported marketplace currencies
+export async function GET(request: NextRequest) {
+  try {
+    await validateApiRequest(request);
+
+    const snapshot = await exchangeRateService.getSnapshot(
+      Object.values(MARKETPLACES).map(m => m.currency)
+    );
+
+    return NextResponse.json({ ...snapshot, provider: exchangeRateService.getProviderName() });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    console.error('Error in GET /api/exchange-rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to load exchange rates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Force a refresh from the configured provider (used by cron)
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET || 'default-secret'}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const currencies = Array.from(new Set(Object.values(MARKETPLACES).map(m => m.currency)));
+    const refreshed = await exchangeRateService.refreshRates(currencies);
+
+    return NextResponse.json({
+      success: true,
+      provider: exchangeRateService.getProviderName(),
+      rates: refreshed
+    });
+  } catch (error) {
+    console.error('Error in POST /api/exchange-rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh exchange rates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { AppError } from '@/lib/error-handling';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { validateChannelConfig } from '@/lib/notification-channel-config';
+import { NOTIFICATION_CHANNELS, NotificationChannelType } from '@/lib/notification-channel-types';
+
+type ExternalChannelType = Exclude<NotificationChannelType, 'telegram'>;
+
+// Channels are only written here, so the config the server delivers to is always validated
+export async function POST(request: NextRequest) {
+  try {
+    const user = await validateApiRequest(request);
+    const { channel, config, enabled } = await request.json();
+
+    if (channel === 'telegram' || !NOTIFICATION_CHANNELS.some(option => option.type === channel)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown notification channel' },
+        { status: 400 }
+      );
+    }
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid enabled flag' },
+        { status: 400 }
+      );
+    }
+
+    const validConfig = await validateChannelConfig(channel as ExternalChannelType, config);
+
+    const { error } = await getServiceRoleClient()
+      .from('notification_channels')
+      .upsert({
+        user_id: user.id,
+        channel_type: channel,
+        config: validConfig,
+        enabled: enabled ?? true,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,channel_type' });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof AppError && error.statusCode === 400) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('Notification channel save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { notificationService } from '@/lib/notification-service';
+import { NOTIFICATION_CHANNELS, getChannelLabel } from '@/lib/notification-channel-types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await validateApiRequest(request);
+    const { channel } = await request.json();
+
+    if (!NOTIFICATION_CHANNELS.some(option => option.type === channel)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown notification channel' },
+        { status: 400 }
+      );
+    }
+
+    // Sent to this channel only, whatever the user's routing for test notifications
+    const success = await notificationService.sendNotification({
+      userId: user.id,
+      type: 'test_notification',
+      channels: [channel],
+      data: {
+        message: 'Test notification from Storefront Stalker',
+        timestamp: new Date().toISOString(),
+        user: user.email,
+        channelName: getChannelLabel(channel)
+      }
+    });
+
+    if (success) {
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: `Failed to send notification. Please check your ${getChannelLabel(channel)} settings.`
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 401 });
+    }
+
+    console.error('Channel test notification error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
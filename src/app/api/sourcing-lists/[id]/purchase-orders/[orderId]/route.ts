@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { validateApiRequest, AuthError } from '@/lib/auth'
+import { checkEnvVars } from '@/lib/env-check'
+import { isOptionalText, isPurchaseOrderStatus } from '@/lib/purchase-orders'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// PATCH - Update a purchase order and its lines (status, quantity, cost, arrival)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; orderId: string }> }
+) {
+  try {
+    const user = await validateApiRequest(request)
+    const { id, orderId } = await params
+
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true }
+    })
+
+    if (!envCheck.success) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = createClient(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    )
+
+    const body = await request.json()
+    const { reference, notes, lines = [] } = body
+
+    if (!isOptionalText(reference) || !isOptionalText(notes)) {
+      return NextResponse.json(
+        { error: 'Reference and notes must be text' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(lines)) {
+      return NextResponse.json({ error: 'Lines must be a list' }, { status: 400 })
+    }
+
+    // Validate every line before changing anything
+    const lineUpdates: Array<{ id: string; data: Record<string, any> }> = []
+    for (const line of lines) {
+      if (!line || typeof line !== 'object' || Array.isArray(line)) {
+        return NextResponse.json({ error: 'Each line must be an object' }, { status: 400 })
+      }
+
+      const data: Record<string, any> = { updated_at: new Date().toISOString() }
+
+      if (line.status !== undefined) {
+        if (!isPurchaseOrderStatus(line.status)) {
+          return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+        }
+        data.status = line.status
+      }
+
+      if (line.quantity !== undefined) {
+        const quantity = Number(line.quantity)
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+          return NextResponse.json(
+            { error: 'Quantity must be a whole number above 0' },
+            { status: 400 }
+          )
+        }
+        data.quantity = quantity
+      }
+
+      if (line.unit_cost_gbp !== undefined) {
+        const unitCost = Number(line.unit_cost_gbp)
+        if (!Number.isFinite(unitCost) || unitCost < 0) {
+          return NextResponse.json(
+            { error: 'Unit cost must be 0 or more' },
+            { status: 400 }
+          )
+        }
+        data.unit_cost_gbp = unitCost
+      }
+
+      if (line.expected_arrival !== undefined) {
+        if (!isOptionalText(line.expected_arrival) || (line.expected_arrival && !DATE_PATTERN.test(line.expected_arrival))) {
+          return NextResponse.json(
+            { error: 'Dates must be in YYYY-MM-DD format' },
+            { status: 400 }
+          )
+        }
+        data.expected_arrival = line.expected_arrival || null
+      }
+
+      lineUpdates.push({ id: line.id, data })
+    }
+
+    // Verify the user owns the order
+    const { data: order, error: orderError } = await supabase
+      .from('purchase_orders')
+      .select('id')
+      .eq('id', orderId)
+      .eq('sourcing_list_id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (orderError || !order) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 }
+      )
+    }
+
+    const orderData: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (reference !== undefined) {
+      orderData.reference = reference?.trim() || null
+    }
+    if (notes !== undefined) {
+      orderData.notes = notes?.trim() || null
+    }
+
+    const { error: updateError } = await supabase
+      .from('purchase_orders')
+      .update(orderData)
+      .eq('id', orderId)
+
+    if (updateError) {
+      console.error('Error updating purchase order:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update purchase order' },
+        { status: 500 }
+      )
+    }
+
+    for (const line of lineUpdates) {
+      const { error } = await supabase
+        .from('purchase_order_items')
+        .update(line.data)
+        .eq('id', line.id)
+        .eq('purchase_order_id', orderId)
+
+      if (error) {
+        console.error('Error updating purchase order line:', error)
+        return NextResponse.json(
+          { error: 'Failed to update purchase order' },
+          { status: 500 }
+        )
+      }
+    }
+
+    const { data: updatedOrder } = await supabase
+      .from('purchase_orders')
+      .select('*, purchase_order_items(*)')
+      .eq('id', orderId)
+      .single()
+
+    return NextResponse.json({ order: updatedOrder })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in PATCH /api/sourcing-lists/[id]/purchase-orders/[orderId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a purchase order and its lines
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; orderId: string }> }
+) {
+  try {
+    const user = await validateApiRequest(request)
+    const { id, orderId } = await params
+
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true }
+    })
+
+    if (!envCheck.success) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = createClient(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    )
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .delete()
+      .eq('id', orderId)
+      .eq('sourcing_list_id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error deleting purchase order:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete purchase order' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in DELETE /api/sourcing-lists/[id]/purchase-orders/[orderId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
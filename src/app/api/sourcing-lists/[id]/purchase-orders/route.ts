@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { validateApiRequest, AuthError } from '@/lib/auth'
+import { checkEnvVars } from '@/lib/env-check'
+import { PurchaseOrder, isOptionalText, summarisePurchaseOrders } from '@/lib/purchase-orders'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// GET - Get purchase orders for a sourcing list, with realized vs projected profit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await validateApiRequest(request)
+    const { id } = await params
+
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true }
+    })
+
+    if (!envCheck.success) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = createClient(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    )
+
+    const { data: orders, error } = await supabase
+      .from('purchase_orders')
+      .select('*, purchase_order_items(*)')
+      .eq('sourcing_list_id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching purchase orders:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch purchase orders' },
+        { status: 500 }
+      )
+    }
+
+    const purchaseOrders = (orders || []) as PurchaseOrder[]
+
+    return NextResponse.json({
+      orders: purchaseOrders,
+      summary: summarisePurchaseOrders(purchaseOrders)
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in GET /api/sourcing-lists/[id]/purchase-orders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a purchase order from items in the list
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await validateApiRequest(request)
+    const { id } = await params
+
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true }
+    })
+
+    if (!envCheck.success) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = createClient(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    )
+
+    const body = await request.json()
+    const { reference, notes, order_date, expected_arrival, lines } = body
+
+    if (!Array.isArray(lines) || lines.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one line is required' },
+        { status: 400 }
+      )
+    }
+
+    if (lines.some(line => !line || typeof line !== 'object' || Array.isArray(line))) {
+      return NextResponse.json(
+        { error: 'Each line must be an object' },
+        { status: 400 }
+      )
+    }
+
+    if (![reference, notes, order_date, expected_arrival].every(isOptionalText)) {
+      return NextResponse.json(
+        { error: 'Reference, notes and dates must be text' },
+        { status: 400 }
+      )
+    }
+
+    for (const date of [order_date, expected_arrival]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        return NextResponse.json(
+          { error: 'Dates must be in YYYY-MM-DD format' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Verify the user owns the list
+    const { data: list, error: listError } = await supabase
+      .from('sourcing_lists')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (listError || !list) {
+      return NextResponse.json(
+        { error: 'Sourcing list not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: listItems } = await supabase
+      .from('sourcing_list_items')
+      .select('id, asin, product_name, source_marketplace, source_price_gbp, profit')
+      .eq('sourcing_list_id', id)
+      .in('id', lines.map((line: any) => line.item_id))
+
+    const itemsById = new Map((listItems || []).map(item => [item.id, item]))
+
+    const orderLines: any[] = []
+    for (const line of lines) {
+      const item = itemsById.get(line.item_id)
+      const quantity = Number(line.quantity)
+      const unitCost = line.unit_cost_gbp === undefined || line.unit_cost_gbp === null || line.unit_cost_gbp === ''
+        ? Number(item?.source_price_gbp)
+        : Number(line.unit_cost_gbp)
+
+      if (!item) {
+        return NextResponse.json(
+          { error: `Item ${line.item_id} is not in this list` },
+          { status: 400 }
+        )
+      }
+
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return NextResponse.json(
+          { error: `Quantity for ${item.asin} must be a whole number above 0` },
+          { status: 400 }
+        )
+      }
+
+      if (!Number.isFinite(unitCost) || unitCost < 0) {
+        return NextResponse.json(
+          { error: `Unit cost for ${item.asin} must be 0 or more` },
+          { status: 400 }
+        )
+      }
+
+      const supplierMarketplace = line.supplier_marketplace || item.source_marketplace
+      if (typeof supplierMarketplace !== 'string' || !supplierMarketplace.trim()) {
+        return NextResponse.json(
+          { error: `Supplier marketplace for ${item.asin} is required` },
+          { status: 400 }
+        )
+      }
+
+      orderLines.push({
+        sourcing_list_item_id: item.id,
+        asin: item.asin,
+        product_name: item.product_name,
+        quantity,
+        unit_cost_gbp: unitCost,
+        supplier_marketplace: supplierMarketplace.trim().toUpperCase(),
+        order_date: order_date || new Date().toISOString().slice(0, 10),
+        expected_arrival: expected_arrival || null,
+        status: 'ordered',
+        projected_unit_cost_gbp: item.source_price_gbp,
+        projected_unit_profit: item.profit
+      })
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('purchase_orders')
+      .insert({
+        user_id: user.id,
+        sourcing_list_id: id,
+        reference: reference?.trim() || null,
+        notes: notes?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (orderError || !order) {
+      console.error('Error creating purchase order:', orderError)
+      return NextResponse.json(
+        { error: 'Failed to create purchase order' },
+        { status: 500 }
+      )
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('purchase_order_items')
+      .insert(orderLines.map(line => ({ ...line, purchase_order_id: order.id })))
+      .select()
+
+    if (itemsError) {
+      console.error('Error adding purchase order lines:', itemsError)
+      // Don't leave an empty order behind
+      await supabase.from('purchase_orders').delete().eq('id', order.id)
+      return NextResponse.json(
+        { error: 'Failed to create purchase order' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { order: { ...order, purchase_order_items: items || [] } },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in POST /api/sourcing-lists/[id]/purchase-orders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
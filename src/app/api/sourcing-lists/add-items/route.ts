@@ -2,21 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { validateApiRequest, AuthError } from '@/lib/auth';
 import { checkEnvVars } from '@/lib/env-check';
-
-interface SourcingListItem {
-  asin: string;
-  product_name: string;
-  product_image?: string;
-  uk_price: number;
-  source_marketplace: string;
-  source_price_gbp: number;
-  profit: number;
-  roi: number;
-  profit_margin: number;
-  sales_per_month?: number;
-  storefront_name?: string;
-  added_from: 'recent_scans' | 'a2a_eu';
-}
+import { SourcingListService, SourcingListItemInput } from '@/lib/sourcing-list-service';
 
 // POST - Add items to a sourcing list (bulk operation)
 export async function POST(request: NextRequest) {
@@ -101,8 +87,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate and prepare items for insertion
-    const validatedItems: any[] = [];
+    // Validate items before insertion
+    const validatedItems: SourcingListItemInput[] = [];
     for (const item of items) {
       // Validate required fields
       if (!item.asin || !item.product_name || !item.source_marketplace || !item.added_from) {
@@ -121,33 +107,18 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      validatedItems.push({
-        sourcing_list_id: targetListId,
-        asin: item.asin.trim().toUpperCase(),
-        product_name: item.product_name.trim(),
-        product_image: item.product_image?.trim() || null,
-        uk_price: item.uk_price,
-        source_marketplace: item.source_marketplace.trim().toUpperCase(),
-        source_price_gbp: item.source_price_gbp,
-        profit: item.profit,
-        roi: item.roi,
-        profit_margin: item.profit_margin || 0,
-        sales_per_month: item.sales_per_month || null,
-        storefront_name: item.storefront_name?.trim() || null,
-        added_from: item.added_from
-      });
+      validatedItems.push(item);
     }
 
-    // Insert items (using upsert to handle duplicates)
-    const { data: insertedItems, error: insertError } = await supabase
-      .from('sourcing_list_items')
-      .upsert(validatedItems, { 
-        onConflict: 'sourcing_list_id,asin,source_marketplace',
-        ignoreDuplicates: false 
-      })
-      .select();
+    const sourcingListService = new SourcingListService(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    );
 
-    if (insertError) {
+    let insertedItems: any[];
+    try {
+      insertedItems = await sourcingListService.addItems(user.id, targetListId, validatedItems);
+    } catch (insertError) {
       console.error('Error adding items to sourcing list:', insertError);
       return NextResponse.json(
         { error: 'Failed to add items to sourcing list' },
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { validateApiRequest, AuthError } from '@/lib/auth'
+import { checkEnvVars } from '@/lib/env-check'
+import {
+  ANALYTICS_WEEKS,
+  StorefrontAnalyticsOpportunity,
+  StorefrontAnalyticsProduct,
+  StorefrontOverlap,
+  buildStorefrontAnalytics
+} from '@/lib/storefront-analytics'
+
+const PAGE_SIZE = 1000
+const OVERLAP_BATCH_SIZE = 500
+const MAX_OVERLAPS = 5
+
+async function fetchAllRows<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: any }>
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+// Shared active ASINs with each of the user's other storefronts, largest overlap first
+async function getOverlaps(
+  supabase: SupabaseClient,
+  userId: string,
+  storefrontId: string,
+  activeAsins: string[]
+): Promise<StorefrontOverlap[]> {
+  const { data: otherStorefronts } = await supabase
+    .from('storefronts')
+    .select('id, name')
+    .eq('user_id', userId)
+    .neq('id', storefrontId)
+
+  if (!otherStorefronts?.length || activeAsins.length === 0) {
+    return []
+  }
+
+  const otherIds = otherStorefronts.map(storefront => storefront.id)
+  const shared = new Map<string, Set<string>>()
+
+  for (let i = 0; i < activeAsins.length; i += OVERLAP_BATCH_SIZE) {
+    const batch = activeAsins.slice(i, i + OVERLAP_BATCH_SIZE)
+    const rows = await fetchAllRows<{ asin: string; storefront_id: string }>((from, to) =>
+      supabase
+        .from('products')
+        .select('asin, storefront_id')
+        .in('storefront_id', otherIds)
+        .in('asin', batch)
+        .is('removed_at', null)
+        .order('id')
+        .range(from, to)
+    )
+
+    for (const row of rows) {
+      if (!shared.has(row.storefront_id)) shared.set(row.storefront_id, new Set())
+      shared.get(row.storefront_id)!.add(row.asin)
+    }
+  }
+
+  return otherStorefronts
+    .map(storefront => {
+      const sharedAsins = shared.get(storefront.id)?.size || 0
+      return {
+        storefrontId: storefront.id,
+        name: storefront.name,
+        sharedAsins,
+        sharePercent: (sharedAsins / activeAsins.length) * 100
+      }
+    })
+    .filter(overlap => overlap.sharedAsins > 0)
+    .sort((a, b) => b.sharedAsins - a.sharedAsins)
+    .slice(0, MAX_OVERLAPS)
+}
+
+// GET - Catalog size, mix, sales rank, scan profitability and overlap for a storefront
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await validateApiRequest(request)
+    const { id } = await params
+
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true }
+    })
+
+    if (!envCheck.success) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = createClient(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    )
+
+    const { data: storefront, error: storefrontError } = await supabase
+      .from('storefronts')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (storefrontError || !storefront) {
+      return NextResponse.json(
+        { error: 'Storefront not found' },
+        { status: 404 }
+      )
+    }
+
+    const historyStart = new Date(Date.now() - ANALYTICS_WEEKS * 7 * 24 * 60 * 60 * 1000).toISOString()
+
+    // Removed products are included so past catalog sizes can be rebuilt
+    const products = await fetchAllRows<StorefrontAnalyticsProduct>((from, to) =>
+      supabase
+        .from('products')
+        .select('asin, brand, category, current_sales_rank, first_seen_at, created_at, removed_at')
+        .eq('storefront_id', id)
+        .order('id')
+        .range(from, to)
+    )
+
+    const addedEvents = await fetchAllRows<{ occurred_at: string }>((from, to) =>
+      supabase
+        .from('storefront_asin_events')
+        .select('occurred_at')
+        .eq('storefront_id', id)
+        .eq('event_type', 'added')
+        .gte('occurred_at', historyStart)
+        .order('occurred_at')
+        .range(from, to)
+    )
+
+    const opportunities = await fetchAllRows<StorefrontAnalyticsOpportunity & { arbitrage_scans: any }>((from, to) =>
+      supabase
+        .from('arbitrage_opportunities')
+        .select('asin, best_profit, arbitrage_scans!inner(user_id)')
+        .eq('arbitrage_scans.user_id', user.id)
+        .contains('storefronts', [{ id }])
+        .order('created_at')
+        .range(from, to)
+    )
+
+    const activeAsins = products.filter(product => !product.removed_at).map(product => product.asin)
+    const overlaps = await getOverlaps(supabase, user.id, id, activeAsins)
+
+    return NextResponse.json({
+      analytics: buildStorefrontAnalytics({
+        products,
+        addedEventDates: addedEvents.map(event => event.occurred_at),
+        opportunities,
+        overlaps
+      })
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in GET /api/storefronts/[id]/analytics:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { validateApiRequest, AuthError } from '@/lib/auth'
+import { checkEnvVars } from '@/lib/env-check'
+import { StorefrontDiscoveryService } from '@/services/storefront-discovery'
+
+function getSupabase() {
+  const envCheck = checkEnvVars({
+    supabase: { url: true, serviceKey: true }
+  })
+
+  if (!envCheck.success) {
+    return null
+  }
+
+  return createClient(
+    envCheck.values.supabaseUrl,
+    envCheck.values.supabaseServiceKey
+  )
+}
+
+// GET - Open storefront suggestions, best first, and whether discovery is running
+export async function GET(request: NextRequest) {
+  try {
+    const user = await validateApiRequest(request)
+    const supabase = getSupabase()
+
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const { data: suggestions, error } = await supabase
+      .from('storefront_suggestions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'suggested')
+      .order('overlap_count', { ascending: false })
+      .order('seller_rating', { ascending: false, nullsFirst: false })
+
+    if (error) {
+      console.error('Error fetching storefront suggestions:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch storefront suggestions' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      suggestions: suggestions || [],
+      isRunning: StorefrontDiscoveryService.getInstance().isRunning(user.id)
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in GET /api/storefronts/discovery:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Start a discovery run in the background
+export async function POST(request: NextRequest) {
+  try {
+    const user = await validateApiRequest(request)
+    const discovery = StorefrontDiscoveryService.getInstance()
+
+    if (discovery.isRunning(user.id)) {
+      return NextResponse.json(
+        { error: 'Storefront discovery already in progress' },
+        { status: 409 }
+      )
+    }
+
+    // Offers are fetched 20 ASINs at a time, so the run outlives the request
+    discovery.discover(user.id).catch(error => {
+      console.error('❌ Error in storefront discovery:', error)
+    })
+
+    return NextResponse.json({ message: 'Storefront discovery started' })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in POST /api/storefronts/discovery:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Mark a suggestion as added or dismissed
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await validateApiRequest(request)
+    const { id, status } = await request.json()
+
+    if (!id || (status !== 'added' && status !== 'dismissed')) {
+      return NextResponse.json(
+        { error: 'Suggestion ID and a status of added or dismissed are required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = getSupabase()
+
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const { data: suggestion, error } = await supabase
+      .from('storefront_suggestions')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error || !suggestion) {
+      return NextResponse.json(
+        { error: 'Suggestion not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ suggestion })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    console.error('Error in PATCH /api/storefronts/discovery:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
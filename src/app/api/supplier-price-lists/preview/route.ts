@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { ValidationError } from '@/lib/validation';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { guessSupplierColumnMapping, readSupplierRows } from '@/lib/supplier-price-list';
+
+interface PreviewPriceListRequest {
+  fileBase64: string;
+  fileName?: string;
+}
+
+const SAMPLE_ROWS = 5;
+
+// POST - Read an uploaded price list's headers so its columns can be mapped
+export async function POST(request: NextRequest) {
+  try {
+    // Validate authentication
+    await validateApiRequest(request);
+
+    const body: PreviewPriceListRequest = await request.json();
+
+    if (typeof body.fileBase64 !== 'string' || !body.fileBase64) {
+      throw new ValidationError('A CSV or XLSX file is required', 'file');
+    }
+
+    let rows: string[][];
+    try {
+      rows = readSpreadsheet(Buffer.from(body.fileBase64, 'base64'), body.fileName);
+    } catch (parseError) {
+      throw new ValidationError(
+        parseError instanceof Error ? parseError.message : 'Could not read the file',
+        'file'
+      );
+    }
+
+    if (rows.length < 2) {
+      throw new ValidationError('The price list needs a header row and at least one product row', 'file');
+    }
+
+    const headers = rows[0];
+    const suggestedMapping = guessSupplierColumnMapping(headers);
+    const { items } = suggestedMapping.identifier && suggestedMapping.cost
+      ? readSupplierRows(rows, suggestedMapping)
+      : { items: [] };
+
+    return NextResponse.json({
+      headers,
+      sampleRows: rows.slice(1, 1 + SAMPLE_ROWS),
+      rowCount: rows.length - 1,
+      suggestedMapping,
+      validRowsWithSuggestedMapping: items.length
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, field: error.field }, { status: 400 });
+    }
+
+    console.error('Price list preview error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
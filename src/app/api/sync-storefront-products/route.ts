@@ -19,7 +19,8 @@ export async function POST(request: NextRequest) {
     const { data: products, error: fetchError } = await supabase
       .from('products')
       .select('id, asin, product_name, brand, image_link, current_sales_rank')
-      .eq('storefront_id', storefrontId);
+      .eq('storefront_id', storefrontId)
+      .is('removed_at', null);
 
     if (fetchError) {
       console.error('Error fetching products:', fetchError);
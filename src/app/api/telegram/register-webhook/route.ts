@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiRequest, AuthError } from '@/lib/auth';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { TelegramBotService } from '@/lib/telegram-bot';
+import { BOT_COMMANDS } from '@/services/telegram-command-handler';
+
+/**
+ * Point the user's bot (their own, or the default one) at /api/telegram/webhook
+ * and set its command menu. Once a webhook is set Telegram stops serving
+ * getUpdates, so /start in the chat shows the chat ID instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await validateApiRequest(request);
+    const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+
+    if (!secret || !siteUrl) {
+      return NextResponse.json(
+        { success: false, error: 'Bot commands are not configured on this server' },
+        { status: 503 }
+      );
+    }
+
+    const { data: connection } = await getServiceRoleClient()
+      .from('telegram_connections')
+      .select('bot_token')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!connection) {
+      return NextResponse.json(
+        { success: false, error: 'Connect Telegram first' },
+        { status: 400 }
+      );
+    }
+
+    const botToken = connection.bot_token || process.env.TELEGRAM_BOT_TOKEN;
+    if (!botToken) {
+      return NextResponse.json(
+        { success: false, error: 'No Telegram bot token configured' },
+        { status: 400 }
+      );
+    }
+
+    const bot = new TelegramBotService(botToken);
+    const botId = botToken.split(':')[0];
+    const result = await bot.setWebhook(`${siteUrl}/api/telegram/webhook?bot=${botId}`, secret);
+
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.description });
+    }
+
+    await bot.setMyCommands(BOT_COMMANDS);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 401 });
+    }
+
+    console.error('Register webhook error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to enable bot commands' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TelegramCommandHandler, TelegramUpdate } from '@/services/telegram-command-handler';
+
+/**
+ * Receives updates for bots registered through /api/telegram/register-webhook.
+ * Telegram retries until it gets a 200, so updates are handled after responding.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+
+  if (!secret || request.headers.get('x-telegram-bot-api-secret-token') !== secret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const update: TelegramUpdate = await request.json();
+    const handler = TelegramCommandHandler.getInstance();
+    const bot = await handler.getBot(request.nextUrl.searchParams.get('bot'));
+
+    if (!bot) {
+      console.error('Telegram webhook: no token for bot', request.nextUrl.searchParams.get('bot'));
+      return NextResponse.json({ ok: true });
+    }
+
+    void handler.handleUpdate(update, bot).catch(error => {
+      console.error('Telegram webhook: failed to handle update', update.update_id, error);
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Telegram webhook error:', error);
+    return NextResponse.json({ ok: true });
+  }
+}
@@ -17,6 +17,7 @@ export async function POST(request: NextRequest) {
       .from('products')
       .select('*')
       .eq('storefront_id', storefrontId)
+      .is('removed_at', null)
       .like('product_name', 'Product %')
       .limit(limit)
 
@@ -34,13 +34,24 @@ import {
 import { Fragment } from 'react'
 import { Listbox, Transition } from '@headlessui/react'
 import { useBlacklist } from '@/hooks/useBlacklist'
+import { useExchangeRates } from '@/hooks/useExchangeRates'
 import SourcingListModal from '@/components/SourcingListModal'
 import AddToASINListModal from '@/components/AddToASINListModal'
 import SellerAmpModal from '@/components/SellerAmpModal'
 import { StorefrontDisplay, formatStorefrontsText } from '@/lib/storefront-formatter'
-
-// Exchange rate constant
-const EUR_TO_GBP_RATE = 0.86
+import { getMarketplace, getAmazonDomainSuffix } from '@/lib/amazon-marketplaces'
+import { ScanDirection, DEFAULT_SCAN_DIRECTION, getDirectionLabel } from '@/lib/scan-direction'
+import LandedProfitSummary from '@/components/LandedProfitSummary'
+import BuyBoxSummary from '@/components/BuyBoxSummary'
+import RestrictionBadge from '@/components/RestrictionBadge'
+import FbaFlagBadges from '@/components/FbaFlagBadges'
+import ScanProgressPanel from '@/components/ScanProgressPanel'
+import SourcingProfileSelect from '@/components/SourcingProfileSelect'
+import { mapStorefrontGroup, getGroupBadgeClasses, StorefrontGroup } from '@/lib/storefront-groups'
+import type { LandedCostBreakdown } from '@/lib/landed-cost'
+import type { OfferAnalysis } from '@/services/arbitrage/buy-box-offers'
+import { isGated, type RestrictionStatus } from '@/lib/restriction-status'
+import type { FbaSizeTier } from '@/lib/fba-size-tier'
 
 interface Storefront {
   id: string
@@ -75,7 +86,19 @@ interface ArbitrageOpportunity {
   salesPerMonth?: number
   euPrices: EUMarketplacePrice[]
   bestOpportunity: EUMarketplacePrice
+  landedCost?: number | null
+  landedProfit?: number | null
+  landedRoi?: number | null
+  landedCostBreakdown?: LandedCostBreakdown | null
+  buyBox?: OfferAnalysis | null
+  restrictionStatus?: RestrictionStatus | null
+  fbaSizeTier?: FbaSizeTier | null
+  isOversize?: boolean | null
+  possibleHazmat?: boolean | null
+  hazmatReasons?: string[] | null
   profitCategory?: ProfitCategory
+  direction?: ScanDirection
+  targetMarketplace?: string
   storefronts?: Array<{
     id: string
     name: string
@@ -93,6 +116,8 @@ function A2AEUPageContent() {
   const [storefronts, setStorefronts] = useState<Storefront[]>([])
   const [selectedStorefront, setSelectedStorefront] = useState<Storefront | null>(null)
   const [selectedStorefronts, setSelectedStorefronts] = useState<Storefront[]>([])
+  const [storefrontGroups, setStorefrontGroups] = useState<StorefrontGroup[]>([])
+  const [selectedGroup, setSelectedGroup] = useState<StorefrontGroup | null>(null) // Set while the selection is exactly a group
   const [selectionMode, setSelectionMode] = useState<SelectionMode>('single')
   const [showAddStorefrontModal, setShowAddStorefrontModal] = useState(false)
   const [loading, setLoading] = useState(true)
@@ -119,9 +144,17 @@ function A2AEUPageContent() {
   const [analyzingAllSellers, setAnalyzingAllSellers] = useState(false)
   const [analyzingSelectedStorefronts, setAnalyzingSelectedStorefronts] = useState(false)
   const [viewingSavedScan, setViewingSavedScan] = useState<string | null>(null)
+  const [runningScan, setRunningScan] = useState<any>(null)
+  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null)
   const [sortBy, setSortBy] = useState<SortOption>('profit')
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set())
   const [spmFilter, setSpmFilter] = useState<'all' | 'available' | 'n/a'>('all')
+  const [scanDirection, setScanDirection] = useState<ScanDirection>(DEFAULT_SCAN_DIRECTION)
+  const [sourcingProfileId, setSourcingProfileId] = useState('')
+  const [directionFilter, setDirectionFilter] = useState<'all' | ScanDirection>('all')
+  const [hideGated, setHideGated] = useState(false)
+  const [hideHazmat, setHideHazmat] = useState(false)
+  const [hideOversize, setHideOversize] = useState(false)
   
   // Sourcing list modal state
   const [showSourcingListModal, setShowSourcingListModal] = useState(false)
@@ -142,6 +175,8 @@ function A2AEUPageContent() {
     currentAsin?: string;
   } | null>(null)
 
+  const { eurToGbp } = useExchangeRates()
+
   // Blacklist functionality
   const { blacklistAsin, isLoading: isBlacklisting, error: blacklistError, success: blacklistSuccess, clearMessages } = useBlacklist()
   const [blacklistConfirm, setBlacklistConfirm] = useState<{ asin: string; productName: string } | null>(null)
@@ -153,6 +188,24 @@ function A2AEUPageContent() {
     return opportunities.filter(opp => {
       const profit = opp.bestOpportunity?.profit || 0;
       
+      // Apply direction filter
+      if (directionFilter !== 'all' && (opp.direction || DEFAULT_SCAN_DIRECTION) !== directionFilter) {
+        return false;
+      }
+      
+      // Hide deals our seller account can't list without approval
+      if (hideGated && isGated(opp.restrictionStatus)) {
+        return false;
+      }
+
+      // Hide deals FBA may reject as dangerous goods or charge oversize fees on
+      if (hideHazmat && opp.possibleHazmat) {
+        return false;
+      }
+      if (hideOversize && opp.isOversize) {
+        return false;
+      }
+      
       // Apply SPM filter
       if (spmFilter !== 'all') {
         const hasSPM = opp.salesPerMonth && opp.salesPerMonth > 0;
@@ -182,6 +235,13 @@ function A2AEUPageContent() {
       loadScanResults(scanId)
     }
   }, [searchParams])
+
+  // Stop polling a reattached scan when leaving the page
+  useEffect(() => {
+    return () => {
+      if (pollingInterval) clearInterval(pollingInterval)
+    }
+  }, [pollingInterval])
   
   useEffect(() => {
     if (selectionMode === 'single' && selectedStorefront) {
@@ -208,6 +268,7 @@ function A2AEUPageContent() {
       } else {
         console.log('User authenticated, fetching storefronts')
         fetchStorefronts()
+        checkForRunningScan(user.id)
       }
     } catch (error) {
       console.error('Error checking auth:', error)
@@ -244,6 +305,17 @@ function A2AEUPageContent() {
     } finally {
       setLoading(false)
     }
+
+    const { data: groups, error: groupsError } = await supabase
+      .from('storefront_groups')
+      .select('id, name, color, storefront_group_members(storefront_id)')
+      .order('name')
+
+    if (groupsError) {
+      console.error('Error fetching storefront groups:', groupsError)
+    } else {
+      setStorefrontGroups((groups || []).map(mapStorefrontGroup))
+    }
   }
 
   const handleSignOut = async () => {
@@ -407,6 +479,7 @@ function A2AEUPageContent() {
   }
 
   const handleStorefrontToggle = (storefront: Storefront) => {
+    setSelectedGroup(null)
     setSelectedStorefronts(prev => {
       const isSelected = prev.some((s: any) => s.id === storefront.id)
       if (isSelected) {
@@ -418,13 +491,21 @@ function A2AEUPageContent() {
   }
 
   const handleSelectAllStorefronts = () => {
+    setSelectedGroup(null)
     setSelectedStorefronts([...storefronts])
   }
 
   const handleClearAllStorefronts = () => {
+    setSelectedGroup(null)
     setSelectedStorefronts([])
   }
 
+  // Scanning a whole group sends the group itself, so the scan is saved under the group's name
+  const handleSelectGroup = (group: StorefrontGroup) => {
+    setSelectedGroup(group)
+    setSelectedStorefronts(storefronts.filter(storefront => group.storefrontIds.includes(storefront.id)))
+  }
+
   const handleSelectionModeChange = (mode: SelectionMode) => {
     setSelectionMode(mode)
     setViewingSavedScan(null) // Clear any viewed scan
@@ -438,6 +519,129 @@ function A2AEUPageContent() {
   }
 
   
+  // Map a saved arbitrage_opportunities row to the shape the deal cards use
+  const transformSavedOpportunity = (opp: any, scanDirection?: ScanDirection): ArbitrageOpportunity => ({
+    asin: opp.asin,
+    productName: opp.product_name || opp.asin,
+    productImage: opp.product_image || '',
+    targetPrice: parseFloat(opp.target_price || '0'),
+    amazonFees: parseFloat(opp.amazon_fees || '0'),
+    referralFee: parseFloat(opp.referral_fee || '0'),
+    fbaFee: 0, // Not stored in DB
+    digitalServicesFee: parseFloat(opp.digital_services_fee || '0'),
+    ukCompetitors: opp.uk_competitors || 0,
+    ukLowestPrice: parseFloat(opp.target_price || '0'), // Using target price as lowest
+    ukSalesRank: opp.uk_sales_rank || 0,
+    salesPerMonth: opp.sales_per_month || 0,
+    euPrices: opp.all_marketplace_prices?.euPrices || [],
+    direction: opp.all_marketplace_prices?.direction || scanDirection || DEFAULT_SCAN_DIRECTION,
+    targetMarketplace: opp.target_marketplace || 'UK',
+    bestOpportunity: {
+      marketplace: opp.best_source_marketplace || 'EU',
+      sourcePrice: parseFloat(opp.best_source_price || '0'),
+      sourcePriceGBP: parseFloat(opp.best_source_price_gbp || '0'),
+      profit: parseFloat(opp.best_profit || '0'),
+      profitMargin: 0, // Calculate if needed
+      roi: parseFloat(opp.best_roi || '0'),
+      totalCost: parseFloat(opp.best_source_price_gbp || '0') + parseFloat(opp.amazon_fees || '0') + parseFloat(opp.digital_services_fee || '0')
+    },
+    landedCost: opp.landed_cost !== null && opp.landed_cost !== undefined ? parseFloat(opp.landed_cost) : null,
+    landedProfit: opp.landed_profit !== null && opp.landed_profit !== undefined ? parseFloat(opp.landed_profit) : null,
+    landedRoi: opp.landed_roi !== null && opp.landed_roi !== undefined ? parseFloat(opp.landed_roi) : null,
+    landedCostBreakdown: opp.landed_cost_breakdown || null,
+    buyBox: opp.buy_box_analysis || null,
+    restrictionStatus: opp.restriction_status || null,
+    fbaSizeTier: opp.fba_size_tier || null,
+    isOversize: opp.is_oversize ?? null,
+    possibleHazmat: opp.possible_hazmat ?? null,
+    hazmatReasons: opp.hazmat_reasons || [],
+    storefronts: opp.storefronts || []
+  })
+
+  // Check for storefront scans still running (e.g. continued after a server restart)
+  const checkForRunningScan = async (userId: string) => {
+    try {
+      const { data: runningScans, error } = await supabase
+        .from('arbitrage_scans')
+        .select('*')
+        .eq('user_id', userId)
+        .in('scan_type', ['single_storefront', 'selected_storefronts', 'storefront_group', 'all_storefronts'])
+        .eq('status', 'running')
+        .order('started_at', { ascending: false })
+        .limit(1)
+
+      if (!error && runningScans && runningScans.length > 0) {
+        setRunningScan(runningScans[0])
+      }
+    } catch (error) {
+      console.error('Error checking for running scan:', error)
+    }
+  }
+
+  // Reattach to a running scan by polling its saved progress
+  const reconnectToScan = (scanId: string) => {
+    setAnalyzing(true)
+    setOpportunities([])
+    setViewingSavedScan(null)
+    setRunningScan(null)
+
+    const pollProgress = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session) {
+          clearInterval(interval)
+          return
+        }
+
+        const response = await fetch(`/api/arbitrage/scan-progress/${scanId}`, {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          }
+        })
+
+        if (!response.ok) {
+          clearInterval(interval)
+          setPollingInterval(null)
+          setAnalyzing(false)
+          return
+        }
+
+        const { scan, opportunities: savedOpportunities, estimatedTimeRemaining } = await response.json()
+
+        setAnalysisStats({
+          totalOpportunities: scan.opportunities_found || 0,
+          productsAnalyzed: scan.processed_count || 0,
+          exchangeRate: scan.metadata?.exchange_rate || eurToGbp,
+          progressMessage: scan.current_step || 'Processing...',
+          progress: scan.progress_percentage || 0,
+          processedCount: scan.processed_count || 0,
+          totalProducts: scan.unique_asins || scan.metadata?.original_product_count,
+          estimatedMinutesRemaining: estimatedTimeRemaining ? Math.ceil(estimatedTimeRemaining / 60) : undefined
+        })
+
+        if (savedOpportunities) {
+          setOpportunities(savedOpportunities.map((opp: any) => transformSavedOpportunity(opp, scan.direction)))
+        }
+
+        if (scan.status !== 'running') {
+          clearInterval(interval)
+          setPollingInterval(null)
+          setAnalyzing(false)
+
+          if (scan.status === 'failed') {
+            alert(`Scan failed: ${scan.error_message || 'Unknown error'}`)
+          }
+        }
+      } catch (error) {
+        console.error('Error polling scan progress:', error)
+      }
+    }
+
+    const interval = setInterval(pollProgress, 5000) // Poll every 5 seconds
+    setPollingInterval(interval)
+    pollProgress()
+  }
+
   const loadScanResults = async (scanId: string) => {
     setOpportunities([])
     setAnalysisStats(null)
@@ -470,31 +674,7 @@ function A2AEUPageContent() {
       }
       
       // Transform the opportunities to match the expected format
-      const transformedOpportunities: ArbitrageOpportunity[] = opportunities.map((opp: any) => ({
-        asin: opp.asin,
-        productName: opp.product_name || opp.asin,
-        productImage: opp.product_image || '',
-        targetPrice: parseFloat(opp.target_price || '0'),
-        amazonFees: parseFloat(opp.amazon_fees || '0'),
-        referralFee: parseFloat(opp.referral_fee || '0'),
-        fbaFee: 0, // Not stored in DB
-        digitalServicesFee: parseFloat(opp.digital_services_fee || '0'),
-        ukCompetitors: opp.uk_competitors || 0,
-        ukLowestPrice: parseFloat(opp.target_price || '0'), // Using target price as lowest
-        ukSalesRank: opp.uk_sales_rank || 0,
-        salesPerMonth: opp.sales_per_month || 0,
-        euPrices: opp.all_marketplace_prices?.euPrices || [],
-        bestOpportunity: {
-          marketplace: opp.best_source_marketplace || 'EU',
-          sourcePrice: parseFloat(opp.best_source_price || '0'),
-          sourcePriceGBP: parseFloat(opp.best_source_price_gbp || '0'),
-          profit: parseFloat(opp.best_profit || '0'),
-          profitMargin: 0, // Calculate if needed
-          roi: parseFloat(opp.best_roi || '0'),
-          totalCost: parseFloat(opp.best_source_price_gbp || '0') + parseFloat(opp.amazon_fees || '0') + parseFloat(opp.digital_services_fee || '0')
-        },
-        storefronts: opp.storefronts || []
-      }))
+      const transformedOpportunities = opportunities.map((opp: any) => transformSavedOpportunity(opp, scan.direction))
       
       setOpportunities(transformedOpportunities)
       
@@ -502,7 +682,7 @@ function A2AEUPageContent() {
       setAnalysisStats({
         totalOpportunities: scan.opportunities_found || 0,
         productsAnalyzed: scan.total_products || 0,
-        exchangeRate: scan.metadata?.exchange_rate || EUR_TO_GBP_RATE,
+        exchangeRate: scan.metadata?.exchange_rate || eurToGbp,
         progressMessage: `Loaded ${scan.opportunities_found || 0} opportunities from ${new Date(scan.started_at).toLocaleString('en-GB')}`,
         progress: 100
       })
@@ -518,6 +698,7 @@ function A2AEUPageContent() {
       let query = supabase
         .from('products')
         .select('*', { count: 'exact', head: true })
+        .is('removed_at', null)
       
       if (selectionMode === 'single' && selectedStorefront) {
         query = query.eq('storefront_id', selectedStorefront.id)
@@ -594,7 +775,11 @@ function A2AEUPageContent() {
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`
-        }
+        },
+        body: JSON.stringify({
+          direction: scanDirection,
+          profileId: sourcingProfileId || undefined
+        })
       })
       
       if (!response.ok) {
@@ -624,7 +809,7 @@ function A2AEUPageContent() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: message.data.productsAnalyzed || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     ...prev,
                     progressMessage: message.data.step,
                     progress: message.data.progress,
@@ -650,7 +835,7 @@ function A2AEUPageContent() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: prev?.productsAnalyzed || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: prev?.progressMessage,
                     progress: prev?.progress
                   }))
@@ -661,7 +846,7 @@ function A2AEUPageContent() {
                     ...prev,
                     totalOpportunities: message.data.opportunitiesFound,
                     productsAnalyzed: message.data.totalProducts,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: message.data.exchangeRate || eurToGbp,
                     progressMessage: message.data.message,
                     progress: 100
                   }))
@@ -675,7 +860,7 @@ function A2AEUPageContent() {
                   setAnalysisStats({
                     totalOpportunities: 0,
                     productsAnalyzed: 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: `Error: ${message.data.error}`,
                     progress: 0
                   })
@@ -715,7 +900,11 @@ function A2AEUPageContent() {
           'Authorization': `Bearer ${session.access_token}`
         },
         body: JSON.stringify({
-          storefrontIds: selectedStorefronts.map((s: any) => s.id)
+          ...(selectedGroup
+            ? { groupId: selectedGroup.id }
+            : { storefrontIds: selectedStorefronts.map((s: any) => s.id) }),
+          direction: scanDirection,
+          profileId: sourcingProfileId || undefined
         })
       })
       
@@ -746,7 +935,7 @@ function A2AEUPageContent() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: message.data.productsAnalyzed || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     ...prev,
                     progressMessage: message.data.step,
                     progress: message.data.progress,
@@ -772,7 +961,7 @@ function A2AEUPageContent() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: prev?.productsAnalyzed || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: prev?.progressMessage,
                     progress: prev?.progress
                   }))
@@ -783,7 +972,7 @@ function A2AEUPageContent() {
                     ...prev,
                     totalOpportunities: message.data.totalOpportunities,
                     productsAnalyzed: message.data.productsAnalyzed,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: message.data.exchangeRate || eurToGbp,
                     progressMessage: `Analysis complete! Found ${message.data.totalOpportunities} opportunities from ${message.data.storefrontsCount} selected storefronts.`,
                     progress: 100
                   }))
@@ -797,7 +986,7 @@ function A2AEUPageContent() {
                   setAnalysisStats({
                     totalOpportunities: 0,
                     productsAnalyzed: 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: `Error: ${message.data.error}`,
                     progress: 0
                   })
@@ -837,7 +1026,9 @@ function A2AEUPageContent() {
           'Authorization': `Bearer ${session.access_token}`
         },
         body: JSON.stringify({
-          storefrontId: selectedStorefront.id
+          storefrontId: selectedStorefront.id,
+          direction: scanDirection,
+          profileId: sourcingProfileId || undefined
         })
       })
       
@@ -868,7 +1059,7 @@ function A2AEUPageContent() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     ...prev,
                     progressMessage: message.data.step,
                     progress: message.data.progress,
@@ -888,7 +1079,7 @@ function A2AEUPageContent() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: prev?.productsAnalyzed || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: prev?.progressMessage,
                     progress: prev?.progress
                   }))
@@ -899,7 +1090,7 @@ function A2AEUPageContent() {
                     ...prev,
                     totalOpportunities: message.data.opportunitiesFound,
                     productsAnalyzed: message.data.totalProducts,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: message.data.exchangeRate || eurToGbp,
                     progressMessage: message.data.message,
                     progress: 100
                   }))
@@ -919,7 +1110,7 @@ function A2AEUPageContent() {
                     setAnalysisStats({
                       totalOpportunities: 0,
                       productsAnalyzed: 0,
-                      exchangeRate: EUR_TO_GBP_RATE,
+                      exchangeRate: eurToGbp,
                       progressMessage: `Error: ${message.data.error}`,
                       progress: 0
                     })
@@ -931,7 +1122,7 @@ function A2AEUPageContent() {
                     setAnalysisStats(prev => ({
                       totalOpportunities: prev?.totalOpportunities || 0,
                       productsAnalyzed: prev?.productsAnalyzed || 0,
-                      exchangeRate: prev?.exchangeRate || EUR_TO_GBP_RATE,
+                      exchangeRate: prev?.exchangeRate || eurToGbp,
                       ...prev,
                       progressMessage: `Warning: ${message.data.error} - Continuing analysis...`
                     }))
@@ -954,23 +1145,11 @@ function A2AEUPageContent() {
   }
   
   const getCountryFlag = (marketplace: string) => {
-    const flags: { [key: string]: string } = {
-      'DE': '🇩🇪',
-      'FR': '🇫🇷',
-      'IT': '🇮🇹',
-      'ES': '🇪🇸'
-    }
-    return flags[marketplace] || marketplace
+    return getMarketplace(marketplace)?.flag || marketplace
   }
   
   const getAmazonDomain = (marketplace: string) => {
-    const domains: { [key: string]: string } = {
-      'DE': 'de',
-      'FR': 'fr',
-      'IT': 'it',
-      'ES': 'es'
-    }
-    return domains[marketplace] || 'com'
+    return getAmazonDomainSuffix(marketplace) || 'com'
   }
 
   // Calculate summary statistics
@@ -988,6 +1167,9 @@ function A2AEUPageContent() {
       : 0
   }
 
+  // The rate the scan's prices were converted at, not today's live rate
+  const scanEurToGbp = (analysisStats?.exchangeRate || eurToGbp).toFixed(4)
+
   // Sort opportunities based on selected criteria
   const sortedOpportunities = [...opportunities].sort((a, b) => {
     switch (sortBy) {
@@ -1067,6 +1249,33 @@ function A2AEUPageContent() {
             </button>
           </div>
 
+          {/* Running Scan Notification */}
+          {runningScan && !analyzing && (
+            <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <ArrowPathIcon className="w-5 h-5 animate-spin text-blue-600" />
+                  <div>
+                    <p className="font-medium text-blue-900">
+                      {runningScan.storefront_name || 'A scan'} is running in the background
+                    </p>
+                    <p className="text-sm text-blue-700">
+                      Started {new Date(runningScan.started_at).toLocaleTimeString()} • 
+                      {runningScan.progress_percentage || 0}% complete • 
+                      {runningScan.processed_count || 0} products processed
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => reconnectToScan(runningScan.id)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  View Progress
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Saved Scans Inline */}
           <div id="recent-scans">
             <SavedScansInline 
@@ -1131,6 +1340,35 @@ function A2AEUPageContent() {
                 </div>
               </div>
 
+              {/* Direction Switcher */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-3">Scan Direction</label>
+                <div className="flex items-center gap-1 bg-white border border-gray-200 p-1 rounded-xl shadow-sm w-fit">
+                  {(['eu_to_uk', 'uk_to_eu'] as ScanDirection[]).map((direction) => (
+                    <button
+                      key={direction}
+                      onClick={() => setScanDirection(direction)}
+                      className={`px-4 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                        scanDirection === direction
+                          ? 'bg-blue-50 text-blue-600 shadow-sm border border-blue-200'
+                          : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+                      }`}
+                    >
+                      {direction === 'eu_to_uk' ? 'Buy EU → Sell UK' : 'Buy UK → Sell EU'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Sourcing Profile */}
+              <div className="mb-6 max-w-md">
+                <label className="block text-sm font-medium text-gray-700 mb-3">Sourcing Profile</label>
+                <SourcingProfileSelect
+                  value={sourcingProfileId}
+                  onChange={(profileId) => setSourcingProfileId(profileId)}
+                />
+              </div>
+
               {/* Single Storefront Selector */}
               {selectionMode === 'single' && (
                 <Listbox value={selectedStorefront} onChange={setSelectedStorefront}>
@@ -1226,6 +1464,23 @@ function A2AEUPageContent() {
                       </button>
                     </div>
                   </div>
+
+                  {storefrontGroups.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-gray-500">Groups:</span>
+                      {storefrontGroups.map(group => (
+                        <button
+                          key={group.id}
+                          onClick={() => handleSelectGroup(group)}
+                          className={`px-2 py-0.5 text-xs font-medium rounded border ${getGroupBadgeClasses(group.color)} ${
+                            selectedGroup?.id === group.id ? 'ring-2 ring-indigo-500' : ''
+                          }`}
+                        >
+                          {group.name} ({group.storefrontIds.length})
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   
                   <div className="bg-white rounded-xl border-2 border-gray-200 max-h-60 overflow-y-auto">
                     {storefronts.map((storefront: any) => {
@@ -1441,7 +1696,7 @@ function A2AEUPageContent() {
                     {analysisStats.productsAnalyzed > 0 && (
                       <p>Analysed {analysisStats.productsAnalyzed} products</p>
                     )}
-                    <p>Exchange rate: €1 = £{analysisStats.exchangeRate}</p>
+                    <p>Exchange rate: €1 = £{scanEurToGbp}</p>
                   </div>
                 </div>
               )}
@@ -1500,8 +1755,10 @@ function A2AEUPageContent() {
                   </div>
                   <div className="bg-white/20 backdrop-blur rounded-xl p-4">
                     <p className="text-violet-100 text-sm mb-1">Exchange Rate</p>
-                    <p className="text-3xl font-bold">€1 = £{EUR_TO_GBP_RATE}</p>
-                    <p className="text-sm text-violet-200 mt-1">EUR to GBP</p>
+                    <p className="text-3xl font-bold">€1 = £{scanEurToGbp}</p>
+                    <p className="text-sm text-violet-200 mt-1">
+                      {analysisStats?.exchangeRate ? 'EUR to GBP at scan time' : 'EUR to GBP, current rate'}
+                    </p>
                   </div>
                 </div>
                 {analyzing && (
@@ -1688,6 +1945,49 @@ function A2AEUPageContent() {
                       </div>
                     </Listbox>
                     
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">Direction:</span>
+                      <select
+                        value={directionFilter}
+                        onChange={(e) => setDirectionFilter(e.target.value as 'all' | ScanDirection)}
+                        className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="all">All Directions</option>
+                        <option value="eu_to_uk">EU → UK</option>
+                        <option value="uk_to_eu">UK → EU</option>
+                      </select>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={hideGated}
+                        onChange={(e) => setHideGated(e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Hide gated
+                    </label>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={hideHazmat}
+                        onChange={(e) => setHideHazmat(e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Hide hazmat
+                    </label>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={hideOversize}
+                        onChange={(e) => setHideOversize(e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Hide oversize
+                    </label>
+
                     <div className="flex items-center gap-2">
                       <span className="text-sm text-gray-600">Sort by:</span>
                       <select
@@ -1894,6 +2194,18 @@ function A2AEUPageContent() {
                           <h3 className="font-semibold text-gray-900 text-lg line-clamp-2 mb-2">{opp.productName}</h3>
                           <div className="flex items-center gap-4 text-sm text-gray-500">
                             <span>{opp.asin}</span>
+                            {opp.direction === 'uk_to_eu' && (
+                              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">
+                                {getDirectionLabel(opp.direction)} · Sell in {getCountryFlag(opp.targetMarketplace || 'EU')}
+                              </span>
+                            )}
+                            <RestrictionBadge status={opp.restrictionStatus} />
+                            <FbaFlagBadges
+                              fbaSizeTier={opp.fbaSizeTier}
+                              isOversize={opp.isOversize}
+                              possibleHazmat={opp.possibleHazmat}
+                              hazmatReasons={opp.hazmatReasons}
+                            />
                             <StorefrontDisplay storefronts={opp.storefronts} />
                           </div>
                           
@@ -1998,6 +2310,13 @@ function A2AEUPageContent() {
                             </p>
                           </div>
                         </div>
+                        <LandedProfitSummary
+                          landedCost={opp.landedCost}
+                          landedProfit={opp.landedProfit}
+                          landedRoi={opp.landedRoi}
+                          landedCostBreakdown={opp.landedCostBreakdown}
+                        />
+                        <BuyBoxSummary buyBox={opp.buyBox} />
                         
                         {/* Action Buttons */}
                         <div className="mt-3 flex gap-2 ml-auto">
@@ -2224,7 +2543,7 @@ function A2AEUPageContent() {
                                           </div>
                                           <div class="calculation-row">
                                             <span class="label">Exchange Rate (EUR→GBP):</span>
-                                            <span class="value neutral">€1 = £${EUR_TO_GBP_RATE}</span>
+                                            <span class="value neutral">€1 = £${scanEurToGbp}</span>
                                           </div>
                                         </div>
                                         
@@ -2566,6 +2885,9 @@ function A2AEUPageContent() {
         }
       />
 
+      {/* Scan Progress Panel - pause, resume or cancel running scans */}
+      <ScanProgressPanel />
+
       {/* Batch SellerAmp Modal */}
       <SellerAmpModal
         isOpen={showBatchSellerAmpModal}
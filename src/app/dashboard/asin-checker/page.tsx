@@ -23,10 +23,14 @@ import ASINListManager from '@/components/ASINListManager'
 import SaveASINListModal from '@/components/SaveASINListModal'
 import { AIAnalysisResult } from '@/services/ai-deal-analyzer'
 import { useBlacklist } from '@/hooks/useBlacklist'
+import { useExchangeRates } from '@/hooks/useExchangeRates'
 import { AddToListModal } from '@/components/AddToListModal'
-
-// Exchange rate constant
-const EUR_TO_GBP_RATE = 0.86
+import { getMarketplace, getAmazonDomainSuffix } from '@/lib/amazon-marketplaces'
+import LandedProfitSummary from '@/components/LandedProfitSummary'
+import BuyBoxSummary from '@/components/BuyBoxSummary'
+import SourcingProfileSelect from '@/components/SourcingProfileSelect'
+import type { LandedCostBreakdown } from '@/lib/landed-cost'
+import type { OfferAnalysis } from '@/services/arbitrage/buy-box-offers'
 
 interface EUMarketplacePrice {
   marketplace: string
@@ -79,6 +83,11 @@ interface ArbitrageOpportunity {
   salesPerMonth?: number
   euPrices: EUMarketplacePrice[]
   bestOpportunity: EUMarketplacePrice
+  landedCost?: number | null
+  landedProfit?: number | null
+  landedRoi?: number | null
+  landedCostBreakdown?: LandedCostBreakdown | null
+  buyBox?: OfferAnalysis | null
   profitCategory?: 'profitable' | 'breakeven' | 'loss'
   priceHistory?: {
     uk: PriceHistoryInfo
@@ -117,6 +126,7 @@ export default function ASINCheckerPage() {
     keepaError?: boolean
   } | null>(null)
   const [profitFilter, setProfitFilter] = useState<ProfitFilter>('profitable')
+  const [sourcingProfileId, setSourcingProfileId] = useState('')
   const [sortBy, setSortBy] = useState<SortOption>('profit')
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set())
   const [asinInput, setAsinInput] = useState('')
@@ -132,6 +142,8 @@ export default function ASINCheckerPage() {
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null)
   const router = useRouter()
 
+  const { eurToGbp } = useExchangeRates()
+
   // Blacklist functionality
   const { blacklistAsin, isLoading: isBlacklisting, error: blacklistError, success: blacklistSuccess, clearMessages } = useBlacklist()
   const [blacklistConfirm, setBlacklistConfirm] = useState<{ asin: string; productName: string } | null>(null)
@@ -316,7 +328,7 @@ export default function ASINCheckerPage() {
         setAnalysisStats({
           totalOpportunities: scan.opportunities_found || 0,
           productsAnalyzed: scan.processed_count || 0,
-          exchangeRate: EUR_TO_GBP_RATE,
+          exchangeRate: scan.metadata?.exchange_rate || eurToGbp,
           progressMessage: scan.current_step || 'Processing...',
           progress: scan.progress_percentage || 0,
           totalAsins: scan.unique_asins || scan.total_products,
@@ -474,7 +486,7 @@ export default function ASINCheckerPage() {
     setAnalysisStats({
       totalOpportunities: 0,
       productsAnalyzed: 0,
-      exchangeRate: EUR_TO_GBP_RATE,
+      exchangeRate: eurToGbp,
       progressMessage: `Starting analysis of ${listName}...`,
       progress: 0
     })
@@ -511,7 +523,8 @@ export default function ASINCheckerPage() {
         body: JSON.stringify({
           asins: finalAsins,
           includeKeepa: true,        // Enable Keepa for AI analysis
-          includeAIAnalysis: true    // Enable AI deal scoring
+          includeAIAnalysis: true,   // Enable AI deal scoring
+          profileId: sourcingProfileId || undefined
         })
       })
       
@@ -542,7 +555,7 @@ export default function ASINCheckerPage() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: message.data.processedCount || message.data.current || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     ...prev,
                     progressMessage: message.data.step,
                     progress: message.data.progress,
@@ -571,7 +584,7 @@ export default function ASINCheckerPage() {
                   setAnalysisStats(prev => ({
                     totalOpportunities: opportunityCount,
                     productsAnalyzed: prev?.productsAnalyzed || 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: prev?.progressMessage,
                     progress: prev?.progress
                   }))
@@ -582,7 +595,7 @@ export default function ASINCheckerPage() {
                     ...prev,
                     totalOpportunities: message.data.opportunitiesFound,
                     productsAnalyzed: message.data.totalProducts,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: message.data.message,
                     progress: 100,
                     excludedCount: message.data.excludedCount
@@ -599,7 +612,7 @@ export default function ASINCheckerPage() {
                   setAnalysisStats({
                     totalOpportunities: 0,
                     productsAnalyzed: 0,
-                    exchangeRate: EUR_TO_GBP_RATE,
+                    exchangeRate: eurToGbp,
                     progressMessage: `Error: ${message.data.error}`,
                     progress: 0
                   })
@@ -654,23 +667,11 @@ export default function ASINCheckerPage() {
   })
   
   const getCountryFlag = (marketplace: string) => {
-    const flags: { [key: string]: string } = {
-      'DE': '🇩🇪',
-      'FR': '🇫🇷',
-      'IT': '🇮🇹',
-      'ES': '🇪🇸'
-    }
-    return flags[marketplace] || marketplace
+    return getMarketplace(marketplace)?.flag || marketplace
   }
   
   const getAmazonDomain = (marketplace: string) => {
-    const domains: { [key: string]: string } = {
-      'DE': 'de',
-      'FR': 'fr',
-      'IT': 'it',
-      'ES': 'es'
-    }
-    return domains[marketplace] || 'com'
+    return getAmazonDomainSuffix(marketplace) || 'com'
   }
 
   return (
@@ -744,6 +745,14 @@ export default function ASINCheckerPage() {
                   rows={4}
                 />
               </div>
+
+              <div className="max-w-md">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Sourcing Profile</label>
+                <SourcingProfileSelect
+                  value={sourcingProfileId}
+                  onChange={(profileId) => setSourcingProfileId(profileId)}
+                />
+              </div>
               
               <div className="space-y-3">
                 {/* Primary action buttons */}
@@ -974,7 +983,7 @@ export default function ASINCheckerPage() {
                   </div>
                   <div className="bg-white/20 backdrop-blur rounded-xl p-4">
                     <p className="text-violet-100 text-sm mb-1">Exchange Rate</p>
-                    <p className="text-3xl font-bold">€1 = £{EUR_TO_GBP_RATE}</p>
+                    <p className="text-3xl font-bold">€1 = £{eurToGbp}</p>
                     <p className="text-sm text-violet-200 mt-1">EUR to GBP</p>
                   </div>
                 </div>
@@ -1336,6 +1345,13 @@ export default function ASINCheckerPage() {
                             </p>
                           </div>
                         </div>
+                        <LandedProfitSummary
+                          landedCost={opp.landedCost}
+                          landedProfit={opp.landedProfit}
+                          landedRoi={opp.landedRoi}
+                          landedCostBreakdown={opp.landedCostBreakdown}
+                        />
+                        <BuyBoxSummary buyBox={opp.buyBox} />
                         
                         {/* AI Analysis Display */}
                         {opp.aiAnalysis && (
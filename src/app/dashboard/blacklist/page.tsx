@@ -5,6 +5,12 @@ import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
 import Sidebar from '@/components/Sidebar'
+import {
+  BLACKLIST_RULE_TYPES,
+  BlacklistRule,
+  BlacklistRuleType,
+  getBlacklistRuleTypeLabel
+} from '@/lib/blacklist-rules'
 import { 
   TrashIcon,
   PlusIcon,
@@ -19,6 +25,13 @@ interface BlacklistItem {
   created_at: string;
 }
 
+const RULE_PATTERN_PLACEHOLDERS: Record<BlacklistRuleType, string> = {
+  brand: 'e.g. LEGO or Disney*',
+  category: 'e.g. GROCERY or *supplement*',
+  keyword: 'e.g. aerosol',
+  seller: 'e.g. A1B2C3D4E5F6G7 or Toy*'
+}
+
 export default function BlacklistPage() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
@@ -30,6 +43,14 @@ export default function BlacklistPage() {
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [rules, setRules] = useState<BlacklistRule[]>([])
+  const [ruleType, setRuleType] = useState<BlacklistRuleType>('brand')
+  const [rulePattern, setRulePattern] = useState('')
+  const [ruleReason, setRuleReason] = useState('')
+  const [isAddingRule, setIsAddingRule] = useState(false)
+  const [ruleError, setRuleError] = useState('')
+  const [ruleSuccess, setRuleSuccess] = useState('')
+  const [ruleDeleteConfirm, setRuleDeleteConfirm] = useState<string | null>(null)
   const router = useRouter()
 
   useEffect(() => {
@@ -42,7 +63,7 @@ export default function BlacklistPage() {
           return
         }
         setUser(user)
-        await fetchBlacklist()
+        await Promise.all([fetchBlacklist(), fetchRules()])
       } catch (error) {
         console.error('Failed to check user:', error)
         window.location.href = '/'
@@ -152,6 +173,96 @@ export default function BlacklistPage() {
     }
   }
 
+  const fetchRules = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) return
+
+      const response = await fetch('/api/blacklist/rules', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setRules(data.rules)
+      }
+    } catch (error) {
+      console.error('Error fetching blacklist rules:', error)
+    }
+  }
+
+  const addRule = async () => {
+    if (!rulePattern.trim()) {
+      setRuleError('Enter a pattern')
+      return
+    }
+
+    setIsAddingRule(true)
+    setRuleError('')
+    setRuleSuccess('')
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) return
+
+      const response = await fetch('/api/blacklist/rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({
+          ruleType,
+          pattern: rulePattern.trim(),
+          reason: ruleReason.trim() || undefined
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setRuleSuccess('Rule added. It applies from the next scan.')
+        setRulePattern('')
+        setRuleReason('')
+        await fetchRules()
+      } else {
+        setRuleError(data.error || 'Failed to add rule')
+      }
+    } catch (error) {
+      setRuleError('Network error occurred')
+    } finally {
+      setIsAddingRule(false)
+    }
+  }
+
+  const removeRule = async (ruleId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) return
+
+      const response = await fetch(`/api/blacklist/rules?id=${ruleId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`
+        }
+      })
+
+      if (response.ok) {
+        setRuleSuccess('Rule removed successfully')
+        setRules(prev => prev.filter(rule => rule.id !== ruleId))
+      } else {
+        const data = await response.json()
+        setRuleError(data.error || 'Failed to remove rule')
+      }
+    } catch (error) {
+      setRuleError('Network error occurred')
+    } finally {
+      setRuleDeleteConfirm(null)
+    }
+  }
+
   const handleSignOut = async () => {
     await supabase.auth.signOut()
     router.push('/')
@@ -181,8 +292,8 @@ export default function BlacklistPage() {
         <header className="bg-white border-b border-gray-100 sticky top-0 z-10">
           <div className="px-8 py-4 flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-semibold text-gray-800">ASIN Blacklist</h1>
-              <p className="text-sm text-gray-600 mt-1">Manage ASINs excluded from arbitrage scans</p>
+              <h1 className="text-2xl font-semibold text-gray-800">Blacklist</h1>
+              <p className="text-sm text-gray-600 mt-1">Manage ASINs, brands, categories, keywords and sellers excluded from arbitrage scans</p>
             </div>
             
             <div className="flex items-center gap-4">
@@ -260,6 +371,170 @@ export default function BlacklistPage() {
             </button>
           </div>
 
+          {/* Rules */}
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 mb-8 overflow-hidden">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-800">Blacklist Rules</h2>
+              <p className="text-sm text-gray-600 mt-1 mb-4">
+                Exclude every product from a brand, category or seller, or with a keyword in its title.
+                Not case sensitive; use * for any characters and ? for a single character.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Type
+                  </label>
+                  <select
+                    value={ruleType}
+                    onChange={(e) => setRuleType(e.target.value as BlacklistRuleType)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    {BLACKLIST_RULE_TYPES.map(type => (
+                      <option key={type} value={type}>{getBlacklistRuleTypeLabel(type)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pattern
+                  </label>
+                  <input
+                    type="text"
+                    value={rulePattern}
+                    onChange={(e) => setRulePattern(e.target.value)}
+                    placeholder={RULE_PATTERN_PLACEHOLDERS[ruleType]}
+                    maxLength={255}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reason (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleReason}
+                    onChange={(e) => setRuleReason(e.target.value)}
+                    placeholder="e.g. IP complaint"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              {ruleError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+                  <ExclamationTriangleIcon className="w-5 h-5" />
+                  {ruleError}
+                </div>
+              )}
+
+              {ruleSuccess && (
+                <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700">
+                  {ruleSuccess}
+                </div>
+              )}
+
+              <button
+                onClick={addRule}
+                disabled={isAddingRule || !rulePattern.trim()}
+                className="inline-flex items-center gap-2 bg-gradient-to-r from-violet-500 to-indigo-500 text-white px-6 py-2 rounded-lg font-medium hover:from-violet-600 hover:to-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <PlusIcon className="w-5 h-5" />
+                {isAddingRule ? 'Adding...' : 'Add Rule'}
+              </button>
+            </div>
+
+            {rules.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No rules yet</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Type
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Pattern
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reason
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Excluded in Last Scan
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rules.map((rule) => (
+                      <tr key={rule.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-50 text-indigo-700">
+                            {getBlacklistRuleTypeLabel(rule.ruleType)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="text-sm font-medium text-gray-900 font-mono">{rule.pattern}</span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="text-sm text-gray-600">
+                            {rule.reason || 'No reason provided'}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {rule.lastScanAt ? (
+                            <div>
+                              <span className="text-sm font-medium text-gray-900">
+                                {(rule.lastExcludedCount ?? 0).toLocaleString()} products
+                              </span>
+                              <p className="text-xs text-gray-500">
+                                {new Date(rule.lastScanAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-gray-400">Not scanned yet</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {ruleDeleteConfirm === rule.id ? (
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => removeRule(rule.id)}
+                                className="text-red-600 hover:text-red-800 text-sm font-medium"
+                              >
+                                Confirm
+                              </button>
+                              <button
+                                onClick={() => setRuleDeleteConfirm(null)}
+                                className="text-gray-500 hover:text-gray-700 text-sm font-medium"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => setRuleDeleteConfirm(rule.id)}
+                              className="text-red-600 hover:text-red-800 p-1 rounded"
+                              title="Remove rule"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           {/* Search */}
           <div className="mb-6">
             <div className="relative">
@@ -4,6 +4,13 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Sidebar from '@/components/Sidebar'
+import NotificationChannelSettings, { NotificationChannelRow } from '@/components/NotificationChannelSettings'
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NotificationChannelType,
+  getChannelLabel
+} from '@/lib/notification-channel-types'
+import { DELIVERY_MODES, DeliveryMode } from '@/lib/notification-digest'
 import { 
   BellIcon,
   ChatBubbleLeftRightIcon,
@@ -28,6 +35,8 @@ interface NotificationPreference {
   notification_type: string;
   enabled: boolean;
   priority: 'immediate' | 'normal' | 'low';
+  channels?: NotificationChannelType[] | null;
+  delivery_mode?: DeliveryMode | null;
 }
 
 interface NotificationHistory {
@@ -35,6 +44,7 @@ interface NotificationHistory {
   notification_type: string;
   message: string;
   status: string;
+  channel?: NotificationChannelType;
   sent_at: string;
   metadata: any;
 }
@@ -73,8 +83,10 @@ export default function NotificationsPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [testing, setTesting] = useState(false)
+  const [enablingCommands, setEnablingCommands] = useState(false)
   const [connection, setConnection] = useState<TelegramConnection | null>(null)
   const [preferences, setPreferences] = useState<NotificationPreference[]>([])
+  const [channels, setChannels] = useState<NotificationChannelRow[]>([])
   const [history, setHistory] = useState<NotificationHistory[]>([])
   const [botToken, setBotToken] = useState('')
   const [chatId, setChatId] = useState('')
@@ -108,11 +120,18 @@ export default function NotificationsPage() {
         .select('*')
         .single()
 
+      // Load email, Discord, Slack and webhook channels
+      const { data: channelsData } = await supabase
+        .from('notification_channels')
+        .select('channel_type, config, enabled')
+
+      setChannels(channelsData || [])
+
       if (connectionData) {
         setConnection(connectionData)
         setBotToken(connectionData.bot_token || '')
         setChatId(connectionData.chat_id || '')
-      } else {
+      } else if (!channelsData?.length) {
         setShowSetup(true)
       }
 
@@ -249,6 +268,33 @@ export default function NotificationsPage() {
     }
   }
 
+  const enableBotCommands = async () => {
+    setEnablingCommands(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      const response = await fetch('/api/telegram/register-webhook', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        alert('Bot commands enabled! Send /help to your bot to see them.')
+      } else {
+        alert(`Failed to enable bot commands: ${data.error}`)
+      }
+    } catch (error) {
+      alert('Failed to enable bot commands')
+    } finally {
+      setEnablingCommands(false)
+    }
+  }
+
   const togglePreference = async (type: string) => {
     const pref = preferences.find(p => p.notification_type === type)
     const newValue = !pref?.enabled
@@ -263,8 +309,9 @@ export default function NotificationsPage() {
           user_id: user.id,
           notification_type: type,
           enabled: newValue,
-          priority: pref?.priority || 'normal'
-        })
+          priority: pref?.priority || 'normal',
+          channels: getPreferenceChannels(pref)
+        }, { onConflict: 'user_id,notification_type' })
 
       setPreferences(prev => {
         const existing = prev.find(p => p.notification_type === type)
@@ -278,7 +325,8 @@ export default function NotificationsPage() {
           return [...prev, {
             notification_type: type,
             enabled: newValue,
-            priority: 'normal'
+            priority: 'normal',
+            channels: getPreferenceChannels(pref)
           }]
         }
       })
@@ -308,6 +356,70 @@ export default function NotificationsPage() {
     }
   }
 
+  const updateDeliveryMode = async (type: string, deliveryMode: DeliveryMode) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      await supabase
+        .from('notification_preferences')
+        .update({ delivery_mode: deliveryMode })
+        .eq('user_id', user.id)
+        .eq('notification_type', type)
+
+      setPreferences(prev => prev.map(p => 
+        p.notification_type === type 
+          ? { ...p, delivery_mode: deliveryMode }
+          : p
+      ))
+    } catch (error) {
+      console.error('Error updating delivery mode:', error)
+    }
+  }
+
+  const getPreferenceChannels = (pref?: NotificationPreference): NotificationChannelType[] => {
+    return pref?.channels?.length ? pref.channels : DEFAULT_NOTIFICATION_CHANNELS
+  }
+
+  const toggleChannel = async (type: string, channel: NotificationChannelType) => {
+    const pref = preferences.find(p => p.notification_type === type)
+    const current = getPreferenceChannels(pref)
+    const newChannels = current.includes(channel)
+      ? current.filter(c => c !== channel)
+      : [...current, channel]
+
+    // A type with no channels is switched off instead
+    if (newChannels.length === 0) return
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: user.id,
+          notification_type: type,
+          enabled: pref?.enabled ?? false,
+          priority: pref?.priority || 'normal',
+          channels: newChannels
+        }, { onConflict: 'user_id,notification_type' })
+
+      setPreferences(prev => pref
+        ? prev.map(p => p.notification_type === type ? { ...p, channels: newChannels } : p)
+        : [...prev, { notification_type: type, enabled: false, priority: 'normal', channels: newChannels }]
+      )
+    } catch (error) {
+      console.error('Error updating channels:', error)
+    }
+  }
+
+  // Channels a notification type can be routed to
+  const availableChannels: NotificationChannelType[] = [
+    ...(connection ? ['telegram' as const] : []),
+    ...channels.map(channel => channel.channel_type)
+  ]
+
   const getPriorityIcon = (priority: string) => {
     switch (priority) {
       case 'immediate': return <BoltIcon className="w-4 h-4 text-red-500" />
@@ -337,7 +449,7 @@ export default function NotificationsPage() {
           {/* Header */}
           <div className="mb-8">
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Notifications</h1>
-            <p className="text-gray-600">Configure Telegram notifications for important events</p>
+            <p className="text-gray-600">Configure Telegram, email, Discord, Slack and webhook notifications for important events</p>
           </div>
 
           {/* Connection Status */}
@@ -348,18 +460,33 @@ export default function NotificationsPage() {
                 Telegram Connection
               </h2>
               {connection && (
-                <button
-                  onClick={testConnection}
-                  disabled={testing}
-                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
-                >
-                  {testing ? (
-                    <ArrowPathIcon className="w-4 h-4 animate-spin" />
-                  ) : (
-                    <CheckCircleIcon className="w-4 h-4" />
-                  )}
-                  Test Connection
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={enableBotCommands}
+                    disabled={enablingCommands}
+                    title="Reply to /scan, /check, /tokens, /lists and /blacklist, and handle the buttons on deal alerts"
+                    className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {enablingCommands ? (
+                      <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <ChatBubbleLeftRightIcon className="w-4 h-4" />
+                    )}
+                    Enable Bot Commands
+                  </button>
+                  <button
+                    onClick={testConnection}
+                    disabled={testing}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {testing ? (
+                      <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <CheckCircleIcon className="w-4 h-4" />
+                    )}
+                    Test Connection
+                  </button>
+                </div>
               )}
             </div>
 
@@ -544,8 +671,10 @@ export default function NotificationsPage() {
             </div>
           )}
 
+          <NotificationChannelSettings channels={channels} onChange={loadData} />
+
           {/* Notification Preferences */}
-          {connection && (
+          {availableChannels.length > 0 && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Notification Preferences</h2>
               
@@ -579,6 +708,34 @@ export default function NotificationsPage() {
                             </div>
                             
                             <div className="flex items-center gap-2">
+                              {availableChannels.map(channel => {
+                                const selected = getPreferenceChannels(pref).includes(channel)
+                                return (
+                                  <button
+                                    key={channel}
+                                    onClick={() => toggleChannel(notif.type, channel)}
+                                    disabled={!isEnabled}
+                                    className={`text-xs px-2 py-1 rounded border disabled:opacity-50 ${
+                                      selected
+                                        ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                                        : 'bg-white text-gray-500 border-gray-200'
+                                    }`}
+                                  >
+                                    {getChannelLabel(channel)}
+                                  </button>
+                                )
+                              })}
+                              <select
+                                value={pref?.delivery_mode || 'instant'}
+                                onChange={(e) => updateDeliveryMode(notif.type, e.target.value as DeliveryMode)}
+                                className="text-xs border border-gray-300 rounded px-2 py-1"
+                                disabled={!isEnabled}
+                                title="Daily and weekly digests are sent at 08:00 UK time"
+                              >
+                                {DELIVERY_MODES.map(mode => (
+                                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                                ))}
+                              </select>
                               {getPriorityIcon(priority)}
                               <select
                                 value={priority}
@@ -620,7 +777,7 @@ export default function NotificationsPage() {
                           {item.notification_type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
                         </p>
                         <p className="text-xs text-gray-500">
-                          {new Date(item.sent_at).toLocaleString()}
+                          {new Date(item.sent_at).toLocaleString()} · {getChannelLabel(item.channel || 'telegram')}
                         </p>
                       </div>
                     </div>
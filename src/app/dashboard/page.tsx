@@ -76,6 +76,7 @@ export default function Dashboard() {
       const { count: productsCount, error: productsError } = await supabase
         .from('products')
         .select('*', { count: 'exact', head: true })
+        .is('removed_at', null)
       
       if (!productsError && productsCount !== null) {
         setProductsCount(productsCount)
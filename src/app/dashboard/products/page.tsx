@@ -83,6 +83,7 @@ export default function ProductsPage() {
         .from('products')
         .select('*', { count: 'exact', head: true })
         .in('storefront_id', storefrontIds)
+        .is('removed_at', null)
 
       if (countError) throw countError
       setTotalProductsCount(totalCount || 0)
@@ -92,6 +93,7 @@ export default function ProductsPage() {
         .from('products')
         .select('asin')
         .in('storefront_id', storefrontIds)
+        .is('removed_at', null)
 
       if (uniqueError) throw uniqueError
       const uniqueAsinSet = new Set((uniqueAsins || []).map((p: any) => p.asin))
@@ -105,6 +107,7 @@ export default function ProductsPage() {
           storefront:storefronts(id, name, seller_id)
         `)
         .in('storefront_id', storefrontIds)
+        .is('removed_at', null)
         .order('created_at', { ascending: sortOrder === 'oldest' })
         .limit(1000)
 
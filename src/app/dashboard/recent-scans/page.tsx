@@ -24,21 +24,40 @@ import {
   TrashIcon,
   ChevronDownIcon,
   NoSymbolIcon,
-  PlusCircleIcon
+  PlusCircleIcon,
+  ArrowsRightLeftIcon
 } from '@heroicons/react/24/outline'
 import { Fragment } from 'react'
 import { Listbox, Transition } from '@headlessui/react'
 import { useBlacklist } from '@/hooks/useBlacklist'
+import { useExchangeRates } from '@/hooks/useExchangeRates'
+import type { ExchangeRateSnapshot } from '@/lib/exchange-rates'
 import SourcingListModal from '@/components/SourcingListModal'
 import SellerAmpModal from '@/components/SellerAmpModal'
 import { StorefrontDisplay, formatStorefrontsText } from '@/lib/storefront-formatter'
 import { AddToListModal } from '@/components/AddToListModal'
+import { getMarketplace, getAmazonDomainSuffix } from '@/lib/amazon-marketplaces'
+import { ScanDirection, DEFAULT_SCAN_DIRECTION, getDirectionLabel } from '@/lib/scan-direction'
+import LandedProfitSummary from '@/components/LandedProfitSummary'
+import BuyBoxSummary from '@/components/BuyBoxSummary'
+import RestrictionBadge from '@/components/RestrictionBadge'
+import FbaFlagBadges from '@/components/FbaFlagBadges'
+import type { SupplierItem } from '@/lib/supplier-price-list'
+import { isGated, type RestrictionStatus } from '@/lib/restriction-status'
+import type { FbaSizeTier } from '@/lib/fba-size-tier'
+import type { LandedCostBreakdown } from '@/lib/landed-cost'
+import type { OfferAnalysis } from '@/services/arbitrage/buy-box-offers'
+import ScanDiffView from '@/components/ScanDiffView'
+import SourcingProfileSelect from '@/components/SourcingProfileSelect'
+import type { ScanDiff } from '@/services/arbitrage/scan-diff'
 
 interface SavedScan {
   id: string
   scan_type: string
+  storefront_id?: string | null
   storefront_name: string
   status: string
+  direction?: ScanDirection
   total_products: number
   unique_asins: number
   opportunities_found: number
@@ -50,6 +69,7 @@ interface SavedScan {
   last_updated?: string
   metadata?: {
     exchange_rate?: number
+    exchange_rates?: ExchangeRateSnapshot
     total_profit?: number
   }
 }
@@ -103,6 +123,17 @@ interface ArbitrageOpportunity {
   salesPerMonth: number
   euPrices: EUMarketplacePrice[]
   bestOpportunity: EUMarketplacePrice
+  landedCost?: number | null
+  landedProfit?: number | null
+  landedRoi?: number | null
+  landedCostBreakdown?: LandedCostBreakdown | null
+  buyBox?: OfferAnalysis | null
+  restrictionStatus?: RestrictionStatus | null
+  fbaSizeTier?: FbaSizeTier | null
+  isOversize?: boolean | null
+  possibleHazmat?: boolean | null
+  hazmatReasons?: string[] | null
+  supplierItem?: SupplierItem | null
   profitCategory?: ProfitCategory
   storefronts?: Array<{
     id: string
@@ -124,6 +155,7 @@ export default function RecentScansPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [filterStatus, setFilterStatus] = useState<string>('all')
   const [filterType, setFilterType] = useState<string>('all')
+  const [filterDirection, setFilterDirection] = useState<string>('all')
   const [showAddStorefrontModal, setShowAddStorefrontModal] = useState(false)
   
   // Add to List modal state
@@ -132,6 +164,7 @@ export default function RecentScansPage() {
   
   // Scan results viewing state
   const [viewingScan, setViewingScan] = useState<SavedScan | null>(null)
+  const { eurToGbp } = useExchangeRates()
   const [opportunities, setOpportunities] = useState<ArbitrageOpportunity[]>([])
   const [loadingScanResults, setLoadingScanResults] = useState(false)
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set())
@@ -147,6 +180,7 @@ export default function RecentScansPage() {
   const [minROI, setMinROI] = useState<number>(0)
   const [maxPrice, setMaxPrice] = useState<number>(0)
   const [minSalesPerMonth, setMinSalesPerMonth] = useState<number>(0)
+  const [filterProfileId, setFilterProfileId] = useState('')
   const [selectedMarketplace, setSelectedMarketplace] = useState<string>('all')
 
   // Debounced versions for performance - only update filtering after user stops typing
@@ -163,9 +197,16 @@ export default function RecentScansPage() {
   const [newProductFilter, setNewProductFilter] = useState<'new' | 'existing' | 'all'>('all')
   const [priceChangeFilter, setPriceChangeFilter] = useState<'price-increased' | 'price-decreased' | 'profit-improved' | 'profit-worsened' | 'all'>('all')
   const [spmFilter, setSpmFilter] = useState<'all' | 'available' | 'n/a'>('all')
+  const [hideGated, setHideGated] = useState(false)
+  const [hideHazmat, setHideHazmat] = useState(false)
+  const [hideOversize, setHideOversize] = useState(false)
   
   // Delete functionality state
   const [deletingScanId, setDeletingScanId] = useState<string | null>(null)
+
+  // Scan comparison
+  const [scanDiff, setScanDiff] = useState<ScanDiff | null>(null)
+  const [comparingScanId, setComparingScanId] = useState<string | null>(null)
   
   // Sourcing list modal state
   const [showSourcingListModal, setShowSourcingListModal] = useState(false)
@@ -374,6 +415,17 @@ export default function RecentScansPage() {
               },
               euPrices: opp.all_marketplace_prices?.euPrices || [],
               profitCategory: opp.profit_category,
+              landedCost: opp.landed_cost,
+              landedProfit: opp.landed_profit,
+              landedRoi: opp.landed_roi,
+              landedCostBreakdown: opp.landed_cost_breakdown,
+              buyBox: opp.buy_box_analysis,
+              restrictionStatus: opp.restriction_status,
+              fbaSizeTier: opp.fba_size_tier,
+              isOversize: opp.is_oversize,
+              possibleHazmat: opp.possible_hazmat,
+              hazmatReasons: opp.hazmat_reasons,
+              supplierItem: opp.supplier_item,
               keepaSalesData: opp.keepa_sales_data,
               keepaGraphUrl: opp.keepa_graph_url,
               priceHistory: opp.priceHistory,
@@ -486,6 +538,17 @@ export default function RecentScansPage() {
           roi: parseFloat(opp.best_roi || '0'),
           totalCost: parseFloat(opp.best_source_price_gbp || '0') + parseFloat(opp.amazon_fees || '0') + parseFloat(opp.digital_services_fee || '0')
         },
+        landedCost: opp.landed_cost !== null && opp.landed_cost !== undefined ? parseFloat(opp.landed_cost) : null,
+        landedProfit: opp.landed_profit !== null && opp.landed_profit !== undefined ? parseFloat(opp.landed_profit) : null,
+        landedRoi: opp.landed_roi !== null && opp.landed_roi !== undefined ? parseFloat(opp.landed_roi) : null,
+        landedCostBreakdown: opp.landed_cost_breakdown || null,
+        buyBox: opp.buy_box_analysis || null,
+        restrictionStatus: opp.restriction_status || null,
+        fbaSizeTier: opp.fba_size_tier || null,
+        isOversize: opp.is_oversize ?? null,
+        possibleHazmat: opp.possible_hazmat ?? null,
+        hazmatReasons: opp.hazmat_reasons || [],
+        supplierItem: opp.supplier_item || null,
         storefronts: opp.storefronts || [],
         priceHistory: opp.priceHistory,
         isNewProduct: opp.isNewProduct || false
@@ -509,19 +572,54 @@ export default function RecentScansPage() {
     setViewingScan(null)
     setOpportunities([])
     setSelectedDeals(new Set())
+    setScanDiff(null)
   }
 
-  const getAmazonDomain = (marketplace: string) => {
-    switch (marketplace) {
-      case 'DE': return 'de'
-      case 'FR': return 'fr'
-      case 'IT': return 'it'
-      case 'ES': return 'es'
-      case 'NL': return 'nl'
-      default: return 'de'
+  // Completed scans of the same storefront that started before this one, newest first
+  const getEarlierStorefrontScans = (scan: SavedScan) =>
+    savedScans.filter(s =>
+      s.id !== scan.id &&
+      s.status === 'completed' &&
+      !!scan.storefront_id &&
+      s.storefront_id === scan.storefront_id &&
+      new Date(s.started_at) < new Date(scan.started_at)
+    )
+
+  const handleCompareScans = async (baseScanId: string, headScanId: string) => {
+    setComparingScanId(headScanId)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error('No session')
+
+      const response = await fetch(
+        `/api/arbitrage/scans/compare?base=${encodeURIComponent(baseScanId)}&head=${encodeURIComponent(headScanId)}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          }
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare scans')
+      }
+
+      setScanDiff(data)
+    } catch (error) {
+      console.error('Failed to compare scans:', error)
+      alert(error instanceof Error ? error.message : 'Failed to compare scans. Please try again.')
+    } finally {
+      setComparingScanId(null)
     }
   }
 
+  const getAmazonDomain = (marketplace: string) => {
+    return getAmazonDomainSuffix(marketplace) || 'de'
+  }
+
   const exportToCSV = () => {
     // Create CSV headers
     const headers = [
@@ -696,8 +794,12 @@ export default function RecentScansPage() {
         return 'Single Storefront'
       case 'all_storefronts':
         return 'All Storefronts'
+      case 'storefront_group':
+        return 'Storefront Group'
       case 'asin_check':
         return 'ASIN Checker'
+      case 'supplier_import':
+        return 'Supplier Price List'
       default:
         return type
     }
@@ -711,8 +813,12 @@ export default function RecentScansPage() {
         return 'bg-blue-100 text-blue-700 border-blue-200'
       case 'all_storefronts':
         return 'bg-green-100 text-green-700 border-green-200'
+      case 'storefront_group':
+        return 'bg-pink-100 text-pink-700 border-pink-200'
       case 'asin_check':
         return 'bg-amber-100 text-amber-700 border-amber-200'
+      case 'supplier_import':
+        return 'bg-teal-100 text-teal-700 border-teal-200'
       default:
         return 'bg-gray-100 text-gray-700 border-gray-200'
     }
@@ -769,13 +875,7 @@ export default function RecentScansPage() {
   }
 
   const getCountryFlag = (marketplace: string) => {
-    const flags: { [key: string]: string } = {
-      'DE': '🇩🇪',
-      'FR': '🇫🇷',
-      'IT': '🇮🇹',
-      'ES': '🇪🇸'
-    }
-    return flags[marketplace] || marketplace
+    return getMarketplace(marketplace)?.flag || marketplace
   }
 
   const filteredScans = savedScans
@@ -783,6 +883,7 @@ export default function RecentScansPage() {
       if (searchTerm && !scan.storefront_name?.toLowerCase().includes(searchTerm.toLowerCase())) return false
       if (filterStatus !== 'all' && scan.status !== filterStatus) return false
       if (filterType !== 'all' && scan.scan_type !== filterType) return false
+      if (filterDirection !== 'all' && (scan.direction || DEFAULT_SCAN_DIRECTION) !== filterDirection) return false
       return true
     })
 
@@ -1087,6 +1188,13 @@ export default function RecentScansPage() {
           break;
       }
       
+      // Hide deals our seller account can't list without approval
+      if (hideGated && isGated(opp.restrictionStatus)) return false
+
+      // Hide deals FBA may reject as dangerous goods or charge oversize fees on
+      if (hideHazmat && opp.possibleHazmat) return false
+      if (hideOversize && opp.isOversize) return false
+      
       return true
     })
 
@@ -1134,7 +1242,7 @@ export default function RecentScansPage() {
 
     return filtered
   }, [
-    opportunities, dealFilter, newProductFilter, priceChangeFilter, spmFilter,
+    opportunities, dealFilter, newProductFilter, priceChangeFilter, spmFilter, hideGated, hideHazmat, hideOversize,
     debouncedMinProfit, debouncedMinROI, debouncedMaxPrice, debouncedMinSalesPerMonth,
     selectedMarketplace, sortBy, sortOrder
   ])
@@ -1166,7 +1274,7 @@ export default function RecentScansPage() {
     setRenderLimit(Math.max(INITIAL_RENDER_LIMIT, displayLimit))
   }, [
     debouncedMinProfit, debouncedMinROI, debouncedMaxPrice, debouncedMinSalesPerMonth,
-    dealFilter, newProductFilter, priceChangeFilter, spmFilter, selectedMarketplace, sortBy, sortOrder,
+    dealFilter, newProductFilter, priceChangeFilter, spmFilter, hideGated, hideHazmat, hideOversize, selectedMarketplace, sortBy, sortOrder,
     displayLimit, INITIAL_RENDER_LIMIT
   ])
 
@@ -1187,7 +1295,17 @@ export default function RecentScansPage() {
       
       <div className="flex-1 overflow-auto">
         <div className="p-8">
-          {viewingScan ? (
+          {scanDiff ? (
+            <ScanDiffView
+              diff={scanDiff}
+              baseOptions={(() => {
+                const head = savedScans.find(s => s.id === scanDiff.head.id)
+                return head ? getEarlierStorefrontScans(head) : []
+              })()}
+              onChangeBase={(baseScanId) => handleCompareScans(baseScanId, scanDiff.head.id)}
+              onBack={handleBackToScans}
+            />
+          ) : viewingScan ? (
             // Scan Results View - Debug: {viewingScan.id}
             <>
               {/* Back Navigation */}
@@ -1290,8 +1408,14 @@ export default function RecentScansPage() {
                     </div>
                     <div className="bg-white/20 backdrop-blur rounded-xl p-4">
                       <p className="text-violet-100 text-sm mb-1">Exchange Rate</p>
-                      <p className="text-3xl font-bold">€1 = £0.86</p>
-                      <p className="text-sm text-violet-200 mt-1">EUR to GBP</p>
+                      <p className="text-3xl font-bold">
+                        €1 = £{(viewingScan.metadata?.exchange_rates?.rates?.EUR ?? viewingScan.metadata?.exchange_rate ?? eurToGbp).toFixed(4)}
+                      </p>
+                      <p className="text-sm text-violet-200 mt-1">
+                        {viewingScan.metadata?.exchange_rates?.rate_date
+                          ? `EUR to GBP, ${viewingScan.metadata.exchange_rates.rate_date}`
+                          : viewingScan.metadata?.exchange_rate ? 'EUR to GBP at scan time' : 'EUR to GBP, current rate'}
+                      </p>
                     </div>
                   </div>
                 </div>
@@ -1719,6 +1843,24 @@ export default function RecentScansPage() {
                         </select>
                       </div>
 
+                      {/* Sourcing Profile - fills the filters below from a saved profile */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Sourcing Profile</label>
+                        <SourcingProfileSelect
+                          value={filterProfileId}
+                          emptyLabel="Custom filters"
+                          onChange={(profileId, profile) => {
+                            setFilterProfileId(profileId)
+                            if (profile) {
+                              setMinProfit(profile.minProfit ?? 0)
+                              setMinROI(profile.minRoi ?? 0)
+                              setMaxPrice(profile.maxPrice ?? 0)
+                              setMinSalesPerMonth(profile.minSalesPerMonth ?? 0)
+                            }
+                          }}
+                        />
+                      </div>
+
                       {/* Min Profit Filter */}
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">Min Profit (£)</label>
@@ -1857,6 +1999,45 @@ export default function RecentScansPage() {
                           </div>
                         </Listbox>
                       </div>
+
+                      {/* Restriction Filter */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Listing Restrictions</label>
+                        <label className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={hideGated}
+                            onChange={(e) => setHideGated(e.target.checked)}
+                            className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          Hide gated products
+                        </label>
+                      </div>
+
+                      {/* FBA Flags Filter */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">FBA Flags</label>
+                        <div className="space-y-1">
+                          <label className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={hideHazmat}
+                              onChange={(e) => setHideHazmat(e.target.checked)}
+                              className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Hide possible hazmat
+                          </label>
+                          <label className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={hideOversize}
+                              onChange={(e) => setHideOversize(e.target.checked)}
+                              className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Hide oversize
+                          </label>
+                        </div>
+                      </div>
                     </div>
 
                     {/* Clear Filters Button */}
@@ -1872,6 +2053,9 @@ export default function RecentScansPage() {
                           setNewProductFilter('all')
                           setPriceChangeFilter('all')
                           setSpmFilter('all')
+                          setHideGated(false)
+                          setHideHazmat(false)
+                          setHideOversize(false)
                           setDisplayLimit(100)
                           setSortBy('profit')
                           setSortOrder('desc')
@@ -1962,8 +2146,26 @@ export default function RecentScansPage() {
                                 </div>
                                 <div className="flex items-center gap-4 text-sm text-gray-500">
                                   <span>{opp.asin}</span>
+                                  <RestrictionBadge status={opp.restrictionStatus} />
+                                  <FbaFlagBadges
+                                    fbaSizeTier={opp.fbaSizeTier}
+                                    isOversize={opp.isOversize}
+                                    possibleHazmat={opp.possibleHazmat}
+                                    hazmatReasons={opp.hazmatReasons}
+                                  />
                                   <StorefrontDisplay storefronts={opp.storefronts} />
                                 </div>
+
+                                {opp.supplierItem && (
+                                  <p className="mt-1 text-xs text-gray-600">
+                                    Supplier row {opp.supplierItem.rowNumber} · {opp.supplierItem.identifier}
+                                    {opp.supplierItem.sku && ` · SKU ${opp.supplierItem.sku}`}
+                                    {` · £${opp.supplierItem.cost.toFixed(2)}`}
+                                    {opp.supplierItem.packSize > 1 && ` per pack of ${opp.supplierItem.packSize}`}
+                                    {opp.supplierItem.listingUnits > 1 && ` · listing is ${opp.supplierItem.listingUnits} units`}
+                                    {opp.supplierItem.casesToOrder ? ` · order ${opp.supplierItem.casesToOrder} ${opp.supplierItem.casesToOrder === 1 ? 'pack' : 'packs'}` : ''}
+                                  </p>
+                                )}
                                 
                                 {/* Price History Info - Prominent Display */}
                                 {opp.priceHistory && (
@@ -2193,6 +2395,13 @@ export default function RecentScansPage() {
                                   </p>
                                 </div>
                               </div>
+                              <LandedProfitSummary
+                                landedCost={opp.landedCost}
+                                landedProfit={opp.landedProfit}
+                                landedRoi={opp.landedRoi}
+                                landedCostBreakdown={opp.landedCostBreakdown}
+                              />
+                              <BuyBoxSummary buyBox={opp.buyBox} />
                               
                               {/* Action Buttons */}
                               <div className="mt-3 flex gap-2 justify-end">
@@ -2218,7 +2427,7 @@ export default function RecentScansPage() {
                                       const displayDigitalServicesFee = digitalServicesFee;
                                       const otherAmazonFees = Math.max(0, totalAmazonFees - referralFee - fbaFee);
                                       
-                                      const EUR_TO_GBP_RATE = 0.86;
+                                      const EUR_TO_GBP_RATE = viewingScan?.metadata?.exchange_rate ?? eurToGbp;
                                       
                                       debugWindow.document.write(`
                                         <!DOCTYPE html>
@@ -2943,7 +3152,20 @@ export default function RecentScansPage() {
                 <option value="a2a_eu">A2A EU</option>
                 <option value="single_storefront">Single Storefront</option>
                 <option value="all_storefronts">All Storefronts</option>
+                <option value="storefront_group">Storefront Group</option>
                 <option value="asin_check">ASIN Checker</option>
+                <option value="supplier_import">Supplier Price List</option>
+              </select>
+
+              {/* Direction Filter */}
+              <select
+                value={filterDirection}
+                onChange={(e) => setFilterDirection(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="all">All Directions</option>
+                <option value="eu_to_uk">EU → UK</option>
+                <option value="uk_to_eu">UK → EU</option>
               </select>
             </div>
           </div>
@@ -2954,7 +3176,7 @@ export default function RecentScansPage() {
               <ClockIcon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No scans found</h3>
               <p className="text-gray-500">
-                {searchTerm || filterStatus !== 'all' || filterType !== 'all' 
+                {searchTerm || filterStatus !== 'all' || filterType !== 'all' || filterDirection !== 'all'
                   ? 'Try adjusting your filters or search term'
                   : 'Start by running an arbitrage analysis to see your scan history here'
                 }
@@ -3008,6 +3230,11 @@ export default function RecentScansPage() {
                                 <span className={`px-2 py-1 text-xs font-medium rounded border ${getScanTypeColor(scan.scan_type)}`}>
                                   {getScanTypeLabel(scan.scan_type)}
                                 </span>
+                                {scan.direction === 'uk_to_eu' && (
+                                  <span className="px-2 py-1 text-xs font-medium rounded border bg-purple-100 text-purple-800 border-purple-200">
+                                    {getDirectionLabel(scan.direction)}
+                                  </span>
+                                )}
                               </div>
                               
                               <div className="flex items-center gap-6 text-sm text-gray-500">
@@ -3057,6 +3284,25 @@ export default function RecentScansPage() {
                               </div>
                             )}
                             
+                            {/* Compare with the previous scan of this storefront */}
+                            {scan.status === 'completed' && getEarlierStorefrontScans(scan).length > 0 && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation() // Prevent scan click
+                                  handleCompareScans(getEarlierStorefrontScans(scan)[0].id, scan.id)
+                                }}
+                                disabled={comparingScanId === scan.id}
+                                className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Compare with the previous scan of this storefront"
+                              >
+                                {comparingScanId === scan.id ? (
+                                  <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <ArrowsRightLeftIcon className="w-4 h-4" />
+                                )}
+                              </button>
+                            )}
+
                             {/* Small integrated delete button */}
                             <button
                               onClick={(e) => {
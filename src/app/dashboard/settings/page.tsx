@@ -8,6 +8,9 @@ import Sidebar from '@/components/Sidebar'
 import ScheduleSettings from '@/components/ScheduleSettings'
 import ArbitrageScheduleSettings from '@/components/ArbitrageScheduleSettings'
 import ASINMonitorSettings from '@/components/ASINMonitorSettings'
+import LandedCostSettings from '@/components/LandedCostSettings'
+import BuyingSettings from '@/components/BuyingSettings'
+import SourcingProfileSettings from '@/components/SourcingProfileSettings'
 import SettingsTabs, { MobileSettingsTabs } from '@/components/SettingsTabs'
 import {
   BellIcon,
@@ -229,6 +232,27 @@ export default function SettingsPage() {
           </div>
         )
 
+      case 'sourcing-profiles':
+        return (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <SourcingProfileSettings userId={user?.id} />
+          </div>
+        )
+
+      case 'landed-costs':
+        return (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <LandedCostSettings userId={user?.id} />
+          </div>
+        )
+
+      case 'buying':
+        return (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <BuyingSettings userId={user?.id} />
+          </div>
+        )
+
       case 'asin-monitoring':
         return (
           <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
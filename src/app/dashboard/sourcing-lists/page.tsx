@@ -20,6 +20,11 @@ import {
   XMarkIcon
 } from '@heroicons/react/24/outline'
 import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid'
+import { getMarketplace, getAmazonDomainSuffix } from '@/lib/amazon-marketplaces'
+import RestrictionBadge from '@/components/RestrictionBadge'
+import PurchaseOrdersTab from '@/components/PurchaseOrdersTab'
+import BudgetAllocator from '@/components/BudgetAllocator'
+import { isGated, type RestrictionStatus } from '@/lib/restriction-status'
 
 interface SourcingList {
   id: string
@@ -44,7 +49,11 @@ interface SourcingListItem {
   roi: number
   profit_margin: number
   sales_per_month?: number
+  uk_competitors?: number | null
+  suggested_quantity?: number | null
+  projected_30d_profit?: number | null
   storefront_name?: string
+  restriction_status?: RestrictionStatus | null
   added_from: string
   notes?: string
   created_at: string
@@ -56,6 +65,8 @@ export default function SourcingListsPage() {
   const [listItems, setListItems] = useState<SourcingListItem[]>([])
   const [loading, setLoading] = useState(true)
   const [loadingItems, setLoadingItems] = useState(false)
+  const [hideGated, setHideGated] = useState(false)
+  const [activeTab, setActiveTab] = useState<'items' | 'purchase_orders'>('items')
   const [showAddStorefrontModal, setShowAddStorefrontModal] = useState(false)
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null)
@@ -357,25 +368,11 @@ export default function SourcingListsPage() {
   }
 
   const getAmazonDomain = (marketplace: string) => {
-    switch (marketplace) {
-      case 'DE': return 'de'
-      case 'FR': return 'fr'
-      case 'IT': return 'it'
-      case 'ES': return 'es'
-      case 'NL': return 'nl'
-      default: return 'de'
-    }
+    return getAmazonDomainSuffix(marketplace) || 'de'
   }
 
   const getCountryFlag = (marketplace: string) => {
-    const flags: { [key: string]: string } = {
-      'DE': '🇩🇪',
-      'FR': '🇫🇷', 
-      'IT': '🇮🇹',
-      'ES': '🇪🇸',
-      'NL': '🇳🇱'
-    }
-    return flags[marketplace] || marketplace
+    return getMarketplace(marketplace)?.flag || marketplace
   }
 
   if (loading) {
@@ -481,6 +478,7 @@ export default function SourcingListsPage() {
                         <button
                           onClick={() => {
                             setSelectedList(list)
+                            setActiveTab('items')
                             fetchListItems(list.id)
                           }}
                           className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-medium"
@@ -544,10 +542,42 @@ export default function SourcingListsPage() {
                       <span>Created: {formatDateTime(selectedList.created_at)}</span>
                     </div>
                   </div>
+                  {activeTab === 'items' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={hideGated}
+                        onChange={(e) => setHideGated(e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Hide gated
+                    </label>
+                  )}
+                </div>
+
+                <div className="flex gap-6 border-b border-gray-200 mt-6">
+                  {([
+                    { key: 'items', label: 'Items' },
+                    { key: 'purchase_orders', label: 'Purchase Orders' }
+                  ] as const).map(tab => (
+                    <button
+                      key={tab.key}
+                      onClick={() => setActiveTab(tab.key)}
+                      className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                        activeTab === tab.key
+                          ? 'border-indigo-600 text-indigo-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
                 </div>
               </div>
 
-              {loadingItems ? (
+              {activeTab === 'purchase_orders' ? (
+                <PurchaseOrdersTab listId={selectedList.id} items={listItems} />
+              ) : loadingItems ? (
                 <div className="flex items-center justify-center h-64">
                   <ArrowPathIcon className="w-8 h-8 animate-spin text-indigo-600" />
                 </div>
@@ -559,7 +589,12 @@ export default function SourcingListsPage() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {listItems.map((item: any) => (
+                  <BudgetAllocator
+                    listId={selectedList.id}
+                    items={listItems}
+                    onOrderCreated={() => setActiveTab('purchase_orders')}
+                  />
+                  {listItems.filter(item => !hideGated || !isGated(item.restriction_status)).map((item: any) => (
                     <div key={item.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
                       <div className="flex items-start gap-6">
                         <div className="w-20 h-20 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
@@ -577,8 +612,9 @@ export default function SourcingListsPage() {
                             {item.storefront_name && (
                               <span className="text-indigo-600">@ {item.storefront_name}</span>
                             )}
+                            <RestrictionBadge status={item.restriction_status} />
                             <span className="px-2 py-1 bg-gray-100 rounded text-xs">
-                              {item.added_from === 'recent_scans' ? 'Recent Scans' : 'A2A EU'}
+                              {item.added_from === 'recent_scans' ? 'Recent Scans' : item.added_from === 'telegram' ? 'Telegram' : 'A2A EU'}
                             </span>
                           </div>
                           
@@ -607,6 +643,19 @@ export default function SourcingListsPage() {
                             </div>
                           </div>
 
+                          {item.suggested_quantity != null && (
+                            <div className="flex items-center gap-6 text-sm mt-2">
+                              <div title={`Lead time plus safety stock at your share of ${item.sales_per_month || 0} monthly sales across ${(item.uk_competitors ?? 0) + 1} sellers`}>
+                                <span className="text-gray-500">Suggested qty:</span>
+                                <span className="font-medium ml-2">{item.suggested_quantity}</span>
+                              </div>
+                              <div>
+                                <span className="text-gray-500">30-day profit:</span>
+                                <span className="font-medium text-green-600 ml-2">£{Number(item.projected_30d_profit || 0).toFixed(2)}</span>
+                              </div>
+                            </div>
+                          )}
+
                           <div className="flex items-center gap-4 mt-4">
                             <a
                               href={`https://www.amazon.co.uk/dp/${item.asin}`}
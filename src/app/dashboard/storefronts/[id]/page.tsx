@@ -8,6 +8,8 @@ import ProductsList from '@/components/ProductsList';
 import AddProductModal from '@/components/AddProductModal';
 import Sidebar from '@/components/Sidebar';
 import AddStorefrontModal from '@/components/AddStorefrontModal';
+import StorefrontTimeline from '@/components/StorefrontTimeline';
+import StorefrontAnalyticsTab from '@/components/StorefrontAnalyticsTab';
 
 interface Storefront {
   id: string;
@@ -27,6 +29,7 @@ export default function StorefrontDetailPage() {
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [productCount, setProductCount] = useState(0);
   const [showAddStorefrontModal, setShowAddStorefrontModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<'products' | 'analytics'>('products');
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
@@ -49,7 +52,8 @@ export default function StorefrontDetailPage() {
       const { count } = await supabase
         .from('products')
         .select('*', { count: 'exact', head: true })
-        .eq('storefront_id', storefrontId);
+        .eq('storefront_id', storefrontId)
+        .is('removed_at', null);
       
       setProductCount(count || 0);
     } catch (error) {
@@ -173,11 +177,41 @@ export default function StorefrontDetailPage() {
         </div>
       </div>
 
-      {/* Products Section */}
-      <div className="bg-white shadow rounded-lg px-6 py-6">
-        <ProductsList storefrontId={storefrontId} />
+      <div className="flex gap-6 border-b border-gray-200 mb-6">
+        {([
+          { key: 'products', label: 'Products' },
+          { key: 'analytics', label: 'Analytics' }
+        ] as const).map(tab => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key)}
+            className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === tab.key
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
       </div>
 
+      {activeTab === 'analytics' ? (
+        <StorefrontAnalyticsTab storefrontId={storefrontId} />
+      ) : (
+        <>
+          {/* Catalog Timeline */}
+          <div className="bg-white shadow rounded-lg px-6 py-6 mb-8">
+            <StorefrontTimeline storefrontId={storefrontId} />
+          </div>
+
+          {/* Products Section */}
+          <div className="bg-white shadow rounded-lg px-6 py-6">
+            <ProductsList storefrontId={storefrontId} />
+          </div>
+        </>
+      )}
+
           {/* Add Product Modal */}
           <AddProductModal
             isOpen={showAddProduct}
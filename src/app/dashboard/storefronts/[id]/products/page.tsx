@@ -77,6 +77,7 @@ export default function ProductsPage() {
         .from('products')
         .select('*')
         .eq('storefront_id', params?.id || '')
+        .is('removed_at', null)
         .order('last_updated', { ascending: false })
 
       if (productsError) throw productsError
@@ -7,6 +7,9 @@ import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
 import Sidebar from '@/components/Sidebar'
 import AddStorefrontModal from '@/components/AddStorefrontModal'
+import StorefrontSuggestions from '@/components/StorefrontSuggestions'
+import StorefrontGroupsModal from '@/components/StorefrontGroupsModal'
+import { mapStorefrontGroup, getGroupBadgeClasses, StorefrontGroup } from '@/lib/storefront-groups'
 import { PremiumButton } from '@/components/ui/premium-button'
 import { SearchInput } from '@/components/ui/premium-input'
 import { PremiumSelect } from '@/components/ui/premium-select'
@@ -26,7 +29,8 @@ import {
   ChevronDownIcon,
   ArrowPathIcon,
   EyeIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  TagIcon
 } from '@heroicons/react/24/outline'
 import { Menu, Transition } from '@headlessui/react'
 import { Fragment } from 'react'
@@ -43,6 +47,9 @@ interface Storefront {
   product_count?: number
   last_sync_completed_at?: string
   new_products_last_scan?: number
+  keepa_sync_partial?: boolean
+  keepa_next_page?: number
+  keepa_total_asins?: number | null
 }
 
 type ViewMode = 'grid' | 'list'
@@ -59,6 +66,10 @@ export default function StorefrontsPage() {
   const [sortBy, setSortBy] = useState<SortOption>('date')
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc')
   const [isUpdatingAll, setIsUpdatingAll] = useState(false)
+  const [groups, setGroups] = useState<StorefrontGroup[]>([])
+  const [groupFilter, setGroupFilter] = useState<string | null>(null)
+  const [showGroupsModal, setShowGroupsModal] = useState(false)
+  const [taggingStorefront, setTaggingStorefront] = useState<Storefront | null>(null)
   const router = useRouter()
   const { addSyncOperation, updateSyncOperation } = useSyncStatus()
 
@@ -97,6 +108,7 @@ export default function StorefrontsPage() {
           console.log('Storefronts - User authenticated, fetching data')
           setUser(user)
           fetchStorefronts()
+          fetchGroups()
         }
       } catch (error) {
         console.error('Storefronts - Error checking user:', error)
@@ -133,8 +145,60 @@ export default function StorefrontsPage() {
         setStorefronts(storefrontsWithCount)
       }
     } else if (data) {
-      setStorefronts(data)
+      // The scan data function predates Keepa paging, so read the paging state alongside it
+      const { data: pagingData } = await supabase
+        .from('storefronts')
+        .select('id, keepa_sync_partial, keepa_next_page, keepa_total_asins')
+        .in('id', data.map((storefront: Storefront) => storefront.id))
+
+      const pagingById = new Map<string, Partial<Storefront>>((pagingData || []).map((paging: any) => [paging.id, paging]))
+      setStorefronts(data.map((storefront: Storefront) => ({ ...pagingById.get(storefront.id), ...storefront })))
+    }
+  }
+
+  const fetchGroups = async () => {
+    const { data, error } = await supabase
+      .from('storefront_groups')
+      .select('id, name, color, storefront_group_members(storefront_id)')
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching storefront groups:', error)
+      return
     }
+
+    const fetched: StorefrontGroup[] = (data || []).map(mapStorefrontGroup)
+    setGroups(fetched)
+    // Drop the filter if its group was deleted
+    setGroupFilter(current => current && fetched.some(group => group.id === current) ? current : null)
+  }
+
+  const renderGroupBadges = (storefront: Storefront, className: string) => {
+    const storefrontGroups = groups.filter(group => group.storefrontIds.includes(storefront.id))
+    if (storefrontGroups.length === 0) return null
+
+    return (
+      <div className={`flex flex-wrap gap-1 ${className}`}>
+        {storefrontGroups.map(group => (
+          <span key={group.id} className={`px-2 py-0.5 text-xs font-medium rounded border ${getGroupBadgeClasses(group.color)}`}>
+            {group.name}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  const renderPartialSyncBadge = (storefront: Storefront) => {
+    if (!storefront.keepa_sync_partial) return null
+
+    return (
+      <span
+        className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded border bg-amber-50 text-amber-700 border-amber-200"
+        title={`Keepa paging incomplete${storefront.keepa_total_asins ? ` (${storefront.keepa_total_asins} ASINs listed)` : ''}. The next update continues from page ${(storefront.keepa_next_page || 0) + 1}.`}
+      >
+        Partial sync
+      </span>
+    )
   }
 
   const handleDeleteStorefront = async (id: string) => {
@@ -280,10 +344,13 @@ export default function StorefrontsPage() {
     }
   }
 
-  // Filter storefronts based on search
+  // Filter storefronts based on search and the selected group
+  const groupStorefrontIds = groups.find(group => group.id === groupFilter)?.storefrontIds
   const filteredStorefronts = storefronts.filter(storefront =>
-    storefront.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    storefront.seller_id.toLowerCase().includes(searchTerm.toLowerCase())
+    (!groupStorefrontIds || groupStorefrontIds.includes(storefront.id)) && (
+      storefront.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      storefront.seller_id.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   )
 
   // Sort storefronts
@@ -528,6 +595,42 @@ export default function StorefrontsPage() {
             </div>
           </div>
 
+          {/* Group Filter */}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setGroupFilter(null)}
+              className={`px-3 py-1.5 rounded-xl text-sm font-medium border transition-all ${
+                groupFilter === null
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              All ({storefronts.length})
+            </button>
+            {groups.map(group => (
+              <button
+                key={group.id}
+                onClick={() => setGroupFilter(group.id)}
+                className={`px-3 py-1.5 rounded-xl text-sm font-medium border transition-all ${
+                  groupFilter === group.id
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : getGroupBadgeClasses(group.color)
+                }`}
+              >
+                {group.name} ({group.storefrontIds.length})
+              </button>
+            ))}
+            <button
+              onClick={() => setShowGroupsModal(true)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-xl text-sm font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-all"
+            >
+              <TagIcon className="w-4 h-4" />
+              Manage groups
+            </button>
+          </div>
+
+          <StorefrontSuggestions onStorefrontAdded={fetchStorefronts} />
+
           {/* Storefronts Display */}
           {sortedStorefronts.length === 0 ? (
             <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
@@ -537,14 +640,14 @@ export default function StorefrontsPage() {
                     <BuildingStorefrontIcon className="w-8 h-8 text-indigo-600" />
                   </div>
                   <h3 className="text-xl font-semibold text-gray-800 mb-2">
-                    {searchTerm ? 'No storefronts found' : 'No storefronts yet'}
+                    {searchTerm || groupFilter ? 'No storefronts found' : 'No storefronts yet'}
                   </h3>
                   <p className="text-gray-600 mb-6">
-                    {searchTerm 
-                      ? 'Try adjusting your search terms' 
+                    {searchTerm || groupFilter
+                      ? 'Try adjusting your search terms or group filter'
                       : "Get started by adding your first Amazon storefront."}
                   </p>
-                  {!searchTerm && (
+                  {!searchTerm && !groupFilter && (
                     <button 
                       onClick={() => setShowAddModal(true)}
                       className="inline-flex items-center gap-2 bg-gradient-to-r from-violet-500 to-indigo-500 text-white px-6 py-3 rounded-xl font-medium hover:from-violet-600 hover:to-indigo-600 transition-all shadow-lg"
@@ -606,6 +709,19 @@ export default function StorefrontsPage() {
                               </a>
                             )}
                           </Menu.Item>
+                          <Menu.Item>
+                            {({ active }) => (
+                              <button
+                                onClick={() => setTaggingStorefront(storefront)}
+                                className={`${
+                                  active ? 'bg-gray-100' : ''
+                                } group flex w-full items-center gap-2 rounded-lg px-3 py-2 text-sm`}
+                              >
+                                <TagIcon className="w-4 h-4" />
+                                Edit Groups
+                              </button>
+                            )}
+                          </Menu.Item>
                           <Menu.Item>
                             {({ active }) => (
                               <button
@@ -626,9 +742,12 @@ export default function StorefrontsPage() {
                   
                   <h3 className="font-semibold text-gray-900 mb-1">{storefront.name}</h3>
                   <p className="text-sm text-gray-500 mb-1">{storefront.seller_id}</p>
-                  <p className="text-sm font-medium text-indigo-600 mb-1">
-                    {storefront.product_count || 0} products
-                  </p>
+                  <div className="flex items-center gap-2 mb-1">
+                    <p className="text-sm font-medium text-indigo-600">
+                      {storefront.product_count || 0} products
+                    </p>
+                    {renderPartialSyncBadge(storefront)}
+                  </div>
                   {storefront.new_products_last_scan && storefront.new_products_last_scan > 0 && (
                     <p className="text-xs font-medium text-emerald-600 mb-1">
                       +{storefront.new_products_last_scan} new
@@ -637,6 +756,7 @@ export default function StorefrontsPage() {
                   <p className="text-xs text-gray-400 mb-3">
                     Last scan: {formatLastScan(storefront.last_sync_completed_at)}
                   </p>
+                  {renderGroupBadges(storefront, 'mb-3')}
                   
                   <div className="mb-3 space-y-2">
                     <SyncButton 
@@ -687,12 +807,14 @@ export default function StorefrontsPage() {
                               </Link>
                               <div className="flex items-center gap-2 text-xs text-gray-500">
                                 <span>{storefront.product_count || 0} products</span>
+                                {renderPartialSyncBadge(storefront)}
                                 {storefront.new_products_last_scan && storefront.new_products_last_scan > 0 && (
                                   <span className="font-medium text-emerald-600">
                                     +{storefront.new_products_last_scan} new
                                   </span>
                                 )}
                               </div>
+                              {renderGroupBadges(storefront, 'mt-1')}
                             </div>
                           </div>
                         </td>
@@ -712,6 +834,13 @@ export default function StorefrontsPage() {
                               onSyncComplete={fetchStorefronts}
                               className="text-xs py-1.5"
                             />
+                            <button
+                              onClick={() => setTaggingStorefront(storefront)}
+                              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                              title="Edit groups"
+                            >
+                              <TagIcon className="w-5 h-5" />
+                            </button>
                             <a
                               href={storefront.storefront_url}
                               target="_blank"
@@ -747,6 +876,18 @@ export default function StorefrontsPage() {
         onSuccess={fetchStorefronts}
       />
 
+      {/* Storefront Groups Modal */}
+      <StorefrontGroupsModal
+        isOpen={showGroupsModal || !!taggingStorefront}
+        onClose={() => {
+          setShowGroupsModal(false)
+          setTaggingStorefront(null)
+        }}
+        groups={groups}
+        onChange={fetchGroups}
+        storefront={taggingStorefront}
+      />
+
       {/* Scan Progress Panel - Shows at top center when scanning */}
       <ScanProgressPanel />
     </div>
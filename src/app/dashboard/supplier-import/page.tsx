@@ -0,0 +1,553 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import { User } from '@supabase/supabase-js'
+import Sidebar from '@/components/Sidebar'
+import SourcingProfileSelect from '@/components/SourcingProfileSelect'
+import FbaFlagBadges from '@/components/FbaFlagBadges'
+import {
+  SUPPLIER_COLUMN_FIELDS,
+  SupplierColumnField,
+  SupplierColumnMapping,
+  SupplierItem,
+  getMissingColumns,
+  toSupplierColumnMapping
+} from '@/lib/supplier-price-list'
+import type { FbaSizeTier } from '@/lib/fba-size-tier'
+import {
+  ArrowUpTrayIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  PlayIcon
+} from '@heroicons/react/24/outline'
+
+interface SavedMapping {
+  supplierName: string
+  mapping: SupplierColumnMapping
+}
+
+interface PriceListPreview {
+  headers: string[]
+  sampleRows: string[][]
+  rowCount: number
+  suggestedMapping: SupplierColumnMapping
+}
+
+interface SupplierDeal {
+  asin: string
+  productName: string
+  productImage: string
+  targetPrice: number
+  ukSalesRank: number
+  salesPerMonth: number
+  bestOpportunity: { profit: number; roi: number; profitMargin: number }
+  landedProfit?: number
+  landedRoi?: number
+  suggestedQuantity?: number
+  supplierItem: SupplierItem
+  fbaSizeTier?: FbaSizeTier | null
+  isOversize?: boolean | null
+  possibleHazmat?: boolean | null
+  hazmatReasons?: string[] | null
+}
+
+const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+const readFileAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '')
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(file)
+})
+
+export default function SupplierImportPage() {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([])
+  const [supplierName, setSupplierName] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [fileBase64, setFileBase64] = useState('')
+  const [preview, setPreview] = useState<PriceListPreview | null>(null)
+  const [mapping, setMapping] = useState<SupplierColumnMapping | null>(null)
+  const [sourcingProfileId, setSourcingProfileId] = useState('')
+  const [isReading, setIsReading] = useState(false)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [progressMessage, setProgressMessage] = useState('')
+  const [deals, setDeals] = useState<SupplierDeal[]>([])
+  const [scanId, setScanId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  useEffect(() => {
+    const checkUser = async () => {
+      try {
+        const { data: { user }, error } = await supabase.auth.getUser()
+        if (error || !user) {
+          window.location.href = '/'
+          return
+        }
+        setUser(user)
+        await fetchSavedMappings(user.id)
+      } catch (error) {
+        console.error('Failed to check user:', error)
+        window.location.href = '/'
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    checkUser()
+  }, [])
+
+  const fetchSavedMappings = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('supplier_column_mappings')
+      .select('supplier_name, mapping')
+      .eq('user_id', userId)
+      .order('supplier_name')
+
+    if (error) {
+      console.error('Error loading supplier column mappings:', error)
+      return
+    }
+
+    setSavedMappings((data || []).flatMap((row: any) => {
+      const saved = toSupplierColumnMapping(row.mapping)
+      return saved ? [{ supplierName: row.supplier_name, mapping: saved }] : []
+    }))
+  }
+
+  // A supplier's saved mapping is used when this file has all of its columns
+  const pickMapping = (headers: string[], suggested: SupplierColumnMapping, supplier: string) => {
+    const saved = savedMappings.find(item => item.supplierName.toLowerCase() === supplier.trim().toLowerCase())
+    return saved && getMissingColumns(headers, saved.mapping).length === 0 ? saved.mapping : suggested
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+
+    setIsReading(true)
+    setError('')
+    setPreview(null)
+    setMapping(null)
+    setDeals([])
+    setScanId(null)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) return
+
+      const base64 = await readFileAsBase64(file)
+      const response = await fetch('/api/supplier-price-lists/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ fileBase64: base64, fileName: file.name })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Could not read the price list')
+        return
+      }
+
+      setFileName(file.name)
+      setFileBase64(base64)
+      setPreview(data)
+      setMapping(pickMapping(data.headers, data.suggestedMapping, supplierName))
+    } catch (error) {
+      console.error('Error reading price list:', error)
+      setError('Could not read the price list')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleSupplierChange = (name: string) => {
+    setSupplierName(name)
+    if (preview) {
+      setMapping(pickMapping(preview.headers, preview.suggestedMapping, name))
+    }
+  }
+
+  const updateColumn = (field: SupplierColumnField, header: string) => {
+    setMapping(prev => prev && { ...prev, [field]: header })
+  }
+
+  const saveMapping = async (columnMapping: SupplierColumnMapping) => {
+    if (!user) return
+
+    const { error } = await supabase
+      .from('supplier_column_mappings')
+      .upsert({
+        user_id: user.id,
+        supplier_name: supplierName.trim(),
+        mapping: columnMapping,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,supplier_name' })
+
+    if (error) {
+      console.error('Error saving supplier column mapping:', error)
+      return
+    }
+
+    await fetchSavedMappings(user.id)
+  }
+
+  const runScan = async () => {
+    if (!preview || !mapping || !supplierName.trim()) return
+
+    const missing = getMissingColumns(preview.headers, mapping)
+    if (missing.length > 0) {
+      setError(`Map these columns first: ${missing.join(', ')}`)
+      return
+    }
+
+    setAnalyzing(true)
+    setError('')
+    setDeals([])
+    setScanId(null)
+    setProgress(0)
+    setProgressMessage('Starting...')
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error('No session found')
+
+      await saveMapping(mapping)
+
+      const response = await fetch('/api/arbitrage/analyze-supplier-list-stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({
+          fileBase64,
+          fileName,
+          supplierName: supplierName.trim(),
+          mapping,
+          profileId: sourcingProfileId || undefined
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to start analysis')
+      }
+
+      const reader = response.body?.getReader()
+      if (!reader) throw new Error('No response stream')
+
+      const decoder = new TextDecoder()
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        for (const line of decoder.decode(value).split('\n')) {
+          if (!line.startsWith('data: ')) continue
+
+          try {
+            const message = JSON.parse(line.slice(6))
+
+            switch (message.type) {
+              case 'progress':
+                setProgress(message.data.progress || 0)
+                setProgressMessage(message.data.step)
+                if (message.data.scanId) setScanId(message.data.scanId)
+                break
+              case 'opportunity':
+                setDeals(prev => [...prev, message.data].sort((a, b) => b.bestOpportunity.roi - a.bestOpportunity.roi))
+                break
+              case 'complete':
+                setProgress(100)
+                setProgressMessage(message.data.message)
+                break
+              case 'error':
+                setError(message.data.error || 'Analysis failed')
+                break
+            }
+          } catch (parseError) {
+            console.error('Error parsing message:', parseError)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Supplier price list scan error:', error)
+      setError(error instanceof Error ? error.message : 'Analysis failed')
+    } finally {
+      setAnalyzing(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut()
+    router.push('/')
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  const missingColumns = preview && mapping ? getMissingColumns(preview.headers, mapping) : []
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar onSignOut={handleSignOut} />
+
+      <div className="flex-1 overflow-auto bg-gray-50">
+        <header className="bg-white border-b border-gray-100 sticky top-0 z-10">
+          <div className="px-8 py-4">
+            <h1 className="text-2xl font-semibold text-gray-800">Supplier Import</h1>
+            <p className="text-sm text-gray-600 mt-1">Match a wholesale price list to Amazon UK listings by barcode and cost each deal</p>
+          </div>
+        </header>
+
+        <div className="p-8 space-y-8">
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Price List</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Supplier</label>
+                <input
+                  type="text"
+                  list="saved-suppliers"
+                  value={supplierName}
+                  onChange={(e) => handleSupplierChange(e.target.value)}
+                  placeholder="e.g. Acme Wholesale"
+                  maxLength={100}
+                  className={inputClassName}
+                />
+                <datalist id="saved-suppliers">
+                  {savedMappings.map(item => (
+                    <option key={item.supplierName} value={item.supplierName} />
+                  ))}
+                </datalist>
+                <p className="text-xs text-gray-500 mt-1">The column mapping is saved for this supplier</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">File (CSV or XLSX)</label>
+                <label className="flex items-center gap-2 px-4 py-2 border border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400 text-sm text-gray-600">
+                  <ArrowUpTrayIcon className="w-5 h-5" />
+                  <span className="truncate">{isReading ? 'Reading...' : fileName || 'Choose a file'}</span>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    onChange={(e) => handleFileChange(e.target.files?.[0])}
+                    className="hidden"
+                  />
+                </label>
+                {preview && (
+                  <p className="text-xs text-gray-500 mt-1">{preview.rowCount} rows, {preview.headers.length} columns</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Sourcing Profile</label>
+                <SourcingProfileSelect value={sourcingProfileId} onChange={(profileId) => setSourcingProfileId(profileId)} />
+              </div>
+            </div>
+
+            {preview && mapping && (
+              <>
+                <h3 className="text-sm font-semibold text-gray-700 mt-6 mb-3">Columns</h3>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+                  {SUPPLIER_COLUMN_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        {label}{required && ' *'}
+                      </label>
+                      <select
+                        value={mapping[field] || ''}
+                        onChange={(e) => updateColumn(field, e.target.value)}
+                        className={inputClassName}
+                      >
+                        <option value="">{required ? 'Select a column' : 'Not in file'}</option>
+                        {preview.headers.map((header, index) => (
+                          <option key={`${header}-${index}`} value={header}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-6 mb-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    Cost is per
+                    <select
+                      value={mapping.costBasis}
+                      onChange={(e) => setMapping({ ...mapping, costBasis: e.target.value === 'pack' ? 'pack' : 'unit' })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg"
+                    >
+                      <option value="unit">unit</option>
+                      <option value="pack">supplier pack</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={mapping.costIncludesVat}
+                      onChange={(e) => setMapping({ ...mapping, costIncludesVat: e.target.checked })}
+                      className="rounded border-gray-300 text-indigo-600"
+                    />
+                    Costs include VAT
+                  </label>
+                </div>
+
+                <div className="overflow-x-auto border border-gray-100 rounded-lg mb-4">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {preview.headers.map((header, index) => (
+                          <th key={`${header}-${index}`} className="px-3 py-2 text-left font-medium text-gray-600 whitespace-nowrap">{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {preview.sampleRows.map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                          {preview.headers.map((_, index) => (
+                            <td key={index} className="px-3 py-2 text-gray-700 whitespace-nowrap">{row[index]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+                <ExclamationTriangleIcon className="w-5 h-5" />
+                {error}
+              </div>
+            )}
+
+            <button
+              onClick={runScan}
+              disabled={analyzing || !preview || !supplierName.trim() || missingColumns.length > 0}
+              className="inline-flex items-center gap-2 bg-gradient-to-r from-violet-500 to-indigo-500 text-white px-6 py-2 rounded-lg font-medium hover:from-violet-600 hover:to-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PlayIcon className="w-5 h-5" />
+              {analyzing ? 'Analysing...' : 'Match and Analyse'}
+            </button>
+
+            {(analyzing || progressMessage) && (
+              <div className="mt-4">
+                <div className="w-full bg-gray-100 rounded-full h-2">
+                  <div className="bg-indigo-500 h-2 rounded-full transition-all" style={{ width: `${Math.min(100, progress)}%` }} />
+                </div>
+                <p className="text-sm text-gray-600 mt-2">{progressMessage}</p>
+                {scanId && !analyzing && (
+                  <Link href="/dashboard/recent-scans" className="text-sm text-indigo-600 hover:text-indigo-700">
+                    View in Recent Scans
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+
+          {deals.length > 0 && (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+              <div className="p-6 border-b border-gray-100 flex items-center gap-2">
+                <DocumentTextIcon className="w-5 h-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-800">Matched Products ({deals.length})</h2>
+              </div>
+              <table className="min-w-full divide-y divide-gray-100 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-600">Product</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-600">Supplier Row</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Cost / Listing</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">UK Price</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Profit</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">ROI</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-600">Buy</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {deals.map(deal => {
+                    const profit = deal.landedProfit ?? deal.bestOpportunity.profit
+                    const roi = deal.landedRoi ?? deal.bestOpportunity.roi
+                    const item = deal.supplierItem
+
+                    return (
+                      <tr key={deal.asin}>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-3">
+                            {deal.productImage && (
+                              <img src={deal.productImage} alt="" className="w-10 h-10 object-contain" />
+                            )}
+                            <div className="min-w-0">
+                              <p className="font-medium text-gray-800 truncate max-w-xs">{deal.productName}</p>
+                              <a
+                                href={`https://www.amazon.co.uk/dp/${deal.asin}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-indigo-600 hover:text-indigo-700"
+                              >
+                                {deal.asin}
+                              </a>
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                <FbaFlagBadges
+                                  fbaSizeTier={deal.fbaSizeTier}
+                                  isOversize={deal.isOversize}
+                                  possibleHazmat={deal.possibleHazmat}
+                                  hazmatReasons={deal.hazmatReasons}
+                                />
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-600">
+                          <p>Row {item.rowNumber} · {item.identifier}</p>
+                          {item.sku && <p>SKU {item.sku}</p>}
+                          <p>
+                            £{item.cost.toFixed(2)}{item.packSize > 1 && ` · pack of ${item.packSize}`}
+                            {item.listingUnits > 1 && ` · listing is ${item.listingUnits} units`}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 text-right text-gray-800">£{item.costPerListing.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-right text-gray-800">£{deal.targetPrice.toFixed(2)}</td>
+                        <td className={`px-4 py-3 text-right font-medium ${profit > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          £{profit.toFixed(2)}
+                        </td>
+                        <td className={`px-4 py-3 text-right ${roi > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {roi.toFixed(1)}%
+                        </td>
+                        <td className="px-4 py-3 text-right text-xs text-gray-600">
+                          {deal.suggestedQuantity ? (
+                            <>
+                              <p className="text-sm text-gray-800">{deal.suggestedQuantity} units</p>
+                              {item.casesToOrder !== undefined && (
+                                <p>{item.casesToOrder} {item.casesToOrder === 1 ? 'pack' : 'packs'}</p>
+                              )}
+                            </>
+                          ) : '-'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase'
 import FrequencySelector, { FrequencyConfig } from './FrequencySelector'
+import { calculateNextRun } from '@/lib/next-run'
 import {
   MagnifyingGlassIcon,
   BellIcon,
@@ -173,7 +174,10 @@ export default function ASINMonitorSettings({ userId }: ASINMonitorSettingsProps
         custom_interval_hours: settings.frequency_config.customIntervalHours,
         alert_on_price_drop: settings.alert_on_price_drop,
         alert_on_price_increase: settings.alert_on_price_increase,
-        price_change_threshold: settings.price_change_threshold
+        price_change_threshold: settings.price_change_threshold,
+        next_run: settings.enabled
+          ? calculateNextRun(settings.frequency_config, settings.timezone).toISOString()
+          : null
       }
 
       let result
@@ -197,7 +201,7 @@ export default function ASINMonitorSettings({ userId }: ASINMonitorSettingsProps
       if (result.error) throw result.error
 
       // Update local state with returned data
-      const updatedSettings = { ...settings, id: result.data.id }
+      const updatedSettings = { ...settings, id: result.data.id, next_run: result.data.next_run }
       const newMap = new Map(monitorSettings)
       newMap.set(listId, updatedSettings)
       setMonitorSettings(newMap)
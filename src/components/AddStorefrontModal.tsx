@@ -11,9 +11,11 @@ interface AddStorefrontModalProps {
   isOpen: boolean
   onClose: () => void
   onSuccess: () => void
+  initialSellerId?: string // Prefilled when adding a suggested seller
+  initialName?: string
 }
 
-export default function AddStorefrontModal({ isOpen, onClose, onSuccess }: AddStorefrontModalProps) {
+export default function AddStorefrontModal({ isOpen, onClose, onSuccess, initialSellerId, initialName }: AddStorefrontModalProps) {
   const [sellerId, setSellerId] = useState('')
   const [name, setName] = useState('')
   const [loading, setLoading] = useState(false)
@@ -21,6 +23,13 @@ export default function AddStorefrontModal({ isOpen, onClose, onSuccess }: AddSt
   const [isDuplicateId, setIsDuplicateId] = useState(false)
   const [checkingDuplicate, setCheckingDuplicate] = useState(false)
 
+  useEffect(() => {
+    if (isOpen && initialSellerId) {
+      setSellerId(initialSellerId)
+      setName(initialName || '')
+    }
+  }, [isOpen, initialSellerId, initialName])
+
   // Check for duplicate seller ID as user types
   useEffect(() => {
     const checkDuplicate = async () => {
@@ -3,6 +3,8 @@
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase'
 import FrequencySelector, { FrequencyConfig } from './FrequencySelector'
+import SourcingProfileSelect from './SourcingProfileSelect'
+import { mapStorefrontGroup, StorefrontGroup } from '@/lib/storefront-groups'
 import {
   ClockIcon,
   CalendarIcon,
@@ -13,7 +15,9 @@ import {
   BuildingStorefrontIcon,
   UserGroupIcon,
   PlayIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  FunnelIcon,
+  TagIcon
 } from '@heroicons/react/24/outline'
 
 interface ArbitrageScheduleSettings {
@@ -21,8 +25,10 @@ interface ArbitrageScheduleSettings {
   enabled: boolean
   frequency_config: FrequencyConfig
   timezone: string
-  scan_type: 'single' | 'all'
+  scan_type: 'single' | 'all' | 'group'
   storefront_id?: string
+  storefront_group_id?: string
+  sourcing_profile_id?: string
   last_run?: string
   next_run?: string
 }
@@ -65,6 +71,7 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
     scan_type: 'single'
   })
   const [storefronts, setStorefronts] = useState<Storefront[]>([])
+  const [groups, setGroups] = useState<StorefrontGroup[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [triggering, setTriggering] = useState(false)
@@ -75,6 +82,7 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
     if (userId) {
       loadSettings()
       loadStorefronts()
+      loadGroups()
       loadSchedulerStatus()
     }
   }, [userId])
@@ -130,6 +138,8 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
           timezone: data.timezone || 'UTC',
           scan_type: data.scan_type || 'single',
           storefront_id: data.storefront_id,
+          storefront_group_id: data.storefront_group_id || undefined,
+          sourcing_profile_id: data.sourcing_profile_id || undefined,
           last_run: data.last_run,
           next_run: data.next_run
         })
@@ -160,6 +170,24 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
     }
   }
 
+  const loadGroups = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('storefront_groups')
+        .select('id, name, color, storefront_group_members(storefront_id)')
+        .eq('user_id', userId)
+        .order('name')
+
+      if (error) {
+        throw error
+      }
+
+      setGroups((data || []).map(mapStorefrontGroup))
+    } catch (error) {
+      console.error('Error loading storefront groups:', error)
+    }
+  }
+
   const saveSettings = async () => {
     if (!userId) return
 
@@ -182,7 +210,9 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
         business_hours_end: settings.frequency_config.businessHoursEnd,
         custom_interval_hours: settings.frequency_config.customIntervalHours,
         scan_type: settings.scan_type,
-        storefront_id: settings.scan_type === 'single' ? settings.storefront_id : null
+        storefront_id: settings.scan_type === 'single' ? settings.storefront_id : null,
+        storefront_group_id: settings.scan_type === 'group' ? settings.storefront_group_id : null,
+        sourcing_profile_id: settings.sourcing_profile_id || null
       }
 
       let result
@@ -319,6 +349,12 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
     return storefront ? storefront.name : 'Unknown storefront'
   }
 
+  const getSelectedGroupName = () => {
+    if (!settings.storefront_group_id) return 'Select group...'
+    const group = groups.find(g => g.id === settings.storefront_group_id)
+    return group ? `${group.name} (${group.storefrontIds.length})` : 'Unknown group'
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -384,6 +420,20 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
                   <div className="text-sm text-gray-500">Scan all your storefronts</div>
                 </div>
               </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="scan_type"
+                  value="group"
+                  checked={settings.scan_type === 'group'}
+                  onChange={(e) => setSettings(prev => ({ ...prev, scan_type: e.target.value as any }))}
+                  className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 focus:ring-indigo-500"
+                />
+                <div className="ml-3">
+                  <div className="text-sm font-medium text-gray-900">Storefront Group</div>
+                  <div className="text-sm text-gray-500">Scan the storefronts in one of your groups</div>
+                </div>
+              </label>
             </div>
           </div>
 
@@ -411,6 +461,46 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
             </div>
           )}
 
+          {/* Group Selection (only for group scan type) */}
+          {settings.scan_type === 'group' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Select Group
+              </label>
+              <select
+                value={settings.storefront_group_id || ''}
+                onChange={(e) => setSettings(prev => ({ ...prev, storefront_group_id: e.target.value || undefined }))}
+                className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Select a group...</option>
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name} ({group.storefrontIds.length} storefronts)
+                  </option>
+                ))}
+              </select>
+              {groups.length === 0 ? (
+                <p className="mt-1 text-sm text-gray-500">Create groups on the Storefronts page</p>
+              ) : !settings.storefront_group_id && (
+                <p className="mt-1 text-sm text-red-600">Please select a group for group scan type</p>
+              )}
+            </div>
+          )}
+
+          {/* Sourcing Profile */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <FunnelIcon className="w-5 h-5 inline mr-2" />
+              Sourcing Profile
+            </label>
+            <SourcingProfileSelect
+              value={settings.sourcing_profile_id || ''}
+              onChange={(profileId) => setSettings(prev => ({ ...prev, sourcing_profile_id: profileId || undefined }))}
+              className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-1 text-sm text-gray-500">Scheduled scans only save and alert on deals matching the profile</p>
+          </div>
+
           {/* Frequency Configuration */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -503,6 +593,11 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
                     <BuildingStorefrontIcon className="w-4 h-4" />
                     Single: {getSelectedStorefrontName()}
                   </>
+                ) : settings.scan_type === 'group' ? (
+                  <>
+                    <TagIcon className="w-4 h-4" />
+                    Group: {getSelectedGroupName()}
+                  </>
                 ) : (
                   <>
                     <UserGroupIcon className="w-4 h-4" />
@@ -548,7 +643,10 @@ export default function ArbitrageScheduleSettings({ userId }: ArbitrageScheduleS
       <div className="flex justify-end">
         <button
           onClick={saveSettings}
-          disabled={saving || (settings.enabled && settings.scan_type === 'single' && !settings.storefront_id)}
+          disabled={saving || (settings.enabled && (
+            (settings.scan_type === 'single' && !settings.storefront_id) ||
+            (settings.scan_type === 'group' && !settings.storefront_group_id)
+          ))}
           className="inline-flex items-center gap-2 bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {saving ? (
@@ -0,0 +1,196 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { allocateBudget } from '@/lib/buy-quantity'
+import { ArrowPathIcon, BanknotesIcon } from '@heroicons/react/24/outline'
+
+interface AllocatableItem {
+  id: string
+  asin: string
+  product_name: string
+  source_price_gbp: number
+  profit: number
+  roi: number
+  suggested_quantity?: number | null
+}
+
+interface BudgetAllocatorProps {
+  listId: string
+  items: AllocatableItem[]
+  onOrderCreated: () => void
+}
+
+/**
+ * Fills a cash budget with the list's highest-ROI items, each up to its
+ * suggested quantity, and turns the result into a purchase order
+ */
+export default function BudgetAllocator({ listId, items, onOrderCreated }: BudgetAllocatorProps) {
+  const [budget, setBudget] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadDefaultBudget()
+  }, [])
+
+  const loadDefaultBudget = async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return
+
+    const { data } = await supabase
+      .from('buying_settings')
+      .select('cash_budget')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (data && Number(data.cash_budget) > 0) {
+      setBudget(String(Number(data.cash_budget)))
+    }
+  }
+
+  const allocation = useMemo(() => allocateBudget(
+    items.map(item => ({
+      id: item.id,
+      unitCost: item.source_price_gbp,
+      unitProfit: item.profit,
+      roi: item.roi,
+      suggestedQuantity: item.suggested_quantity || 0
+    })),
+    parseFloat(budget) || 0
+  ), [items, budget])
+
+  const itemsById = new Map(items.map(item => [item.id, item]))
+  const missingSuggestions = items.filter(item => item.profit > 0 && item.suggested_quantity == null).length
+
+  const createPurchaseOrder = async () => {
+    try {
+      setCreating(true)
+      setError(null)
+
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      const response = await fetch(`/api/sourcing-lists/${listId}/purchase-orders`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          notes: `Budget allocation of £${(parseFloat(budget) || 0).toFixed(2)}`,
+          lines: allocation.lines.map(line => ({
+            item_id: line.id,
+            quantity: line.quantity,
+            unit_cost_gbp: itemsById.get(line.id)?.source_price_gbp
+          }))
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create purchase order')
+      }
+
+      onOrderCreated()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create purchase order')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <BanknotesIcon className="w-5 h-5 text-indigo-600" />
+            Budget Allocator
+          </h3>
+          <p className="text-sm text-gray-500">Highest ROI first, each item up to its suggested quantity</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Budget £</span>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            placeholder="0"
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+          />
+        </div>
+      </div>
+
+      {allocation.lines.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {parseFloat(budget) > 0
+            ? 'No profitable items with a suggested quantity fit this budget.'
+            : 'Enter a budget to allocate.'}
+        </p>
+      ) : (
+        <>
+          <table className="min-w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-2 pr-4 font-medium">Product</th>
+                <th className="py-2 pr-4 font-medium text-right">ROI</th>
+                <th className="py-2 pr-4 font-medium text-right">Units</th>
+                <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                <th className="py-2 font-medium text-right">Profit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {allocation.lines.map(line => {
+                const item = itemsById.get(line.id)
+                return (
+                  <tr key={line.id} className="border-b border-gray-50">
+                    <td className="py-2 pr-4">
+                      <p className="text-gray-900 line-clamp-1">{item?.product_name}</p>
+                      <p className="text-xs text-gray-500">{item?.asin}</p>
+                    </td>
+                    <td className="py-2 pr-4 text-right">{item?.roi.toFixed(1)}%</td>
+                    <td className="py-2 pr-4 text-right">
+                      {line.quantity}
+                      {item?.suggested_quantity && line.quantity < item.suggested_quantity && (
+                        <span className="text-xs text-gray-400"> / {item.suggested_quantity}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right">£{line.cost.toFixed(2)}</td>
+                    <td className="py-2 text-right text-green-600">£{line.profit.toFixed(2)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-6 text-sm text-gray-600">
+              <span>Spend: <span className="font-medium text-gray-900">£{allocation.spent.toFixed(2)}</span></span>
+              <span>Left: <span className="font-medium text-gray-900">£{allocation.remaining.toFixed(2)}</span></span>
+              <span>Profit: <span className="font-medium text-green-600">£{allocation.profit.toFixed(2)}</span></span>
+            </div>
+            <button
+              onClick={createPurchaseOrder}
+              disabled={creating}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 text-sm"
+            >
+              {creating && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+              Create Purchase Order
+            </button>
+          </div>
+        </>
+      )}
+
+      {missingSuggestions > 0 && (
+        <p className="text-xs text-gray-500 mt-3">
+          {missingSuggestions} profitable {missingSuggestions === 1 ? 'item was' : 'items were'} added before
+          suggested quantities and {missingSuggestions === 1 ? 'is' : 'are'} left out. Re-add them from a scan to include them.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  )
+}
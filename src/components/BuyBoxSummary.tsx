@@ -0,0 +1,50 @@
+'use client'
+
+import type { OfferAnalysis } from '@/services/arbitrage/buy-box-offers'
+
+interface BuyBoxSummaryProps {
+  buyBox?: OfferAnalysis | null
+}
+
+const formatPrice = (price: number, currency: string) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(price)
+
+/**
+ * Offer-level buy box check for the sell listing. Renders nothing for deals
+ * that weren't shortlisted for the offers pass.
+ */
+export default function BuyBoxSummary({ buyBox }: BuyBoxSummaryProps) {
+  if (!buyBox) {
+    return null
+  }
+
+  const repriced = Math.abs(buyBox.realisticPrice - buyBox.competitivePrice) >= 0.01
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 text-sm">
+      <div className="flex flex-wrap gap-2 mb-1">
+        {buyBox.amazonOnListing && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded border bg-orange-50 text-orange-700 border-orange-200">
+            {buyBox.amazonHasBuyBox ? 'Amazon has the buy box' : 'Amazon on listing'}
+          </span>
+        )}
+        <span className={`px-2 py-0.5 text-xs font-medium rounded border ${
+          buyBox.fbaSellersNearBuyBox > 3
+            ? 'bg-red-50 text-red-700 border-red-200'
+            : 'bg-gray-50 text-gray-700 border-gray-200'
+        }`}>
+          {buyBox.fbaSellersNearBuyBox} FBA near buy box
+        </span>
+        <span className="px-2 py-0.5 text-xs font-medium rounded border bg-gray-50 text-gray-700 border-gray-200">
+          {buyBox.fbaOfferCount}/{buyBox.totalOfferCount} offers FBA
+        </span>
+      </div>
+      {repriced && (
+        <p className="text-xs text-gray-500">
+          Priced at {formatPrice(buyBox.realisticPrice, buyBox.currency)} in {buyBox.marketplace}
+          {' '}(competitive price {formatPrice(buyBox.competitivePrice, buyBox.currency)})
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { DEFAULT_BUYING_SETTINGS } from '@/lib/buy-quantity'
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline'
+
+interface BuyingSettingsState {
+  lead_time_days: number
+  safety_stock_days: number
+  cash_budget: number
+}
+
+interface BuyingSettingsProps {
+  userId?: string
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm'
+
+export default function BuyingSettings({ userId }: BuyingSettingsProps) {
+  const [settings, setSettings] = useState<BuyingSettingsState>({
+    lead_time_days: DEFAULT_BUYING_SETTINGS.leadTimeDays,
+    safety_stock_days: DEFAULT_BUYING_SETTINGS.safetyStockDays,
+    cash_budget: DEFAULT_BUYING_SETTINGS.cashBudget
+  })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    if (userId) {
+      loadSettings()
+    }
+  }, [userId])
+
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('buying_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .single()
+
+      if (error && error.code !== 'PGRST116') { // Not "not found" error
+        throw error
+      }
+
+      if (data) {
+        setSettings({
+          lead_time_days: data.lead_time_days ?? DEFAULT_BUYING_SETTINGS.leadTimeDays,
+          safety_stock_days: data.safety_stock_days ?? DEFAULT_BUYING_SETTINGS.safetyStockDays,
+          cash_budget: Number(data.cash_budget) || 0
+        })
+      }
+    } catch (error) {
+      console.error('Error loading buying settings:', error)
+      setMessage({ type: 'error', text: 'Failed to load buying settings' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSettings = async () => {
+    if (!userId) return
+
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const { error } = await supabase
+        .from('buying_settings')
+        .upsert({
+          user_id: userId,
+          lead_time_days: Math.max(0, Math.round(settings.lead_time_days)),
+          safety_stock_days: Math.max(0, Math.round(settings.safety_stock_days)),
+          cash_budget: Math.max(0, settings.cash_budget),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' })
+
+      if (error) {
+        throw error
+      }
+
+      setMessage({ type: 'success', text: 'Buying settings saved. Suggested quantities use them from your next scan.' })
+    } catch (error) {
+      console.error('Error saving buying settings:', error)
+      setMessage({ type: 'error', text: 'Failed to save buying settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateNumber = (field: keyof BuyingSettingsState, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: parseFloat(value) || 0 }))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <ArrowPathIcon className="w-6 h-6 animate-spin text-indigo-600" />
+        <span className="ml-2 text-gray-600">Loading buying settings...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-800">Buying</h3>
+        <p className="text-sm text-gray-600">
+          Suggested quantities cover your lead time plus safety stock at your expected share of UK sales
+          (monthly sales split between the current offers and you)
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lead time (days)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={settings.lead_time_days}
+            onChange={(e) => updateNumber('lead_time_days', e.target.value)}
+            className={inputClassName}
+          />
+          <p className="text-xs text-gray-500 mt-1">From ordering to live at FBA</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Safety stock (days)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={settings.safety_stock_days}
+            onChange={(e) => updateNumber('safety_stock_days', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Cash budget (£)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={settings.cash_budget}
+            onChange={(e) => updateNumber('cash_budget', e.target.value)}
+            className={inputClassName}
+          />
+          <p className="text-xs text-gray-500 mt-1">Caps each deal&apos;s quantity and is the default for the budget allocator. 0 for no cap.</p>
+        </div>
+      </div>
+
+      {/* Message Display */}
+      {message && (
+        <div className={`flex items-center gap-2 p-3 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircleIcon className="w-5 h-5" />
+          ) : (
+            <ExclamationTriangleIcon className="w-5 h-5" />
+          )}
+          <span className="text-sm">{message.text}</span>
+        </div>
+      )}
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className="inline-flex items-center gap-2 bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <>
+              <ArrowPathIcon className="w-5 h-5 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Settings'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
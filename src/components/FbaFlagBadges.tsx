@@ -0,0 +1,57 @@
+'use client'
+
+import { ArchiveBoxIcon, FireIcon } from '@heroicons/react/24/outline'
+import { getFbaSizeTierLabel, type FbaSizeTier } from '@/lib/fba-size-tier'
+
+interface FbaFlagBadgesProps {
+  fbaSizeTier?: FbaSizeTier | null
+  isOversize?: boolean | null
+  possibleHazmat?: boolean | null
+  hazmatReasons?: string[] | null
+  // Show the size tier of standard-size items too (otherwise only oversize is flagged)
+  showStandardTier?: boolean
+}
+
+/**
+ * FBA size tier and possible dangerous goods, classified when the deal was scanned
+ */
+export default function FbaFlagBadges({
+  fbaSizeTier,
+  isOversize,
+  possibleHazmat,
+  hazmatReasons,
+  showStandardTier = false
+}: FbaFlagBadgesProps) {
+  const showTier = isOversize || (showStandardTier && fbaSizeTier)
+
+  if (!showTier && !possibleHazmat) {
+    return null
+  }
+
+  return (
+    <>
+      {possibleHazmat && (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded border bg-red-50 text-red-700 border-red-200"
+          title={`May need dangerous goods review before FBA accepts it: ${(hazmatReasons || []).join('; ') || 'flagged in catalog'}`}
+        >
+          <FireIcon className="w-3 h-3" />
+          Possible Hazmat
+        </span>
+      )}
+      {showTier && (
+        <span
+          className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded border ${
+            isOversize ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-gray-50 text-gray-600 border-gray-200'
+          }`}
+          title={fbaSizeTier
+            ? `FBA size tier from package dimensions: ${getFbaSizeTierLabel(fbaSizeTier)}`
+            : 'No catalog dimensions; the FBA fee is above standard-size fees'}
+        >
+          <ArchiveBoxIcon className="w-3 h-3" />
+          {fbaSizeTier ? getFbaSizeTierLabel(fbaSizeTier) : 'Oversize'}
+        </span>
+      )}
+    </>
+  )
+}
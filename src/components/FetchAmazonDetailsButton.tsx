@@ -25,6 +25,7 @@ export default function FetchAmazonDetailsButton({ storefrontId, onUpdateComplet
         .from('products')
         .select('asin')
         .eq('storefront_id', storefrontId)
+        .is('removed_at', null)
         .or('product_name.like.Product %,image_link.is.null')
         .limit(20)
 
@@ -0,0 +1,365 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { getSourceMarketplaces } from '@/lib/amazon-marketplaces'
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  TrashIcon,
+  TruckIcon
+} from '@heroicons/react/24/outline'
+
+interface LandedCostSettingsState {
+  id?: string
+  enabled: boolean
+  prep_fee_per_unit: number
+  freight_per_kg: Record<string, number>
+  default_freight_per_kg: number
+  duty_rates: Array<{ category: string; rate: number }>
+  default_duty_rate: number
+  customs_brokerage_fee: number
+  units_per_shipment: number
+}
+
+interface LandedCostSettingsProps {
+  userId?: string
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm'
+
+export default function LandedCostSettings({ userId }: LandedCostSettingsProps) {
+  const [settings, setSettings] = useState<LandedCostSettingsState>({
+    enabled: true,
+    prep_fee_per_unit: 0,
+    freight_per_kg: {},
+    default_freight_per_kg: 0,
+    duty_rates: [],
+    default_duty_rate: 0,
+    customs_brokerage_fee: 0,
+    units_per_shipment: 100
+  })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    if (userId) {
+      loadSettings()
+    }
+  }, [userId])
+
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('landed_cost_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .single()
+
+      if (error && error.code !== 'PGRST116') { // Not "not found" error
+        throw error
+      }
+
+      if (data) {
+        setSettings({
+          id: data.id,
+          enabled: data.enabled ?? true,
+          prep_fee_per_unit: Number(data.prep_fee_per_unit) || 0,
+          freight_per_kg: data.freight_per_kg || {},
+          default_freight_per_kg: Number(data.default_freight_per_kg) || 0,
+          duty_rates: Object.entries(data.duty_rates || {}).map(([category, rate]) => ({
+            category,
+            rate: Number(rate) || 0
+          })),
+          default_duty_rate: Number(data.default_duty_rate) || 0,
+          customs_brokerage_fee: Number(data.customs_brokerage_fee) || 0,
+          units_per_shipment: data.units_per_shipment || 100
+        })
+      }
+    } catch (error) {
+      console.error('Error loading landed cost profile:', error)
+      setMessage({ type: 'error', text: 'Failed to load landed cost settings' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSettings = async () => {
+    if (!userId) return
+
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const profileToSave = {
+        user_id: userId,
+        enabled: settings.enabled,
+        prep_fee_per_unit: settings.prep_fee_per_unit,
+        freight_per_kg: settings.freight_per_kg,
+        default_freight_per_kg: settings.default_freight_per_kg,
+        duty_rates: Object.fromEntries(
+          settings.duty_rates
+            .filter(entry => entry.category.trim())
+            .map(entry => [entry.category.trim().toUpperCase(), entry.rate])
+        ),
+        default_duty_rate: settings.default_duty_rate,
+        customs_brokerage_fee: settings.customs_brokerage_fee,
+        units_per_shipment: Math.max(1, Math.round(settings.units_per_shipment)),
+        updated_at: new Date().toISOString()
+      }
+
+      const { data, error } = await supabase
+        .from('landed_cost_profiles')
+        .upsert(profileToSave, { onConflict: 'user_id' })
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      if (data) {
+        setSettings(prev => ({ ...prev, id: data.id }))
+      }
+
+      setMessage({ type: 'success', text: 'Landed cost settings saved. They apply to your next scan.' })
+    } catch (error) {
+      console.error('Error saving landed cost profile:', error)
+      setMessage({ type: 'error', text: 'Failed to save landed cost settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateNumber = (field: keyof LandedCostSettingsState, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: parseFloat(value) || 0 }))
+  }
+
+  const updateFreight = (code: string, value: string) => {
+    setSettings(prev => {
+      const freight = { ...prev.freight_per_kg }
+      if (value === '') {
+        delete freight[code]
+      } else {
+        freight[code] = parseFloat(value) || 0
+      }
+      return { ...prev, freight_per_kg: freight }
+    })
+  }
+
+  const updateDutyRate = (index: number, changes: Partial<{ category: string; rate: number }>) => {
+    setSettings(prev => ({
+      ...prev,
+      duty_rates: prev.duty_rates.map((entry, i) => i === index ? { ...entry, ...changes } : entry)
+    }))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <ArrowPathIcon className="w-6 h-6 animate-spin text-indigo-600" />
+        <span className="ml-2 text-gray-600">Loading landed cost settings...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Landed Costs</h3>
+          <p className="text-sm text-gray-600">
+            Deduct prep, freight, import duty and brokerage from scan profits
+          </p>
+        </div>
+        <label className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={settings.enabled}
+            onChange={(e) => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          {/* Per-unit and per-shipment costs */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Prep fee per unit (£)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={settings.prep_fee_per_unit}
+                onChange={(e) => updateNumber('prep_fee_per_unit', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Customs brokerage per shipment (£)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={settings.customs_brokerage_fee}
+                onChange={(e) => updateNumber('customs_brokerage_fee', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Units per shipment</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={settings.units_per_shipment}
+                onChange={(e) => updateNumber('units_per_shipment', e.target.value)}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">Brokerage is spread across this many units</p>
+            </div>
+          </div>
+
+          {/* Freight by source country */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              <TruckIcon className="w-5 h-5 inline mr-2" />
+              Freight per chargeable kg (£)
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Default</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={settings.default_freight_per_kg}
+                  onChange={(e) => updateNumber('default_freight_per_kg', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              {getSourceMarketplaces().map(([code, marketplace]) => (
+                <div key={code}>
+                  <span className="block text-xs text-gray-500 mb-1">{marketplace.flag} {marketplace.name}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Default"
+                    value={settings.freight_per_kg[code] ?? ''}
+                    onChange={(e) => updateFreight(code, e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Chargeable weight is the greater of the catalog weight and volumetric weight (L × W × H / 5000)
+            </p>
+          </div>
+
+          {/* Import duty */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">Import duty (%)</label>
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <span className="w-48 text-sm text-gray-600">All other categories</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={settings.default_duty_rate}
+                  onChange={(e) => updateNumber('default_duty_rate', e.target.value)}
+                  className={`${inputClassName} max-w-[120px]`}
+                />
+              </div>
+              {settings.duty_rates.map((entry, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    placeholder="Product type (e.g. TOY)"
+                    value={entry.category}
+                    onChange={(e) => updateDutyRate(index, { category: e.target.value })}
+                    className={`${inputClassName} w-48`}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={entry.rate}
+                    onChange={(e) => updateDutyRate(index, { rate: parseFloat(e.target.value) || 0 })}
+                    className={`${inputClassName} max-w-[120px]`}
+                  />
+                  <button
+                    onClick={() => setSettings(prev => ({
+                      ...prev,
+                      duty_rates: prev.duty_rates.filter((_, i) => i !== index)
+                    }))}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remove category"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setSettings(prev => ({
+                  ...prev,
+                  duty_rates: [...prev.duty_rates, { category: '', rate: 0 }]
+                }))}
+                className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Add category rate
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Categories match the Amazon catalog product type. Duty is charged on the source price in GBP.
+            </p>
+          </div>
+        </>
+      )}
+
+      {/* Message Display */}
+      {message && (
+        <div className={`flex items-center gap-2 p-3 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircleIcon className="w-5 h-5" />
+          ) : (
+            <ExclamationTriangleIcon className="w-5 h-5" />
+          )}
+          <span className="text-sm">{message.text}</span>
+        </div>
+      )}
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className="inline-flex items-center gap-2 bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <>
+              <ArrowPathIcon className="w-5 h-5 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Settings'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
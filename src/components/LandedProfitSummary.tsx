@@ -0,0 +1,46 @@
+'use client'
+
+import type { LandedCostBreakdown } from '@/lib/landed-cost'
+
+interface LandedProfitSummaryProps {
+  landedCost?: number | null
+  landedProfit?: number | null
+  landedRoi?: number | null
+  landedCostBreakdown?: LandedCostBreakdown | null
+}
+
+/**
+ * Profit after prep, freight, duty and brokerage, shown under the gross profit.
+ * Renders nothing when the scan had no landed cost profile applied.
+ */
+export default function LandedProfitSummary({
+  landedCost,
+  landedProfit,
+  landedRoi,
+  landedCostBreakdown
+}: LandedProfitSummaryProps) {
+  if (landedProfit === undefined || landedProfit === null || !landedCost) {
+    return null
+  }
+
+  const breakdownTitle = landedCostBreakdown
+    ? [
+        `Prep: £${landedCostBreakdown.prepFee.toFixed(2)}`,
+        `Freight: £${landedCostBreakdown.freight.toFixed(2)} (${landedCostBreakdown.chargeableWeightKg.toFixed(2)} kg)`,
+        `Duty: £${landedCostBreakdown.duty.toFixed(2)}`,
+        `Brokerage: £${landedCostBreakdown.brokerage.toFixed(2)}`
+      ].join('\n')
+    : undefined
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 text-sm" title={breakdownTitle}>
+      <p className="text-gray-500">LANDED PROFIT</p>
+      <p className={`text-xl font-bold ${landedProfit > 0 ? 'text-green-600' : 'text-red-600'}`}>
+        £{landedProfit.toFixed(2)}
+      </p>
+      <p className="text-xs text-gray-500">
+        £{landedCost.toFixed(2)} landed cost · {(landedRoi || 0).toFixed(1)}% ROI
+      </p>
+    </div>
+  )
+}
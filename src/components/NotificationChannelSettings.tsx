@@ -0,0 +1,255 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { NotificationChannelType } from '@/lib/notification-channel-types'
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  EnvelopeIcon,
+  GlobeAltIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+
+export interface NotificationChannelRow {
+  channel_type: Exclude<NotificationChannelType, 'telegram'>
+  config: Record<string, string>
+  enabled: boolean
+}
+
+interface NotificationChannelSettingsProps {
+  channels: NotificationChannelRow[]
+  onChange: () => void
+}
+
+type ExternalChannelType = NotificationChannelRow['channel_type']
+
+const CHANNEL_FIELDS: Record<ExternalChannelType, {
+  title: string
+  description: string
+  fields: Array<{ key: string; label: string; placeholder: string; type?: string }>
+}> = {
+  email: {
+    title: 'Email',
+    description: 'Sent through the SMTP server configured for this app',
+    fields: [{ key: 'to', label: 'Email Address', placeholder: 'you@example.com', type: 'email' }]
+  },
+  discord: {
+    title: 'Discord',
+    description: 'Server Settings → Integrations → Webhooks → New Webhook',
+    fields: [{ key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://discord.com/api/webhooks/...' }]
+  },
+  slack: {
+    title: 'Slack',
+    description: 'Create an Incoming Webhook in your Slack app settings',
+    fields: [{ key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://hooks.slack.com/services/...' }]
+  },
+  webhook: {
+    title: 'Webhook',
+    description: 'JSON POST signed with X-Signature: sha256=HMAC(secret, "{X-Timestamp}.{body}")',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/storefront-stalker' },
+      { key: 'secret', label: 'Signing Secret', placeholder: 'Generated when saved' }
+    ]
+  }
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm'
+
+function generateSecret(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Email, Discord, Slack and webhook destinations. Telegram has its own setup flow.
+ */
+export default function NotificationChannelSettings({ channels, onChange }: NotificationChannelSettingsProps) {
+  const [drafts, setDrafts] = useState<Record<string, Record<string, string>>>({})
+  const [saving, setSaving] = useState<ExternalChannelType | null>(null)
+  const [testing, setTesting] = useState<ExternalChannelType | null>(null)
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(channels.map(channel => [channel.channel_type, { ...channel.config }])))
+  }, [channels])
+
+  const updateDraft = (type: ExternalChannelType, key: string, value: string) => {
+    setDrafts(prev => ({ ...prev, [type]: { ...prev[type], [key]: value } }))
+  }
+
+  const saveChannel = async (type: ExternalChannelType, enabled: boolean) => {
+    const config = { ...drafts[type] }
+    const missing = CHANNEL_FIELDS[type].fields.find(field => field.key !== 'secret' && !config[field.key]?.trim())
+
+    if (missing) {
+      alert(`${missing.label} is required`)
+      return
+    }
+
+    if (type === 'webhook' && !config.secret) {
+      config.secret = generateSecret()
+    }
+
+    setSaving(type)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      // Saved through the API, which checks the URLs before the server will post to them
+      const response = await fetch('/api/notifications/channels', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ channel: type, config, enabled })
+      })
+
+      const data = await response.json()
+      if (!data.success) {
+        alert(`Failed to save channel: ${data.error}`)
+        return
+      }
+      onChange()
+    } catch (error) {
+      console.error('Error saving notification channel:', error)
+      alert('Failed to save channel')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const removeChannel = async (type: ExternalChannelType) => {
+    if (!confirm(`Remove the ${CHANNEL_FIELDS[type].title} channel?`)) return
+
+    const { error } = await supabase
+      .from('notification_channels')
+      .delete()
+      .eq('channel_type', type)
+
+    if (error) {
+      console.error('Error removing notification channel:', error)
+      alert('Failed to remove channel')
+      return
+    }
+
+    onChange()
+  }
+
+  const testChannel = async (type: ExternalChannelType) => {
+    setTesting(type)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      const response = await fetch('/api/notifications/channels/test', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ channel: type })
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        alert(`Test notification sent to ${CHANNEL_FIELDS[type].title}!`)
+      } else {
+        alert(`Failed to send test notification: ${data.error}`)
+      }
+    } catch (error) {
+      alert('Failed to send test notification')
+    } finally {
+      setTesting(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <GlobeAltIcon className="w-5 h-5" />
+        Other Channels
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(Object.keys(CHANNEL_FIELDS) as ExternalChannelType[]).map(type => {
+          const definition = CHANNEL_FIELDS[type]
+          const saved = channels.find(channel => channel.channel_type === type)
+          const draft = drafts[type] || {}
+
+          return (
+            <div key={type} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+                    {type === 'email' && <EnvelopeIcon className="w-4 h-4" />}
+                    {definition.title}
+                  </h3>
+                  <p className="text-xs text-gray-500">{definition.description}</p>
+                </div>
+                {saved && (
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={saved.enabled}
+                      onChange={() => saveChannel(type, !saved.enabled)}
+                      className="w-4 h-4 text-indigo-600 rounded"
+                    />
+                    Enabled
+                  </label>
+                )}
+              </div>
+
+              {definition.fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">{field.label}</label>
+                  <input
+                    type={field.type || 'text'}
+                    value={draft[field.key] || ''}
+                    onChange={(e) => updateDraft(type, field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    className={`${inputClassName} ${field.key === 'secret' ? 'font-mono text-xs' : ''}`}
+                  />
+                </div>
+              ))}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => saveChannel(type, saved?.enabled ?? true)}
+                  disabled={saving === type}
+                  className="px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {saving === type ? 'Saving...' : saved ? 'Update' : 'Add'}
+                </button>
+                {saved && (
+                  <>
+                    <button
+                      onClick={() => testChannel(type)}
+                      disabled={testing === type || !saved.enabled}
+                      className="px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      {testing === type ? (
+                        <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <CheckCircleIcon className="w-4 h-4" />
+                      )}
+                      Test
+                    </button>
+                    <button
+                      onClick={() => removeChannel(type)}
+                      className="px-3 py-1.5 text-red-600 text-sm rounded-lg hover:bg-red-50 flex items-center gap-1"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                      Remove
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
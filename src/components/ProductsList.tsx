@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { ArrowPathIcon, PhotoIcon } from '@heroicons/react/24/outline';
 import Image from 'next/image';
+import FbaFlagBadges from '@/components/FbaFlagBadges';
+import type { FbaSizeTier } from '@/lib/fba-size-tier';
 
 interface Product {
   id: string;
@@ -14,6 +16,10 @@ interface Product {
   current_sales_rank: number | null;
   sales_rank_category: string | null;
   last_checked: string | null;
+  fba_size_tier: FbaSizeTier | null;
+  is_oversize: boolean | null;
+  possible_hazmat: boolean | null;
+  hazmat_reasons: string[] | null;
 }
 
 interface ProductsListProps {
@@ -34,6 +40,7 @@ export default function ProductsList({ storefrontId }: ProductsListProps) {
         .from('products')
         .select('*')
         .eq('storefront_id', storefrontId)
+        .is('removed_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -157,6 +164,18 @@ export default function ProductsList({ storefrontId }: ProductsListProps) {
                 <h4 className="text-sm font-medium text-gray-900 line-clamp-2">
                   {product.product_name || 'Product name not available'}
                 </h4>
+
+                {product.fba_size_tier || product.possible_hazmat ? (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    <FbaFlagBadges
+                      fbaSizeTier={product.fba_size_tier}
+                      isOversize={product.is_oversize}
+                      possibleHazmat={product.possible_hazmat}
+                      hazmatReasons={product.hazmat_reasons}
+                      showStandardTier
+                    />
+                  </div>
+                ) : null}
                 
                 <dl className="mt-2 space-y-1">
                   <div className="flex justify-between text-sm">
@@ -0,0 +1,454 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { getMarketplace } from '@/lib/amazon-marketplaces'
+import {
+  PURCHASE_ORDER_STATUSES,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  PurchaseOrderSummary,
+  getRealizedUnitProfit
+} from '@/lib/purchase-orders'
+import {
+  ArrowPathIcon,
+  ClipboardDocumentListIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+
+interface OrderableItem {
+  id: string
+  asin: string
+  product_name: string
+  source_marketplace: string
+  source_price_gbp: number
+  profit: number
+}
+
+interface PurchaseOrdersTabProps {
+  listId: string
+  items: OrderableItem[]
+}
+
+interface DraftLine {
+  selected: boolean
+  quantity: string
+  unitCost: string
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm'
+
+const STATUS_COLOURS: Record<PurchaseOrderStatus, string> = {
+  ordered: 'bg-gray-100 text-gray-700',
+  shipped: 'bg-blue-100 text-blue-700',
+  received: 'bg-yellow-100 text-yellow-800',
+  at_fba: 'bg-green-100 text-green-700'
+}
+
+function formatGbp(amount: number): string {
+  return `${amount < 0 ? '-' : ''}£${Math.abs(amount).toFixed(2)}`
+}
+
+/**
+ * Purchase orders for a sourcing list, with projected (scan) vs realized
+ * (actual cost) profit for everything ordered
+ */
+export default function PurchaseOrdersTab({ listId, items }: PurchaseOrdersTabProps) {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [summary, setSummary] = useState<PurchaseOrderSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [showCreate, setShowCreate] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // New order form
+  const [draftLines, setDraftLines] = useState<Record<string, DraftLine>>({})
+  const [reference, setReference] = useState('')
+  const [orderDate, setOrderDate] = useState(new Date().toISOString().slice(0, 10))
+  const [expectedArrival, setExpectedArrival] = useState('')
+
+  useEffect(() => {
+    fetchOrders()
+  }, [listId])
+
+  const apiRequest = async (path: string, method: string = 'GET', body?: any) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('Not signed in')
+
+    const response = await fetch(`/api/sourcing-lists/${listId}/purchase-orders${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    })
+
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed')
+    }
+    return result
+  }
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true)
+      const result = await apiRequest('')
+      setOrders(result.orders || [])
+      setSummary(result.summary || null)
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreate = () => {
+    setDraftLines(Object.fromEntries(items.map(item => [item.id, {
+      selected: false,
+      quantity: '1',
+      unitCost: item.source_price_gbp.toFixed(2)
+    }])))
+    setReference('')
+    setExpectedArrival('')
+    setError(null)
+    setShowCreate(true)
+  }
+
+  const updateDraftLine = (itemId: string, changes: Partial<DraftLine>) => {
+    setDraftLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }))
+  }
+
+  const handleCreate = async () => {
+    const lines = items
+      .filter(item => draftLines[item.id]?.selected)
+      .map(item => ({
+        item_id: item.id,
+        quantity: Number(draftLines[item.id].quantity),
+        unit_cost_gbp: draftLines[item.id].unitCost
+      }))
+
+    if (lines.length === 0) {
+      setError('Select at least one item')
+      return
+    }
+
+    try {
+      setCreating(true)
+      setError(null)
+      await apiRequest('', 'POST', {
+        reference,
+        order_date: orderDate,
+        expected_arrival: expectedArrival || null,
+        lines
+      })
+      setShowCreate(false)
+      await fetchOrders()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create purchase order')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const updateLine = async (orderId: string, line: PurchaseOrderItem, changes: Partial<PurchaseOrderItem>) => {
+    try {
+      await apiRequest(`/${orderId}`, 'PATCH', { lines: [{ id: line.id, ...changes }] })
+      await fetchOrders()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update purchase order')
+    }
+  }
+
+  const markOrder = async (order: PurchaseOrder, status: PurchaseOrderStatus) => {
+    try {
+      await apiRequest(`/${order.id}`, 'PATCH', {
+        lines: order.purchase_order_items.map(line => ({ id: line.id, status }))
+      })
+      await fetchOrders()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update purchase order')
+    }
+  }
+
+  const deleteOrder = async (orderId: string) => {
+    if (!confirm('Delete this purchase order?')) return
+
+    try {
+      await apiRequest(`/${orderId}`, 'DELETE')
+      await fetchOrders()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete purchase order')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <ArrowPathIcon className="w-8 h-8 animate-spin text-indigo-600" />
+      </div>
+    )
+  }
+
+  const variance = summary ? summary.realizedProfit - summary.projectedProfit : 0
+
+  return (
+    <div className="space-y-6">
+      {summary && summary.orders > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Units Ordered</p>
+            <p className="text-2xl font-semibold text-gray-900">{summary.units}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {PURCHASE_ORDER_STATUSES.map(status => `${summary.unitsByStatus[status.value]} ${status.label.toLowerCase()}`).join(' • ')}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Spend</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatGbp(summary.spend)}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Projected Profit</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatGbp(summary.projectedProfit)}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">Realized Profit</p>
+            <p className={`text-2xl font-semibold ${summary.realizedProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatGbp(summary.realizedProfit)}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+            <p className="text-sm text-gray-500">vs Scan Estimate</p>
+            <p className={`text-2xl font-semibold ${variance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {variance >= 0 ? '+' : ''}{formatGbp(variance)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={openCreate}
+          disabled={items.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          New Purchase Order
+        </button>
+      </div>
+
+      {orders.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+          <ClipboardDocumentListIcon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No purchase orders yet</h3>
+          <p className="text-gray-500">Record what you buy from this list to track it through to FBA</p>
+        </div>
+      ) : (
+        orders.map(order => (
+          <div key={order.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="font-semibold text-gray-900">{order.reference || 'Purchase order'}</h3>
+                <p className="text-xs text-gray-500">
+                  Created {new Date(order.created_at).toLocaleDateString('en-GB')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && markOrder(order, e.target.value as PurchaseOrderStatus)}
+                  className={inputClassName}
+                >
+                  <option value="">Mark all as...</option>
+                  {PURCHASE_ORDER_STATUSES.map(status => (
+                    <option key={status.value} value={status.value}>{status.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => deleteOrder(order.id)}
+                  className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete purchase order"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium">Supplier</th>
+                    <th className="py-2 pr-4 font-medium">Qty</th>
+                    <th className="py-2 pr-4 font-medium">Unit Cost</th>
+                    <th className="py-2 pr-4 font-medium">Ordered</th>
+                    <th className="py-2 pr-4 font-medium">Expected</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium text-right">Projected</th>
+                    <th className="py-2 font-medium text-right">Realized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {order.purchase_order_items.map(line => {
+                    const projected = line.quantity * Number(line.projected_unit_profit)
+                    const realized = line.quantity * getRealizedUnitProfit(line)
+
+                    return (
+                      <tr key={line.id} className="border-b border-gray-50">
+                        <td className="py-2 pr-4">
+                          <p className="text-gray-900 line-clamp-1">{line.product_name}</p>
+                          <p className="text-xs text-gray-500">{line.asin}</p>
+                        </td>
+                        <td className="py-2 pr-4">
+                          {getMarketplace(line.supplier_marketplace)?.flag || ''} {line.supplier_marketplace}
+                        </td>
+                        <td className="py-2 pr-4">{line.quantity}</td>
+                        <td className="py-2 pr-4">
+                          {formatGbp(Number(line.unit_cost_gbp))}
+                          {Number(line.unit_cost_gbp) !== Number(line.projected_unit_cost_gbp) && (
+                            <span className="block text-xs text-gray-400">
+                              scan {formatGbp(Number(line.projected_unit_cost_gbp))}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">{new Date(line.order_date).toLocaleDateString('en-GB')}</td>
+                        <td className="py-2 pr-4">
+                          <input
+                            type="date"
+                            value={line.expected_arrival || ''}
+                            onChange={(e) => updateLine(order.id, line, { expected_arrival: e.target.value || null })}
+                            className={inputClassName}
+                          />
+                        </td>
+                        <td className="py-2 pr-4">
+                          <select
+                            value={line.status}
+                            onChange={(e) => updateLine(order.id, line, { status: e.target.value as PurchaseOrderStatus })}
+                            className={`${inputClassName} ${STATUS_COLOURS[line.status]}`}
+                          >
+                            {PURCHASE_ORDER_STATUSES.map(status => (
+                              <option key={status.value} value={status.value}>{status.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 pr-4 text-right">{formatGbp(projected)}</td>
+                        <td className={`py-2 text-right font-medium ${realized >= projected ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatGbp(realized)}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))
+      )}
+
+      {/* New Purchase Order Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">New Purchase Order</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Supplier Reference</label>
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="e.g. Amazon.de order number"
+                  className={`${inputClassName} w-full py-2`}
+                  maxLength={255}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Order Date</label>
+                <input
+                  type="date"
+                  value={orderDate}
+                  onChange={(e) => setOrderDate(e.target.value)}
+                  className={`${inputClassName} w-full py-2`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expected Arrival</label>
+                <input
+                  type="date"
+                  value={expectedArrival}
+                  onChange={(e) => setExpectedArrival(e.target.value)}
+                  className={`${inputClassName} w-full py-2`}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {items.map(item => {
+                const draft = draftLines[item.id]
+                if (!draft) return null
+
+                return (
+                  <div key={item.id} className="flex items-center gap-3 p-2 border border-gray-100 rounded-lg">
+                    <input
+                      type="checkbox"
+                      checked={draft.selected}
+                      onChange={(e) => updateDraftLine(item.id, { selected: e.target.checked })}
+                      className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{item.product_name}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.asin} • {getMarketplace(item.source_marketplace)?.flag || item.source_marketplace} scan cost {formatGbp(item.source_price_gbp)}
+                      </p>
+                    </div>
+                    <label className="text-xs text-gray-500">Qty</label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={draft.quantity}
+                      onChange={(e) => updateDraftLine(item.id, { quantity: e.target.value, selected: true })}
+                      className={`${inputClassName} w-20`}
+                    />
+                    <label className="text-xs text-gray-500">Unit £</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={draft.unitCost}
+                      onChange={(e) => updateDraftLine(item.id, { unitCost: e.target.value, selected: true })}
+                      className={`${inputClassName} w-24`}
+                    />
+                  </div>
+                )
+              })}
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={() => setShowCreate(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={creating}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create Order'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { LockClosedIcon, LockOpenIcon } from '@heroicons/react/24/outline'
+import type { RestrictionStatus } from '@/lib/restriction-status'
+
+interface RestrictionBadgeProps {
+  status?: RestrictionStatus | null
+  // Show a badge for ungated listings too (otherwise only restricted ones are flagged)
+  showUngated?: boolean
+}
+
+const BADGES: Record<RestrictionStatus, { label: string; title: string; className: string }> = {
+  gated: {
+    label: 'Gated',
+    title: 'Your seller account cannot list this ASIN new',
+    className: 'bg-red-50 text-red-700 border-red-200'
+  },
+  approval_required: {
+    label: 'Approval Required',
+    title: 'Apply for approval in Seller Central before listing this ASIN',
+    className: 'bg-amber-50 text-amber-700 border-amber-200'
+  },
+  ungated: {
+    label: 'Ungated',
+    title: 'Your seller account can list this ASIN new',
+    className: 'bg-green-50 text-green-700 border-green-200'
+  }
+}
+
+/**
+ * Listing restriction of the sell marketplace, from the Listings Restrictions API
+ */
+export default function RestrictionBadge({ status, showUngated = false }: RestrictionBadgeProps) {
+  if (!status || (status === 'ungated' && !showUngated)) {
+    return null
+  }
+
+  const badge = BADGES[status]
+  const Icon = status === 'ungated' ? LockOpenIcon : LockClosedIcon
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded border ${badge.className}`}
+      title={badge.title}
+    >
+      <Icon className="w-3 h-3" />
+      {badge.label}
+    </span>
+  )
+}
@@ -16,12 +16,14 @@ import {
   MagnifyingGlassIcon,
   TrashIcon
 } from '@heroicons/react/24/outline'
+import { ScanDirection, DEFAULT_SCAN_DIRECTION, getDirectionLabel } from '@/lib/scan-direction'
 
 interface SavedScan {
   id: string
   scan_type: string
   storefront_name: string
   status: string
+  direction?: ScanDirection
   total_products: number
   unique_asins: number
   opportunities_found: number
@@ -41,6 +43,7 @@ export default function SavedScansInline({ onLoadScan }: SavedScansInlineProps)
   const [savedScans, setSavedScans] = useState<SavedScan[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
+  const [directionFilter, setDirectionFilter] = useState<'all' | ScanDirection>('all')
   const [showAll, setShowAll] = useState(false)
   const [isExpanded, setIsExpanded] = useState(false)
   
@@ -77,6 +80,8 @@ export default function SavedScansInline({ onLoadScan }: SavedScansInlineProps)
         return 'Single'
       case 'all_storefronts':
         return 'All'
+      case 'storefront_group':
+        return 'Group'
       default:
         return type
     }
@@ -90,6 +95,8 @@ export default function SavedScansInline({ onLoadScan }: SavedScansInlineProps)
         return 'bg-blue-100 text-blue-700'
       case 'all_storefronts':
         return 'bg-green-100 text-green-700'
+      case 'storefront_group':
+        return 'bg-pink-100 text-pink-700'
       default:
         return 'bg-gray-100 text-gray-700'
     }
@@ -160,6 +167,7 @@ export default function SavedScansInline({ onLoadScan }: SavedScansInlineProps)
   const filteredScans = savedScans
     .filter(scan => {
       if (searchTerm && !scan.storefront_name?.toLowerCase().includes(searchTerm.toLowerCase())) return false
+      if (directionFilter !== 'all' && (scan.direction || DEFAULT_SCAN_DIRECTION) !== directionFilter) return false
       return true
     })
 
@@ -213,6 +221,15 @@ export default function SavedScansInline({ onLoadScan }: SavedScansInlineProps)
                   className="pl-9 pr-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 w-48"
                 />
               </div>
+              <select
+                value={directionFilter}
+                onChange={(e) => setDirectionFilter(e.target.value as 'all' | ScanDirection)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="all">All Directions</option>
+                <option value="eu_to_uk">EU → UK</option>
+                <option value="uk_to_eu">UK → EU</option>
+              </select>
             </div>
           </div>
 
@@ -248,6 +265,11 @@ export default function SavedScansInline({ onLoadScan }: SavedScansInlineProps)
                             <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded ${getScanTypeColor(scan.scan_type)}`}>
                               {getScanTypeLabel(scan.scan_type)}
                             </span>
+                            {scan.direction === 'uk_to_eu' && (
+                              <span className="inline-flex items-center px-1.5 py-0.5 text-xs rounded bg-purple-100 text-purple-700">
+                                {getDirectionLabel(scan.direction)}
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
                             <span className="flex items-center gap-1">
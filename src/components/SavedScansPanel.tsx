@@ -74,6 +74,8 @@ export default function SavedScansPanel({ onLoadScan, onClose }: SavedScansPanel
         return 'Single Store'
       case 'all_storefronts':
         return 'All Stores'
+      case 'storefront_group':
+        return 'Group'
       default:
         return type
     }
@@ -87,6 +89,8 @@ export default function SavedScansPanel({ onLoadScan, onClose }: SavedScansPanel
         return 'bg-blue-100 text-blue-700'
       case 'all_storefronts':
         return 'bg-green-100 text-green-700'
+      case 'storefront_group':
+        return 'bg-pink-100 text-pink-700'
       default:
         return 'bg-gray-100 text-gray-700'
     }
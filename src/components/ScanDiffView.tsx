@@ -0,0 +1,231 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  ArrowTrendingUpIcon,
+  ArrowTrendingDownIcon,
+  PlusCircleIcon,
+  MinusCircleIcon,
+  CurrencyPoundIcon
+} from '@heroicons/react/24/outline'
+import type { ScanDiff, ProfitChange, ProductChange } from '@/services/arbitrage/scan-diff'
+
+type DiffSection = 'newlyProfitable' | 'noLongerProfitable' | 'priceMoves' | 'added' | 'removed'
+
+interface ScanDiffViewProps {
+  diff: ScanDiff
+  // Other scans of the same storefront that can be used as the base
+  baseOptions: { id: string; started_at: string }[]
+  onChangeBase: (scanId: string) => void
+  onBack: () => void
+}
+
+const SECTIONS: { key: DiffSection; label: string; icon: typeof PlusCircleIcon; color: string }[] = [
+  { key: 'newlyProfitable', label: 'Newly Profitable', icon: ArrowTrendingUpIcon, color: 'text-green-600' },
+  { key: 'noLongerProfitable', label: 'No Longer Profitable', icon: ArrowTrendingDownIcon, color: 'text-red-600' },
+  { key: 'priceMoves', label: 'Price Moves', icon: CurrencyPoundIcon, color: 'text-indigo-600' },
+  { key: 'added', label: 'Added to Storefront', icon: PlusCircleIcon, color: 'text-blue-600' },
+  { key: 'removed', label: 'Removed from Storefront', icon: MinusCircleIcon, color: 'text-gray-600' }
+]
+
+const formatProfit = (profit: number | null) =>
+  profit === null ? '—' : `${profit < 0 ? '-' : ''}£${Math.abs(profit).toFixed(2)}`
+
+const formatPrice = (price: number, currency: string) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(price)
+
+/**
+ * Diff of two scans of the same storefront, from /api/arbitrage/scans/compare
+ */
+export default function ScanDiffView({ diff, baseOptions, onChangeBase, onBack }: ScanDiffViewProps) {
+  const [activeSection, setActiveSection] = useState<DiffSection>('newlyProfitable')
+
+  const renderProduct = (item: { asin: string; productName: string | null; productImage: string | null }) => (
+    <div className="flex items-center gap-3 min-w-0">
+      {item.productImage ? (
+        <img src={item.productImage} alt="" className="w-10 h-10 object-contain rounded flex-shrink-0" />
+      ) : (
+        <div className="w-10 h-10 bg-gray-100 rounded flex-shrink-0" />
+      )}
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{item.productName || item.asin}</p>
+        <a
+          href={`https://www.amazon.co.uk/dp/${item.asin}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-indigo-600 hover:text-indigo-700"
+        >
+          {item.asin}
+        </a>
+      </div>
+    </div>
+  )
+
+  const renderProfitChanges = (items: ProfitChange[]) => (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Before</th>
+          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">After</th>
+          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">ROI</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {items.map(item => (
+          <tr key={item.asin}>
+            <td className="px-4 py-3 max-w-md">{renderProduct(item)}</td>
+            <td className="px-4 py-3 text-right text-sm text-gray-600">
+              {formatProfit(item.baseProfit)}
+              {item.baseMarketplace && <span className="block text-xs text-gray-400">{item.baseMarketplace}</span>}
+            </td>
+            <td className={`px-4 py-3 text-right text-sm font-semibold ${(item.headProfit || 0) > 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatProfit(item.headProfit)}
+              {item.headMarketplace && <span className="block text-xs font-normal text-gray-400">{item.headMarketplace}</span>}
+            </td>
+            <td className="px-4 py-3 text-right text-sm text-gray-600">
+              {item.baseRoi !== null ? `${item.baseRoi.toFixed(1)}%` : '—'} → {item.headRoi !== null ? `${item.headRoi.toFixed(1)}%` : '—'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  const renderProductChanges = (items: ProductChange[]) => (
+    <ul className="divide-y divide-gray-100">
+      {items.map(item => (
+        <li key={item.asin} className="px-4 py-3">{renderProduct(item)}</li>
+      ))}
+    </ul>
+  )
+
+  const renderPriceMoves = () => (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Moves</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {diff.priceMoves.map(item => (
+          <tr key={item.asin}>
+            <td className="px-4 py-3 max-w-md">{renderProduct(item)}</td>
+            <td className="px-4 py-3">
+              <div className="flex flex-wrap gap-2">
+                {item.moves.map(move => (
+                  <span
+                    key={move.marketplace}
+                    className={`px-2 py-1 text-xs font-medium rounded border ${
+                      move.changeAmount > 0
+                        ? 'bg-red-50 text-red-700 border-red-200'
+                        : 'bg-green-50 text-green-700 border-green-200'
+                    }`}
+                    title={`${formatPrice(move.basePrice, move.currency)} → ${formatPrice(move.headPrice, move.currency)}`}
+                  >
+                    {move.marketplace} {move.changeAmount > 0 ? '+' : ''}{move.changePercentage.toFixed(1)}%
+                  </span>
+                ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  const renderSection = () => {
+    const count = diff.summary[activeSection]
+
+    if (count === 0) {
+      return <p className="px-4 py-12 text-center text-sm text-gray-500">No changes in this category</p>
+    }
+
+    switch (activeSection) {
+      case 'newlyProfitable':
+        return renderProfitChanges(diff.newlyProfitable)
+      case 'noLongerProfitable':
+        return renderProfitChanges(diff.noLongerProfitable)
+      case 'priceMoves':
+        return renderPriceMoves()
+      case 'added':
+        return renderProductChanges(diff.added)
+      case 'removed':
+        return renderProductChanges(diff.removed)
+    }
+  }
+
+  return (
+    <>
+      {/* Back Navigation */}
+      <div className="mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Back to Recent Scans
+        </button>
+      </div>
+
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          {diff.head.storefrontName} - Scan Comparison
+        </h1>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <span>Comparing</span>
+          <select
+            value={diff.base.id}
+            onChange={(e) => onChangeBase(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+          >
+            {baseOptions.map(option => (
+              <option key={option.id} value={option.id}>
+                {new Date(option.started_at).toLocaleString('en-GB')}
+              </option>
+            ))}
+          </select>
+          <span>with {new Date(diff.head.startedAt).toLocaleString('en-GB')}</span>
+        </div>
+        {diff.productListSource === 'opportunities' && (
+          <p className="mt-2 text-xs text-gray-500">
+            Added and removed products are based on the ASINs each scan could price.
+          </p>
+        )}
+      </div>
+
+      {/* Summary Tabs */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {SECTIONS.map(section => {
+          const Icon = section.icon
+          return (
+            <button
+              key={section.key}
+              onClick={() => setActiveSection(section.key)}
+              className={`bg-white rounded-xl border p-4 text-left transition-all ${
+                activeSection === section.key
+                  ? 'border-indigo-500 shadow-md'
+                  : 'border-gray-100 shadow-sm hover:border-indigo-300'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <Icon className={`w-5 h-5 ${section.color}`} />
+                <span className="text-sm text-gray-600">{section.label}</span>
+              </div>
+              <p className="text-2xl font-bold text-gray-900">{diff.summary[section.key]}</p>
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Section Results */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {renderSection()}
+      </div>
+    </>
+  )
+}
@@ -12,7 +12,10 @@ import {
   PlusIcon,
   MinusIcon,
   ChevronLeftIcon,
-  ChevronRightIcon
+  ChevronRightIcon,
+  PauseIcon,
+  PlayIcon,
+  StopIcon
 } from '@heroicons/react/24/outline'
 
 interface ScanProgress {
@@ -42,11 +45,24 @@ interface ScanProgress {
   }
 }
 
+interface ArbitrageScan {
+  id: string
+  storefront_name: string | null
+  status: 'running' | 'paused'
+  control_request: 'pause' | 'cancel' | null
+  progress_percentage: number | null
+  current_step: string | null
+}
+
+type ScanControlAction = 'pause' | 'resume' | 'cancel'
+
 export default function ScanProgressPanel() {
   const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null)
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [hasAutoOpened, setHasAutoOpened] = useState(false)
   const [elapsedTime, setElapsedTime] = useState(0)
+  const [arbitrageScans, setArbitrageScans] = useState<ArbitrageScan[]>([])
+  const [controllingScanId, setControllingScanId] = useState<string | null>(null)
 
   useEffect(() => {
     let pollInterval: NodeJS.Timeout
@@ -134,11 +150,175 @@ export default function ScanProgressPanel() {
     }
   }, [scanProgress?.isProcessing, hasAutoOpened])
 
+  const fetchArbitrageScans = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+
+      // Only scans saved as jobs can be paused, resumed or cancelled
+      const { data, error } = await supabase
+        .from('arbitrage_scans')
+        .select('id, storefront_name, status, control_request, progress_percentage, current_step')
+        .eq('user_id', session.user.id)
+        .in('status', ['running', 'paused'])
+        .not('job_config', 'is', null)
+        .order('started_at', { ascending: false })
+
+      if (!error) {
+        setArbitrageScans(data || [])
+      }
+    } catch (error) {
+      console.error('Error fetching arbitrage scans:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchArbitrageScans()
+    const interval = setInterval(fetchArbitrageScans, 5000)
+
+    return () => clearInterval(interval)
+  }, [])
+
+  const controlScan = async (scanId: string, action: ScanControlAction) => {
+    if (action === 'cancel' && !confirm('Cancel this scan? Deals found so far are kept.')) {
+      return
+    }
+
+    setControllingScanId(scanId)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) return
+
+      const response = await fetch(`/api/arbitrage/scans/${scanId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`
+        }
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || `Failed to ${action} scan`)
+      }
+
+      await fetchArbitrageScans()
+    } catch (error) {
+      console.error(`Error trying to ${action} scan:`, error)
+    } finally {
+      setControllingScanId(null)
+    }
+  }
+
+  const showSync = !!scanProgress && (scanProgress.isProcessing || scanProgress.processedStorefronts > 0)
+
   // Don't render if no scan data
-  if (!scanProgress || (!scanProgress.isProcessing && scanProgress.processedStorefronts === 0)) {
+  if (!showSync && arbitrageScans.length === 0) {
     return null
   }
 
+  return (
+    <div className={`fixed right-0 top-24 z-40 transition-transform duration-300 ease-in-out ${
+      isCollapsed ? 'translate-x-[calc(100%-3rem)]' : 'translate-x-0'
+    }`}>
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="absolute left-0 top-8 -translate-x-full bg-gradient-to-r from-purple-600 to-blue-600 text-white p-2.5 rounded-l-lg shadow-lg hover:shadow-xl transition-all"
+        aria-label={isCollapsed ? 'Show scan progress' : 'Hide scan progress'}
+      >
+        {isCollapsed ? (
+          <ChevronLeftIcon className="h-5 w-5" />
+        ) : (
+          <ChevronRightIcon className="h-5 w-5" />
+        )}
+      </button>
+
+      {/* Main Panel */}
+      <div className="bg-white rounded-l-xl shadow-2xl w-80 max-h-[calc(100vh-8rem)] overflow-hidden flex flex-col">
+        {showSync && scanProgress && (
+          <SyncProgressContent scanProgress={scanProgress} elapsedTime={elapsedTime} />
+        )}
+
+        {/* Arbitrage Scans */}
+        {arbitrageScans.length > 0 && (
+          <div className="border-t border-gray-200 px-3 py-2 overflow-y-auto">
+            <h4 className="text-xs font-semibold text-gray-700 mb-2">Arbitrage Scans</h4>
+            <div className="space-y-2">
+              {arbitrageScans.map(scan => {
+                const pausing = scan.control_request === 'pause'
+                const cancelling = scan.control_request === 'cancel'
+                const busy = controllingScanId === scan.id || cancelling
+
+                return (
+                  <div key={scan.id} className="p-2 bg-gray-50 rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <p className="text-xs font-medium text-gray-900 truncate">
+                        {scan.storefront_name || 'Arbitrage scan'}
+                      </p>
+                      <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                        {scan.status === 'paused' ? 'Paused' : `${scan.progress_percentage || 0}%`}
+                      </span>
+                    </div>
+
+                    <div className="w-full bg-gray-200 rounded-full h-1.5 mb-1">
+                      <div
+                        className={`h-1.5 rounded-full transition-all duration-500 ${
+                          scan.status === 'paused' ? 'bg-yellow-500' : 'bg-blue-600'
+                        }`}
+                        style={{ width: `${scan.progress_percentage || 0}%` }}
+                      />
+                    </div>
+
+                    <p className="text-xs text-gray-500 truncate mb-2">
+                      {cancelling
+                        ? 'Cancelling after the current batch...'
+                        : pausing
+                          ? 'Pausing after the current batch...'
+                          : scan.current_step || 'Processing...'}
+                    </p>
+
+                    <div className="flex space-x-2">
+                      {scan.status === 'paused' || pausing ? (
+                        <button
+                          onClick={() => controlScan(scan.id, 'resume')}
+                          disabled={busy}
+                          className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded-md hover:bg-green-100 disabled:opacity-50"
+                        >
+                          <PlayIcon className="h-3.5 w-3.5" />
+                          <span>Resume</span>
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => controlScan(scan.id, 'pause')}
+                          disabled={busy}
+                          className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 text-xs font-medium text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md hover:bg-yellow-100 disabled:opacity-50"
+                        >
+                          <PauseIcon className="h-3.5 w-3.5" />
+                          <span>Pause</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => controlScan(scan.id, 'cancel')}
+                        disabled={busy}
+                        className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+                      >
+                        <StopIcon className="h-3.5 w-3.5" />
+                        <span>Cancel</span>
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SyncProgressContent({ scanProgress, elapsedTime }: { scanProgress: ScanProgress; elapsedTime: number }) {
   const progressPercentage = scanProgress.totalStorefronts > 0
     ? (scanProgress.processedStorefronts / scanProgress.totalStorefronts) * 100
     : 0
@@ -167,150 +347,132 @@ export default function ScanProgressPanel() {
   const totalProductsRemoved = scanProgress.completedStorefronts.reduce((sum, s) => sum + s.productsRemoved, 0)
 
   return (
-    <div className={`fixed right-0 top-24 z-40 transition-transform duration-300 ease-in-out ${
-      isCollapsed ? 'translate-x-[calc(100%-3rem)]' : 'translate-x-0'
-    }`}>
-      {/* Toggle Button */}
-      <button
-        onClick={() => setIsCollapsed(!isCollapsed)}
-        className="absolute left-0 top-8 -translate-x-full bg-gradient-to-r from-purple-600 to-blue-600 text-white p-2.5 rounded-l-lg shadow-lg hover:shadow-xl transition-all"
-        aria-label={isCollapsed ? 'Show scan progress' : 'Hide scan progress'}
-      >
-        {isCollapsed ? (
-          <ChevronLeftIcon className="h-5 w-5" />
-        ) : (
-          <ChevronRightIcon className="h-5 w-5" />
-        )}
-      </button>
-
-      {/* Main Panel */}
-      <div className="bg-white rounded-l-xl shadow-2xl w-80 max-h-[calc(100vh-8rem)] overflow-hidden flex flex-col">
-        {/* Header */}
-        <div className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-3">
-          <div className="flex items-center justify-between mb-2">
-            <div className="flex items-center space-x-2">
-              <BuildingStorefrontIcon className="h-5 w-5" />
-              <h3 className="text-sm font-semibold">
-                Storefront Sync in Progress
-              </h3>
-            </div>
-            <div className="text-lg font-bold">{Math.round(progressPercentage)}%</div>
+    <>
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-3">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-2">
+            <BuildingStorefrontIcon className="h-5 w-5" />
+            <h3 className="text-sm font-semibold">
+              Storefront Sync in Progress
+            </h3>
           </div>
-          
-          <p className="text-xs text-white/80 mb-2">
-            Processing {scanProgress.totalStorefronts} storefronts
-          </p>
+          <div className="text-lg font-bold">{Math.round(progressPercentage)}%</div>
+        </div>
+        
+        <p className="text-xs text-white/80 mb-2">
+          Processing {scanProgress.totalStorefronts} storefronts
+        </p>
 
-          {/* Progress Bar */}
-          <div className="w-full bg-white/20 rounded-full h-2">
-            <div 
-              className="bg-white h-2 rounded-full transition-all duration-500"
-              style={{ width: `${progressPercentage}%` }}
-            />
-          </div>
+        {/* Progress Bar */}
+        <div className="w-full bg-white/20 rounded-full h-2">
+          <div 
+            className="bg-white h-2 rounded-full transition-all duration-500"
+            style={{ width: `${progressPercentage}%` }}
+          />
+        </div>
 
-          <div className="flex justify-between text-xs text-white/80 mt-1">
-            <span>{scanProgress.processedStorefronts} of {scanProgress.totalStorefronts}</span>
-            {(() => {
-              const remaining = estimateRemainingTime()
-              return remaining ? <span>~{formatTime(remaining)} remaining</span> : null
-            })()}
-          </div>
+        <div className="flex justify-between text-xs text-white/80 mt-1">
+          <span>{scanProgress.processedStorefronts} of {scanProgress.totalStorefronts}</span>
+          {(() => {
+            const remaining = estimateRemainingTime()
+            return remaining ? <span>~{formatTime(remaining)} remaining</span> : null
+          })()}
         </div>
+      </div>
 
-        {/* Current Processing */}
-        {scanProgress.isProcessing && scanProgress.currentStorefront && (
-          <div className="px-4 py-3 bg-blue-50 border-b border-gray-200">
-            <div className="flex items-center space-x-2 mb-1">
-              <ArrowPathIcon className="h-4 w-4 text-blue-600 animate-spin" />
-              <span className="text-xs text-gray-600">Currently scanning</span>
-            </div>
-            <p className="text-sm font-medium text-gray-900 truncate">
-              {scanProgress.currentStorefront}
-            </p>
+      {/* Current Processing */}
+      {scanProgress.isProcessing && scanProgress.currentStorefront && (
+        <div className="px-4 py-3 bg-blue-50 border-b border-gray-200">
+          <div className="flex items-center space-x-2 mb-1">
+            <ArrowPathIcon className="h-4 w-4 text-blue-600 animate-spin" />
+            <span className="text-xs text-gray-600">Currently scanning</span>
           </div>
-        )}
+          <p className="text-sm font-medium text-gray-900 truncate">
+            {scanProgress.currentStorefront}
+          </p>
+        </div>
+      )}
 
-        {/* Stats Grid */}
-        <div className="grid grid-cols-2 gap-2 p-3 bg-gray-50">
-          <div className="bg-white rounded-lg p-2 border border-gray-200">
-            <div className="flex items-center space-x-1 mb-1">
-              <ClockIcon className="h-3.5 w-3.5 text-gray-400" />
-              <span className="text-xs text-gray-600">Time</span>
-            </div>
-            <p className="text-sm font-bold text-gray-900">{formatTime(elapsedTime)}</p>
+      {/* Stats Grid */}
+      <div className="grid grid-cols-2 gap-2 p-3 bg-gray-50">
+        <div className="bg-white rounded-lg p-2 border border-gray-200">
+          <div className="flex items-center space-x-1 mb-1">
+            <ClockIcon className="h-3.5 w-3.5 text-gray-400" />
+            <span className="text-xs text-gray-600">Time</span>
           </div>
+          <p className="text-sm font-bold text-gray-900">{formatTime(elapsedTime)}</p>
+        </div>
 
-          <div className="bg-white rounded-lg p-2 border border-gray-200">
-            <div className="flex items-center space-x-1 mb-1">
-              <CpuChipIcon className="h-3.5 w-3.5 text-gray-400" />
-              <span className="text-xs text-gray-600">Webscraping</span>
-            </div>
-            <p className="text-sm font-bold text-gray-900">{scanProgress.tokensAvailable}</p>
-            <p className="text-xs text-gray-500">{scanProgress.tokensUsed} used</p>
+        <div className="bg-white rounded-lg p-2 border border-gray-200">
+          <div className="flex items-center space-x-1 mb-1">
+            <CpuChipIcon className="h-3.5 w-3.5 text-gray-400" />
+            <span className="text-xs text-gray-600">Webscraping</span>
           </div>
+          <p className="text-sm font-bold text-gray-900">{scanProgress.tokensAvailable}</p>
+          <p className="text-xs text-gray-500">{scanProgress.tokensUsed} used</p>
+        </div>
 
-          <div className="bg-white rounded-lg p-2 border border-gray-200">
-            <div className="flex items-center space-x-1 mb-1">
-              <PlusIcon className="h-3.5 w-3.5 text-green-500" />
-              <span className="text-xs text-gray-600">Added</span>
-            </div>
-            <p className="text-sm font-bold text-green-600">+{totalProductsAdded}</p>
+        <div className="bg-white rounded-lg p-2 border border-gray-200">
+          <div className="flex items-center space-x-1 mb-1">
+            <PlusIcon className="h-3.5 w-3.5 text-green-500" />
+            <span className="text-xs text-gray-600">Added</span>
           </div>
+          <p className="text-sm font-bold text-green-600">+{totalProductsAdded}</p>
+        </div>
 
-          <div className="bg-white rounded-lg p-2 border border-gray-200">
-            <div className="flex items-center space-x-1 mb-1">
-              <MinusIcon className="h-3.5 w-3.5 text-red-500" />
-              <span className="text-xs text-gray-600">Removed</span>
-            </div>
-            <p className="text-sm font-bold text-red-600">-{totalProductsRemoved}</p>
+        <div className="bg-white rounded-lg p-2 border border-gray-200">
+          <div className="flex items-center space-x-1 mb-1">
+            <MinusIcon className="h-3.5 w-3.5 text-red-500" />
+            <span className="text-xs text-gray-600">Removed</span>
           </div>
+          <p className="text-sm font-bold text-red-600">-{totalProductsRemoved}</p>
         </div>
+      </div>
 
-        {/* Recent Updates */}
-        <div className="flex-1 overflow-y-auto px-3 py-2">
-          <h4 className="text-xs font-semibold text-gray-700 mb-2">Recent Updates</h4>
-          <div className="space-y-1">
-            {scanProgress.completedStorefronts.slice(-5).reverse().map((store, index) => (
-              <div key={index} className="flex items-center justify-between py-1.5 px-2 bg-gray-50 rounded-lg">
-                <div className="flex items-center space-x-2 min-w-0">
-                  {store.success ? (
-                    <CheckCircleIcon className="h-4 w-4 text-green-500 flex-shrink-0" />
-                  ) : (
-                    <XCircleIcon className="h-4 w-4 text-red-500 flex-shrink-0" />
-                  )}
-                  <div className="min-w-0">
-                    <p className="text-xs font-medium text-gray-900 truncate">{store.name}</p>
-                    <p className="text-xs text-gray-500">
-                      {new Date(store.timestamp).toLocaleTimeString()}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-1 text-xs flex-shrink-0">
-                  <span className="font-medium text-green-600">+{store.productsAdded}</span>
-                  <span className="text-gray-400">/</span>
-                  <span className="font-medium text-red-600">-{store.productsRemoved}</span>
+      {/* Recent Updates */}
+      <div className="flex-1 overflow-y-auto px-3 py-2">
+        <h4 className="text-xs font-semibold text-gray-700 mb-2">Recent Updates</h4>
+        <div className="space-y-1">
+          {scanProgress.completedStorefronts.slice(-5).reverse().map((store, index) => (
+            <div key={index} className="flex items-center justify-between py-1.5 px-2 bg-gray-50 rounded-lg">
+              <div className="flex items-center space-x-2 min-w-0">
+                {store.success ? (
+                  <CheckCircleIcon className="h-4 w-4 text-green-500 flex-shrink-0" />
+                ) : (
+                  <XCircleIcon className="h-4 w-4 text-red-500 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-gray-900 truncate">{store.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(store.timestamp).toLocaleTimeString()}
+                  </p>
                 </div>
               </div>
-            ))}
-          </div>
+              <div className="flex items-center space-x-1 text-xs flex-shrink-0">
+                <span className="font-medium text-green-600">+{store.productsAdded}</span>
+                <span className="text-gray-400">/</span>
+                <span className="font-medium text-red-600">-{store.productsRemoved}</span>
+              </div>
+            </div>
+          ))}
         </div>
+      </div>
 
-        {/* Footer Summary */}
-        <div className="px-4 py-2 bg-gray-100 border-t border-gray-200">
-          <div className="flex items-center justify-between">
-            <div className="text-xs">
-              <span className="text-gray-600">Status: </span>
-              <span className="font-semibold text-gray-900">
-                {scanProgress.completedStorefronts.filter(s => s.success).length} Successful
-              </span>
-            </div>
-            {!scanProgress.isProcessing && (
-              <span className="text-xs font-semibold text-green-600">Complete</span>
-            )}
+      {/* Footer Summary */}
+      <div className="px-4 py-2 bg-gray-100 border-t border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="text-xs">
+            <span className="text-gray-600">Status: </span>
+            <span className="font-semibold text-gray-900">
+              {scanProgress.completedStorefronts.filter(s => s.success).length} Successful
+            </span>
           </div>
+          {!scanProgress.isProcessing && (
+            <span className="text-xs font-semibold text-green-600">Complete</span>
+          )}
         </div>
       </div>
-    </div>
+    </>
   )
-}
\ No newline at end of file
+}
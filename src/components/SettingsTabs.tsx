@@ -9,7 +9,10 @@ import {
   BellIcon,
   CloudIcon,
   ClockIcon,
-  ShieldCheckIcon
+  ShieldCheckIcon,
+  TruckIcon,
+  ShoppingCartIcon,
+  FunnelIcon
 } from '@heroicons/react/24/outline'
 
 interface Tab {
@@ -43,6 +46,24 @@ const TABS: Tab[] = [
     icon: ChartBarIcon,
     description: 'A2A EU marketplace scanning schedule'
   },
+  {
+    id: 'sourcing-profiles',
+    name: 'Sourcing Profiles',
+    icon: FunnelIcon,
+    description: 'Named deal filters for scans and alerts'
+  },
+  {
+    id: 'landed-costs',
+    name: 'Landed Costs',
+    icon: TruckIcon,
+    description: 'Prep, freight, duty and brokerage applied to scans'
+  },
+  {
+    id: 'buying',
+    name: 'Buying',
+    icon: ShoppingCartIcon,
+    description: 'Lead time and cash budget for suggested quantities'
+  },
   {
     id: 'asin-monitoring',
     name: 'ASIN Monitoring',
@@ -125,6 +125,13 @@ const navigationGroups: NavigationGroup[] = [
         iconActive: MagnifyingGlassIconSolid,
         description: 'Single product analysis'
       },
+      {
+        name: 'Supplier Import',
+        href: '/dashboard/supplier-import',
+        icon: DocumentTextIcon,
+        iconActive: DocumentTextIconSolid,
+        description: 'Wholesale price lists'
+      },
       { 
         name: 'Blacklist', 
         href: '/dashboard/blacklist', 
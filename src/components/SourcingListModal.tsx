@@ -38,6 +38,7 @@ interface Deal {
     seller_id: string
   }>
   salesPerMonth?: number
+  ukCompetitors?: number
 }
 
 interface SourcingListModalProps {
@@ -124,6 +125,7 @@ export default function SourcingListModal({ isOpen, onClose, selectedDeals, adde
         roi: deal.bestOpportunity.roi,
         profit_margin: (deal.bestOpportunity.profit / deal.targetPrice) * 100,
         sales_per_month: deal.salesPerMonth || null,
+        uk_competitors: deal.ukCompetitors ?? null,
         storefront_name: deal.storefronts?.[0]?.name || null,
         added_from: addedFrom
       }))
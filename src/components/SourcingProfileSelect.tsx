@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { mapSourcingProfile, describeSourcingProfile, SourcingProfile } from '@/lib/sourcing-profiles'
+
+interface SourcingProfileSelectProps {
+  value: string
+  onChange: (profileId: string, profile: SourcingProfile | null) => void
+  emptyLabel?: string
+  className?: string
+}
+
+/**
+ * Picks one of the signed-in user's sourcing profiles. An empty value means no profile.
+ */
+export default function SourcingProfileSelect({
+  value,
+  onChange,
+  emptyLabel = 'All deals (no profile)',
+  className = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+}: SourcingProfileSelectProps) {
+  const [profiles, setProfiles] = useState<SourcingProfile[]>([])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [])
+
+  const loadProfiles = async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return
+
+    const { data, error } = await supabase
+      .from('sourcing_profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name')
+
+    if (error) {
+      console.error('Error loading sourcing profiles:', error)
+      return
+    }
+
+    setProfiles((data || []).map(mapSourcingProfile))
+  }
+
+  const selected = profiles.find(profile => profile.id === value)
+
+  return (
+    <div>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value, profiles.find(profile => profile.id === e.target.value) || null)}
+        className={className}
+      >
+        <option value="">{emptyLabel}</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+      {selected && (
+        <p className="text-xs text-gray-500 mt-1">{describeSourcingProfile(selected)}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,337 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { mapSourcingProfile, describeSourcingProfile, SourcingProfile } from '@/lib/sourcing-profiles'
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+
+interface SourcingProfileSettingsProps {
+  userId?: string
+}
+
+// Number rules are edited as strings so an empty field means "no rule"
+interface ProfileForm {
+  id?: string
+  name: string
+  min_profit: string
+  min_roi: string
+  max_sales_rank: string
+  max_offers: string
+  min_price: string
+  max_price: string
+  min_sales_per_month: string
+  excluded_categories: string
+  excluded_brands: string
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  min_profit: '',
+  min_roi: '',
+  max_sales_rank: '',
+  max_offers: '',
+  min_price: '',
+  max_price: '',
+  min_sales_per_month: '',
+  excluded_categories: '',
+  excluded_brands: ''
+}
+
+const NUMBER_FIELDS: Array<{ field: keyof ProfileForm; label: string; step: string; hint?: string }> = [
+  { field: 'min_profit', label: 'Min profit (£)', step: '0.01', hint: 'After landed costs' },
+  { field: 'min_roi', label: 'Min ROI (%)', step: '0.1', hint: 'After landed costs' },
+  { field: 'max_sales_rank', label: 'Max sales rank', step: '1', hint: 'Unranked products are excluded' },
+  { field: 'max_offers', label: 'Max offers', step: '1', hint: 'Sellers on the listing you sell on' },
+  { field: 'min_price', label: 'Min sell price (£)', step: '0.01' },
+  { field: 'max_price', label: 'Max sell price (£)', step: '0.01' },
+  { field: 'min_sales_per_month', label: 'Min sales/month', step: '1' }
+]
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm'
+
+function toForm(profile: SourcingProfile): ProfileForm {
+  const text = (value: number | null) => value === null ? '' : String(value)
+  return {
+    id: profile.id,
+    name: profile.name,
+    min_profit: text(profile.minProfit),
+    min_roi: text(profile.minRoi),
+    max_sales_rank: text(profile.maxSalesRank),
+    max_offers: text(profile.maxOffers),
+    min_price: text(profile.minPrice),
+    max_price: text(profile.maxPrice),
+    min_sales_per_month: text(profile.minSalesPerMonth),
+    excluded_categories: profile.excludedCategories.join(', '),
+    excluded_brands: profile.excludedBrands.join(', ')
+  }
+}
+
+function parseList(value: string): string[] {
+  return Array.from(new Set(value.split(/[,\n]/).map(term => term.trim()).filter(Boolean)))
+}
+
+function parseNumber(value: string): number | null {
+  if (value.trim() === '') return null
+  const number = parseFloat(value)
+  return Number.isFinite(number) ? number : null
+}
+
+export default function SourcingProfileSettings({ userId }: SourcingProfileSettingsProps) {
+  const [profiles, setProfiles] = useState<SourcingProfile[]>([])
+  const [form, setForm] = useState<ProfileForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    if (userId) {
+      loadProfiles()
+    }
+  }, [userId])
+
+  const loadProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sourcing_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name')
+
+      if (error) {
+        throw error
+      }
+
+      setProfiles((data || []).map(mapSourcingProfile))
+    } catch (error) {
+      console.error('Error loading sourcing profiles:', error)
+      setMessage({ type: 'error', text: 'Failed to load sourcing profiles' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveProfile = async () => {
+    if (!userId || !form) return
+
+    if (!form.name.trim()) {
+      setMessage({ type: 'error', text: 'Give the profile a name' })
+      return
+    }
+
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const row = {
+        user_id: userId,
+        name: form.name.trim(),
+        min_profit: parseNumber(form.min_profit),
+        min_roi: parseNumber(form.min_roi),
+        max_sales_rank: parseNumber(form.max_sales_rank),
+        max_offers: parseNumber(form.max_offers),
+        min_price: parseNumber(form.min_price),
+        max_price: parseNumber(form.max_price),
+        min_sales_per_month: parseNumber(form.min_sales_per_month),
+        excluded_categories: parseList(form.excluded_categories),
+        excluded_brands: parseList(form.excluded_brands),
+        updated_at: new Date().toISOString()
+      }
+
+      const { error } = form.id
+        ? await supabase.from('sourcing_profiles').update(row).eq('id', form.id)
+        : await supabase.from('sourcing_profiles').insert(row)
+
+      if (error) {
+        throw error.code === '23505' ? new Error(`A profile named "${row.name}" already exists`) : error
+      }
+
+      setForm(null)
+      setMessage({ type: 'success', text: `Saved "${row.name}". New scans and scheduled runs use the updated rules.` })
+      await loadProfiles()
+    } catch (error) {
+      console.error('Error saving sourcing profile:', error)
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save sourcing profile' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteProfile = async (profile: SourcingProfile) => {
+    if (!confirm(`Delete "${profile.name}"? Schedules using it will scan without a profile.`)) return
+
+    const { error } = await supabase
+      .from('sourcing_profiles')
+      .delete()
+      .eq('id', profile.id)
+
+    if (error) {
+      console.error('Error deleting sourcing profile:', error)
+      setMessage({ type: 'error', text: 'Failed to delete sourcing profile' })
+      return
+    }
+
+    setProfiles(prev => prev.filter(p => p.id !== profile.id))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <ArrowPathIcon className="w-6 h-6 animate-spin text-indigo-600" />
+        <span className="ml-2 text-gray-600">Loading sourcing profiles...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Sourcing Profiles</h3>
+          <p className="text-sm text-gray-600">
+            A scan or schedule run with a profile only saves, shows and alerts on deals that match every rule.
+            Leave a rule empty to skip it.
+          </p>
+        </div>
+        {!form && (
+          <button
+            onClick={() => { setForm(EMPTY_FORM); setMessage(null) }}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm whitespace-nowrap"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New Profile
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Fast movers"
+              maxLength={100}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {NUMBER_FIELDS.map(({ field, label, step, hint }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  placeholder="No rule"
+                  className={inputClassName}
+                />
+                {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Excluded categories</label>
+              <textarea
+                rows={2}
+                value={form.excluded_categories}
+                onChange={(e) => setForm({ ...form, excluded_categories: e.target.value })}
+                placeholder="e.g. Grocery, Beauty"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">Amazon product types, comma separated</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Excluded brands</label>
+              <textarea
+                rows={2}
+                value={form.excluded_brands}
+                onChange={(e) => setForm({ ...form, excluded_brands: e.target.value })}
+                placeholder="e.g. LEGO, Apple"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">Comma separated, not case sensitive</p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveProfile}
+              disabled={saving}
+              className="inline-flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 text-sm"
+            >
+              {saving && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+              {form.id ? 'Save Profile' : 'Create Profile'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {profiles.length === 0 && !form ? (
+        <p className="text-sm text-gray-500">No profiles yet. Scans save every deal until you create one.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center justify-between gap-4 p-4">
+              <div>
+                <p className="font-medium text-gray-900">{profile.name}</p>
+                <p className="text-sm text-gray-500">{describeSourcingProfile(profile)}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => { setForm(toForm(profile)); setMessage(null) }}
+                  className="p-2 text-gray-500 hover:text-indigo-600"
+                  title="Edit profile"
+                >
+                  <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => deleteProfile(profile)}
+                  className="p-2 text-gray-500 hover:text-red-600"
+                  title="Delete profile"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Message Display */}
+      {message && (
+        <div className={`flex items-center gap-2 p-3 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircleIcon className="w-5 h-5" />
+          ) : (
+            <ExclamationTriangleIcon className="w-5 h-5" />
+          )}
+          <span className="text-sm">{message.text}</span>
+        </div>
+      )}
+    </div>
+  )
+}
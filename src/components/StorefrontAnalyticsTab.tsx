@@ -0,0 +1,150 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import { StorefrontAnalytics, StorefrontWeeklyPoint } from '@/lib/storefront-analytics'
+import {
+  ChartContainer,
+  SimpleBarChart,
+  SimpleDonutChart,
+  SimpleLineChart
+} from '@/components/ui/chart-components'
+
+interface StorefrontAnalyticsTabProps {
+  storefrontId: string
+}
+
+function toChartPoints(points: StorefrontWeeklyPoint[]) {
+  return points.map(point => ({
+    label: new Date(point.weekStart).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+    value: point.value
+  }))
+}
+
+/**
+ * What a competitor storefront is: catalog size over time, what it sells,
+ * how well it ranks, how often our scans found profit in it and who else
+ * sells the same ASINs
+ */
+export default function StorefrontAnalyticsTab({ storefrontId }: StorefrontAnalyticsTabProps) {
+  const [analytics, setAnalytics] = useState<StorefrontAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [storefrontId])
+
+  const fetchAnalytics = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error('Not signed in')
+
+      const response = await fetch(`/api/storefronts/${storefrontId}/analytics`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to load analytics')
+
+      setAnalytics(result.analytics)
+    } catch (error) {
+      console.error('Error fetching storefront analytics:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load analytics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (loading || !analytics) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartContainer title="ASIN count" loading>{null}</ChartContainer>
+        <ChartContainer title="New ASINs per week" loading>{null}</ChartContainer>
+      </div>
+    )
+  }
+
+  const stats = [
+    { label: 'Active ASINs', value: analytics.activeAsins.toLocaleString() },
+    { label: 'Median BSR', value: analytics.medianSalesRank ? analytics.medianSalesRank.toLocaleString() : 'N/A' },
+    { label: 'New ASINs / week', value: analytics.averageNewAsinsPerWeek.toFixed(1) },
+    {
+      label: 'Profitable in our scans',
+      value: analytics.profitableShare !== null ? `${analytics.profitableShare.toFixed(0)}%` : 'Not scanned',
+      detail: analytics.scannedAsins > 0 ? `${analytics.profitableAsins} of ${analytics.scannedAsins} scanned ASINs` : undefined
+    }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-gray-50 rounded-lg px-4 py-3">
+            <p className="text-2xl font-semibold text-gray-900">{stat.value}</p>
+            <p className="text-sm text-gray-500">{stat.label}</p>
+            {stat.detail && <p className="text-xs text-gray-400 mt-1">{stat.detail}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartContainer
+          title="ASIN count"
+          description={`Listed at the end of each week${analytics.removedAsins > 0 ? `, ${analytics.removedAsins} removed since tracking began` : ''}`}
+        >
+          <SimpleLineChart data={toChartPoints(analytics.asinCountHistory)} height={220} />
+        </ChartContainer>
+
+        <ChartContainer title="New ASINs per week" description="ASINs the seller started selling, from the catalog timeline">
+          <SimpleLineChart data={toChartPoints(analytics.newAsinVelocity)} height={220} color="#10b981" />
+        </ChartContainer>
+
+        <ChartContainer title="Category mix" description="Active ASINs by category">
+          {analytics.categoryMix.length > 0 ? (
+            <SimpleDonutChart data={analytics.categoryMix} size={180} />
+          ) : (
+            <p className="text-sm text-gray-500">No active products</p>
+          )}
+        </ChartContainer>
+
+        <ChartContainer title="Brand mix" description="Active ASINs by brand">
+          {analytics.brandMix.length > 0 ? (
+            <SimpleBarChart data={analytics.brandMix} height={analytics.brandMix.length * 40} />
+          ) : (
+            <p className="text-sm text-gray-500">No active products</p>
+          )}
+        </ChartContainer>
+      </div>
+
+      <ChartContainer title="Overlap with tracked storefronts" description="Active ASINs this storefront shares with your other storefronts">
+        {analytics.overlaps.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {analytics.overlaps.map(overlap => (
+              <li key={overlap.storefrontId} className="flex items-center justify-between py-2 text-sm">
+                <Link href={`/dashboard/storefronts/${overlap.storefrontId}`} className="text-indigo-600 hover:text-indigo-500">
+                  {overlap.name}
+                </Link>
+                <span className="text-gray-600">
+                  {overlap.sharedAsins} shared ({overlap.sharePercent.toFixed(1)}%)
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No ASINs in common with your other storefronts</p>
+        )}
+      </ChartContainer>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { supabase } from '@/lib/supabase'
+import {
+  STOREFRONT_GROUP_COLORS,
+  StorefrontGroup,
+  StorefrontGroupColor,
+  getGroupBadgeClasses
+} from '@/lib/storefront-groups'
+import { PremiumModal, ModalBody, ModalFooter } from '@/components/ui/premium-modal'
+import { PremiumInput } from '@/components/ui/premium-input'
+import { PremiumButton } from '@/components/ui/premium-button'
+
+interface StorefrontGroupsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  groups: StorefrontGroup[]
+  onChange: () => void
+  storefront?: { id: string; name: string } | null // Tag this storefront; without one, create and delete groups
+}
+
+/**
+ * Creates and deletes storefront groups, or tags one storefront with them
+ */
+export default function StorefrontGroupsModal({ isOpen, onClose, groups, onChange, storefront }: StorefrontGroupsModalProps) {
+  const [name, setName] = useState('')
+  const [color, setColor] = useState<StorefrontGroupColor>('indigo')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const getUserId = async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not signed in')
+    return user.id
+  }
+
+  const runChange = async (change: () => Promise<void>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await change()
+      onChange()
+    } catch (error: any) {
+      console.error('Error updating storefront groups:', error)
+      setError(error?.code === '23505' ? 'A group with that name already exists' : error?.message || 'Failed to update groups')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleMembership = (group: StorefrontGroup) => runChange(async () => {
+    if (!storefront) return
+
+    if (group.storefrontIds.includes(storefront.id)) {
+      const { error } = await supabase
+        .from('storefront_group_members')
+        .delete()
+        .eq('group_id', group.id)
+        .eq('storefront_id', storefront.id)
+      if (error) throw error
+    } else {
+      const { error } = await supabase
+        .from('storefront_group_members')
+        .insert({ group_id: group.id, storefront_id: storefront.id, user_id: await getUserId() })
+      if (error) throw error
+    }
+  })
+
+  const createGroup = () => runChange(async () => {
+    const userId = await getUserId()
+    const { data: group, error } = await supabase
+      .from('storefront_groups')
+      .insert({ user_id: userId, name: name.trim(), color })
+      .select('id')
+      .single()
+    if (error) throw error
+
+    if (storefront) {
+      const { error: memberError } = await supabase
+        .from('storefront_group_members')
+        .insert({ group_id: group.id, storefront_id: storefront.id, user_id: userId })
+      if (memberError) throw memberError
+    }
+
+    setName('')
+  })
+
+  const deleteGroup = (group: StorefrontGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Its storefronts are kept, and schedules scanning it stop until another group is chosen.`)) return
+
+    runChange(async () => {
+      const { error } = await supabase.from('storefront_groups').delete().eq('id', group.id)
+      if (error) throw error
+    })
+  }
+
+  return (
+    <PremiumModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={storefront ? `Groups for ${storefront.name}` : 'Storefront Groups'}
+      description={storefront ? 'Tag this storefront with one or more groups' : 'Group storefronts by niche to filter and scan them together'}
+      size="md"
+    >
+      <ModalBody>
+        <div className="space-y-4">
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No groups yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {groups.map(group => (
+                <li key={group.id} className="flex items-center justify-between gap-3 py-2">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    {storefront && (
+                      <input
+                        type="checkbox"
+                        checked={group.storefrontIds.includes(storefront.id)}
+                        onChange={() => toggleMembership(group)}
+                        disabled={saving}
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                    )}
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded border ${getGroupBadgeClasses(group.color)}`}>
+                      {group.name}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {group.storefrontIds.length} storefront{group.storefrontIds.length !== 1 ? 's' : ''}
+                    </span>
+                  </label>
+                  {!storefront && (
+                    <button
+                      onClick={() => deleteGroup(group)}
+                      disabled={saving}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                      title="Delete group"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <PremiumInput
+                label="New group"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Toys"
+                maxLength={100}
+              />
+            </div>
+            <select
+              value={color}
+              onChange={(e) => setColor(e.target.value as StorefrontGroupColor)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              aria-label="Group colour"
+            >
+              {STOREFRONT_GROUP_COLORS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </ModalBody>
+
+      <ModalFooter align="between">
+        <PremiumButton type="button" variant="secondary" onClick={onClose}>
+          Done
+        </PremiumButton>
+        <PremiumButton type="button" onClick={createGroup} disabled={!name.trim() || saving} loading={saving}>
+          {storefront ? 'Create and Add' : 'Create Group'}
+        </PremiumButton>
+      </ModalFooter>
+    </PremiumModal>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import AddStorefrontModal from '@/components/AddStorefrontModal'
+import { PremiumButton } from '@/components/ui/premium-button'
+import { PlusIcon, SparklesIcon, StarIcon, XMarkIcon } from '@heroicons/react/24/outline'
+
+interface StorefrontSuggestion {
+  id: string
+  seller_id: string
+  seller_name: string | null
+  overlap_count: number
+  overlap_asins: string[]
+  seller_rating: number | null
+  feedback_count: number | null
+  buy_box_wins: number
+  discovered_at: string
+}
+
+interface StorefrontSuggestionsProps {
+  onStorefrontAdded: () => void
+}
+
+const POLL_INTERVAL_MS = 5000
+
+/**
+ * Sellers who also offer the ASINs our scans found profitable, with one-click add
+ */
+export default function StorefrontSuggestions({ onStorefrontAdded }: StorefrontSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<StorefrontSuggestion[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const [adding, setAdding] = useState<StorefrontSuggestion | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSuggestions()
+  }, [])
+
+  // Discovery runs in the background; poll until it finishes
+  useEffect(() => {
+    if (!isRunning) return
+    const interval = setInterval(fetchSuggestions, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isRunning])
+
+  const apiRequest = async (method: string = 'GET', body?: any) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('Not signed in')
+
+    const response = await fetch('/api/storefronts/discovery', {
+      method,
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      ...(body && { body: JSON.stringify(body) })
+    })
+
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.error || 'Request failed')
+    return result
+  }
+
+  const fetchSuggestions = async () => {
+    try {
+      const result = await apiRequest()
+      setSuggestions(result.suggestions || [])
+      setIsRunning(result.isRunning)
+    } catch (error) {
+      console.error('Error fetching storefront suggestions:', error)
+    }
+  }
+
+  const startDiscovery = async () => {
+    setError(null)
+    try {
+      await apiRequest('POST')
+      setIsRunning(true)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start discovery')
+    }
+  }
+
+  const updateStatus = async (suggestion: StorefrontSuggestion, status: 'added' | 'dismissed') => {
+    try {
+      await apiRequest('PATCH', { id: suggestion.id, status })
+      setSuggestions(current => current.filter(item => item.id !== suggestion.id))
+    } catch (error) {
+      console.error('Error updating storefront suggestion:', error)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <SparklesIcon className="w-5 h-5 text-indigo-600" />
+            Suggested Storefronts
+          </h2>
+          <p className="text-sm text-gray-500">
+            Sellers offering the ASINs your scans found profitable, ranked by overlap and rating
+          </p>
+        </div>
+        <PremiumButton
+          variant="secondary"
+          onClick={startDiscovery}
+          disabled={isRunning}
+          loading={isRunning}
+          loadingText="Discovering..."
+        >
+          Find Sellers
+        </PremiumButton>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+      {suggestions.length > 0 && (
+        <ul className="divide-y divide-gray-100 mt-4">
+          {suggestions.map(suggestion => (
+            <li key={suggestion.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <a
+                  href={`https://www.amazon.co.uk/s?me=${suggestion.seller_id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-gray-900 hover:text-indigo-600"
+                >
+                  {suggestion.seller_name || suggestion.seller_id}
+                </a>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-0.5">
+                  {suggestion.seller_name && <span>{suggestion.seller_id}</span>}
+                  <span className="font-medium text-indigo-600">
+                    {suggestion.overlap_count} profitable ASINs shared
+                  </span>
+                  {suggestion.seller_rating !== null && (
+                    <span className="inline-flex items-center gap-1">
+                      <StarIcon className="w-3 h-3" />
+                      {suggestion.seller_rating}% positive
+                      {suggestion.feedback_count !== null && ` (${suggestion.feedback_count.toLocaleString()})`}
+                    </span>
+                  )}
+                  {suggestion.buy_box_wins > 0 && <span>Buy box on {suggestion.buy_box_wins}</span>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setAdding(suggestion)}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-xl text-xs font-medium hover:bg-indigo-100 transition-all"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add
+                </button>
+                <button
+                  onClick={() => updateStatus(suggestion, 'dismissed')}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                  title="Dismiss"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isRunning && suggestions.length === 0 && (
+        <p className="text-sm text-gray-500 mt-4">
+          No suggestions yet. Find sellers once your scans have found profitable deals.
+        </p>
+      )}
+
+      <AddStorefrontModal
+        isOpen={!!adding}
+        onClose={() => setAdding(null)}
+        onSuccess={() => {
+          if (adding) updateStatus(adding, 'added')
+          onStorefrontAdded()
+        }}
+        initialSellerId={adding?.seller_id}
+        initialName={adding?.seller_name || ''}
+      />
+    </div>
+  )
+}
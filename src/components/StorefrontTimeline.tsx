@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import {
+  QUICK_DROP_DAYS,
+  StorefrontAsinEvent,
+  getDaysListed,
+  isQuickDrop,
+  mapStorefrontAsinEvent
+} from '@/lib/storefront-asin-events'
+import { ArrowTrendingDownIcon, ArrowTrendingUpIcon, BoltIcon } from '@heroicons/react/24/outline'
+
+interface StorefrontTimelineProps {
+  storefrontId: string
+}
+
+type TimelineFilter = 'all' | 'added' | 'removed' | 'quick_drops'
+
+const TIMELINE_LIMIT = 300
+
+const FILTERS: Array<{ value: TimelineFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'added', label: 'Started selling' },
+  { value: 'removed', label: 'Stopped selling' },
+  { value: 'quick_drops', label: 'Quick drops' }
+]
+
+/**
+ * What a seller started and stopped selling, newest first, grouped by the sync that saw it
+ */
+export default function StorefrontTimeline({ storefrontId }: StorefrontTimelineProps) {
+  const [events, setEvents] = useState<StorefrontAsinEvent[]>([])
+  const [productNames, setProductNames] = useState<Record<string, string>>({})
+  const [filter, setFilter] = useState<TimelineFilter>('all')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadEvents()
+  }, [storefrontId])
+
+  const loadEvents = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('storefront_asin_events')
+        .select('*')
+        .eq('storefront_id', storefrontId)
+        .order('occurred_at', { ascending: false })
+        .limit(TIMELINE_LIMIT)
+
+      if (error) throw error
+
+      const loaded: StorefrontAsinEvent[] = (data || []).map(mapStorefrontAsinEvent)
+      setEvents(loaded)
+
+      // Added events are recorded before the catalog fills in product titles
+      const unnamed = Array.from(new Set(loaded.filter(event => !event.productName).map(event => event.asin)))
+      if (unnamed.length > 0) {
+        const { data: products } = await supabase
+          .from('products')
+          .select('asin, product_name')
+          .eq('storefront_id', storefrontId)
+          .in('asin', unnamed)
+
+        setProductNames(Object.fromEntries(
+          (products || [])
+            .filter((product: any) => product.product_name && product.product_name !== 'Loading...')
+            .map((product: any) => [product.asin, product.product_name])
+        ))
+      }
+    } catch (error) {
+      console.error('Error loading storefront timeline:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const visible = events.filter(event => {
+    if (filter === 'quick_drops') return isQuickDrop(event)
+    return filter === 'all' || event.eventType === filter
+  })
+
+  const days = visible.reduce<Array<{ date: string; events: StorefrontAsinEvent[] }>>((groups, event) => {
+    const date = new Date(event.occurredAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+    const group = groups[groups.length - 1]
+    if (group?.date === date) {
+      group.events.push(event)
+    } else {
+      groups.push({ date, events: [event] })
+    }
+    return groups
+  }, [])
+
+  const addedCount = events.filter(event => event.eventType === 'added').length
+  const removedCount = events.filter(event => event.eventType === 'removed').length
+  const quickDropCount = events.filter(isQuickDrop).length
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Catalog Timeline</h2>
+          <p className="text-sm text-gray-500">
+            {addedCount} started, {removedCount} stopped, {quickDropCount} dropped within {QUICK_DROP_DAYS} days
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                filter === option.value
+                  ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                  : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading timeline...</p>
+      ) : days.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {events.length === 0
+            ? 'No changes yet. Changes are recorded from the second storefront update onwards.'
+            : 'No changes match this filter.'}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {days.map(day => (
+            <div key={day.date}>
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{day.date}</p>
+              <ul className="border-l-2 border-gray-100 pl-4 space-y-2">
+                {day.events.map(event => {
+                  const daysListed = getDaysListed(event)
+                  const name = event.productName || productNames[event.asin]
+
+                  return (
+                    <li key={event.id} className="flex items-start gap-3 text-sm">
+                      {event.eventType === 'added' ? (
+                        <ArrowTrendingUpIcon className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+                      ) : (
+                        <ArrowTrendingDownIcon className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-gray-800">
+                          {event.eventType === 'added' ? 'Started selling' : 'Stopped selling'}{' '}
+                          <a
+                            href={`https://www.amazon.co.uk/dp/${event.asin}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-indigo-600 hover:text-indigo-500"
+                          >
+                            {event.asin}
+                          </a>
+                          {isQuickDrop(event) && (
+                            <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded border bg-amber-50 text-amber-700 border-amber-200">
+                              <BoltIcon className="w-3 h-3" />
+                              Quick drop
+                            </span>
+                          )}
+                        </p>
+                        {name && <p className="text-gray-500 truncate">{name}</p>}
+                        {daysListed !== null && event.firstSeenAt && (
+                          <p className="text-xs text-gray-400">
+                            Listed {daysListed} {daysListed === 1 ? 'day' : 'days'}, first seen{' '}
+                            {new Date(event.firstSeenAt).toLocaleDateString('en-GB')}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
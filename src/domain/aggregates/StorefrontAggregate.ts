@@ -1,6 +1,6 @@
 import { Product } from '../models/Product';
 import { ArbitrageOpportunity } from '../models/ArbitrageOpportunity';
-import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+import { getMarketplace } from '@/lib/amazon-marketplaces';
 import { convertToGBP } from '@/lib/exchange-rates';
 import { estimateMonthlySales } from '@/lib/sales-estimator';
 
@@ -77,7 +77,7 @@ export class StorefrontAggregate {
     for (const [marketplace, price] of marketplacePrices) {
       if (marketplace === 'UK' || price <= 0) continue;
 
-      const sourcePriceGBP = convertToGBP(price, 'EUR');
+      const sourcePriceGBP = convertToGBP(price, getMarketplace(marketplace)?.currency || 'EUR');
       const profitGBP = ukPrice - sourcePriceGBP - totalUKFees;
       const roi = (profitGBP / sourcePriceGBP) * 100;
 
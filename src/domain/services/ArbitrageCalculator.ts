@@ -16,6 +16,31 @@ export interface ArbitrageParameters {
   fees: FeeStructure;
   digitalServicesTaxRate: number;
   minimumProfitThreshold: number;
+  targetVatRate?: number; // VAT included in targetPrice, deducted from revenue when set
+}
+
+export interface LandedCostParameters {
+  sourcePriceGBP: number;
+  dimensions: {
+    weightKg: number;
+    lengthCm: number;
+    widthCm: number;
+    heightCm: number;
+  } | null;
+  prepFeePerUnit: number;
+  freightPerKg: number;
+  dutyRatePercent: number;
+  customsBrokerageFee: number;
+  unitsPerShipment: number;
+}
+
+export interface LandedCostBreakdown {
+  prepFee: number;
+  freight: number;
+  duty: number;
+  brokerage: number;
+  chargeableWeightKg: number;
+  total: number;
 }
 
 export class ArbitrageCalculator {
@@ -42,8 +67,13 @@ export class ArbitrageCalculator {
     const digitalServicesFee = baseFees * params.digitalServicesTaxRate;
     const totalFees = baseFees + digitalServicesFee;
 
+    // Remove VAT from the sale price when the target price is VAT-inclusive
+    const netTargetPrice = params.targetVatRate
+      ? params.targetPrice / (1 + params.targetVatRate)
+      : params.targetPrice;
+
     // Calculate profit
-    const profitGBP = params.targetPrice - sourcePriceInTargetCurrency - totalFees;
+    const profitGBP = netTargetPrice - sourcePriceInTargetCurrency - totalFees;
     const roi = sourcePriceInTargetCurrency > 0 
       ? (profitGBP / sourcePriceInTargetCurrency) * 100 
       : 0;
@@ -74,14 +104,22 @@ export class ArbitrageCalculator {
     return unitPrice * (1 - applicableTier.discountPercent / 100);
   }
 
+  static calculateChargeableWeight(
+    weight: number,
+    dimensions: { length: number; width: number; height: number }
+  ): number {
+    // Volumetric weight in kg from dimensions in cm
+    const volumetricWeight = (dimensions.length * dimensions.width * dimensions.height) / 5000;
+    return Math.max(weight, volumetricWeight);
+  }
+
   static calculateShippingCost(
     weight: number,
     dimensions: { length: number; width: number; height: number },
     shippingMethod: 'standard' | 'express' | 'priority'
   ): number {
     // Simplified shipping calculation
-    const volumetricWeight = (dimensions.length * dimensions.width * dimensions.height) / 5000;
-    const chargeableWeight = Math.max(weight, volumetricWeight);
+    const chargeableWeight = this.calculateChargeableWeight(weight, dimensions);
 
     const rates = {
       standard: 0.5,
@@ -92,6 +130,37 @@ export class ArbitrageCalculator {
     return chargeableWeight * rates[shippingMethod];
   }
 
+  /**
+   * Per-unit cost of getting stock from the source marketplace into FBA UK:
+   * prep, freight by chargeable weight, import duty on the goods value and
+   * the customs brokerage fee spread across a shipment.
+   */
+  static calculateLandedCost(params: LandedCostParameters): LandedCostBreakdown {
+    const chargeableWeightKg = params.dimensions
+      ? this.calculateChargeableWeight(params.dimensions.weightKg, {
+          length: params.dimensions.lengthCm,
+          width: params.dimensions.widthCm,
+          height: params.dimensions.heightCm
+        })
+      : 0;
+
+    const prepFee = params.prepFeePerUnit;
+    const freight = chargeableWeightKg * params.freightPerKg;
+    const duty = params.sourcePriceGBP * (params.dutyRatePercent / 100);
+    const brokerage = params.unitsPerShipment > 0
+      ? params.customsBrokerageFee / params.unitsPerShipment
+      : params.customsBrokerageFee;
+
+    return {
+      prepFee,
+      freight,
+      duty,
+      brokerage,
+      chargeableWeightKg,
+      total: prepFee + freight + duty + brokerage
+    };
+  }
+
   static assessRisk(
     opportunity: ArbitrageOpportunity
   ): 'low' | 'medium' | 'high' {
@@ -122,7 +191,7 @@ export class ArbitrageCalculator {
   }
 
   static projectMonthlyProfit(
-    opportunity: ArbitrageOpportunity,
+    opportunity: Pick<ArbitrageOpportunity, 'profitGBP' | 'salesPerMonth'>,
     inventoryTurnover: number = 1
   ): number {
     return opportunity.profitGBP * (opportunity.salesPerMonth || 0) * inventoryTurnover;
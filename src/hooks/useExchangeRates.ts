@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+// Shown until the live rates have loaded
+const FALLBACK_RATES: Record<string, number> = { GBP: 1, EUR: 0.86 };
+
+interface UseExchangeRatesReturn {
+  rates: Record<string, number>;
+  eurToGbp: number;
+  rateDate: string | null;
+  isLoading: boolean;
+}
+
+export function useExchangeRates(): UseExchangeRatesReturn {
+  const [rates, setRates] = useState<Record<string, number>>(FALLBACK_RATES);
+  const [rateDate, setRateDate] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchRates = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.access_token) return;
+
+        const response = await fetch('/api/exchange-rates', {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          }
+        });
+
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          setRates({ ...FALLBACK_RATES, ...data.rates });
+          setRateDate(data.rate_date || null);
+        }
+      } catch (err) {
+        console.error('Error fetching exchange rates:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchRates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    rates,
+    eurToGbp: rates.EUR,
+    rateDate,
+    isLoading
+  };
+}
@@ -4,6 +4,7 @@ import { SupabaseClient } from '@supabase/supabase-js';
 
 // Services
 import { ArbitrageAnalysisService } from '@/services/arbitrage/ArbitrageAnalysisService';
+import { ArbitrageAnalysisServiceV3 } from '@/services/arbitrage/ArbitrageAnalysisService.v3';
 import { IArbitrageService } from '@/domain/interfaces/IArbitrageService';
 import { StreamingService } from '@/services/streaming/StreamingService';
 
@@ -35,6 +36,7 @@ import { createCachedRepository } from '@/infrastructure/decorators/CachedReposi
 export const TOKENS = {
   SupabaseClient: Symbol.for('SupabaseClient'),
   ArbitrageService: Symbol.for('ArbitrageService'),
+  ScanEngine: Symbol.for('ScanEngine'),
   ProductRepository: Symbol.for('ProductRepository'),
   ArbitrageScanRepository: Symbol.for('ArbitrageScanRepository'),
   ExternalPricingService: Symbol.for('ExternalPricingService'),
@@ -90,6 +92,10 @@ export function initializeContainer(supabaseClient: SupabaseClient): void {
     ),
   });
 
+  container.register<ArbitrageAnalysisServiceV3>(TOKENS.ScanEngine, {
+    useFactory: (c) => new ArbitrageAnalysisServiceV3(c.resolve(TOKENS.SupabaseClient)),
+  });
+
   // Register Infrastructure Services
   container.register<StreamingService>(TOKENS.StreamingService, {
     useClass: StreamingService,
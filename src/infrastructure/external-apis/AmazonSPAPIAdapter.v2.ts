@@ -2,6 +2,7 @@ import { IExternalPricingService, PricingData, FeesEstimate } from '@/domain/int
 import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
 import { SPAPIProductFeesClient } from '@/lib/sp-api-product-fees';
 import { IDistributedRateLimiter } from '@/infrastructure/rate-limiting/IDistributedRateLimiter';
+import { getMarketplaceById } from '@/lib/amazon-marketplaces';
 
 /**
  * Enhanced Amazon SP-API adapter with distributed rate limiting
@@ -145,14 +146,6 @@ export class AmazonSPAPIAdapterV2 implements IExternalPricingService {
   }
 
   private getCurrencyForMarketplace(marketplaceId: string): string {
-    const marketplaceCurrencies: Record<string, string> = {
-      'A1F83G8C2ARO7P': 'GBP', // UK
-      'A1PA6795UKMFR9': 'EUR', // DE
-      'A13V1IB3VIYZZH': 'EUR', // FR
-      'APJ6JRA9NG5V4': 'EUR',  // IT
-      'A1RKKUPIHCS9HS': 'EUR', // ES
-    };
-    
-    return marketplaceCurrencies[marketplaceId] || 'EUR';
+    return getMarketplaceById(marketplaceId)?.currency || 'EUR';
   }
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { ISPAPIClientFactory } from '@/infrastructure/factories/ISPAPIClientFact
 import { ILogger, SpanStatusCode } from '@/infrastructure/logging/ILogger';
 import { LoggerFactory } from '@/infrastructure/logging/Logger';
 import { monitoring } from '@/infrastructure/monitoring/Monitoring';
+import { getMarketplaceById } from '@/lib/amazon-marketplaces';
 
 /**
  * Resilient SP-API adapter with circuit breaker protection
@@ -230,14 +231,6 @@ export class ResilientSPAPIAdapter implements IExternalPricingService {
   }
 
   private getCurrencyForMarketplace(marketplaceId: string): string {
-    const marketplaceCurrencies: Record<string, string> = {
-      'A1F83G8C2ARO7P': 'GBP', // UK
-      'A1PA6795UKMFR9': 'EUR', // DE
-      'A13V1IB3VIYZZH': 'EUR', // FR
-      'APJ6JRA9NG5V4': 'EUR',  // IT
-      'A1RKKUPIHCS9HS': 'EUR', // ES
-    };
-    
-    return marketplaceCurrencies[marketplaceId] || 'EUR';
+    return getMarketplaceById(marketplaceId)?.currency || 'EUR';
   }
 }
\ No newline at end of file
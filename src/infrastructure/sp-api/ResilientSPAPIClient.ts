@@ -5,6 +5,7 @@ import { EnhancedSPAPIRateLimiter } from './EnhancedRateLimiter';
 import { SPAPIQuotaManager } from './QuotaManager';
 import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
 import { SPAPIProductFeesClient } from '@/lib/sp-api-product-fees';
+import { getMarketplaceById } from '@/lib/amazon-marketplaces';
 
 export interface BatchResult<T> {
   successful: T[];
@@ -137,7 +138,7 @@ export class ResilientSPAPIClient {
     }
 
     // Determine currency based on marketplace
-    const currency = marketplaceId === 'A1F83G8C2ARO7P' ? 'GBP' : 'EUR'; // UK uses GBP
+    const currency = getMarketplaceById(marketplaceId)?.currency || 'EUR';
 
     try {
       const result = await this.rateLimiter.executeWithRetry(
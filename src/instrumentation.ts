@@ -1,9 +1,14 @@
 export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     console.log('🚀 Next.js server starting...')
-    
+
+    // Continue scans interrupted by the last restart in the background
+    const { ScanJobWorker } = await import('@/services/scan-job-worker')
+
+    void ScanJobWorker.getInstance().resumeInterruptedScans()
+
     const { initializeScheduler } = await import('@/lib/scheduler-init')
-    
+
     await initializeScheduler()
   }
-}
\ No newline at end of file
+}
@@ -1,38 +1,218 @@
 /**
- * Amazon Marketplace configuration
+ * Amazon Marketplace registry
+ *
+ * Single source of truth for every marketplace the scanners know about.
+ * Adding a new source marketplace only requires a new entry here.
  */
-export const MARKETPLACES = {
-  UK: { 
-    id: 'A1F83G8C2ARO7P', 
-    currency: 'GBP', 
-    region: 'eu' as const,
-    name: 'United Kingdom' 
-  },
-  DE: { 
-    id: 'A1PA6795UKMFR9', 
-    currency: 'EUR', 
-    region: 'eu' as const,
-    name: 'Germany' 
-  },
-  FR: { 
-    id: 'A13V1IB3VIYZZH', 
-    currency: 'EUR', 
-    region: 'eu' as const,
-    name: 'France' 
-  },
-  IT: { 
-    id: 'APJ6JRA9NG5V4', 
-    currency: 'EUR', 
-    region: 'eu' as const,
-    name: 'Italy' 
-  },
-  ES: { 
-    id: 'A1RKKUPIHCS9HS', 
-    currency: 'EUR', 
-    region: 'eu' as const,
-    name: 'Spain' 
+
+export type FeeScheduleKey = 'uk' | 'pan-eu' | 'ie';
+
+export interface MarketplaceConfig {
+  id: string;
+  currency: string;
+  region: 'eu';
+  name: string;
+  flag: string;
+  domain: string;
+  vatRate: number; // Standard VAT rate as a fraction (0.20 = 20%)
+  keepaDomainId: number | null; // null when Keepa does not cover the marketplace
+  feeScheduleKey: FeeScheduleKey;
+  isSource: boolean; // Include when looking for buy prices
+  amazonSellerId: string | null; // Amazon's own retail offer, null when not known
+}
+
+const MARKETPLACE_REGISTRY = {
+  UK: {
+    id: 'A1F83G8C2ARO7P',
+    currency: 'GBP',
+    region: 'eu',
+    name: 'United Kingdom',
+    flag: '🇬🇧',
+    domain: 'amazon.co.uk',
+    vatRate: 0.20,
+    keepaDomainId: 2,
+    feeScheduleKey: 'uk',
+    isSource: false,
+    amazonSellerId: 'A3P5ROKL5A1OLE'
+  },
+  DE: {
+    id: 'A1PA6795UKMFR9',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'Germany',
+    flag: '🇩🇪',
+    domain: 'amazon.de',
+    vatRate: 0.19,
+    keepaDomainId: 3,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: 'A3JWKAKR8XB7XF'
+  },
+  FR: {
+    id: 'A13V1IB3VIYZZH',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'France',
+    flag: '🇫🇷',
+    domain: 'amazon.fr',
+    vatRate: 0.20,
+    keepaDomainId: 4,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: 'A1X6FK5RDHNB96'
+  },
+  IT: {
+    id: 'APJ6JRA9NG5V4',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'Italy',
+    flag: '🇮🇹',
+    domain: 'amazon.it',
+    vatRate: 0.22,
+    keepaDomainId: 8,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: 'A11IL2PNWYJU7H'
+  },
+  ES: {
+    id: 'A1RKKUPIHCS9HS',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'Spain',
+    flag: '🇪🇸',
+    domain: 'amazon.es',
+    vatRate: 0.21,
+    keepaDomainId: 9,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: 'A1AT7YVPFBWXBL'
+  },
+  NL: {
+    id: 'A1805IZSGTT6HS',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'Netherlands',
+    flag: '🇳🇱',
+    domain: 'amazon.nl',
+    vatRate: 0.21,
+    keepaDomainId: null,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: null
+  },
+  SE: {
+    id: 'A2NODRKZP88ZB9',
+    currency: 'SEK',
+    region: 'eu',
+    name: 'Sweden',
+    flag: '🇸🇪',
+    domain: 'amazon.se',
+    vatRate: 0.25,
+    keepaDomainId: null,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: null
+  },
+  PL: {
+    id: 'A1C3SOZRARQ6R3',
+    currency: 'PLN',
+    region: 'eu',
+    name: 'Poland',
+    flag: '🇵🇱',
+    domain: 'amazon.pl',
+    vatRate: 0.23,
+    keepaDomainId: null,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: null
+  },
+  BE: {
+    id: 'AMEN7PMS3EDWL',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'Belgium',
+    flag: '🇧🇪',
+    domain: 'amazon.com.be',
+    vatRate: 0.21,
+    keepaDomainId: null,
+    feeScheduleKey: 'pan-eu',
+    isSource: true,
+    amazonSellerId: null
+  },
+  IE: {
+    id: 'A28R8C7NBKEWEA',
+    currency: 'EUR',
+    region: 'eu',
+    name: 'Ireland',
+    flag: '🇮🇪',
+    domain: 'amazon.ie',
+    vatRate: 0.23,
+    keepaDomainId: null,
+    feeScheduleKey: 'ie',
+    isSource: true,
+    amazonSellerId: null
   }
-} as const;
+} satisfies Record<string, MarketplaceConfig>;
+
+export type MarketplaceCode = keyof typeof MARKETPLACE_REGISTRY;
+export type MarketplaceInfo = MarketplaceConfig;
+
+export const MARKETPLACES: Record<MarketplaceCode, MarketplaceConfig> = MARKETPLACE_REGISTRY;
+
+/**
+ * Marketplace we sell into by default
+ */
+export const HOME_MARKETPLACE: MarketplaceCode = 'UK';
+
+export const MARKETPLACE_CODES = Object.keys(MARKETPLACES) as MarketplaceCode[];
+
+export const SOURCE_MARKETPLACE_CODES = MARKETPLACE_CODES.filter(code => MARKETPLACES[code].isSource);
+
+/**
+ * Marketplaces priced during a scan: the home marketplace followed by every source
+ */
+export const SCAN_MARKETPLACE_CODES: MarketplaceCode[] = [HOME_MARKETPLACE, ...SOURCE_MARKETPLACE_CODES];
+
+export function isMarketplaceCode(code: string): code is MarketplaceCode {
+  return Object.prototype.hasOwnProperty.call(MARKETPLACES, code);
+}
+
+export function getMarketplace(code: string): MarketplaceConfig | undefined {
+  return isMarketplaceCode(code) ? MARKETPLACES[code] : undefined;
+}
+
+export function getMarketplaceCodeById(marketplaceId: string): MarketplaceCode | undefined {
+  return MARKETPLACE_CODES.find(code => MARKETPLACES[code].id === marketplaceId);
+}
+
+export function getMarketplaceById(marketplaceId: string): MarketplaceConfig | undefined {
+  const code = getMarketplaceCodeById(marketplaceId);
+  return code ? MARKETPLACES[code] : undefined;
+}
+
+export function getScanMarketplaces(): [MarketplaceCode, MarketplaceConfig][] {
+  return SCAN_MARKETPLACE_CODES.map(code => [code, MARKETPLACES[code]]);
+}
+
+export function getSourceMarketplaces(): [MarketplaceCode, MarketplaceConfig][] {
+  return SOURCE_MARKETPLACE_CODES.map(code => [code, MARKETPLACES[code]]);
+}
+
+/**
+ * Every currency used across the registry (for exchange rate snapshots)
+ */
+export function getMarketplaceCurrencies(): string[] {
+  return Array.from(new Set(MARKETPLACE_CODES.map(code => MARKETPLACES[code].currency)));
+}
+
+/**
+ * Domain suffix after "amazon." (e.g. "de", "com.be")
+ */
+export function getAmazonDomainSuffix(code: string): string | undefined {
+  return getMarketplace(code)?.domain.replace(/^amazon\./, '');
+}
 
-export type MarketplaceCode = keyof typeof MARKETPLACES;
-export type MarketplaceInfo = typeof MARKETPLACES[MarketplaceCode];
\ No newline at end of file
+export function getProductUrl(code: string, asin: string): string {
+  const marketplace = getMarketplace(code) || MARKETPLACES[HOME_MARKETPLACE];
+  return `https://www.${marketplace.domain}/dp/${asin}`;
+}
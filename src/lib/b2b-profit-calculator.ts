@@ -3,6 +3,10 @@
  * Calculates profit from buying at B2B prices and selling at B2C prices
  */
 
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+
+const UK_VAT_RATE = MARKETPLACES.UK.vatRate;
+
 export interface B2BProfitCalculation {
   ukB2bPrice: number;
   ukB2cPrice: number;
@@ -37,7 +41,7 @@ export function calculateB2BProfit(data: B2BPriceData): B2BProfitCalculation {
 
   // IMPORTANT: B2B prices from SP-API are VAT-inclusive
   // We need to extract the VAT-exclusive price for proper calculations
-  const b2bPriceExVat = b2bPrice / 1.20; // Remove 20% VAT from B2B price
+  const b2bPriceExVat = b2bPrice / (1 + UK_VAT_RATE); // Remove VAT from B2B price
   const b2bVat = b2bPrice - b2bPriceExVat;
 
   // For VAT-registered businesses:
@@ -61,8 +65,8 @@ export function calculateB2BProfit(data: B2BPriceData): B2BProfitCalculation {
   // VAT handling:
   // - VAT registered: No net VAT cost (collect and pay to HMRC)
   // - Non-VAT registered: Cannot charge VAT, so effective selling price is reduced
-  const vatOnSale = isVatRegistered ? 0 : (b2cPrice / 1.20 * 0.20); // Extract VAT component from B2C price
-  const effectiveSellingPrice = isVatRegistered ? b2cPrice : (b2cPrice / 1.20); // Non-VAT can only keep ex-VAT amount
+  const vatOnSale = isVatRegistered ? 0 : (b2cPrice / (1 + UK_VAT_RATE) * UK_VAT_RATE); // Extract VAT component from B2C price
+  const effectiveSellingPrice = isVatRegistered ? b2cPrice : (b2cPrice / (1 + UK_VAT_RATE)); // Non-VAT can only keep ex-VAT amount
 
   // Calculate net revenue and profit
   const netRevenue = effectiveSellingPrice - totalAmazonFees;
@@ -200,7 +204,7 @@ export function formatCurrency(amount: number, currency: string = 'GBP'): string
  * Extract VAT components from prices
  */
 export function extractVATComponents(priceIncVAT: number) {
-  const vatRate = 0.20; // UK VAT rate
+  const vatRate = UK_VAT_RATE;
   const priceExVAT = priceIncVAT / (1 + vatRate);
   const vatAmount = priceIncVAT - priceExVAT;
   
@@ -217,8 +221,8 @@ export function extractVATComponents(priceIncVAT: number) {
  * Compares B2B ex-VAT price with B2C price
  */
 export function calculateB2BDiscount(b2bPriceIncVAT: number, b2cPrice: number): number {
-  const b2bExVAT = b2bPriceIncVAT / 1.20;
-  const b2cExVAT = b2cPrice / 1.20;
+  const b2bExVAT = b2bPriceIncVAT / (1 + UK_VAT_RATE);
+  const b2cExVAT = b2cPrice / (1 + UK_VAT_RATE);
   const discount = ((b2cExVAT - b2bExVAT) / b2cExVAT) * 100;
   return Number(discount.toFixed(1));
 }
@@ -235,7 +239,7 @@ export function calculateBreakEvenB2BPrice(
   fees: number,
   isVatRegistered: boolean = false
 ): number {
-  const vatAmount = isVatRegistered ? 0 : (b2cPrice * 0.20);
+  const vatAmount = isVatRegistered ? 0 : (b2cPrice * UK_VAT_RATE);
   const breakEvenPrice = b2cPrice - fees - vatAmount;
   return Number(breakEvenPrice.toFixed(2));
 }
@@ -255,8 +259,8 @@ export function calculateMinimumB2CPrice(
   isVatRegistered: boolean = false
 ): number {
   // For VAT registered: B2C = B2B + Profit + Fees
-  // For non-VAT: B2C = (B2B + Profit + Fees) / 0.8 (to account for 20% VAT)
+  // For non-VAT: B2C = (B2B + Profit + Fees) / (1 - VAT rate)
   const basePrice = b2bPrice + targetProfit + fees;
-  const minimumPrice = isVatRegistered ? basePrice : (basePrice / 0.8);
+  const minimumPrice = isVatRegistered ? basePrice : (basePrice / (1 - UK_VAT_RATE));
   return Number(minimumPrice.toFixed(2));
 }
\ No newline at end of file
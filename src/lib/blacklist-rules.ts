@@ -0,0 +1,133 @@
+/**
+ * Blacklist rules
+ *
+ * Alongside individual ASINs (asin_blacklist), users exclude whole brands,
+ * categories, sellers and titles containing a keyword. Patterns ignore case
+ * and accept wildcards: * for any run of characters, ? for one character.
+ * Brand, category and seller rules match the whole value; keyword rules match
+ * anywhere in the title.
+ */
+
+export type BlacklistRuleType = 'brand' | 'category' | 'keyword' | 'seller';
+
+export const BLACKLIST_RULE_TYPES: BlacklistRuleType[] = ['brand', 'category', 'keyword', 'seller'];
+
+const RULE_TYPE_LABELS: Record<BlacklistRuleType, string> = {
+  brand: 'Brand',
+  category: 'Category',
+  keyword: 'Title keyword',
+  seller: 'Seller'
+};
+
+export interface BlacklistRule {
+  id: string;
+  ruleType: BlacklistRuleType;
+  pattern: string;
+  reason: string | null;
+  lastExcludedCount: number | null; // Products the rule excluded in the last scan
+  lastScanId: string | null;
+  lastScanAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * The product fields rules look at. Rules whose field a source doesn't know
+ * yet (e.g. brand for a pasted ASIN list) don't match until it's looked up.
+ */
+export interface BlacklistableProduct {
+  asin: string;
+  productName?: string | null;
+  brand?: string | null;
+  category?: string | null;
+  storefronts?: Array<{ seller_id: string; name?: string }>;
+}
+
+export function isBlacklistRuleType(value: unknown): value is BlacklistRuleType {
+  return typeof value === 'string' && (BLACKLIST_RULE_TYPES as string[]).includes(value);
+}
+
+export function getBlacklistRuleTypeLabel(ruleType: BlacklistRuleType): string {
+  return RULE_TYPE_LABELS[ruleType];
+}
+
+export function mapBlacklistRule(row: any): BlacklistRule {
+  return {
+    id: row.id,
+    ruleType: row.rule_type,
+    pattern: row.pattern,
+    reason: row.reason,
+    lastExcludedCount: row.last_excluded_count ?? null,
+    lastScanId: row.last_scan_id ?? null,
+    lastScanAt: row.last_scan_at ?? null,
+    createdAt: row.created_at
+  };
+}
+
+// Underscores and runs of whitespace compare equal, so "Toy Figure" matches TOY_FIGURE
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compilePattern(pattern: string, anywhere: boolean): RegExp {
+  const key = `${anywhere ? '~' : '='}${pattern}`;
+  let regex = compiledPatterns.get(key);
+
+  if (!regex) {
+    const body = normalize(pattern)
+      .split('')
+      .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    regex = new RegExp(anywhere ? body : `^${body}$`);
+    compiledPatterns.set(key, regex);
+  }
+
+  return regex;
+}
+
+function matchesValue(pattern: string, value: string | null | undefined, anywhere = false): boolean {
+  return !!value && compilePattern(pattern, anywhere).test(normalize(value));
+}
+
+export function matchesBlacklistRule(rule: BlacklistRule, product: BlacklistableProduct): boolean {
+  switch (rule.ruleType) {
+    case 'brand':
+      return matchesValue(rule.pattern, product.brand);
+    case 'category':
+      return matchesValue(rule.pattern, product.category);
+    case 'keyword':
+      return matchesValue(rule.pattern, product.productName, true);
+    case 'seller': {
+      // An ASIN another storefront also sells stays in the scan
+      const storefronts = product.storefronts || [];
+      return storefronts.length > 0 && storefronts.every(storefront =>
+        matchesValue(rule.pattern, storefront.seller_id) || matchesValue(rule.pattern, storefront.name)
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * The first rule that excludes a product, if any
+ */
+export function findBlacklistRule(rules: BlacklistRule[], product: BlacklistableProduct): BlacklistRule | null {
+  return rules.find(rule => matchesBlacklistRule(rule, product)) || null;
+}
+
+/**
+ * Add up per-rule exclusion counts, e.g. from before and after catalog lookups
+ */
+export function mergeRuleExclusions(...counts: Array<Record<string, number> | undefined>): Record<string, number> {
+  const merged: Record<string, number> = {};
+
+  for (const entry of counts) {
+    for (const [ruleId, count] of Object.entries(entry || {})) {
+      merged[ruleId] = (merged[ruleId] || 0) + count;
+    }
+  }
+
+  return merged;
+}
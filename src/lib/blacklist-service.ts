@@ -1,7 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
+import {
+  BlacklistRule,
+  BlacklistRuleType,
+  BlacklistableProduct,
+  findBlacklistRule,
+  mapBlacklistRule
+} from '@/lib/blacklist-rules';
 
 /**
- * Service for managing ASIN blacklist functionality
+ * Service for managing the ASIN blacklist and brand/category/keyword/seller rules
  */
 export class BlacklistService {
   private supabase;
@@ -57,19 +64,132 @@ export class BlacklistService {
   }
 
   /**
-   * Filter out blacklisted ASINs from a list of products
+   * Add an ASIN to a user's blacklist. Returns null for the item when the
+   * ASIN is already blacklisted.
    */
-  filterBlacklistedProducts<T extends { asin: string }>(
+  async addAsin(
+    userId: string,
+    asin: string,
+    reason?: string | null
+  ): Promise<{ item: { id: string; asin: string; reason: string | null; created_at: string } | null }> {
+    const { data, error } = await this.supabase
+      .from('asin_blacklist')
+      .insert({
+        user_id: userId,
+        asin: asin.toUpperCase(), // Normalize to uppercase
+        reason: reason || null
+      })
+      .select('id, asin, reason, created_at')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        return { item: null };
+      }
+      throw error;
+    }
+
+    return { item: data };
+  }
+
+  /**
+   * Fetch a user's brand, category, keyword and seller rules
+   */
+  async getBlacklistRules(userId: string): Promise<BlacklistRule[]> {
+    const { data, error } = await this.supabase
+      .from('blacklist_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching blacklist rules:', error);
+      return [];
+    }
+
+    return (data || []).map(mapBlacklistRule);
+  }
+
+  /**
+   * Add a rule. Returns null for the rule when the same pattern already exists.
+   */
+  async addRule(
+    userId: string,
+    rule: { ruleType: BlacklistRuleType; pattern: string; reason?: string | null }
+  ): Promise<{ rule: BlacklistRule | null }> {
+    const { data, error } = await this.supabase
+      .from('blacklist_rules')
+      .insert({
+        user_id: userId,
+        rule_type: rule.ruleType,
+        pattern: rule.pattern.trim(),
+        reason: rule.reason || null
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        return { rule: null };
+      }
+      throw error;
+    }
+
+    return { rule: mapBlacklistRule(data) };
+  }
+
+  /**
+   * Save how many products each rule excluded in a scan. Rules that excluded
+   * nothing are reset to 0 so every count reflects the same scan.
+   */
+  async recordRuleExclusions(scanId: string, rules: BlacklistRule[], ruleExclusions: Record<string, number>) {
+    const now = new Date().toISOString();
+
+    for (const rule of rules) {
+      const { error } = await this.supabase
+        .from('blacklist_rules')
+        .update({
+          last_excluded_count: ruleExclusions[rule.id] || 0,
+          last_scan_id: scanId,
+          last_scan_at: now
+        })
+        .eq('id', rule.id);
+
+      if (error) {
+        console.error(`Error recording exclusions for blacklist rule ${rule.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Filter out blacklisted ASINs, and products matching any rule, from a list
+   * of products. ruleExclusions counts the products each rule removed.
+   */
+  filterBlacklistedProducts<T extends BlacklistableProduct>(
     products: T[],
-    blacklistedAsins: Set<string>
-  ): { filteredProducts: T[]; excludedCount: number } {
-    const filteredProducts = products.filter((product: any) => 
-      !blacklistedAsins.has(product.asin.toUpperCase())
-    );
+    blacklistedAsins: Set<string>,
+    rules: BlacklistRule[] = []
+  ): { filteredProducts: T[]; excludedCount: number; ruleExclusions: Record<string, number> } {
+    const ruleExclusions: Record<string, number> = {};
+
+    const filteredProducts = products.filter(product => {
+      if (blacklistedAsins.has(product.asin.toUpperCase())) {
+        return false;
+      }
+
+      const rule = findBlacklistRule(rules, product);
+      if (rule) {
+        ruleExclusions[rule.id] = (ruleExclusions[rule.id] || 0) + 1;
+        return false;
+      }
+
+      return true;
+    });
 
     return {
       filteredProducts,
-      excludedCount: products.length - filteredProducts.length
+      excludedCount: products.length - filteredProducts.length,
+      ruleExclusions
     };
   }
 }
\ No newline at end of file
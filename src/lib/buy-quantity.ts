@@ -0,0 +1,147 @@
+/**
+ * Suggested buy quantities
+ *
+ * A deal's quantity covers the user's lead time plus safety stock at our
+ * expected share of UK sales: monthly sales split evenly between the current
+ * offers and us. Quantities are capped by the cash budget, and the sourcing
+ * list budget allocator fills a budget across deals in ROI order.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ArbitrageCalculator } from '@/domain/services/ArbitrageCalculator';
+
+export interface BuyingSettings {
+  leadTimeDays: number;
+  safetyStockDays: number;
+  cashBudget: number; // GBP, 0 = no cap
+}
+
+export interface BuyQuantitySuggestion {
+  suggestedQuantity: number;
+  projected30dProfit: number;
+}
+
+export interface AllocationCandidate {
+  id: string;
+  unitCost: number;
+  unitProfit: number;
+  roi: number;
+  suggestedQuantity: number;
+}
+
+export interface BudgetAllocation {
+  lines: Array<{ id: string; quantity: number; cost: number; profit: number }>;
+  spent: number;
+  profit: number;
+  remaining: number;
+}
+
+export const DEFAULT_BUYING_SETTINGS: BuyingSettings = {
+  leadTimeDays: 14,
+  safetyStockDays: 7,
+  cashBudget: 0
+};
+
+export function mapBuyingSettings(row: any): BuyingSettings {
+  return {
+    leadTimeDays: Number(row.lead_time_days ?? DEFAULT_BUYING_SETTINGS.leadTimeDays),
+    safetyStockDays: Number(row.safety_stock_days ?? DEFAULT_BUYING_SETTINGS.safetyStockDays),
+    cashBudget: Number(row.cash_budget) || 0
+  };
+}
+
+/**
+ * A user's settings, or the defaults when they haven't saved any
+ */
+export async function getBuyingSettings(supabase: SupabaseClient, userId: string): Promise<BuyingSettings> {
+  const { data, error } = await supabase
+    .from('buying_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[BuyQuantity] Failed to load buying settings:', error);
+  }
+
+  return data ? mapBuyingSettings(data) : DEFAULT_BUYING_SETTINGS;
+}
+
+/**
+ * Monthly sales we can expect once we join the listing's current offers
+ */
+export function getExpectedMonthlySales(salesPerMonth: number, ukCompetitors?: number | null): number {
+  return salesPerMonth / (Math.max(0, ukCompetitors || 0) + 1);
+}
+
+export function suggestBuyQuantity(params: {
+  salesPerMonth?: number | null;
+  ukCompetitors?: number | null;
+  unitCost: number;
+  unitProfit: number;
+  settings: BuyingSettings;
+}): BuyQuantitySuggestion {
+  const { unitCost, unitProfit, settings } = params;
+  const expectedSales = getExpectedMonthlySales(params.salesPerMonth || 0, params.ukCompetitors);
+
+  if (unitProfit <= 0 || expectedSales <= 0) {
+    return { suggestedQuantity: 0, projected30dProfit: 0 };
+  }
+
+  let suggestedQuantity = ArbitrageCalculator.calculateOptimalQuantity(
+    expectedSales,
+    settings.leadTimeDays,
+    settings.safetyStockDays
+  );
+
+  if (settings.cashBudget > 0 && unitCost > 0) {
+    suggestedQuantity = Math.min(suggestedQuantity, Math.floor(settings.cashBudget / unitCost));
+  }
+
+  // Only units actually bought can be sold, so a budget-capped buy earns less
+  return {
+    suggestedQuantity,
+    projected30dProfit: ArbitrageCalculator.projectMonthlyProfit({
+      profitGBP: unitProfit,
+      salesPerMonth: Math.min(suggestedQuantity, expectedSales)
+    })
+  };
+}
+
+/**
+ * Columns for arbitrage_opportunities and sourcing_list_items
+ */
+export function toBuyQuantityColumns(suggestion: BuyQuantitySuggestion) {
+  return {
+    suggested_quantity: suggestion.suggestedQuantity,
+    projected_30d_profit: suggestion.projected30dProfit
+  };
+}
+
+/**
+ * Spend a budget on the highest-ROI deals first, each up to its suggested
+ * quantity. A deal that no longer fits in full gets as many units as the
+ * remaining budget buys, and cheaper deals further down can still fill the rest.
+ */
+export function allocateBudget(candidates: AllocationCandidate[], budget: number): BudgetAllocation {
+  const allocation: BudgetAllocation = { lines: [], spent: 0, profit: 0, remaining: budget };
+
+  const ranked = candidates
+    .filter(candidate => candidate.unitProfit > 0 && candidate.unitCost > 0 && candidate.suggestedQuantity > 0)
+    .sort((a, b) => b.roi - a.roi);
+
+  for (const candidate of ranked) {
+    const quantity = Math.min(candidate.suggestedQuantity, Math.floor(allocation.remaining / candidate.unitCost));
+    if (quantity <= 0) continue;
+
+    const cost = quantity * candidate.unitCost;
+    const profit = quantity * candidate.unitProfit;
+
+    allocation.lines.push({ id: candidate.id, quantity, cost, profit });
+    allocation.spent += cost;
+    allocation.profit += profit;
+    allocation.remaining -= cost;
+  }
+
+  return allocation;
+}
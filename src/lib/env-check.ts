@@ -16,6 +16,7 @@ export interface RequiredEnvVars {
     secretAccessKey?: boolean;
     refreshToken?: boolean;
     marketplaceId?: boolean;
+    sellerId?: boolean;
   };
   keepa?: {
     apiKey?: boolean;
@@ -86,6 +87,11 @@ export function checkEnvVars(required: RequiredEnvVars): {
     const val = process.env.AMAZON_MARKETPLACE_ID || 'A1F83G8C2ARO7P';
     values.amazonMarketplaceId = val;
   }
+  if (required.amazon?.sellerId) {
+    const val = process.env.AMAZON_SELLER_ID;
+    if (!val) missing.push('AMAZON_SELLER_ID');
+    else values.amazonSellerId = val;
+  }
 
   // Check Keepa vars
   if (required.keepa?.apiKey) {
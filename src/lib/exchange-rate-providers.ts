@@ -0,0 +1,138 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * A single quoted rate: 1 unit of `base` = `rate` units of `quote`
+ */
+export interface ExchangeRateQuote {
+  base: string;
+  quote: string;
+  rate: number;
+  rateDate: string; // YYYY-MM-DD the rate applies to
+  source: string;
+}
+
+/**
+ * Pluggable source of exchange rates. Implementations only need to know how to
+ * fetch rates - caching and persistence are handled by ExchangeRateService.
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(base: string, quotes: string[]): Promise<ExchangeRateQuote[]>;
+}
+
+/**
+ * ECB reference rates via the Frankfurter API (no API key required)
+ */
+export class FrankfurterRateProvider implements ExchangeRateProvider {
+  readonly name = 'frankfurter';
+
+  constructor(private baseUrl: string = process.env.EXCHANGE_RATE_API_URL || 'https://api.frankfurter.app') {}
+
+  async fetchRates(base: string, quotes: string[]): Promise<ExchangeRateQuote[]> {
+    const wanted = quotes.filter(quote => quote !== base);
+    if (wanted.length === 0) return [];
+
+    const url = `${this.baseUrl}/latest?from=${encodeURIComponent(base)}&to=${wanted.map(encodeURIComponent).join(',')}`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+
+    if (!response.ok) {
+      throw new Error(`Exchange rate API returned ${response.status}`);
+    }
+
+    const data = await response.json() as { date: string; rates: Record<string, number> };
+
+    return Object.entries(data.rates || {}).map(([quote, rate]) => ({
+      base,
+      quote,
+      rate,
+      rateDate: data.date,
+      source: this.name
+    }));
+  }
+}
+
+/**
+ * Reads rates from a JSON file for offline use and local development.
+ *
+ * Expected format:
+ * { "date": "2026-10-19", "base": "EUR", "rates": { "GBP": 0.86, "SEK": 11.2 } }
+ *
+ * Rates for other bases are derived by crossing through the file's base currency.
+ */
+export class FileRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async fetchRates(base: string, quotes: string[]): Promise<ExchangeRateQuote[]> {
+    const resolved = path.isAbsolute(this.filePath)
+      ? this.filePath
+      : path.join(process.cwd(), this.filePath);
+    const raw = JSON.parse(await readFile(resolved, 'utf-8')) as {
+      date?: string;
+      base: string;
+      rates: Record<string, number>;
+    };
+
+    const fileRates: Record<string, number> = { ...raw.rates, [raw.base]: 1 };
+    const rateDate = raw.date || new Date().toISOString().slice(0, 10);
+
+    if (!fileRates[base]) {
+      throw new Error(`Exchange rate file has no rate for ${base}`);
+    }
+
+    return quotes
+      .filter(quote => quote !== base && fileRates[quote])
+      .map(quote => ({
+        base,
+        quote,
+        rate: fileRates[quote] / fileRates[base],
+        rateDate,
+        source: this.name
+      }));
+  }
+}
+
+/**
+ * Fixed rates - used as the last-resort fallback when nothing else is available
+ */
+export class StaticRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+
+  // Rates expressed as 1 EUR = x
+  constructor(private eurRates: Record<string, number> = { EUR: 1, GBP: 0.86, SEK: 11.5, PLN: 4.3 }) {}
+
+  async fetchRates(base: string, quotes: string[]): Promise<ExchangeRateQuote[]> {
+    const rateDate = new Date().toISOString().slice(0, 10);
+    const baseRate = this.eurRates[base];
+    if (!baseRate) return [];
+
+    return quotes
+      .filter(quote => quote !== base && this.eurRates[quote])
+      .map(quote => ({
+        base,
+        quote,
+        rate: this.eurRates[quote] / baseRate,
+        rateDate,
+        source: this.name
+      }));
+  }
+}
+
+/**
+ * Build the provider configured through EXCHANGE_RATE_PROVIDER
+ */
+export function createExchangeRateProvider(): ExchangeRateProvider {
+  const providerName = process.env.EXCHANGE_RATE_PROVIDER || 'frankfurter';
+
+  switch (providerName) {
+    case 'file':
+      return new FileRateProvider(process.env.EXCHANGE_RATE_FILE || 'exchange-rates.json');
+    case 'static':
+      return new StaticRateProvider();
+    case 'frankfurter':
+    default:
+      return new FrankfurterRateProvider();
+  }
+}
@@ -1,71 +1,300 @@
 // Exchange rate service
-// You can replace this with a real API like exchangerate-api.com or fixer.io
+// Rates come from a pluggable provider (see exchange-rate-providers.ts), are cached in memory
+// and persisted daily to the exchange_rates table so every scan uses the same figures.
 
-interface ExchangeRates {
-  EUR_TO_GBP: number;
-  lastUpdated: Date;
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import {
+  ExchangeRateProvider,
+  ExchangeRateQuote,
+  StaticRateProvider,
+  createExchangeRateProvider
+} from '@/lib/exchange-rate-providers';
+
+export type { ExchangeRateProvider, ExchangeRateQuote } from '@/lib/exchange-rate-providers';
+
+/**
+ * Rates captured at the start of a scan and stored in arbitrage_scans.metadata,
+ * so results can always be traced back to the rate they were calculated with.
+ */
+export interface ExchangeRateSnapshot {
+  target: string; // Currency every rate converts into (GBP)
+  rates: Record<string, number>; // 1 unit of currency = rate units of target
+  rate_date: string;
+  source: string;
+  captured_at: string;
 }
 
+interface CachedRate {
+  rate: number;
+  rateDate: string;
+  source: string;
+  cachedAt: number;
+}
+
+const DEFAULT_TARGET_CURRENCY = 'GBP';
+
 class ExchangeRateService {
-  private rates: ExchangeRates = {
-    EUR_TO_GBP: 0.86, // Default fallback rate
-    lastUpdated: new Date()
-  };
-  
+  private cache = new Map<string, CachedRate>();
   private cacheTimeout = 3600000; // 1 hour in milliseconds
-  
+  private fallbackProvider = new StaticRateProvider();
+  private supabase: SupabaseClient | null = null;
+
+  constructor(private provider: ExchangeRateProvider = createExchangeRateProvider()) {}
+
+  /**
+   * Swap the rate provider (e.g. a FileRateProvider for offline runs)
+   */
+  setProvider(provider: ExchangeRateProvider) {
+    this.provider = provider;
+    this.cache.clear();
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Get the rate to convert 1 unit of `from` into `to`
+   */
+  async getRate(from: string, to: string = DEFAULT_TARGET_CURRENCY): Promise<number> {
+    const quote = await this.resolveRate(from, to);
+    return quote.rate;
+  }
+
   async getEURtoGBP(): Promise<number> {
-    // Check if cache is still valid
-    const now = new Date();
-    const cacheAge = now.getTime() - this.rates.lastUpdated.getTime();
-    
-    if (cacheAge < this.cacheTimeout) {
-      return this.rates.EUR_TO_GBP;
+    return this.getRate('EUR', 'GBP');
+  }
+
+  /**
+   * Capture the current rates for a set of currencies into a snapshot for scan metadata
+   */
+  async getSnapshot(
+    currencies: string[],
+    target: string = DEFAULT_TARGET_CURRENCY
+  ): Promise<ExchangeRateSnapshot> {
+    const unique = Array.from(new Set([...currencies, target]));
+    const rates: Record<string, number> = {};
+    const sources = new Set<string>();
+    let rateDate = new Date().toISOString().slice(0, 10);
+
+    for (const currency of unique) {
+      const quote = await this.resolveRate(currency, target);
+      rates[currency] = quote.rate;
+      if (currency !== target) {
+        sources.add(quote.source);
+        rateDate = quote.rateDate;
+      }
+    }
+
+    return {
+      target,
+      rates,
+      rate_date: rateDate,
+      source: Array.from(sources).join(',') || 'identity',
+      captured_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Fetch fresh rates from the provider and persist them for today.
+   * Returns the quotes that were stored.
+   */
+  async refreshRates(
+    currencies: string[],
+    target: string = DEFAULT_TARGET_CURRENCY
+  ): Promise<ExchangeRateQuote[]> {
+    const refreshed: ExchangeRateQuote[] = [];
+
+    for (const currency of currencies) {
+      if (currency === target) continue;
+      const quote = await this.fetchFromProvider(currency, target, this.provider);
+      if (quote) {
+        refreshed.push(quote);
+      }
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Synchronous conversion using the last cached EUR rate (or the static default)
+   */
+  convertEURtoGBP(amountEUR: number): number {
+    const cached = this.cache.get(this.cacheKey('EUR', 'GBP'));
+    return amountEUR * (cached?.rate ?? 0.86);
+  }
+
+  getCachedRate(from: string, to: string = DEFAULT_TARGET_CURRENCY): number | null {
+    if (from === to) return 1;
+    return this.cache.get(this.cacheKey(from, to))?.rate ?? null;
+  }
+
+  private async resolveRate(from: string, to: string): Promise<ExchangeRateQuote> {
+    const today = new Date().toISOString().slice(0, 10);
+
+    if (from === to) {
+      return { base: from, quote: to, rate: 1, rateDate: today, source: 'identity' };
+    }
+
+    // 1. In-memory cache
+    const key = this.cacheKey(from, to);
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.cachedAt < this.cacheTimeout) {
+      return { base: from, quote: to, rate: cached.rate, rateDate: cached.rateDate, source: cached.source };
+    }
+
+    // 2. Today's persisted rate
+    const stored = await this.getStoredRate(from, to, today);
+    if (stored) {
+      this.remember(stored);
+      return stored;
+    }
+
+    // 3. Live provider (persists on success)
+    const fetched = await this.fetchFromProvider(from, to, this.provider);
+    if (fetched) {
+      return fetched;
     }
-    
+
+    // 4. Most recent persisted rate of any date
+    const lastKnown = await this.getStoredRate(from, to);
+    if (lastKnown) {
+      console.warn(`[ExchangeRates] Using last known ${from}/${to} rate from ${lastKnown.rateDate}`);
+      this.remember(lastKnown);
+      return lastKnown;
+    }
+
+    // 5. Static fallback
+    const fallback = await this.fetchFromProvider(from, to, this.fallbackProvider, false);
+    if (fallback) {
+      console.warn(`[ExchangeRates] Using static fallback ${from}/${to} rate: ${fallback.rate}`);
+      return fallback;
+    }
+
+    throw new Error(`Unsupported currency: ${from}`);
+  }
+
+  private async fetchFromProvider(
+    from: string,
+    to: string,
+    provider: ExchangeRateProvider,
+    persist: boolean = true
+  ): Promise<ExchangeRateQuote | null> {
     try {
-      // You can implement a real API call here
-      // Example with exchangerate-api.com (requires API key):
-      /*
-      const response = await fetch('https://v6.exchangerate-api.com/v6/YOUR_API_KEY/pair/EUR/GBP');
-      const data = await response.json();
-      
-      if (data.result === 'success') {
-        this.rates = {
-          EUR_TO_GBP: data.conversion_rate,
-          lastUpdated: new Date()
-        };
-        return data.conversion_rate;
+      const quotes = await provider.fetchRates(from, [to]);
+      const quote = quotes.find(q => q.quote === to);
+      if (!quote || !Number.isFinite(quote.rate) || quote.rate <= 0) {
+        return null;
       }
-      */
-      
-      // For now, return a realistic rate
-      // You should update this periodically or use a real API
-      const currentRates: { [key: string]: number } = {
-        '2024-01': 0.86,
-        '2024-02': 0.85,
-        '2024-03': 0.86,
-        // Add more as needed
-      };
-      
-      const month = now.toISOString().substring(0, 7);
-      this.rates.EUR_TO_GBP = currentRates[month] || 0.86;
-      this.rates.lastUpdated = now;
-      
-      return this.rates.EUR_TO_GBP;
+
+      this.remember(quote);
+      if (persist) {
+        await this.persistRate(quote);
+      }
+      return quote;
     } catch (error) {
-      console.error('Failed to fetch exchange rate:', error);
-      return this.rates.EUR_TO_GBP; // Return cached/default rate on error
+      console.error(`[ExchangeRates] ${provider.name} provider failed for ${from}/${to}:`, error);
+      return null;
     }
   }
-  
-  convertEURtoGBP(amountEUR: number): number {
-    return amountEUR * this.rates.EUR_TO_GBP;
+
+  private async getStoredRate(from: string, to: string, rateDate?: string): Promise<ExchangeRateQuote | null> {
+    const supabase = this.getClient();
+    if (!supabase) return null;
+
+    let query = supabase
+      .from('exchange_rates')
+      .select('base_currency, quote_currency, rate, rate_date, source')
+      .eq('base_currency', from)
+      .eq('quote_currency', to);
+
+    if (rateDate) {
+      query = query.eq('rate_date', rateDate);
+    }
+
+    const { data, error } = await query
+      .order('rate_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return {
+      base: data.base_currency,
+      quote: data.quote_currency,
+      rate: Number(data.rate),
+      rateDate: data.rate_date,
+      source: data.source
+    };
+  }
+
+  private async persistRate(quote: ExchangeRateQuote): Promise<void> {
+    const supabase = this.getClient();
+    if (!supabase) return;
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert({
+        rate_date: quote.rateDate,
+        base_currency: quote.base,
+        quote_currency: quote.quote,
+        rate: quote.rate,
+        source: quote.source,
+        fetched_at: new Date().toISOString()
+      }, {
+        onConflict: 'rate_date,base_currency,quote_currency'
+      });
+
+    if (error) {
+      console.error('[ExchangeRates] Failed to persist rate:', error);
+    }
+  }
+
+  private getClient(): SupabaseClient | null {
+    if (!this.supabase) {
+      try {
+        this.supabase = getServiceRoleClient();
+      } catch {
+        // No database configured (e.g. offline runs) - work from memory only
+        return null;
+      }
+    }
+    return this.supabase;
+  }
+
+  private remember(quote: ExchangeRateQuote) {
+    this.cache.set(this.cacheKey(quote.base, quote.quote), {
+      rate: quote.rate,
+      rateDate: quote.rateDate,
+      source: quote.source,
+      cachedAt: Date.now()
+    });
+  }
+
+  private cacheKey(from: string, to: string): string {
+    return `${from}_${to}`;
   }
 }
 
 export const exchangeRateService = new ExchangeRateService();
 
+/**
+ * Convert an amount using the rates captured in a scan snapshot
+ */
+export function convertWithSnapshot(amount: number, fromCurrency: string, snapshot: ExchangeRateSnapshot): number {
+  if (fromCurrency === snapshot.target) {
+    return amount;
+  }
+  const rate = snapshot.rates[fromCurrency];
+  if (rate === undefined) {
+    throw new Error(`No ${fromCurrency} rate in exchange rate snapshot`);
+  }
+  return amount * rate;
+}
+
 // Export helper function for backward compatibility
 export function convertToGBP(amount: number, fromCurrency: string): number {
   if (fromCurrency === 'GBP') {
@@ -74,6 +303,9 @@ export function convertToGBP(amount: number, fromCurrency: string): number {
   if (fromCurrency === 'EUR') {
     return exchangeRateService.convertEURtoGBP(amount);
   }
-  // Add more currencies as needed
+  const rate = exchangeRateService.getCachedRate(fromCurrency, 'GBP');
+  if (rate !== null) {
+    return amount * rate;
+  }
   throw new Error(`Unsupported currency: ${fromCurrency}`);
-}
\ No newline at end of file
+}
@@ -0,0 +1,251 @@
+/**
+ * FBA size tier and dangerous goods detection
+ *
+ * Classifies a product from its UK catalog dimensions and attributes, falling
+ * back to the FBA fee from the fees estimate when the catalog has no
+ * dimensions. Results are stored on every products row for the ASIN so later
+ * scans of synced storefronts don't repeat the catalog lookup.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { SPAPICatalogClient, CatalogItem } from '@/lib/sp-api-catalog';
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+import { extractProductDimensions, landedCostService, ProductDimensions } from '@/lib/landed-cost';
+import { FbaClassification, FbaSizeTier, isOversizeTier, toFbaClassificationColumns } from '@/lib/fba-size-tier';
+import { LruCache } from '@/lib/lru-cache';
+
+export type { FbaClassification, FbaSizeTier } from '@/lib/fba-size-tier';
+
+interface SizeTierLimit {
+  tier: FbaSizeTier;
+  longestCm: number;
+  medianCm: number;
+  shortestCm: number;
+  maxWeightKg: number;
+}
+
+// Amazon UK limits per unit, smallest tier first
+const SIZE_TIER_LIMITS: SizeTierLimit[] = [
+  { tier: 'light_envelope', longestCm: 33, medianCm: 23, shortestCm: 2.5, maxWeightKg: 0.1 },
+  { tier: 'standard_envelope', longestCm: 33, medianCm: 23, shortestCm: 2.5, maxWeightKg: 0.46 },
+  { tier: 'large_envelope', longestCm: 33, medianCm: 23, shortestCm: 4, maxWeightKg: 0.96 },
+  { tier: 'extra_large_envelope', longestCm: 33, medianCm: 23, shortestCm: 6, maxWeightKg: 0.96 },
+  { tier: 'small_parcel', longestCm: 35, medianCm: 25, shortestCm: 12, maxWeightKg: 3.9 },
+  { tier: 'standard_parcel', longestCm: 45, medianCm: 34, shortestCm: 26, maxWeightKg: 11.9 },
+  { tier: 'small_oversize', longestCm: 61, medianCm: 46, shortestCm: 46, maxWeightKg: 1.76 },
+  { tier: 'standard_oversize', longestCm: 101, medianCm: 60, shortestCm: 60, maxWeightKg: 29.76 },
+  { tier: 'large_oversize', longestCm: 120, medianCm: 60, shortestCm: 60, maxWeightKg: 31.5 }
+];
+
+// Standard-size fulfilment fees stay below this (GBP), so a higher FBA fee
+// marks an item as oversize when the catalog has no dimensions to go on
+const OVERSIZE_FBA_FEE_GBP = 7.5;
+
+const NOT_DANGEROUS_GOODS = ['not_applicable', 'unknown'];
+
+interface CatalogClassificationData {
+  dimensions: ProductDimensions | null;
+  hazmatReasons: string[];
+}
+
+/**
+ * Size tier from package dimensions, or null when the catalog has none
+ */
+export function classifyFbaSizeTier(dimensions: ProductDimensions | null | undefined): FbaSizeTier | null {
+  if (!dimensions || dimensions.lengthCm + dimensions.widthCm + dimensions.heightCm <= 0) {
+    return null;
+  }
+
+  const [longest, median, shortest] = [dimensions.lengthCm, dimensions.widthCm, dimensions.heightCm]
+    .sort((a, b) => b - a);
+
+  const limit = SIZE_TIER_LIMITS.find(tier =>
+    longest <= tier.longestCm &&
+    median <= tier.medianCm &&
+    shortest <= tier.shortestCm &&
+    dimensions.weightKg <= tier.maxWeightKg
+  );
+
+  return limit?.tier ?? 'special_oversize';
+}
+
+/**
+ * Why FBA might treat an item as dangerous goods, from its catalog attributes.
+ * An empty list means nothing in the listing points to hazmat review.
+ */
+export function detectHazmatReasons(item: CatalogItem): string[] {
+  const attributes = item.attributes || {};
+  const values = (name: string): any[] => Array.isArray(attributes[name]) ? attributes[name] : [];
+  const reasons: string[] = [];
+
+  for (const regulation of values('supplier_declared_dg_hz_regulation')) {
+    const value = String(regulation?.value || '').toLowerCase();
+    if (value && !NOT_DANGEROUS_GOODS.includes(value)) {
+      reasons.push(`Declared dangerous goods regulation: ${value}`);
+    }
+  }
+
+  for (const ghs of values('ghs')) {
+    const classes = (ghs?.classification || []).map((entry: any) => entry?.class).filter(Boolean);
+    if (classes.length > 0) {
+      reasons.push(`GHS classification: ${classes.join(', ')}`);
+    }
+  }
+
+  for (const hazmat of values('hazmat')) {
+    if (hazmat?.aspect === 'united_nations_regulatory_id' && hazmat.value) {
+      reasons.push(`UN number ${hazmat.value}`);
+    }
+  }
+
+  if (values('safety_data_sheet_url').length > 0) {
+    reasons.push('Safety data sheet supplied');
+  }
+
+  if (values('flash_point').length > 0) {
+    reasons.push('Flash point declared');
+  }
+
+  const cellCompositions = values('battery')
+    .flatMap(battery => battery?.cell_composition || [])
+    .map((composition: any) => String(composition?.value || '').toLowerCase());
+
+  if (
+    cellCompositions.some(composition => composition.includes('lithium')) ||
+    values('lithium_battery').length > 0 ||
+    values('num_lithium_ion_cells').some(cells => Number(cells?.value) > 0) ||
+    values('num_lithium_metal_cells').some(cells => Number(cells?.value) > 0)
+  ) {
+    reasons.push('Lithium battery');
+  }
+
+  return Array.from(new Set(reasons));
+}
+
+/**
+ * Combine catalog data with the FBA fee (GBP) into a classification
+ */
+export function classifyFbaProduct(params: {
+  dimensions?: ProductDimensions | null;
+  hazmatReasons?: string[];
+  fbaFee?: number | null;
+}): FbaClassification {
+  const fbaSizeTier = classifyFbaSizeTier(params.dimensions);
+  const hazmatReasons = params.hazmatReasons || [];
+
+  return {
+    fbaSizeTier,
+    isOversize: fbaSizeTier
+      ? isOversizeTier(fbaSizeTier)
+      : (params.fbaFee ?? 0) > OVERSIZE_FBA_FEE_GBP,
+    possibleHazmat: hazmatReasons.length > 0,
+    hazmatReasons
+  };
+}
+
+// Only spans nearby scans of the same ASINs; products.fba_classified_at is the lasting cache
+const CATALOG_CACHE_MAX_ENTRIES = 5000;
+const CATALOG_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+class FbaClassificationService {
+  private catalogCache = new LruCache<string, CatalogClassificationData | null>(CATALOG_CACHE_MAX_ENTRIES, CATALOG_CACHE_TTL_MS);
+  private supabase: SupabaseClient | null = null;
+
+  /**
+   * Cache what classification needs from a catalog item a scan already
+   * fetched (with attributes, dimensions and productTypes)
+   */
+  rememberCatalogItem(asin: string, item: CatalogItem) {
+    this.catalogCache.set(asin, {
+      dimensions: extractProductDimensions(item),
+      hazmatReasons: detectHazmatReasons(item)
+    });
+  }
+
+  /**
+   * Classify an ASIN. Catalog data is looked up only when fetchCatalog is set
+   * and the scan didn't already fetch it; without it the FBA fee alone can
+   * still flag oversize items. Returns null when there is nothing to go on.
+   */
+  async classify(params: {
+    asin: string;
+    catalogClient: SPAPICatalogClient;
+    fbaFee?: number | null;
+    fetchCatalog: boolean;
+    beforeCatalogRequest?: () => Promise<void>;
+  }): Promise<FbaClassification | null> {
+    let catalogData = this.catalogCache.get(params.asin);
+
+    if (catalogData === undefined && params.fetchCatalog) {
+      catalogData = await this.fetchCatalogData(params.asin, params.catalogClient, params.beforeCatalogRequest);
+    }
+
+    if (!catalogData && !params.fbaFee) {
+      return null;
+    }
+
+    return classifyFbaProduct({
+      dimensions: catalogData?.dimensions,
+      hazmatReasons: catalogData?.hazmatReasons,
+      fbaFee: params.fbaFee
+    });
+  }
+
+  /**
+   * Store a classification on every products row for the ASIN
+   */
+  async saveToProducts(asin: string, classification: FbaClassification) {
+    const supabase = this.getClient();
+    if (!supabase) return;
+
+    const { error } = await supabase
+      .from('products')
+      .update({
+        ...toFbaClassificationColumns(classification),
+        fba_classified_at: new Date().toISOString()
+      })
+      .eq('asin', asin);
+
+    if (error) {
+      console.error(`[FbaClassification] Failed to save classification for ${asin}:`, error);
+    }
+  }
+
+  private async fetchCatalogData(
+    asin: string,
+    catalogClient: SPAPICatalogClient,
+    beforeCatalogRequest?: () => Promise<void>
+  ): Promise<CatalogClassificationData | null> {
+    try {
+      await beforeCatalogRequest?.();
+      const item = await catalogClient.getCatalogItem(
+        asin,
+        [MARKETPLACES.UK.id],
+        ['attributes', 'dimensions', 'productTypes']
+      );
+      this.rememberCatalogItem(asin, item);
+
+      // Landed cost evaluation can reuse the dimensions
+      const catalogData = this.catalogCache.get(asin) ?? null;
+      landedCostService.rememberDimensions(asin, catalogData?.dimensions ?? null);
+      return catalogData;
+    } catch (error) {
+      console.error(`[FbaClassification] Catalog lookup failed for ${asin}:`, error);
+      return null;
+    }
+  }
+
+  private getClient(): SupabaseClient | null {
+    if (!this.supabase) {
+      try {
+        this.supabase = getServiceRoleClient();
+      } catch {
+        return null;
+      }
+    }
+    return this.supabase;
+  }
+}
+
+export const fbaClassificationService = new FbaClassificationService();
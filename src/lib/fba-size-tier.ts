@@ -0,0 +1,73 @@
+/**
+ * FBA size tier and dangerous goods flags shared by the scan engine and the dashboards
+ *
+ * Tiers follow Amazon UK's FBA size tiers. possibleHazmat means the catalog
+ * declares something FBA reviews as dangerous goods (an SDS, a GHS class, a UN
+ * number, lithium batteries); the ASIN may still pass review.
+ */
+
+export type FbaSizeTier =
+  | 'light_envelope'
+  | 'standard_envelope'
+  | 'large_envelope'
+  | 'extra_large_envelope'
+  | 'small_parcel'
+  | 'standard_parcel'
+  | 'small_oversize'
+  | 'standard_oversize'
+  | 'large_oversize'
+  | 'special_oversize';
+
+export interface FbaClassification {
+  fbaSizeTier: FbaSizeTier | null; // null when the catalog has no dimensions
+  isOversize: boolean;
+  possibleHazmat: boolean;
+  hazmatReasons: string[];
+}
+
+const SIZE_TIER_LABELS: Record<FbaSizeTier, string> = {
+  light_envelope: 'Light envelope',
+  standard_envelope: 'Standard envelope',
+  large_envelope: 'Large envelope',
+  extra_large_envelope: 'Extra-large envelope',
+  small_parcel: 'Small parcel',
+  standard_parcel: 'Standard parcel',
+  small_oversize: 'Small oversize',
+  standard_oversize: 'Standard oversize',
+  large_oversize: 'Large oversize',
+  special_oversize: 'Special oversize'
+};
+
+export function getFbaSizeTierLabel(tier: FbaSizeTier): string {
+  return SIZE_TIER_LABELS[tier] || tier;
+}
+
+export function isOversizeTier(tier?: FbaSizeTier | null): boolean {
+  return !!tier && tier.endsWith('_oversize');
+}
+
+/**
+ * Read a classification from products or arbitrage_opportunities columns.
+ * Rows that were never classified give null.
+ */
+export function mapFbaClassification(row: any): FbaClassification | null {
+  if (!row || (row.fba_size_tier == null && row.is_oversize == null && row.possible_hazmat == null)) {
+    return null;
+  }
+
+  return {
+    fbaSizeTier: row.fba_size_tier ?? null,
+    isOversize: !!row.is_oversize,
+    possibleHazmat: !!row.possible_hazmat,
+    hazmatReasons: row.hazmat_reasons || []
+  };
+}
+
+export function toFbaClassificationColumns(classification: FbaClassification) {
+  return {
+    fba_size_tier: classification.fbaSizeTier,
+    is_oversize: classification.isOversize,
+    possible_hazmat: classification.possibleHazmat,
+    hazmat_reasons: classification.hazmatReasons
+  };
+}
@@ -3,6 +3,7 @@ import { KeepaStorefrontAPI } from './keepa-storefront'
 import { KeepaPersistentRateLimiter } from './keepa-persistent-rate-limiter'
 import { AmazonSPAPISimple } from './amazon-sp-api-simple'
 import { SPAPIRateLimiter } from './sp-api-rate-limiter'
+import { reconcileStorefrontAsins } from './storefront-asin-events'
 
 
 interface BatchUpdateResult {
@@ -133,18 +134,9 @@ export class KeepaBatchUpdateManager {
     try {
       console.log(`🔄 Updating storefront: ${storefrontName}`)
 
-      // Get current products from database
-      const { data: currentProducts } = await this.supabase
-        .from('products')
-        .select('asin')
-        .eq('storefront_id', storefrontId)
-
-      const currentASINs = new Set(currentProducts?.map(p => p.asin) || [])
-
       // Fetch all ASINs from Keepa (this is where the 50 tokens are spent)
       const keepaResult = await this.keepaApi.getSellerASINs(sellerId, 0)
       const keepaASINs = keepaResult.asinList
-      const keepaASINsSet = new Set(keepaASINs)
       
       // Update our token tracker with real Keepa data
       if (keepaResult.tokenInfo) {
@@ -154,24 +146,15 @@ export class KeepaBatchUpdateManager {
 
       console.log(`📦 ${storefrontName}: Found ${keepaASINs.length} products from Keepa`)
 
-      // Find differences
-      const asinsToAdd = keepaASINs.filter(asin => !currentASINs.has(asin))
-      const asinsToRemove = Array.from(currentASINs).filter(asin => !keepaASINsSet.has(asin))
-
-      console.log(`📊 ${storefrontName}: +${asinsToAdd.length} -${asinsToRemove.length} products`)
-
-      // Remove products no longer in storefront
-      if (asinsToRemove.length > 0) {
-        const { error: deleteError } = await this.supabase
-          .from('products')
-          .delete()
-          .eq('storefront_id', storefrontId)
-          .in('asin', asinsToRemove)
+      // Soft-delete products no longer in storefront and record the changes
+      const changes = await reconcileStorefrontAsins(this.supabase, {
+        userId: this.userId,
+        storefrontId,
+        listedAsins: keepaASINs
+      })
+      const asinsToAdd = changes.newAsins
 
-        if (deleteError) {
-          console.error(`❌ Error removing products from ${storefrontName}:`, deleteError)
-        }
-      }
+      console.log(`📊 ${storefrontName}: +${asinsToAdd.length} (${changes.returnedAsins.length} relisted) -${changes.removedAsins.length} products`)
 
       // Add new products with placeholder titles
       if (asinsToAdd.length > 0) {
@@ -226,8 +209,8 @@ export class KeepaBatchUpdateManager {
       return {
         storefrontId,
         storefrontName,
-        productsAdded: asinsToAdd.length,
-        productsRemoved: asinsToRemove.length,
+        productsAdded: asinsToAdd.length + changes.returnedAsins.length,
+        productsRemoved: changes.removedAsins.length,
         tokensUsed: 50,
         success: true
       }
@@ -1,8 +1,9 @@
 import { getServiceRoleClient } from '@/lib/supabase-server'
-import { KeepaStorefrontAPI } from './keepa-storefront'
+import { KeepaStorefrontAPI, KEEPA_STOREFRONT_PAGE_SIZE } from './keepa-storefront'
 import { KeepaPersistentRateLimiter } from './keepa-persistent-rate-limiter'
 import { AmazonSPAPISimple } from './amazon-sp-api-simple'
 import { SPAPIRateLimiter } from './sp-api-rate-limiter'
+import { reconcileStorefrontAsins } from './storefront-asin-events'
 
 interface SequentialUpdateResult {
   storefrontId: string
@@ -10,6 +11,7 @@ interface SequentialUpdateResult {
   productsAdded: number
   productsRemoved: number
   tokensUsed: number
+  partial?: boolean
   success: boolean
   error?: string
   timestamp: Date
@@ -20,6 +22,19 @@ interface StorefrontData {
   name: string
   seller_id: string
   keepa_tokens_consumed: number
+  keepa_next_page?: number | null
+  keepa_pending_asins?: string[] | null
+  keepa_sync_started_at?: string | null
+}
+
+interface StorefrontPaging {
+  asins: string[]
+  nextPage: number
+  totalResults: number
+  complete: boolean
+  syncStartedAt: string
+  pagesFetched: number
+  tokensUsed: number
 }
 
 interface SequentialUpdateProgress {
@@ -51,6 +66,8 @@ export class KeepaSequentialManager {
   private readonly SHORT_DELAY_MS = 5000 // 5 seconds between storefronts when tokens are sufficient
   private readonly INITIAL_TOKENS_REQUIRED = 50
   private readonly INTERVAL_BETWEEN_SCANS_MS = 3 * 60 * 1000 // 3 minutes
+  private readonly MAX_PAGES_PER_RUN = 20
+  private readonly STALE_PAGING_MS = 7 * 24 * 60 * 60 * 1000 // Restart a paging pass left unfinished for a week
 
   constructor(userId: string) {
     this.userId = userId
@@ -231,7 +248,7 @@ export class KeepaSequentialManager {
         const remainingTokens = await this.rateLimiter.getAvailableTokens()
         progress.tokensAvailable = remainingTokens
         
-        console.log(`✅ Completed ${storefront.name}: +${result.productsAdded} -${result.productsRemoved} products`)
+        console.log(`✅ Completed ${storefront.name}: +${result.productsAdded} -${result.productsRemoved} products${result.partial ? ' (partial sync)' : ''}`)
         console.log(`📊 Progress: ${progress.processedStorefronts}/${progress.totalStorefronts} storefronts`)
         console.log(`🪙 Tokens: ${remainingTokens} available, ${progress.tokensUsed} used total`)
         
@@ -304,55 +321,28 @@ export class KeepaSequentialManager {
     try {
       console.log(`🔄 Starting update for ${storefrontName} (${sellerId})`)
       
-      // STEP 1: Get current products from database
-      console.log(`📋 Fetching current products from database...`)
-      const { data: currentProducts, error: fetchError } = await this.supabase
-        .from('products')
-        .select('asin')
-        .eq('storefront_id', storefrontId)
-
-      if (fetchError) {
-        throw new Error(`Database fetch error: ${fetchError.message}`)
-      }
-
-      const currentASINs = new Set(currentProducts?.map(p => p.asin) || [])
-      console.log(`📊 Current products in DB: ${currentASINs.size} ASINs`)
-
-      // STEP 2: Fetch all ASINs from Keepa (this is where the 50 tokens are spent)
+      // STEP 1: Fetch ASIN pages from Keepa (this is where the 50 tokens per page are spent)
       console.log(`🔍 Fetching ASINs from Keepa API for seller ${sellerId}...`)
-      const keepaResult = await this.keepaApi.getSellerASINs(sellerId, 0)
-      const keepaASINs = keepaResult.asinList
-      const keepaASINsSet = new Set(keepaASINs)
+      const paging = await this.fetchStorefrontPages(storefront)
+      const keepaASINs = paging.asins
       
-      console.log(`✅ Keepa returned ${keepaASINs.length} ASINs`)
-      
-      // Update our token tracker with real Keepa data
-      if (keepaResult.tokenInfo) {
-        console.log(`📊 Keepa tokens: ${keepaResult.tokenInfo.tokensLeft} remaining, ${keepaResult.tokenInfo.tokensConsumed} consumed`)
-        await this.updateTokenTracker(keepaResult.tokenInfo)
-      }
+      console.log(`✅ Keepa returned ${keepaASINs.length}/${paging.totalResults} ASINs over ${paging.pagesFetched} page(s)${paging.complete ? '' : `, resuming from page ${paging.nextPage} next run`}`)
 
-      // STEP 3: Find differences - NEW and OLD ASINs
-      const asinsToAdd = keepaASINs.filter(asin => !currentASINs.has(asin))
-      const asinsToRemove = Array.from(currentASINs).filter(asin => !keepaASINsSet.has(asin))
-
-      console.log(`📈 Changes detected: +${asinsToAdd.length} new ASINs, -${asinsToRemove.length} old ASINs`)
+      // STEP 2-4: Compare with the database, soft-delete products no longer listed
+      // and record what the seller started and stopped selling. Removals wait
+      // until every page has been fetched
+      const changes = await reconcileStorefrontAsins(this.supabase, {
+        userId: this.userId,
+        storefrontId,
+        listedAsins: keepaASINs,
+        complete: paging.complete,
+        syncStartedAt: paging.syncStartedAt
+      })
+      const asinsToAdd = changes.newAsins
+      const productsAdded = changes.newAsins.length + changes.returnedAsins.length
+      const productsRemoved = changes.removedAsins.length
 
-      // STEP 4: Remove products no longer in storefront
-      if (asinsToRemove.length > 0) {
-        console.log(`🗑️ Removing ${asinsToRemove.length} old ASINs from database...`)
-        const { error: deleteError } = await this.supabase
-          .from('products')
-          .delete()
-          .eq('storefront_id', storefrontId)
-          .in('asin', asinsToRemove)
-
-        if (deleteError) {
-          console.error(`⚠️ Error removing old products: ${deleteError.message}`)
-        } else {
-          console.log(`✅ Successfully removed ${asinsToRemove.length} old ASINs`)
-        }
-      }
+      console.log(`📈 Changes detected: +${asinsToAdd.length} new ASINs, ${changes.returnedAsins.length} relisted, -${productsRemoved} removed`)
 
       // STEP 5: Add new products
       if (asinsToAdd.length > 0) {
@@ -404,9 +394,14 @@ export class KeepaSequentialManager {
           last_sync_completed_at: new Date().toISOString(),
           last_sync_status: 'completed',
           total_products_synced: keepaASINs.length,
-          keepa_tokens_consumed: (storefront.keepa_tokens_consumed || 0) + 50,
-          new_products_last_scan: asinsToAdd.length,
-          removed_products_last_scan: asinsToRemove.length,
+          keepa_tokens_consumed: (storefront.keepa_tokens_consumed || 0) + paging.tokensUsed,
+          new_products_last_scan: productsAdded,
+          removed_products_last_scan: productsRemoved,
+          keepa_next_page: paging.complete ? 0 : paging.nextPage,
+          keepa_pending_asins: paging.complete ? [] : keepaASINs,
+          keepa_sync_started_at: paging.complete ? null : paging.syncStartedAt,
+          keepa_total_asins: paging.totalResults,
+          keepa_sync_partial: !paging.complete,
           updated_at: new Date().toISOString()
         })
         .eq('id', storefrontId)
@@ -417,14 +412,15 @@ export class KeepaSequentialManager {
 
       const processingTime = (Date.now() - startTime) / 1000
       console.log(`✅ Successfully processed ${storefrontName} in ${processingTime.toFixed(1)}s`)
-      console.log(`📊 Final stats: ${keepaASINs.length} total products, +${asinsToAdd.length} new, -${asinsToRemove.length} removed`)
+      console.log(`📊 Final stats: ${keepaASINs.length} total products, +${productsAdded} new, -${productsRemoved} removed`)
 
       return {
         storefrontId,
         storefrontName,
-        productsAdded: asinsToAdd.length,
-        productsRemoved: asinsToRemove.length,
-        tokensUsed: 50,
+        productsAdded,
+        productsRemoved,
+        tokensUsed: paging.tokensUsed,
+        partial: !paging.complete,
         success: true,
         timestamp: new Date()
       }
@@ -443,6 +439,73 @@ export class KeepaSequentialManager {
     }
   }
 
+  /**
+   * Fetch storefront pages from the saved cursor for as long as Keepa tokens
+   * last. A storefront too big for one token window keeps its cursor and the
+   * ASINs collected so far, and the next run carries on from there
+   */
+  private async fetchStorefrontPages(storefront: StorefrontData): Promise<StorefrontPaging> {
+    const startedAt = storefront.keepa_sync_started_at ? new Date(storefront.keepa_sync_started_at).getTime() : 0
+    const resuming = (storefront.keepa_next_page || 0) > 0 && Date.now() - startedAt < this.STALE_PAGING_MS
+
+    const asins = new Set<string>(resuming ? storefront.keepa_pending_asins || [] : [])
+    const paging: StorefrontPaging = {
+      asins: [],
+      nextPage: resuming ? storefront.keepa_next_page! : 0,
+      totalResults: 0,
+      complete: false,
+      syncStartedAt: resuming ? storefront.keepa_sync_started_at! : new Date().toISOString(),
+      pagesFetched: 0,
+      tokensUsed: 0
+    }
+
+    if (resuming) {
+      console.log(`↪️ Resuming ${storefront.name} from page ${paging.nextPage} with ${asins.size} ASINs already collected`)
+    }
+
+    while (paging.pagesFetched < this.MAX_PAGES_PER_RUN) {
+      // The first page was reserved by processSequentially; later pages need their own tokens
+      if (paging.pagesFetched > 0) {
+        if (!(await this.rateLimiter.hasTokens(this.TOKENS_PER_STOREFRONT))) {
+          console.log(`⏸️ Out of tokens after ${paging.pagesFetched} page(s), saving cursor at page ${paging.nextPage}`)
+          break
+        }
+        await this.rateLimiter.consumeTokens(this.TOKENS_PER_STOREFRONT)
+      }
+
+      let keepaResult
+      try {
+        keepaResult = await this.keepaApi.getSellerASINs(storefront.seller_id, paging.nextPage)
+      } catch (error) {
+        // Keep the pages already fetched this run; the failed page is retried next run
+        if (paging.pagesFetched === 0) throw error
+        console.error(`⚠️ Error fetching page ${paging.nextPage} for ${storefront.name}, saving cursor:`, error)
+        break
+      }
+
+      paging.pagesFetched++
+      paging.nextPage++
+      paging.tokensUsed += keepaResult.tokenInfo?.tokensConsumed || this.TOKENS_PER_STOREFRONT
+      paging.totalResults = keepaResult.totalResults
+      keepaResult.asinList.forEach(asin => asins.add(asin))
+
+      // Update our token tracker with real Keepa data
+      if (keepaResult.tokenInfo) {
+        console.log(`📊 Keepa tokens: ${keepaResult.tokenInfo.tokensLeft} remaining, ${keepaResult.tokenInfo.tokensConsumed} consumed`)
+        await this.updateTokenTracker(keepaResult.tokenInfo)
+      }
+
+      if (keepaResult.asinList.length < KEEPA_STOREFRONT_PAGE_SIZE || asins.size >= keepaResult.totalResults) {
+        paging.complete = true
+        break
+      }
+    }
+
+    paging.asins = Array.from(asins)
+    paging.totalResults = Math.max(paging.totalResults, paging.asins.length)
+    return paging
+  }
+
   private async queueASINsForTitleEnrichment(asins: string[]) {
     if (asins.length === 0) return
 
@@ -18,6 +18,9 @@ interface KeepaSellerSearchResult {
   };
 }
 
+// ASINs per storefront page; the most Keepa allows
+export const KEEPA_STOREFRONT_PAGE_SIZE = 100;
+
 export class KeepaStorefrontAPI {
   private apiKey: string;
   private domain: number;
@@ -66,7 +69,7 @@ export class KeepaStorefrontAPI {
         storefront: 1, // Request storefront ASINs
         update: 0, // Don't force update to save tokens
         page: page,
-        perPage: 100, // Maximum allowed per page
+        perPage: KEEPA_STOREFRONT_PAGE_SIZE,
         sort: 1, // Sort by sales rank
       };
       
@@ -3,6 +3,7 @@ import { KeepaStorefrontAPI } from './keepa-storefront'
 import { KeepaPersistentRateLimiter } from './keepa-persistent-rate-limiter'
 import { AmazonSPAPISimple } from './amazon-sp-api-simple'
 import { SPAPIRateLimiter } from './sp-api-rate-limiter'
+import { reconcileStorefrontAsins } from './storefront-asin-events'
 
 
 interface UpdateResult {
@@ -277,21 +278,8 @@ export class KeepaUpdateManager {
       message: 'Fetching current products from Keepa...'
     })
 
-    // Get current products from database
-    const { data: currentProducts, error: productsError } = await this.supabase
-      .from('products')
-      .select('id, asin')
-      .eq('storefront_id', storefrontId)
-
-    if (productsError) {
-      throw new Error(`Failed to fetch current products: ${productsError.message}`)
-    }
-
-    const currentASINs = new Set(currentProducts?.map(p => p.asin) || [])
-
     // Fetch ASINs from Keepa (this consumes the 50 tokens)
     const keepaASINs = await this.keepaApi.getAllSellerASINs(sellerId, 5) // Limit to 5 pages
-    const keepaASINsSet = new Set(keepaASINs)
 
     this.progressCallback?.({
       storefrontId,
@@ -301,32 +289,15 @@ export class KeepaUpdateManager {
       message: `Found ${keepaASINs.length} products in storefront`
     })
 
-    // Find differences
-    const asinsToAdd = keepaASINs.filter(asin => !currentASINs.has(asin))
-    const asinsToRemove = Array.from(currentASINs).filter(asin => !keepaASINsSet.has(asin))
-
-    console.log(`Storefront ${storefrontName}: +${asinsToAdd.length} -${asinsToRemove.length} products`)
-
-    // Remove products that are no longer in the storefront
-    if (asinsToRemove.length > 0) {
-      this.progressCallback?.({
-        storefrontId,
-        storefrontName,
-        status: 'processing',
-        progress: 70,
-        message: `Removing ${asinsToRemove.length} products...`
-      })
-
-      const { error: deleteError } = await this.supabase
-        .from('products')
-        .delete()
-        .eq('storefront_id', storefrontId)
-        .in('asin', asinsToRemove)
+    // Soft-delete products that are no longer in the storefront and record the changes
+    const changes = await reconcileStorefrontAsins(this.supabase, {
+      userId: this.userId,
+      storefrontId,
+      listedAsins: keepaASINs
+    })
+    const asinsToAdd = changes.newAsins
 
-      if (deleteError) {
-        console.error('Error removing products:', deleteError)
-      }
-    }
+    console.log(`Storefront ${storefrontName}: +${asinsToAdd.length} (${changes.returnedAsins.length} relisted) -${changes.removedAsins.length} products`)
 
     // Add new products
     if (asinsToAdd.length > 0) {
@@ -396,8 +367,8 @@ export class KeepaUpdateManager {
     return {
       storefrontId,
       storefrontName,
-      productsAdded: asinsToAdd.length,
-      productsRemoved: asinsToRemove.length,
+      productsAdded: asinsToAdd.length + changes.returnedAsins.length,
+      productsRemoved: changes.removedAsins.length,
       tokensUsed: tokensNeeded,
       success: true
     }
@@ -0,0 +1,290 @@
+/**
+ * Landed cost profiles
+ *
+ * Per-user cost of getting stock from the source marketplace into FBA UK:
+ * prep per unit, freight per chargeable kg by source country, import duty by
+ * category and a customs brokerage fee per shipment. Scans load the profile
+ * once and apply it to each opportunity using catalog dimensions and weight.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { SPAPICatalogClient, CatalogItem } from '@/lib/sp-api-catalog';
+import { ArbitrageCalculator, LandedCostBreakdown } from '@/domain/services/ArbitrageCalculator';
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+import { LruCache } from '@/lib/lru-cache';
+
+export type { LandedCostBreakdown } from '@/domain/services/ArbitrageCalculator';
+
+export interface LandedCostProfile {
+  prepFeePerUnit: number; // GBP
+  freightPerKg: Record<string, number>; // GBP per chargeable kg by source marketplace code
+  defaultFreightPerKg: number;
+  dutyRates: Record<string, number>; // Percentage by catalog product type
+  defaultDutyRate: number;
+  customsBrokerageFee: number; // GBP per shipment
+  unitsPerShipment: number;
+}
+
+export interface ProductDimensions {
+  weightKg: number;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  category: string | null; // Catalog product type, used for duty rates
+}
+
+export interface LandedProfit {
+  landedCost: number;
+  landedProfit: number;
+  landedRoi: number;
+  landedCostBreakdown: LandedCostBreakdown;
+}
+
+export const EMPTY_LANDED_COST_PROFILE: LandedCostProfile = {
+  prepFeePerUnit: 0,
+  freightPerKg: {},
+  defaultFreightPerKg: 0,
+  dutyRates: {},
+  defaultDutyRate: 0,
+  customsBrokerageFee: 0,
+  unitsPerShipment: 100
+};
+
+const LENGTH_TO_CM: Record<string, number> = {
+  millimeters: 0.1,
+  centimeters: 1,
+  meters: 100,
+  inches: 2.54,
+  feet: 30.48
+};
+
+const WEIGHT_TO_KG: Record<string, number> = {
+  grams: 0.001,
+  kilograms: 1,
+  ounces: 0.0283495,
+  pounds: 0.45359237
+};
+
+function toCm(measure?: { value: number; unit: string }): number {
+  if (!measure?.value) return 0;
+  return measure.value * (LENGTH_TO_CM[measure.unit?.toLowerCase()] ?? 1);
+}
+
+function toKg(measure?: { value: number; unit: string }): number {
+  if (!measure?.value) return 0;
+  return measure.value * (WEIGHT_TO_KG[measure.unit?.toLowerCase()] ?? 1);
+}
+
+/**
+ * Read dimensions from a catalog item (requested with includedData 'dimensions'
+ * and 'productTypes'). Package dimensions are preferred as that is what ships.
+ */
+export function extractProductDimensions(
+  item: CatalogItem,
+  marketplaceId: string = MARKETPLACES.UK.id
+): ProductDimensions | null {
+  const entry = item.dimensions?.find(d => d.marketplaceId === marketplaceId) || item.dimensions?.[0];
+  const measured = entry?.package || entry?.item;
+  const category = item.productTypes?.find(p => p.marketplaceId === marketplaceId)?.productType
+    || item.productTypes?.[0]?.productType
+    || null;
+
+  if (!measured) {
+    return category ? { weightKg: 0, lengthCm: 0, widthCm: 0, heightCm: 0, category } : null;
+  }
+
+  return {
+    weightKg: toKg(measured.weight),
+    lengthCm: toCm(measured.length),
+    widthCm: toCm(measured.width),
+    heightCm: toCm(measured.height),
+    category
+  };
+}
+
+export function mapLandedCostProfile(row: any): LandedCostProfile {
+  const upperKeys = (values: Record<string, number> | null) =>
+    Object.fromEntries(
+      Object.entries(values || {}).map(([key, value]) => [key.toUpperCase(), Number(value) || 0])
+    );
+
+  return {
+    prepFeePerUnit: Number(row.prep_fee_per_unit) || 0,
+    freightPerKg: upperKeys(row.freight_per_kg),
+    defaultFreightPerKg: Number(row.default_freight_per_kg) || 0,
+    dutyRates: upperKeys(row.duty_rates),
+    defaultDutyRate: Number(row.default_duty_rate) || 0,
+    customsBrokerageFee: Number(row.customs_brokerage_fee) || 0,
+    unitsPerShipment: Number(row.units_per_shipment) || EMPTY_LANDED_COST_PROFILE.unitsPerShipment
+  };
+}
+
+/**
+ * Whether applying the profile needs catalog data (weight for freight, product type for duty)
+ */
+export function profileNeedsCatalogData(profile: LandedCostProfile): boolean {
+  return profile.defaultFreightPerKg > 0
+    || Object.values(profile.freightPerKg).some(rate => rate > 0)
+    || Object.keys(profile.dutyRates).length > 0;
+}
+
+/**
+ * Apply a landed cost profile to a gross per-unit profit
+ */
+export function calculateLandedProfit(params: {
+  profile: LandedCostProfile;
+  sourceMarketplace: string;
+  sourcePriceGBP: number;
+  profit: number;
+  dimensions?: ProductDimensions | null;
+}): LandedProfit {
+  const { profile, sourceMarketplace, sourcePriceGBP, profit, dimensions } = params;
+  const category = dimensions?.category?.toUpperCase();
+
+  const breakdown = ArbitrageCalculator.calculateLandedCost({
+    sourcePriceGBP,
+    dimensions: dimensions && dimensions.weightKg + dimensions.lengthCm > 0 ? dimensions : null,
+    prepFeePerUnit: profile.prepFeePerUnit,
+    freightPerKg: profile.freightPerKg[sourceMarketplace.toUpperCase()] ?? profile.defaultFreightPerKg,
+    dutyRatePercent: category && category in profile.dutyRates
+      ? profile.dutyRates[category]
+      : profile.defaultDutyRate,
+    customsBrokerageFee: profile.customsBrokerageFee,
+    unitsPerShipment: profile.unitsPerShipment
+  });
+
+  const landedProfit = profit - breakdown.total;
+  const totalInvestment = sourcePriceGBP + breakdown.total;
+
+  return {
+    landedCost: breakdown.total,
+    landedProfit,
+    landedRoi: totalInvestment > 0 ? (landedProfit / totalInvestment) * 100 : 0,
+    landedCostBreakdown: breakdown
+  };
+}
+
+/**
+ * Columns for arbitrage_opportunities
+ */
+export function toLandedCostColumns(landed: LandedProfit) {
+  return {
+    landed_cost: landed.landedCost,
+    landed_profit: landed.landedProfit,
+    landed_roi: landed.landedRoi,
+    landed_cost_breakdown: landed.landedCostBreakdown
+  };
+}
+
+// Dimensions are shared by scans, supplier imports and classification, so bound them by count and age
+const DIMENSIONS_CACHE_MAX_ENTRIES = 5000;
+const DIMENSIONS_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+class LandedCostService {
+  private dimensionsCache = new LruCache<string, ProductDimensions | null>(DIMENSIONS_CACHE_MAX_ENTRIES, DIMENSIONS_CACHE_TTL_MS);
+  private supabase: SupabaseClient | null = null;
+
+  /**
+   * Load a user's profile. Users without one (or with it disabled) get the
+   * empty profile, so landed profit equals gross profit.
+   */
+  async getProfile(userId: string): Promise<LandedCostProfile> {
+    const supabase = this.getClient();
+    if (!supabase) return EMPTY_LANDED_COST_PROFILE;
+
+    const { data, error } = await supabase
+      .from('landed_cost_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[LandedCost] Failed to load profile:', error);
+      return EMPTY_LANDED_COST_PROFILE;
+    }
+
+    if (!data || data.enabled === false) {
+      return EMPTY_LANDED_COST_PROFILE;
+    }
+
+    return mapLandedCostProfile(data);
+  }
+
+  /**
+   * Catalog dimensions for an ASIN, cached for a few hours
+   */
+  async getDimensions(asin: string, catalogClient: SPAPICatalogClient): Promise<ProductDimensions | null> {
+    const cached = this.dimensionsCache.get(asin);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const item = await catalogClient.getCatalogItem(
+        asin,
+        [MARKETPLACES.UK.id],
+        ['dimensions', 'productTypes']
+      );
+      const dimensions = extractProductDimensions(item);
+      this.dimensionsCache.set(asin, dimensions);
+      return dimensions;
+    } catch (error) {
+      console.error(`[LandedCost] Catalog lookup failed for ${asin}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache dimensions read from a catalog item a route already fetched
+   */
+  rememberDimensions(asin: string, dimensions: ProductDimensions | null) {
+    this.dimensionsCache.set(asin, dimensions);
+  }
+
+  /**
+   * Landed profit for one opportunity, fetching catalog data only when the profile needs it
+   */
+  async evaluate(params: {
+    asin: string;
+    profile: LandedCostProfile;
+    sourceMarketplace: string;
+    sourcePriceGBP: number;
+    profit: number;
+    catalogClient?: SPAPICatalogClient;
+    dimensions?: ProductDimensions | null;
+  }): Promise<LandedProfit> {
+    let dimensions = params.dimensions;
+
+    // Landed costs only lower profit, so loss-making deals don't need a catalog lookup
+    if (
+      dimensions === undefined &&
+      params.catalogClient &&
+      params.profit > 0 &&
+      profileNeedsCatalogData(params.profile)
+    ) {
+      dimensions = await this.getDimensions(params.asin, params.catalogClient);
+    }
+
+    return calculateLandedProfit({
+      profile: params.profile,
+      sourceMarketplace: params.sourceMarketplace,
+      sourcePriceGBP: params.sourcePriceGBP,
+      profit: params.profit,
+      dimensions
+    });
+  }
+
+  private getClient(): SupabaseClient | null {
+    if (!this.supabase) {
+      try {
+        this.supabase = getServiceRoleClient();
+      } catch {
+        return null;
+      }
+    }
+    return this.supabase;
+  }
+}
+
+export const landedCostService = new LandedCostService();
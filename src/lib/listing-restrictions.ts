@@ -0,0 +1,188 @@
+/**
+ * Gated ASIN detection
+ *
+ * Asks the Listings Restrictions API whether our seller account can list an
+ * ASIN (new condition) in a marketplace. Results are cached in
+ * asin_listing_restrictions per ASIN, seller and marketplace, since approval
+ * status changes rarely and the API allows 5 requests per second.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { SPAPIListingsRestrictionsClient, RestrictionList } from '@/lib/sp-api-listings-restrictions';
+import { checkEnvVars } from '@/lib/env-check';
+import { MARKETPLACES, getMarketplace } from '@/lib/amazon-marketplaces';
+import type { RestrictionStatus } from '@/lib/restriction-status';
+
+export type { RestrictionStatus } from '@/lib/restriction-status';
+
+export interface ListingRestriction {
+  asin: string;
+  marketplace: string;
+  status: RestrictionStatus;
+  reasons: Array<{ reasonCode: string | null; message: string }>;
+  checkedAt: string;
+}
+
+// Re-check cached results after a week
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * No restrictions means ungated; approval_required only when every reason is
+ * APPROVAL_REQUIRED, otherwise gated.
+ */
+export function parseRestrictionStatus(result: RestrictionList): Pick<ListingRestriction, 'status' | 'reasons'> {
+  const reasons = (result.restrictions || []).flatMap(restriction =>
+    (restriction.reasons || []).map(reason => ({
+      reasonCode: reason.reasonCode || null,
+      message: reason.message
+    }))
+  );
+
+  if ((result.restrictions || []).length === 0) {
+    return { status: 'ungated', reasons };
+  }
+
+  const approvalOnly = reasons.length > 0 && reasons.every(reason => reason.reasonCode === 'APPROVAL_REQUIRED');
+
+  return { status: approvalOnly ? 'approval_required' : 'gated', reasons };
+}
+
+class ListingRestrictionsService {
+  private client: SPAPIListingsRestrictionsClient | null = null;
+  private supabase: SupabaseClient | null = null;
+
+  /**
+   * Restriction status for each ASIN in a marketplace. Cached results are
+   * reused; the rest are fetched and cached. ASINs whose lookup fails are left
+   * out, as is everything when AMAZON_SELLER_ID isn't configured.
+   */
+  async getStatuses(asins: string[], marketplace: string): Promise<Map<string, ListingRestriction>> {
+    const results = new Map<string, ListingRestriction>();
+    const sellerId = checkEnvVars({ amazon: { sellerId: true } }).values.amazonSellerId;
+    const marketplaceId = getMarketplace(marketplace)?.id;
+    const uniqueAsins = [...new Set(asins)];
+
+    if (!sellerId || !marketplaceId || uniqueAsins.length === 0) {
+      return results;
+    }
+
+    const supabase = this.getSupabase();
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('asin_listing_restrictions')
+        .select('asin, marketplace, status, reasons, checked_at')
+        .eq('seller_id', sellerId)
+        .eq('marketplace', marketplace)
+        .in('asin', uniqueAsins)
+        .gte('checked_at', new Date(Date.now() - CACHE_TTL_MS).toISOString());
+
+      if (error) {
+        console.error('[ListingRestrictions] Failed to load cached results:', error);
+      }
+
+      for (const row of data || []) {
+        results.set(row.asin, {
+          asin: row.asin,
+          marketplace: row.marketplace,
+          status: row.status,
+          reasons: row.reasons || [],
+          checkedAt: row.checked_at
+        });
+      }
+    }
+
+    const uncached = uniqueAsins.filter(asin => !results.has(asin));
+    const client = uncached.length > 0 ? this.getClient() : null;
+    if (!client) {
+      return results;
+    }
+
+    const fetched: ListingRestriction[] = [];
+
+    for (const asin of uncached) {
+      try {
+        const response = await client.getListingsRestrictions({
+          asin,
+          sellerId,
+          marketplaceIds: [marketplaceId]
+        });
+        const restriction: ListingRestriction = {
+          asin,
+          marketplace,
+          ...parseRestrictionStatus(response),
+          checkedAt: new Date().toISOString()
+        };
+        results.set(asin, restriction);
+        fetched.push(restriction);
+      } catch (error) {
+        console.error(`[ListingRestrictions] Lookup failed for ${asin}:`, error);
+      }
+    }
+
+    if (supabase && fetched.length > 0) {
+      const { error } = await supabase
+        .from('asin_listing_restrictions')
+        .upsert(
+          fetched.map(restriction => ({
+            asin: restriction.asin,
+            seller_id: sellerId,
+            marketplace: restriction.marketplace,
+            status: restriction.status,
+            reasons: restriction.reasons,
+            checked_at: restriction.checkedAt
+          })),
+          { onConflict: 'asin,seller_id,marketplace' }
+        );
+
+      if (error) {
+        console.error('[ListingRestrictions] Failed to cache results:', error);
+      }
+    }
+
+    return results;
+  }
+
+  private getClient(): SPAPIListingsRestrictionsClient | null {
+    if (!this.client) {
+      const envCheck = checkEnvVars({
+        aws: { accessKeyId: true, secretAccessKey: true, region: true },
+        amazon: { accessKeyId: true, secretAccessKey: true, refreshToken: true }
+      });
+
+      if (!envCheck.success) {
+        return null;
+      }
+
+      this.client = new SPAPIListingsRestrictionsClient(
+        {
+          accessKeyId: envCheck.values.awsAccessKeyId,
+          secretAccessKey: envCheck.values.awsSecretAccessKey,
+          region: envCheck.values.awsRegion
+        },
+        {
+          clientId: envCheck.values.amazonAccessKeyId,
+          clientSecret: envCheck.values.amazonSecretAccessKey,
+          refreshToken: envCheck.values.amazonRefreshToken,
+          marketplaceId: MARKETPLACES.UK.id,
+          region: 'eu'
+        }
+      );
+    }
+    return this.client;
+  }
+
+  private getSupabase(): SupabaseClient | null {
+    if (!this.supabase) {
+      try {
+        this.supabase = getServiceRoleClient();
+      } catch {
+        return null;
+      }
+    }
+    return this.supabase;
+  }
+}
+
+export const listingRestrictionsService = new ListingRestrictionsService();
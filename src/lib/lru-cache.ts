@@ -0,0 +1,54 @@
+/**
+ * Bounded in-memory cache for the long-running server process
+ *
+ * Entries expire after a TTL, and once the cache is full the least recently
+ * used entry is evicted. A Map keeps insertion order, so re-inserting on
+ * every read keeps the oldest entry first.
+ */
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class LruCache<K, V> {
+  private entries = new Map<K, CacheEntry<V>>();
+
+  constructor(private maxEntries: number, private ttlMs: number) {}
+
+  /**
+   * The cached value, or undefined when missing or expired (null is a valid value)
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (Date.now() > entry.expiresAt) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: K): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Next run time for the frequency options in FrequencySelector
+ *
+ * Wall clock times (time of day, daily times, business hours) are in the
+ * schedule's IANA timezone, so runs stay at the same local time across DST.
+ * Shared by the settings UI (to show the next run on save) and the executors.
+ */
+
+export interface ScheduleFrequency {
+  frequencyType: 'simple' | 'hourly' | 'multiple_daily' | 'custom'
+  frequency: 'daily' | 'every_2_days' | 'weekly'
+  hourlyInterval?: number
+  dailyTimes?: string[]
+  timeOfDay: string
+  daysOfWeek: number[] // 1 = Monday ... 7 = Sunday
+  businessHoursOnly?: boolean
+  businessHoursStart?: string
+  businessHoursEnd?: string
+  customIntervalHours?: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7]
+
+// Weekly schedules repeat within 8 days; a little slack covers DST edges
+const MAX_LOOKAHEAD_DAYS = 9
+
+interface LocalDateTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+/**
+ * Map a schedule settings row (user_*_settings columns) to a ScheduleFrequency
+ */
+export function frequencyFromRow(row: Record<string, any>): ScheduleFrequency {
+  return {
+    frequencyType: row.frequency_type || 'simple',
+    frequency: row.frequency || 'daily',
+    hourlyInterval: row.hourly_interval ?? undefined,
+    dailyTimes: row.daily_times ?? undefined,
+    timeOfDay: row.time_of_day || '09:00',
+    daysOfWeek: row.days_of_week || ALL_DAYS,
+    businessHoursOnly: row.business_hours_only ?? undefined,
+    businessHoursStart: row.business_hours_start ?? undefined,
+    businessHoursEnd: row.business_hours_end ?? undefined,
+    customIntervalHours: row.custom_interval_hours ?? undefined
+  }
+}
+
+/**
+ * First run strictly after `from`
+ */
+export function calculateNextRun(frequency: ScheduleFrequency, timezone: string = 'UTC', from: Date = new Date()): Date {
+  switch (frequency.frequencyType) {
+    case 'hourly': {
+      const next = new Date(from.getTime() + (frequency.hourlyInterval || 1) * HOUR_MS)
+      return frequency.businessHoursOnly ? moveIntoBusinessHours(next, frequency, timezone) : next
+    }
+
+    case 'custom':
+      return new Date(from.getTime() + (frequency.customIntervalHours || 24) * HOUR_MS)
+
+    case 'multiple_daily': {
+      const times = (frequency.dailyTimes?.length ? frequency.dailyTimes : [frequency.timeOfDay])
+        .filter(time => !frequency.businessHoursOnly || isWithinBusinessHours(parseTime(time), frequency))
+      return nextWallClockTime(from, timezone, times.length > 0 ? times : [frequency.timeOfDay], ALL_DAYS)
+    }
+
+    default:
+      if (frequency.frequency === 'weekly') {
+        const days = frequency.daysOfWeek.length > 0 ? frequency.daysOfWeek : ALL_DAYS
+        return nextWallClockTime(from, timezone, [frequency.timeOfDay], days)
+      }
+
+      if (frequency.frequency === 'every_2_days') {
+        // Skip the next day's slot
+        return nextWallClockTime(new Date(from.getTime() + 24 * HOUR_MS), timezone, [frequency.timeOfDay], ALL_DAYS)
+      }
+
+      return nextWallClockTime(from, timezone, [frequency.timeOfDay], ALL_DAYS)
+  }
+}
+
+function nextWallClockTime(from: Date, timezone: string, times: string[], days: number[]): Date {
+  const today = toLocal(from, timezone)
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset))
+    const weekday = date.getUTCDay() || 7
+
+    if (!days.includes(weekday)) continue
+
+    const candidates = times
+      .map(time => {
+        const { hour, minute } = parseTime(time)
+        return fromLocal({
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+          hour,
+          minute
+        }, timezone)
+      })
+      .filter(candidate => candidate.getTime() > from.getTime())
+      .sort((a, b) => a.getTime() - b.getTime())
+
+    if (candidates.length > 0) {
+      return candidates[0]
+    }
+  }
+
+  return new Date(from.getTime() + 24 * HOUR_MS)
+}
+
+/**
+ * Hourly runs that land outside business hours wait for the next opening
+ */
+function moveIntoBusinessHours(next: Date, frequency: ScheduleFrequency, timezone: string): Date {
+  const local = toLocal(next, timezone)
+
+  if (isWithinBusinessHours(local, frequency)) {
+    return next
+  }
+
+  return nextWallClockTime(next, timezone, [frequency.businessHoursStart || '09:00'], ALL_DAYS)
+}
+
+function isWithinBusinessHours(time: { hour: number; minute: number }, frequency: ScheduleFrequency): boolean {
+  const start = parseTime(frequency.businessHoursStart || '09:00')
+  const end = parseTime(frequency.businessHoursEnd || '17:00')
+  const minutes = time.hour * 60 + time.minute
+
+  return minutes >= start.hour * 60 + start.minute && minutes <= end.hour * 60 + end.minute
+}
+
+// Accepts HH:MM and the HH:MM:SS returned for TIME columns
+function parseTime(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map(part => parseInt(part, 10) || 0)
+  return { hour, minute }
+}
+
+function toLocal(date: Date, timezone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date)
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0)
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute')
+  }
+}
+
+/**
+ * The instant a local wall clock time occurs in the timezone. Times skipped by
+ * a DST change resolve to the same offset as the hour before.
+ */
+function fromLocal(local: LocalDateTime, timezone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  let instant = asUtc - timezoneOffset(new Date(asUtc), timezone)
+
+  // The offset can differ at the target instant when a DST change falls in between
+  const offset = timezoneOffset(new Date(instant), timezone)
+  instant = asUtc - offset
+
+  return new Date(instant)
+}
+
+function timezoneOffset(date: Date, timezone: string): number {
+  const local = toLocal(date, timezone)
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000
+}
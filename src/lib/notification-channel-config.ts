@@ -0,0 +1,162 @@
+/**
+ * Notification channel config checks
+ *
+ * Channel configs are typed by the user and the server POSTs to the URLs in
+ * them, so every URL has to be a public https endpoint: no loopback, private,
+ * link-local or metadata addresses, whatever the hostname resolves to.
+ * Discord and Slack URLs must also be on those services' webhook hosts.
+ * Configs are checked when saved and again before every delivery.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { AppError } from './error-handling';
+import type { NotificationChannelType } from './notification-channel-types';
+
+const DISCORD_WEBHOOK_HOSTS = ['discord.com', 'discordapp.com', 'ptb.discord.com', 'canary.discord.com'];
+const SLACK_WEBHOOK_HOSTS = ['hooks.slack.com'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_URL_LENGTH = 2048;
+
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 of IPv4 addresses
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8] // Multicast
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export function isBlockedAddress(address: string): boolean {
+  // Check IPv4-mapped IPv6 (::ffff:10.0.0.1) against the IPv4 ranges
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return blockedAddresses.check(mapped[1], 'ipv4');
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function parseHttpsUrl(value: unknown, allowedHosts?: string[]): URL {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_URL_LENGTH) {
+    throw new AppError('A valid URL is required', 400, 'INVALID_CHANNEL_CONFIG');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new AppError('A valid URL is required', 400, 'INVALID_CHANNEL_CONFIG');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new AppError('Only https URLs are allowed', 400, 'INVALID_CHANNEL_CONFIG');
+  }
+
+  if (url.username || url.password) {
+    throw new AppError('URLs with credentials are not allowed', 400, 'INVALID_CHANNEL_CONFIG');
+  }
+
+  if (allowedHosts && !allowedHosts.includes(url.hostname.toLowerCase())) {
+    throw new AppError(`URL must be on ${allowedHosts[0]}`, 400, 'INVALID_CHANNEL_CONFIG');
+  }
+
+  return url;
+}
+
+/**
+ * Throws unless every address the URL's host resolves to is public
+ */
+export async function assertPublicUrl(value: string, allowedHosts?: string[]): Promise<void> {
+  const url = parseHttpsUrl(value, allowedHosts);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map(result => result.address);
+  } catch {
+    throw new AppError(`Could not resolve ${hostname}`, 400, 'INVALID_CHANNEL_CONFIG');
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new AppError('URL must point to a public host', 400, 'INVALID_CHANNEL_CONFIG');
+  }
+}
+
+/**
+ * The hosts a channel type may deliver to; undefined means any public host
+ */
+export function getAllowedWebhookHosts(type: NotificationChannelType): string[] | undefined {
+  switch (type) {
+    case 'discord':
+      return DISCORD_WEBHOOK_HOSTS;
+    case 'slack':
+      return SLACK_WEBHOOK_HOSTS;
+    default:
+      return undefined;
+  }
+}
+
+function requireString(config: Record<string, unknown>, key: string, label: string): string {
+  const value = config[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new AppError(`${label} is required`, 400, 'INVALID_CHANNEL_CONFIG');
+  }
+  return value.trim();
+}
+
+/**
+ * Validate a channel config from the browser and keep only its known fields
+ */
+export async function validateChannelConfig(
+  type: Exclude<NotificationChannelType, 'telegram'>,
+  config: unknown
+): Promise<Record<string, string>> {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new AppError('Invalid channel config', 400, 'INVALID_CHANNEL_CONFIG');
+  }
+  const input = config as Record<string, unknown>;
+
+  switch (type) {
+    case 'email': {
+      const to = requireString(input, 'to', 'Email Address');
+      if (!EMAIL_PATTERN.test(to)) {
+        throw new AppError('Invalid email address', 400, 'INVALID_CHANNEL_CONFIG');
+      }
+      return { to };
+    }
+    case 'discord':
+    case 'slack': {
+      const webhookUrl = requireString(input, 'webhookUrl', 'Webhook URL');
+      await assertPublicUrl(webhookUrl, getAllowedWebhookHosts(type));
+      return { webhookUrl };
+    }
+    case 'webhook': {
+      const url = requireString(input, 'url', 'URL');
+      const secret = requireString(input, 'secret', 'Signing Secret');
+      await assertPublicUrl(url);
+      return { url, secret };
+    }
+  }
+}
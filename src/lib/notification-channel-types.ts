@@ -0,0 +1,37 @@
+/**
+ * Notification channel types, shared by the notifications page and the server-side channels
+ */
+
+export type NotificationChannelType = 'telegram' | 'email' | 'discord' | 'slack' | 'webhook';
+
+export const NOTIFICATION_CHANNELS: Array<{ type: NotificationChannelType; label: string }> = [
+  { type: 'telegram', label: 'Telegram' },
+  { type: 'email', label: 'Email' },
+  { type: 'discord', label: 'Discord' },
+  { type: 'slack', label: 'Slack' },
+  { type: 'webhook', label: 'Webhook' }
+];
+
+// Preferences saved before channel routing existed only went to Telegram
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannelType[] = ['telegram'];
+
+export interface EmailChannelConfig {
+  to: string;
+}
+
+export interface DiscordChannelConfig {
+  webhookUrl: string;
+}
+
+export interface SlackChannelConfig {
+  webhookUrl: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret: string;
+}
+
+export function getChannelLabel(type: NotificationChannelType): string {
+  return NOTIFICATION_CHANNELS.find(channel => channel.type === type)?.label || type;
+}
@@ -0,0 +1,230 @@
+/**
+ * Notification delivery channels
+ *
+ * Every channel renders the same template from notification-templates and
+ * converts its Telegram Markdown to what the destination understands:
+ * Slack mrkdwn uses the same syntax, Discord wants **bold**, email gets a
+ * plain text and an HTML part, and generic webhooks receive JSON signed with
+ * the user's secret.
+ */
+
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { TelegramBotService } from './telegram-bot';
+import { renderNotificationText, getNotificationTitle } from './notification-templates';
+import { assertPublicUrl, getAllowedWebhookHosts } from './notification-channel-config';
+import type {
+  NotificationChannelType,
+  EmailChannelConfig,
+  DiscordChannelConfig,
+  SlackChannelConfig,
+  WebhookChannelConfig
+} from './notification-channel-types';
+
+export type { NotificationChannelType } from './notification-channel-types';
+
+export interface TelegramChannelConfig {
+  chatId: string;
+  botToken?: string;
+}
+
+export interface ChannelSendResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(notificationType: string, data: Record<string, any>): Promise<ChannelSendResult>;
+}
+
+// Discord rejects message content over 2000 characters
+const DISCORD_MAX_LENGTH = 2000;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+function toPlainText(text: string): string {
+  return text.replace(/\*([^*\n]+)\*/g, '$1').replace(/`([^`\n]+)`/g, '$1');
+}
+
+function toHtml(text: string): string {
+  const escaped = text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  return escaped
+    .replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>')
+    .replace(/`([^`\n]+)`/g, '<code>$1</code>')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * POST to a user-supplied URL. The URL is re-checked on every send, since a
+ * stored config or the host's DNS may have changed since it was saved, and
+ * redirects aren't followed so a public URL can't bounce to an internal one.
+ */
+async function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {},
+  allowedHosts?: string[]
+): Promise<ChannelSendResult> {
+  try {
+    await assertPublicUrl(url, allowedHosts);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      return { ok: false, error: `HTTP ${response.status}: ${await response.text()}` };
+    }
+
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+export class TelegramChannel implements NotificationChannel {
+  readonly type = 'telegram' as const;
+
+  private bot: TelegramBotService;
+
+  // Pass the shared default bot so its rate limiting spans users; a custom bot token gets its own
+  constructor(private config: TelegramChannelConfig, defaultBot?: TelegramBotService) {
+    this.bot = config.botToken || !defaultBot ? new TelegramBotService(config.botToken) : defaultBot;
+  }
+
+  async send(notificationType: string, data: Record<string, any>): Promise<ChannelSendResult> {
+    const result = await this.bot.sendNotification(this.config.chatId, notificationType, data);
+
+    return { ok: result.ok, error: result.description };
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private static transporter: Transporter | null = null;
+
+  constructor(private config: EmailChannelConfig) {}
+
+  async send(notificationType: string, data: Record<string, any>): Promise<ChannelSendResult> {
+    const transporter = EmailChannel.getTransporter();
+    if (!transporter) {
+      return { ok: false, error: 'SMTP is not configured' };
+    }
+
+    const text = renderNotificationText(notificationType, data);
+
+    try {
+      await transporter.sendMail({
+        from: process.env.SMTP_FROM || process.env.SMTP_USER,
+        to: this.config.to,
+        subject: getNotificationTitle(text),
+        text: toPlainText(text),
+        html: toHtml(text)
+      });
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Failed to send email' };
+    }
+  }
+
+  private static getTransporter(): Transporter | null {
+    if (!process.env.SMTP_HOST) {
+      return null;
+    }
+
+    if (!EmailChannel.transporter) {
+      const port = parseInt(process.env.SMTP_PORT || '587', 10);
+
+      EmailChannel.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined
+      });
+    }
+    return EmailChannel.transporter;
+  }
+}
+
+export class DiscordChannel implements NotificationChannel {
+  readonly type = 'discord' as const;
+
+  constructor(private config: DiscordChannelConfig) {}
+
+  async send(notificationType: string, data: Record<string, any>): Promise<ChannelSendResult> {
+    const content = renderNotificationText(notificationType, data)
+      .replace(/\*([^*\n]+)\*/g, '**$1**')
+      .slice(0, DISCORD_MAX_LENGTH);
+
+    return postJson(this.config.webhookUrl, JSON.stringify({ content }), {}, getAllowedWebhookHosts(this.type));
+  }
+}
+
+export class SlackChannel implements NotificationChannel {
+  readonly type = 'slack' as const;
+
+  constructor(private config: SlackChannelConfig) {}
+
+  async send(notificationType: string, data: Record<string, any>): Promise<ChannelSendResult> {
+    const text = renderNotificationText(notificationType, data);
+    return postJson(this.config.webhookUrl, JSON.stringify({ text, mrkdwn: true }), {}, getAllowedWebhookHosts(this.type));
+  }
+}
+
+/**
+ * Posts { type, title, text, data, sentAt } as JSON. Receivers verify
+ * X-Signature, an HMAC-SHA256 of `${X-Timestamp}.${body}` with the shared
+ * secret, and can reject old timestamps to stop replays.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook' as const;
+
+  constructor(private config: WebhookChannelConfig) {}
+
+  async send(notificationType: string, data: Record<string, any>): Promise<ChannelSendResult> {
+    const text = renderNotificationText(notificationType, data);
+    const body = JSON.stringify({
+      type: notificationType,
+      title: getNotificationTitle(text),
+      text: toPlainText(text),
+      data,
+      sentAt: new Date().toISOString()
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    return postJson(this.config.url, body, {
+      'X-Timestamp': timestamp,
+      'X-Signature': `sha256=${signWebhookPayload(this.config.secret, timestamp, body)}`
+    });
+  }
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function createChannel(type: NotificationChannelType, config: Record<string, any>): NotificationChannel {
+  switch (type) {
+    case 'telegram':
+      return new TelegramChannel(config as TelegramChannelConfig);
+    case 'email':
+      return new EmailChannel(config as EmailChannelConfig);
+    case 'discord':
+      return new DiscordChannel(config as DiscordChannelConfig);
+    case 'slack':
+      return new SlackChannel(config as SlackChannelConfig);
+    case 'webhook':
+      return new WebhookChannel(config as WebhookChannelConfig);
+  }
+}
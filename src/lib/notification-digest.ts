@@ -0,0 +1,136 @@
+/**
+ * Digest delivery for notification types
+ *
+ * Types in daily or weekly mode are queued instead of sent and flushed by
+ * NotificationService.processQueue as one notification_digest per user and type.
+ */
+
+import { calculateNextRun } from './next-run';
+
+export type DeliveryMode = 'instant' | 'daily' | 'weekly';
+
+export const DELIVERY_MODES: Array<{ value: DeliveryMode; label: string }> = [
+  { value: 'instant', label: 'Instant' },
+  { value: 'daily', label: 'Daily digest' },
+  { value: 'weekly', label: 'Weekly digest' }
+];
+
+// Digests go out at 08:00 UK time, weekly ones on Mondays
+const DIGEST_TIME = '08:00';
+const DIGEST_TIMEZONE = 'Europe/London';
+const DIGEST_WEEKDAY = 1;
+
+const DIGEST_TOP_DEALS = 5;
+const DIGEST_MAX_LINES = 15;
+
+export interface DigestDeal {
+  asin: string;
+  productName: string;
+  profit: number;
+  roi: number;
+  storefrontName?: string;
+}
+
+export interface DigestScan {
+  name: string;
+  url?: string;
+  productsAnalyzed: number;
+  profitableCount: number;
+  totalProfit: number;
+}
+
+export function isDigestMode(mode?: string | null): mode is 'daily' | 'weekly' {
+  return mode === 'daily' || mode === 'weekly';
+}
+
+export function getNextDigestTime(mode: 'daily' | 'weekly', from: Date = new Date()): Date {
+  return calculateNextRun({
+    frequencyType: 'simple',
+    frequency: mode,
+    timeOfDay: DIGEST_TIME,
+    daysOfWeek: [DIGEST_WEEKDAY]
+  }, DIGEST_TIMEZONE, from);
+}
+
+export function getScanUrl(scanId: string): string {
+  return `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/dashboard/a2a-eu?scanId=${scanId}`;
+}
+
+/**
+ * Summary data for the notification_digest template from the queued
+ * notifications' data. Deals are summarised (top by profit and ROI, counts
+ * per storefront, scan links), scans listed with their results, and other
+ * types listed by title.
+ */
+export function buildDigestData(
+  sourceType: string,
+  mode: 'daily' | 'weekly',
+  items: Array<Record<string, any>>,
+  titleOf: (data: Record<string, any>) => string
+): Record<string, any> {
+  const digest: Record<string, any> = { sourceType, mode, count: items.length };
+
+  if (sourceType === 'high_profit_deal') {
+    // The same ASIN can be reported by several scans; keep its best result
+    const deals = new Map<string, DigestDeal>();
+
+    for (const item of items) {
+      const deal: DigestDeal = {
+        asin: item.asin,
+        productName: item.productName || item.asin,
+        profit: Number(item.profit) || 0,
+        roi: Number(item.roi) || 0,
+        storefrontName: item.storefrontName
+      };
+      const existing = deals.get(deal.asin);
+      if (!existing || deal.profit > existing.profit) {
+        deals.set(deal.asin, deal);
+      }
+    }
+
+    const uniqueDeals = [...deals.values()];
+    const storefrontCounts = new Map<string, number>();
+    for (const deal of uniqueDeals) {
+      const name = deal.storefrontName || 'Other';
+      storefrontCounts.set(name, (storefrontCounts.get(name) || 0) + 1);
+    }
+
+    const scans = new Map<string, string>();
+    for (const item of items) {
+      if (item.scanId && !scans.has(item.scanId)) {
+        scans.set(item.scanId, item.scanName || 'Scan');
+      }
+    }
+
+    digest.dealCount = uniqueDeals.length;
+    digest.topByProfit = [...uniqueDeals].sort((a, b) => b.profit - a.profit).slice(0, DIGEST_TOP_DEALS);
+    digest.topByRoi = [...uniqueDeals].sort((a, b) => b.roi - a.roi).slice(0, DIGEST_TOP_DEALS);
+    digest.storefronts = [...storefrontCounts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, DIGEST_MAX_LINES);
+    digest.scans = [...scans.entries()]
+      .slice(0, DIGEST_MAX_LINES)
+      .map(([scanId, name]) => ({ name, url: getScanUrl(scanId) }));
+    return digest;
+  }
+
+  if (sourceType === 'scan_complete') {
+    const scans: DigestScan[] = items.map(item => ({
+      name: item.scanName || item.scanType,
+      url: item.scanId ? getScanUrl(item.scanId) : undefined,
+      productsAnalyzed: Number(item.productsAnalyzed) || 0,
+      profitableCount: Number(item.profitableCount) || 0,
+      totalProfit: Number(item.totalProfit) || 0
+    }));
+
+    digest.productsAnalyzed = scans.reduce((sum, scan) => sum + scan.productsAnalyzed, 0);
+    digest.profitableCount = scans.reduce((sum, scan) => sum + scan.profitableCount, 0);
+    digest.totalProfit = scans.reduce((sum, scan) => sum + scan.totalProfit, 0);
+    digest.scans = [...scans].sort((a, b) => b.totalProfit - a.totalProfit).slice(0, DIGEST_MAX_LINES);
+    return digest;
+  }
+
+  digest.titles = items.slice(0, DIGEST_MAX_LINES).map(titleOf);
+  return digest;
+}
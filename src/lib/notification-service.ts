@@ -1,18 +1,26 @@
 import { createClient } from '@supabase/supabase-js';
 import { TelegramBotService } from './telegram-bot';
 import { getServiceRoleClient } from './supabase-server';
+import { NotificationChannel, TelegramChannel, createChannel } from './notification-channels';
+import { DEFAULT_NOTIFICATION_CHANNELS, NotificationChannelType } from './notification-channel-types';
+import { DeliveryMode, buildDigestData, getNextDigestTime, isDigestMode } from './notification-digest';
+import { renderNotificationText, getNotificationTitle } from './notification-templates';
 
 export interface NotificationData {
   userId: string;
   type: string;
   data: Record<string, any>;
   priority?: 'immediate' | 'normal' | 'low';
+  // Overrides the user's routing for the type, e.g. to test one channel
+  channels?: NotificationChannelType[];
 }
 
 export interface NotificationPreference {
   notification_type: string;
   enabled: boolean;
   priority: string;
+  channels?: NotificationChannelType[] | null;
+  delivery_mode?: DeliveryMode | null;
 }
 
 export interface TelegramConnection {
@@ -21,6 +29,12 @@ export interface TelegramConnection {
   enabled: boolean;
 }
 
+// Digest entries flushed per run; a busy week of deals for every user fits comfortably
+const DIGEST_QUEUE_LIMIT = 2000;
+
+// Entries left in processing this long were claimed by a run that died mid-send
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
 export class NotificationService {
   private supabase;
   private telegramBot: TelegramBotService;
@@ -31,21 +45,14 @@ export class NotificationService {
   }
 
   /**
-   * Send a notification to a user
+   * Send a notification to a user on each channel their preference for the
+   * type routes it to. Returns true when at least one channel delivered it,
+   * or when the type is in digest mode and it was queued for the next digest.
    */
   async sendNotification(notification: NotificationData): Promise<boolean> {
     try {
       console.log('Sending notification for user:', notification.userId);
       console.log('Notification type:', notification.type);
-      
-      // Check if user has telegram configured
-      const connection = await this.getUserTelegramConnection(notification.userId);
-      console.log('Telegram connection:', connection);
-      
-      if (!connection || !connection.enabled) {
-        console.log(`No active Telegram connection for user ${notification.userId}`);
-        return false;
-      }
 
       // Check if this notification type is enabled
       const preference = await this.getNotificationPreference(
@@ -62,35 +69,66 @@ export class NotificationService {
         }
       }
 
-      // Use custom bot token if provided
-      const bot = connection.bot_token 
-        ? new TelegramBotService(connection.bot_token)
-        : this.telegramBot;
+      // Explicitly routed sends (channel tests) are never held for a digest
+      const deliveryMode = preference?.delivery_mode;
+      if (!notification.channels && isDigestMode(deliveryMode)) {
+        await this.queueNotification(notification, getNextDigestTime(deliveryMode), true);
+        console.log(`Queued ${notification.type} for ${deliveryMode} digest`);
+        return true;
+      }
 
-      console.log('Using bot token:', connection.bot_token ? 'Custom' : 'Default from env');
-      
-      // Send the notification
-      const result = await bot.sendNotification(
-        connection.chat_id,
+      return await this.deliver(
+        notification.userId,
         notification.type,
-        notification.data
+        notification.data,
+        notification.channels || this.getPreferenceChannels(preference)
       );
-      
-      console.log('Telegram send result:', result);
+    } catch (error) {
+      console.error('Failed to send notification:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Send to each of the user's active channels of the given types, recording
+   * every attempt in history
+   */
+  private async deliver(
+    userId: string,
+    type: string,
+    data: Record<string, any>,
+    channelTypes: NotificationChannelType[]
+  ): Promise<boolean> {
+    const channels = await this.getUserChannels(userId, channelTypes);
+
+    if (channels.length === 0) {
+      console.log(`No active channels (${channelTypes.join(', ')}) for user ${userId}`);
+      return false;
+    }
+
+    let delivered = false;
+
+    for (const channel of channels) {
+      const result = await channel.send(type, data);
+      console.log(`${channel.type} send result:`, result);
 
       // Record in history
       await this.recordNotificationHistory(
-        notification.userId,
-        notification.type,
+        userId,
+        type,
         result.ok ? 'sent' : 'failed',
-        notification.data
+        data,
+        channel.type
       );
 
-      return result.ok;
-    } catch (error) {
-      console.error('Failed to send notification:', error);
-      return false;
+      delivered = delivered || result.ok;
     }
+
+    return delivered;
+  }
+
+  private getPreferenceChannels(preference: NotificationPreference | null): NotificationChannelType[] {
+    return preference?.channels?.length ? preference.channels : DEFAULT_NOTIFICATION_CHANNELS;
   }
 
   /**
@@ -98,7 +136,8 @@ export class NotificationService {
    */
   async queueNotification(
     notification: NotificationData,
-    scheduledFor?: Date
+    scheduledFor?: Date,
+    digest: boolean = false
   ): Promise<void> {
     const { error } = await this.supabase
       .from('notification_queue')
@@ -109,6 +148,7 @@ export class NotificationService {
         priority: notification.priority || 'normal',
         scheduled_for: scheduledFor || new Date(),
         metadata: notification.data,
+        digest,
       });
 
     if (error) {
@@ -118,14 +158,19 @@ export class NotificationService {
   }
 
   /**
-   * Process queued notifications
+   * Process queued notifications. Due digest entries are grouped by user and
+   * type and each group is sent as one notification_digest.
    */
   async processQueue(): Promise<void> {
+    await this.releaseStaleProcessing();
+    await this.processDigests();
+
     // Get pending notifications
     const { data: notifications, error } = await this.supabase
       .from('notification_queue')
       .select('*')
       .eq('status', 'pending')
+      .eq('digest', false)
       .lte('scheduled_for', new Date().toISOString())
       .order('priority', { ascending: false })
       .order('scheduled_for', { ascending: true })
@@ -146,6 +191,112 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Put entries stuck in processing back in the queue so they are retried
+   */
+  private async releaseStaleProcessing(): Promise<void> {
+    const { error } = await this.supabase
+      .from('notification_queue')
+      .update({
+        status: 'pending',
+        error_message: 'Sending was interrupted',
+        updated_at: new Date(),
+      })
+      .eq('status', 'processing')
+      .lt('updated_at', new Date(Date.now() - STALE_PROCESSING_MS).toISOString());
+
+    if (error) {
+      console.error('Failed to release stale queued notifications:', error);
+    }
+  }
+
+  private async processDigests(): Promise<void> {
+    const { data: queued, error } = await this.supabase
+      .from('notification_queue')
+      .select('*')
+      .eq('status', 'pending')
+      .eq('digest', true)
+      .lte('scheduled_for', new Date().toISOString())
+      .order('scheduled_for', { ascending: true })
+      .limit(DIGEST_QUEUE_LIMIT);
+
+    if (error) {
+      console.error('Failed to fetch digest queue:', error);
+      return;
+    }
+
+    const groups = new Map<string, any[]>();
+    for (const notification of queued || []) {
+      const key = `${notification.user_id}:${notification.notification_type}`;
+      groups.set(key, [...(groups.get(key) || []), notification]);
+    }
+
+    for (const group of groups.values()) {
+      await this.sendDigest(group);
+    }
+  }
+
+  /**
+   * Send one user's queued notifications of one type as a single digest
+   */
+  private async sendDigest(notifications: any[]): Promise<void> {
+    const { user_id: userId, notification_type: type } = notifications[0];
+    const ids = notifications.map(notification => notification.id);
+
+    await this.supabase
+      .from('notification_queue')
+      .update({ status: 'processing', updated_at: new Date() })
+      .in('id', ids);
+
+    try {
+      const preference = await this.getNotificationPreference(userId, type);
+      // Mode may have been switched back to instant since these were queued
+      const mode = preference?.delivery_mode === 'weekly' ? 'weekly' : 'daily';
+
+      const data = buildDigestData(
+        type,
+        mode,
+        notifications.map(notification => notification.metadata || JSON.parse(notification.message)),
+        item => getNotificationTitle(renderNotificationText(type, item))
+      );
+
+      const success = await this.deliver(userId, 'notification_digest', data, this.getPreferenceChannels(preference));
+
+      if (success) {
+        await this.supabase
+          .from('notification_queue')
+          .update({ status: 'sent', sent_at: new Date(), updated_at: new Date() })
+          .in('id', ids);
+        return;
+      }
+
+      for (const notification of notifications) {
+        const newRetryCount = notification.retry_count + 1;
+
+        await this.supabase
+          .from('notification_queue')
+          .update({
+            status: newRetryCount < 3 ? 'pending' : 'failed',
+            retry_count: newRetryCount,
+            error_message: 'Failed to send digest',
+            updated_at: new Date(),
+          })
+          .eq('id', notification.id);
+      }
+    } catch (error) {
+      console.error('Error sending notification digest:', error);
+
+      await this.supabase
+        .from('notification_queue')
+        .update({
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          updated_at: new Date(),
+        })
+        .in('id', ids);
+    }
+  }
+
   /**
    * Process a single queued notification
    */
@@ -222,6 +373,48 @@ export class NotificationService {
     return data;
   }
 
+  /**
+   * Enabled, configured channels of the given types for a user
+   */
+  private async getUserChannels(
+    userId: string,
+    channelTypes: NotificationChannelType[]
+  ): Promise<NotificationChannel[]> {
+    const channels: NotificationChannel[] = [];
+
+    if (channelTypes.includes('telegram')) {
+      const connection = await this.getUserTelegramConnection(userId);
+
+      if (connection?.enabled) {
+        channels.push(new TelegramChannel(
+          { chatId: connection.chat_id, botToken: connection.bot_token },
+          this.telegramBot
+        ));
+      }
+    }
+
+    const otherTypes = channelTypes.filter(type => type !== 'telegram');
+
+    if (otherTypes.length > 0) {
+      const { data, error } = await this.supabase
+        .from('notification_channels')
+        .select('channel_type, config')
+        .eq('user_id', userId)
+        .eq('enabled', true)
+        .in('channel_type', otherTypes);
+
+      if (error) {
+        console.error('Failed to load notification channels:', error);
+      }
+
+      for (const row of data || []) {
+        channels.push(createChannel(row.channel_type, row.config || {}));
+      }
+    }
+
+    return channels;
+  }
+
   /**
    * Get user's notification preference
    */
@@ -231,7 +424,7 @@ export class NotificationService {
   ): Promise<NotificationPreference | null> {
     const { data, error } = await this.supabase
       .from('notification_preferences')
-      .select('notification_type, enabled, priority')
+      .select('notification_type, enabled, priority, channels, delivery_mode')
       .eq('user_id', userId)
       .eq('notification_type', notificationType)
       .single();
@@ -250,7 +443,8 @@ export class NotificationService {
     userId: string,
     notificationType: string,
     status: string,
-    metadata: Record<string, any>
+    metadata: Record<string, any>,
+    channel: NotificationChannelType
   ): Promise<void> {
     const { error } = await this.supabase
       .from('notification_history')
@@ -260,6 +454,7 @@ export class NotificationService {
         message: JSON.stringify(metadata),
         status,
         metadata,
+        channel,
       });
 
     if (error) {
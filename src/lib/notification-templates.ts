@@ -0,0 +1,154 @@
+/**
+ * Notification templates
+ *
+ * Each notification type renders to one message in Telegram's Markdown
+ * dialect (*bold*, `code`). Channels convert it to their own format.
+ */
+
+// Alerts without a currency predate EU marketplace prices and are in GBP
+function formatPrice(amount: number, currency: string = 'GBP'): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+}
+
+const templates: Record<string, (data: any) => string> = {
+  // Test notification
+  test_notification: (d) =>
+    `🔔 *Test Notification*\n\n` +
+    `✅ Your ${d.channelName || 'Telegram'} connection is working!\n` +
+    `User: ${d.user || 'Unknown'}\n` +
+    `Time: ${new Date(d.timestamp).toLocaleString()}`,
+  
+  // Storefront notifications
+  storefront_added: (d) => 
+    `🏪 *New Storefront Added*\n\n` +
+    `Name: ${d.name}\n` +
+    `Products: ${d.productCount || 0}\n` +
+    `Added: ${new Date().toLocaleString()}`,
+  
+  products_sync_complete: (d) =>
+    `📦 *Sync Complete*\n\n` +
+    `Storefront: ${d.storefrontName}\n` +
+    `➕ Added: ${d.productsAdded || 0}\n` +
+    `➖ Removed: ${d.productsRemoved || 0}\n` +
+    `Total: ${d.totalProducts || 0} products`,
+  
+  new_products_found: (d) =>
+    `🆕 *New Products Found*\n\n` +
+    `Storefront: ${d.storefrontName}\n` +
+    `New ASINs: ${d.count}\n` +
+    `View in dashboard to analyze`,
+  
+  // Arbitrage notifications
+  high_profit_deal: (d) => {
+    const profitLevel = d.profit >= 20 ? '🚀 MEGA PROFIT' : d.profit >= 10 ? '💰 HIGH PROFIT' : '💵 GOOD PROFIT';
+    const urgency = d.roi >= 100 ? '⚡ ACT FAST!' : d.roi >= 50 ? '🔥 HOT DEAL!' : '📈 Good opportunity';
+    
+    return `${profitLevel} ALERT\n\n` +
+           `📦 *${d.productName}*\n` +
+           `🔗 ASIN: \`${d.asin}\`\n\n` +
+           `💵 *Profit: £${d.profit.toFixed(2)}*\n` +
+           `📊 *ROI: ${d.roi.toFixed(1)}%*\n\n` +
+           `🛒 *Buy:* ${d.sourceMarket} @ £${d.sourcePrice.toFixed(2)}\n` +
+           `🇬🇧 *Sell:* UK @ £${d.targetPrice.toFixed(2)}\n\n` +
+           `${urgency}`;
+  },
+  
+  scan_complete: (d) => {
+    const hasResults = d.profitableCount > 0 && d.totalProfit > 0;
+    
+    if (!hasResults) {
+      return `🏁 *Scan Complete*\n\n` +
+             `📊 *${d.scanType}*\n` +
+             `Products Analyzed: ${d.productsAnalyzed}\n` +
+             `Result: No profitable opportunities found\n\n` +
+             `💡 Try analyzing different products or check price changes.`;
+    }
+    
+    return `🏁 *Scan Complete*\n\n` +
+           `📊 *${d.scanType}*\n` +
+           `📈 Products Analyzed: ${d.productsAnalyzed}\n` +
+           `💰 Profitable Deals: ${d.profitableCount}\n` +
+           `💵 Total Profit: *£${d.totalProfit.toFixed(2)}*\n` +
+           `🎯 Best Deal: £${d.bestProfit.toFixed(2)} (${d.bestRoi.toFixed(1)}% ROI)\n\n` +
+           `🔥 ${d.profitableCount === 1 ? 'Deal' : 'Deals'} ready for analysis!`;
+  },
+  
+  price_change_alert: (d) =>
+    `📈 *Price Change Alert*\n\n` +
+    `ASIN: \`${d.asin}\`\n` +
+    `Product: ${d.productName}\n` +
+    `Market: ${d.market}\n` +
+    `Old Price: ${formatPrice(d.oldPrice, d.currency)}\n` +
+    `New Price: ${formatPrice(d.newPrice, d.currency)}\n` +
+    `Change: ${d.changePercent > 0 ? '📈' : '📉'} ${Math.abs(d.changePercent).toFixed(1)}%`,
+  
+  // System notifications
+  scheduled_task_complete: (d) =>
+    `⏰ *Scheduled Task Complete*\n\n` +
+    `Task: ${d.taskName}\n` +
+    `Status: ✅ Success\n` +
+    `Duration: ${d.duration}ms\n` +
+    `Next Run: ${d.nextRun}`,
+  
+  api_quota_warning: (d) =>
+    `⚠️ *API Quota Warning*\n\n` +
+    `API: ${d.apiName}\n` +
+    `Usage: ${d.percentage}%\n` +
+    `Remaining: ${d.remaining}/${d.total}\n` +
+    `Reset: ${d.resetTime}`,
+  
+  keepa_token_low: (d) =>
+    `🔄 *Low Keepa Tokens*\n\n` +
+    `Available: ${d.available}/${d.total}\n` +
+    `Regeneration: ${d.regenerationRate} tokens/min\n` +
+    `Full in: ${d.minutesToFull} minutes`,
+
+  // Queued notifications of one type, see notification-digest
+  notification_digest: (d) => {
+    const period = d.mode === 'weekly' ? 'Weekly' : 'Daily';
+
+    if (d.sourceType === 'high_profit_deal') {
+      const dealLine = (deal: any, i: number) =>
+        `${i + 1}. ${deal.productName} (\`${deal.asin}\`)\n` +
+        `    £${deal.profit.toFixed(2)} • ${deal.roi.toFixed(1)}% ROI`;
+
+      return `📬 *${period} Deal Digest*\n\n` +
+             `💰 ${d.dealCount} high-profit ${d.dealCount === 1 ? 'deal' : 'deals'}\n\n` +
+             `🏆 *Top by Profit*\n${d.topByProfit.map(dealLine).join('\n')}\n\n` +
+             `📊 *Top by ROI*\n${d.topByRoi.map(dealLine).join('\n')}\n\n` +
+             `🏪 *By Storefront*\n${d.storefronts.map((s: any) => `${s.name}: ${s.count}`).join('\n')}` +
+             (d.scans.length > 0
+               ? `\n\n🔗 *Scans*\n${d.scans.map((s: any) => `${s.name}: ${s.url}`).join('\n')}`
+               : '');
+    }
+
+    if (d.sourceType === 'scan_complete') {
+      return `📬 *${period} Scan Digest*\n\n` +
+             `🏁 ${d.count} ${d.count === 1 ? 'scan' : 'scans'} completed\n` +
+             `📈 Products Analyzed: ${d.productsAnalyzed}\n` +
+             `💰 Profitable Deals: ${d.profitableCount}\n` +
+             `💵 Total Profit: *£${d.totalProfit.toFixed(2)}*\n\n` +
+             d.scans.map((s: any) =>
+               `📊 *${s.name}*: ${s.profitableCount} deals, £${s.totalProfit.toFixed(2)}` +
+               (s.url ? `\n${s.url}` : '')
+             ).join('\n');
+    }
+
+    const more = d.count > d.titles.length ? `\n...and ${d.count - d.titles.length} more` : '';
+    return `📬 *${period} Digest*\n\n` +
+           `${d.count} ${d.count === 1 ? 'notification' : 'notifications'}\n\n` +
+           d.titles.map((title: string) => `• ${title}`).join('\n') + more;
+  },
+};
+
+export function renderNotificationText(type: string, data: Record<string, any>): string {
+  const template = templates[type];
+  return template ? template(data) : `📢 ${type}: ${JSON.stringify(data)}`;
+}
+
+/**
+ * First line of the message without formatting, used for email subjects and webhook titles
+ */
+export function getNotificationTitle(text: string): string {
+  return text.split('\n')[0].replace(/[*_`]/g, '').trim();
+}
@@ -55,6 +55,7 @@ export class PriceHistoryService {
     price: number;
     currency: string;
     last_checked: string;
+    product_name?: string;
   }>>> {
     const { data, error } = await this.supabase
       .from('latest_asin_price_history')
@@ -72,7 +73,8 @@ export class PriceHistoryService {
         priceMap.get(entry.asin)!.set(entry.marketplace, {
           price: entry.new_price,
           currency: entry.new_price_currency,
-          last_checked: entry.change_detected_at
+          last_checked: entry.change_detected_at,
+          product_name: entry.product_name || undefined
         });
       });
     }
@@ -0,0 +1,90 @@
+/**
+ * Purchase orders shared by the sourcing list API and dashboard
+ *
+ * Lines keep the scan's projected unit cost and profit from when they were
+ * ordered. Realized profit swaps the projected cost for what was actually
+ * paid, so the rollup shows how far buying prices drifted from the scan.
+ */
+
+export type PurchaseOrderStatus = 'ordered' | 'shipped' | 'received' | 'at_fba';
+
+export const PURCHASE_ORDER_STATUSES: Array<{ value: PurchaseOrderStatus; label: string }> = [
+  { value: 'ordered', label: 'Ordered' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'received', label: 'Received' },
+  { value: 'at_fba', label: 'At FBA' }
+];
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  sourcing_list_item_id: string | null;
+  asin: string;
+  product_name: string;
+  quantity: number;
+  unit_cost_gbp: number;
+  supplier_marketplace: string;
+  order_date: string;
+  expected_arrival: string | null;
+  status: PurchaseOrderStatus;
+  projected_unit_cost_gbp: number;
+  projected_unit_profit: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  sourcing_list_id: string;
+  reference: string | null;
+  notes: string | null;
+  created_at: string;
+  purchase_order_items: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderSummary {
+  orders: number;
+  units: number;
+  spend: number;
+  projectedProfit: number;
+  realizedProfit: number;
+  unitsByStatus: Record<PurchaseOrderStatus, number>;
+}
+
+export function isPurchaseOrderStatus(value: unknown): value is PurchaseOrderStatus {
+  return PURCHASE_ORDER_STATUSES.some(status => status.value === value);
+}
+
+/**
+ * Optional text fields in a request body may be missing, null or a string
+ */
+export function isOptionalText(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+export function getPurchaseOrderStatusLabel(status: PurchaseOrderStatus): string {
+  return PURCHASE_ORDER_STATUSES.find(option => option.value === status)?.label || status;
+}
+
+export function getRealizedUnitProfit(line: PurchaseOrderItem): number {
+  return Number(line.projected_unit_profit) + Number(line.projected_unit_cost_gbp) - Number(line.unit_cost_gbp);
+}
+
+export function summarisePurchaseOrders(orders: PurchaseOrder[]): PurchaseOrderSummary {
+  const summary: PurchaseOrderSummary = {
+    orders: orders.length,
+    units: 0,
+    spend: 0,
+    projectedProfit: 0,
+    realizedProfit: 0,
+    unitsByStatus: { ordered: 0, shipped: 0, received: 0, at_fba: 0 }
+  };
+
+  for (const line of orders.flatMap(order => order.purchase_order_items)) {
+    summary.units += line.quantity;
+    summary.spend += line.quantity * Number(line.unit_cost_gbp);
+    summary.projectedProfit += line.quantity * Number(line.projected_unit_profit);
+    summary.realizedProfit += line.quantity * getRealizedUnitProfit(line);
+    summary.unitsByStatus[line.status] += line.quantity;
+  }
+
+  return summary;
+}
@@ -0,0 +1,13 @@
+/**
+ * Listing restriction status shared by the scan engine and the dashboards
+ *
+ * ungated: our seller account can list the ASIN new
+ * approval_required: listing needs approval from Seller Central first
+ * gated: any other restriction (not eligible, ASIN not found in the marketplace)
+ */
+
+export type RestrictionStatus = 'ungated' | 'approval_required' | 'gated';
+
+export function isGated(status?: RestrictionStatus | null): boolean {
+  return status === 'gated' || status === 'approval_required';
+}
@@ -0,0 +1,286 @@
+/**
+ * Reverse arbitrage (UK -> EU sell-through)
+ *
+ * Treats the UK price as the buy cost and every EU source marketplace as a
+ * potential selling marketplace. Fees are estimated per target marketplace
+ * and everything is reported in GBP so results line up with EU -> UK scans.
+ */
+
+import { SPAPIProductFeesClient, FeesEstimateResult } from '@/lib/sp-api-product-fees';
+import { ArbitrageCalculator } from '@/domain/services/ArbitrageCalculator';
+import { HOME_MARKETPLACE, getMarketplace } from '@/lib/amazon-marketplaces';
+import { ExchangeRateSnapshot, convertWithSnapshot } from '@/lib/exchange-rates';
+import { categorizeProfitLevel } from '@/lib/profit-categorizer';
+import { LandedProfit, toLandedCostColumns } from '@/lib/landed-cost';
+
+import { ScanDirection } from '@/lib/scan-direction';
+
+export * from '@/lib/scan-direction';
+
+const DIGITAL_SERVICES_TAX_RATE = 0.02;
+
+export interface FeeBreakdown {
+  amazonFees: number;
+  referralFee: number;
+  fbaFee: number;
+  digitalServicesFee: number;
+}
+
+/**
+ * Pull the fee components out of a fees estimate (amounts in the marketplace currency)
+ */
+export function extractFeeBreakdown(result: FeesEstimateResult): FeeBreakdown | null {
+  if (result.status !== 'Success' || !result.feesEstimate) {
+    return null;
+  }
+
+  const feeDetails = result.feesEstimate.feeDetailList || [];
+  const amazonFees = result.feesEstimate.totalFeesEstimate?.amount || 0;
+  const referralFee = feeDetails.find(f => f.feeType === 'ReferralFee')?.finalFee.amount || 0;
+
+  let fbaFee = 0;
+  for (const fee of feeDetails) {
+    switch (fee.feeType) {
+      case 'FBAFees':
+      case 'FulfillmentFees':
+      case 'FBAPerUnitFulfillmentFee':
+      case 'FBAPerOrderFulfillmentFee':
+        fbaFee += fee.finalFee.amount || 0;
+        break;
+    }
+  }
+
+  const digitalServicesFeeFromAPI = feeDetails.find(f =>
+    f.feeType === 'DigitalServicesFee' ||
+    f.feeType === 'DigitalServiceTax' ||
+    f.feeType === 'DST'
+  )?.finalFee.amount;
+
+  return {
+    amazonFees,
+    referralFee,
+    fbaFee,
+    digitalServicesFee: digitalServicesFeeFromAPI || (amazonFees * DIGITAL_SERVICES_TAX_RATE)
+  };
+}
+
+export interface ReverseTargetPrice {
+  marketplace: string; // Target marketplace we sell into
+  targetPrice: number; // In target currency
+  targetCurrency: string;
+  targetPriceGBP: number;
+  sourcePrice: number; // UK buy price (GBP)
+  sourcePriceGBP: number;
+  amazonFees: number; // GBP
+  referralFee: number; // GBP
+  fbaFee: number; // GBP
+  digitalServicesFee: number; // GBP
+  vatOnSale: number; // GBP
+  netRevenue: number; // GBP
+  profit: number;
+  profitMargin: number;
+  roi: number;
+  totalCost: number;
+}
+
+export interface ReverseArbitrageResult {
+  targets: ReverseTargetPrice[];
+  best: ReverseTargetPrice | null;
+}
+
+export interface ReverseOpportunityBase {
+  asin: string;
+  productName: string;
+  productImage: string;
+  ukCompetitors: number;
+  ukSalesRank: number;
+  salesPerMonth: number;
+  storefronts?: any[];
+}
+
+interface TargetPriceInput {
+  price: number;
+  currency: string;
+}
+
+/**
+ * Evaluate selling a UK-bought item in each EU marketplace that has a price.
+ * `beforeFeesRequest` lets the caller apply its own fees API throttling.
+ */
+export async function analyzeReverseOpportunity(params: {
+  asin: string;
+  ukPrice: number;
+  marketplacePrices: Record<string, TargetPriceInput | undefined>;
+  feesClient: SPAPIProductFeesClient;
+  rateSnapshot: ExchangeRateSnapshot;
+  beforeFeesRequest?: () => Promise<void>;
+}): Promise<ReverseArbitrageResult> {
+  const { asin, ukPrice, marketplacePrices, feesClient, rateSnapshot, beforeFeesRequest } = params;
+  const targets: ReverseTargetPrice[] = [];
+
+  for (const [code, priceData] of Object.entries(marketplacePrices)) {
+    const marketplace = getMarketplace(code);
+    if (code === HOME_MARKETPLACE || !marketplace || !priceData?.price || priceData.price <= 0) {
+      continue;
+    }
+
+    if (beforeFeesRequest) {
+      await beforeFeesRequest();
+    }
+
+    let fees: FeeBreakdown | null = null;
+    try {
+      const estimate = await feesClient.getMyFeesEstimateForASIN(
+        asin,
+        {
+          listingPrice: {
+            currencyCode: priceData.currency,
+            amount: priceData.price
+          }
+        },
+        marketplace.id
+      );
+      fees = extractFeeBreakdown(estimate);
+    } catch (error) {
+      console.error(`[ReverseArbitrage] Fees estimate failed for ${asin} in ${code}:`, error);
+    }
+
+    if (!fees) continue;
+
+    const toGBP = (amount: number) => convertWithSnapshot(amount, priceData.currency, rateSnapshot);
+    const targetPriceGBP = toGBP(priceData.price);
+    const amazonFees = toGBP(fees.amazonFees);
+    const referralFee = toGBP(fees.referralFee);
+    const fbaFee = toGBP(fees.fbaFee);
+
+    const result = ArbitrageCalculator.calculate({
+      sourcePrice: ukPrice,
+      targetPrice: targetPriceGBP,
+      sourceCurrency: 'GBP',
+      targetCurrency: 'GBP',
+      exchangeRate: 1,
+      fees: {
+        referralFee,
+        fbaFee,
+        variableClosingFee: Math.max(0, amazonFees - referralFee - fbaFee)
+      },
+      digitalServicesTaxRate: DIGITAL_SERVICES_TAX_RATE,
+      minimumProfitThreshold: 0,
+      targetVatRate: marketplace.vatRate
+    });
+
+    const netRevenue = targetPriceGBP / (1 + marketplace.vatRate);
+    const vatOnSale = targetPriceGBP - netRevenue;
+    const digitalServicesFee = result.totalFees - amazonFees;
+
+    targets.push({
+      marketplace: code,
+      targetPrice: priceData.price,
+      targetCurrency: priceData.currency,
+      targetPriceGBP,
+      sourcePrice: ukPrice,
+      sourcePriceGBP: ukPrice,
+      amazonFees,
+      referralFee,
+      fbaFee,
+      digitalServicesFee,
+      vatOnSale,
+      netRevenue,
+      profit: result.profitGBP,
+      profitMargin: netRevenue > 0 ? (result.profitGBP / netRevenue) * 100 : 0,
+      roi: result.roi,
+      totalCost: ukPrice + result.totalFees
+    });
+  }
+
+  // Loss-making bests are kept, like the forward direction, and the scan's profit filters decide what is saved
+  targets.sort((a, b) => b.roi - a.roi);
+
+  return { targets, best: targets[0] || null };
+}
+
+/**
+ * Shape a reverse result like the EU -> UK opportunity payload the dashboards consume.
+ * The UK is the buy marketplace; euPrices lists the sell price in each target.
+ */
+export function buildReverseOpportunityPayload(
+  base: ReverseOpportunityBase,
+  result: ReverseArbitrageResult & { best: ReverseTargetPrice },
+  landed?: LandedProfit
+) {
+  const { best } = result;
+
+  return {
+    ...base,
+    direction: 'uk_to_eu' as ScanDirection,
+    targetMarketplace: best.marketplace,
+    targetPrice: best.targetPriceGBP,
+    amazonFees: best.amazonFees,
+    referralFee: best.referralFee,
+    fbaFee: best.fbaFee,
+    digitalServicesFee: best.digitalServicesFee,
+    vatOnSale: best.vatOnSale,
+    netRevenue: best.netRevenue,
+    profitCategory: categorizeProfitLevel(best.profit),
+    euPrices: result.targets.map(target => ({
+      marketplace: target.marketplace,
+      sourcePrice: target.targetPrice,
+      sourcePriceGBP: target.targetPriceGBP,
+      profit: target.profit,
+      profitMargin: target.profitMargin,
+      roi: target.roi,
+      totalCost: target.totalCost
+    })),
+    bestOpportunity: {
+      marketplace: HOME_MARKETPLACE,
+      targetMarketplace: best.marketplace,
+      sourcePrice: best.sourcePrice,
+      sourcePriceGBP: best.sourcePriceGBP,
+      profit: best.profit,
+      profitMargin: best.profitMargin,
+      roi: best.roi,
+      totalCost: best.totalCost
+    },
+    ...landed
+  };
+}
+
+/**
+ * Row for arbitrage_opportunities from a reverse result
+ */
+export function buildReverseOpportunityRow(
+  scanId: string,
+  base: ReverseOpportunityBase,
+  result: ReverseArbitrageResult & { best: ReverseTargetPrice },
+  landed?: LandedProfit
+) {
+  const { best } = result;
+
+  return {
+    scan_id: scanId,
+    asin: base.asin,
+    product_name: base.productName,
+    product_image: base.productImage,
+    target_marketplace: best.marketplace,
+    target_price: best.targetPriceGBP,
+    amazon_fees: best.amazonFees,
+    referral_fee: best.referralFee,
+    digital_services_fee: best.digitalServicesFee,
+    uk_competitors: base.ukCompetitors,
+    uk_sales_rank: base.ukSalesRank,
+    sales_per_month: base.salesPerMonth,
+    best_source_marketplace: HOME_MARKETPLACE,
+    best_source_price: best.sourcePrice,
+    best_source_price_gbp: best.sourcePriceGBP,
+    best_profit: best.profit,
+    best_roi: best.roi,
+    profit_category: categorizeProfitLevel(best.profit),
+    all_marketplace_prices: {
+      direction: 'uk_to_eu',
+      euPrices: buildReverseOpportunityPayload(base, result).euPrices,
+      targets: result.targets
+    },
+    storefronts: base.storefronts || [],
+    ...(landed ? toLandedCostColumns(landed) : {})
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Scan direction shared by the scan routes and the dashboards
+ *
+ * eu_to_uk: buy in an EU marketplace, sell in the UK (default)
+ * uk_to_eu: buy in the UK, sell in an EU marketplace
+ */
+
+export type ScanDirection = 'eu_to_uk' | 'uk_to_eu';
+
+export const SCAN_DIRECTIONS: ScanDirection[] = ['eu_to_uk', 'uk_to_eu'];
+export const DEFAULT_SCAN_DIRECTION: ScanDirection = 'eu_to_uk';
+
+export function isScanDirection(value: unknown): value is ScanDirection {
+  return typeof value === 'string' && (SCAN_DIRECTIONS as string[]).includes(value);
+}
+
+export function getDirectionLabel(direction?: string | null): string {
+  return direction === 'uk_to_eu' ? 'UK → EU' : 'EU → UK';
+}
@@ -0,0 +1,119 @@
+import { createClient } from '@supabase/supabase-js';
+import { listingRestrictionsService } from '@/lib/listing-restrictions';
+import { getBuyingSettings, suggestBuyQuantity, toBuyQuantityColumns } from '@/lib/buy-quantity';
+
+export interface SourcingListItemInput {
+  asin: string;
+  product_name: string;
+  product_image?: string;
+  uk_price: number;
+  source_marketplace: string;
+  source_price_gbp: number;
+  profit: number;
+  roi: number;
+  profit_margin?: number;
+  sales_per_month?: number;
+  uk_competitors?: number | null;
+  storefront_name?: string;
+  added_from: 'recent_scans' | 'a2a_eu' | 'telegram';
+}
+
+/**
+ * Service for adding deals to sourcing lists
+ */
+export class SourcingListService {
+  private supabase;
+
+  constructor(supabaseUrl: string, supabaseServiceKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Upsert items into a list the caller has checked the user owns, recording
+   * whether each can be listed in the UK (cached per ASIN) and the user's
+   * suggested buy quantity
+   */
+  async addItems(userId: string, listId: string, items: SourcingListItemInput[]): Promise<any[]> {
+    const buyingSettings = await getBuyingSettings(this.supabase, userId);
+
+    const rows: Record<string, any>[] = items.map(item => ({
+      sourcing_list_id: listId,
+      asin: item.asin.trim().toUpperCase(),
+      product_name: item.product_name.trim(),
+      product_image: item.product_image?.trim() || null,
+      uk_price: item.uk_price,
+      source_marketplace: item.source_marketplace.trim().toUpperCase(),
+      source_price_gbp: item.source_price_gbp,
+      profit: item.profit,
+      roi: item.roi,
+      profit_margin: item.profit_margin || 0,
+      sales_per_month: item.sales_per_month || null,
+      uk_competitors: item.uk_competitors ?? null,
+      ...toBuyQuantityColumns(suggestBuyQuantity({
+        salesPerMonth: item.sales_per_month,
+        ukCompetitors: item.uk_competitors,
+        unitCost: item.source_price_gbp,
+        unitProfit: item.profit,
+        settings: buyingSettings
+      })),
+      storefront_name: item.storefront_name?.trim() || null,
+      added_from: item.added_from
+    }));
+
+    const restrictions = await listingRestrictionsService.getStatuses(
+      rows.map(row => row.asin),
+      'UK'
+    );
+    for (const row of rows) {
+      row.restriction_status = restrictions.get(row.asin)?.status || null;
+    }
+
+    // Upsert so re-adding a deal refreshes its prices
+    const { data, error } = await this.supabase
+      .from('sourcing_list_items')
+      .upsert(rows, {
+        onConflict: 'sourcing_list_id,asin,source_marketplace',
+        ignoreDuplicates: false
+      })
+      .select();
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * The user's list with this name, created if it doesn't exist
+   */
+  async getOrCreateList(userId: string, name: string, description?: string): Promise<{ id: string; name: string }> {
+    const { data: existing } = await this.supabase
+      .from('sourcing_lists')
+      .select('id, name')
+      .eq('user_id', userId)
+      .eq('name', name)
+      .limit(1)
+      .maybeSingle();
+
+    if (existing) {
+      return existing;
+    }
+
+    const { data, error } = await this.supabase
+      .from('sourcing_lists')
+      .insert({
+        user_id: userId,
+        name,
+        description: description || null
+      })
+      .select('id, name')
+      .single();
+
+    if (error || !data) {
+      throw error || new Error('Failed to create sourcing list');
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Sourcing profiles
+ *
+ * A profile is a named set of deal rules ("Fast movers", "High ROI"). Scans
+ * and schedules run with a profile only save, stream and alert on the deals
+ * that match it. Every rule is optional; a null rule is not applied.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface SourcingProfile {
+  id: string;
+  name: string;
+  minProfit: number | null; // GBP, after landed costs
+  minRoi: number | null; // Percent, after landed costs
+  maxSalesRank: number | null;
+  maxOffers: number | null;
+  minPrice: number | null; // Sell price in GBP
+  maxPrice: number | null;
+  minSalesPerMonth: number | null;
+  excludedCategories: string[];
+  excludedBrands: string[];
+}
+
+/**
+ * The deal figures a profile is checked against
+ */
+export interface SourcingProfileCandidate {
+  profit: number;
+  roi: number;
+  salesRank?: number | null;
+  offers?: number | null;
+  price: number;
+  salesPerMonth?: number | null;
+  category?: string | null;
+  brand?: string | null;
+}
+
+function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Compare categories and brands ignoring case, spacing and punctuation,
+ * so "Toy Figure" excludes the TOY_FIGURE product type
+ */
+export function normalizeProfileTerm(term: string): string {
+  return term.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function mapSourcingProfile(row: any): SourcingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    minProfit: toNullableNumber(row.min_profit),
+    minRoi: toNullableNumber(row.min_roi),
+    maxSalesRank: toNullableNumber(row.max_sales_rank),
+    maxOffers: toNullableNumber(row.max_offers),
+    minPrice: toNullableNumber(row.min_price),
+    maxPrice: toNullableNumber(row.max_price),
+    minSalesPerMonth: toNullableNumber(row.min_sales_per_month),
+    excludedCategories: row.excluded_categories || [],
+    excludedBrands: row.excluded_brands || []
+  };
+}
+
+/**
+ * One of a user's profiles, or null when it doesn't exist or isn't theirs
+ */
+export async function getSourcingProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  profileId: string
+): Promise<SourcingProfile | null> {
+  const { data, error } = await supabase
+    .from('sourcing_profiles')
+    .select('*')
+    .eq('id', profileId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[SourcingProfiles] Failed to load profile:', error);
+  }
+
+  return data ? mapSourcingProfile(data) : null;
+}
+
+/**
+ * The first rule a deal fails, or null when it matches the profile
+ */
+export function getProfileMismatch(profile: SourcingProfile, deal: SourcingProfileCandidate): string | null {
+  if (profile.minProfit !== null && deal.profit < profile.minProfit) {
+    return `profit £${deal.profit.toFixed(2)} below £${profile.minProfit}`;
+  }
+  if (profile.minRoi !== null && deal.roi < profile.minRoi) {
+    return `ROI ${deal.roi.toFixed(1)}% below ${profile.minRoi}%`;
+  }
+  // Unranked products can't prove they sell, so a BSR ceiling excludes them
+  if (profile.maxSalesRank !== null && (!deal.salesRank || deal.salesRank > profile.maxSalesRank)) {
+    return `sales rank ${deal.salesRank || 'unknown'} above ${profile.maxSalesRank}`;
+  }
+  if (profile.maxOffers !== null && (deal.offers || 0) > profile.maxOffers) {
+    return `${deal.offers} offers above ${profile.maxOffers}`;
+  }
+  if (profile.minPrice !== null && deal.price < profile.minPrice) {
+    return `price £${deal.price.toFixed(2)} below £${profile.minPrice}`;
+  }
+  if (profile.maxPrice !== null && deal.price > profile.maxPrice) {
+    return `price £${deal.price.toFixed(2)} above £${profile.maxPrice}`;
+  }
+  if (profile.minSalesPerMonth !== null && (deal.salesPerMonth || 0) < profile.minSalesPerMonth) {
+    return `${deal.salesPerMonth || 0} sales/month below ${profile.minSalesPerMonth}`;
+  }
+  if (deal.category && profile.excludedCategories
+    .some(category => normalizeProfileTerm(category) === normalizeProfileTerm(deal.category!))) {
+    return `category ${deal.category} excluded`;
+  }
+  if (deal.brand && profile.excludedBrands
+    .some(brand => normalizeProfileTerm(brand) === normalizeProfileTerm(deal.brand!))) {
+    return `brand ${deal.brand} excluded`;
+  }
+  return null;
+}
+
+export function matchesSourcingProfile(profile: SourcingProfile, deal: SourcingProfileCandidate): boolean {
+  return getProfileMismatch(profile, deal) === null;
+}
+
+/**
+ * Short summary of a profile's rules for lists and pickers
+ */
+export function describeSourcingProfile(profile: SourcingProfile): string {
+  const rules: string[] = [];
+
+  if (profile.minProfit !== null) rules.push(`£${profile.minProfit}+ profit`);
+  if (profile.minRoi !== null) rules.push(`${profile.minRoi}%+ ROI`);
+  if (profile.maxSalesRank !== null) rules.push(`BSR ≤ ${profile.maxSalesRank.toLocaleString()}`);
+  if (profile.maxOffers !== null) rules.push(`≤ ${profile.maxOffers} offers`);
+  if (profile.minPrice !== null && profile.maxPrice !== null) {
+    rules.push(`£${profile.minPrice}–£${profile.maxPrice}`);
+  } else if (profile.minPrice !== null) {
+    rules.push(`£${profile.minPrice}+`);
+  } else if (profile.maxPrice !== null) {
+    rules.push(`up to £${profile.maxPrice}`);
+  }
+  if (profile.minSalesPerMonth !== null) rules.push(`${profile.minSalesPerMonth}+ sales/month`);
+
+  const exclusions = profile.excludedCategories.length + profile.excludedBrands.length;
+  if (exclusions > 0) rules.push(`${exclusions} excluded`);
+
+  return rules.length > 0 ? rules.join(' · ') : 'No rules';
+}
@@ -18,7 +18,7 @@ interface AWSCredentials {
   region: string;
 }
 
-interface CatalogItem {
+export interface CatalogItem {
   asin: string;
   attributes?: any;
   identifiers?: Array<{
@@ -77,8 +77,12 @@ interface CatalogItem {
   }>;
 }
 
+export type CatalogIdentifierType = 'ASIN' | 'EAN' | 'GTIN' | 'ISBN' | 'JAN' | 'MINSAN' | 'SKU' | 'UPC';
+
 interface SearchCatalogItemsParams {
   keywords?: string;
+  identifiers?: string[]; // Up to 20, all of identifiersType; used instead of keywords
+  identifiersType?: CatalogIdentifierType;
   marketplaceIds: string[];
   includedData?: string[];
   brandNames?: string[];
@@ -253,6 +257,8 @@ export class SPAPICatalogClient {
     };
     
     if (params.keywords) queryParams.keywords = params.keywords;
+    if (params.identifiers) queryParams.identifiers = params.identifiers.join(',');
+    if (params.identifiersType) queryParams.identifiersType = params.identifiersType;
     if (params.includedData) queryParams.includedData = params.includedData.join(',');
     if (params.brandNames) queryParams.brandNames = params.brandNames.join(',');
     if (params.classificationIds) queryParams.classificationIds = params.classificationIds.join(',');
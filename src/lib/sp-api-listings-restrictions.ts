@@ -0,0 +1,226 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import { listingsRestrictionsRateLimiter } from './sp-api-rate-limiter';
+
+interface SPAPIConfig {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  marketplaceId: string;
+  region?: string;
+  sandbox?: boolean;
+}
+
+interface AWSCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region: string;
+}
+
+export type RestrictionReasonCode = 'APPROVAL_REQUIRED' | 'ASIN_NOT_FOUND' | 'NOT_ELIGIBLE';
+
+export interface RestrictionReason {
+  message: string;
+  reasonCode?: RestrictionReasonCode;
+  links?: Array<{
+    resource: string;
+    verb: string;
+    title?: string;
+    type?: string;
+  }>;
+}
+
+export interface Restriction {
+  marketplaceId: string;
+  conditionType?: string;
+  reasons?: RestrictionReason[];
+}
+
+export interface RestrictionList {
+  restrictions: Restriction[];
+}
+
+interface GetListingsRestrictionsParams {
+  asin: string;
+  sellerId: string;
+  marketplaceIds: string[];
+  conditionType?: string;
+  reasonLocale?: string;
+}
+
+export class SPAPIListingsRestrictionsClient {
+  private accessToken: string = '';
+  private tokenExpiry: Date = new Date();
+  private config: SPAPIConfig;
+  private awsCredentials: AWSCredentials;
+  private axiosInstance: AxiosInstance;
+
+  constructor(awsCredentials: AWSCredentials, config: SPAPIConfig) {
+    this.awsCredentials = awsCredentials;
+    this.config = config;
+    
+    const baseURL = config.sandbox 
+      ? `https://sandbox.sellingpartnerapi-${config.region || 'eu'}.amazon.com`
+      : `https://sellingpartnerapi-${config.region || 'eu'}.amazon.com`;
+    
+    this.axiosInstance = axios.create({
+      baseURL,
+      timeout: 30000,
+    });
+  }
+
+  private async refreshAccessToken(): Promise<void> {
+    try {
+      const response = await axios.post('https://api.amazon.com/auth/o2/token', {
+        grant_type: 'refresh_token',
+        refresh_token: this.config.refreshToken,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      });
+
+      this.accessToken = response.data.access_token;
+      this.tokenExpiry = new Date(Date.now() + (response.data.expires_in * 1000));
+    } catch (error) {
+      console.error('Error refreshing access token:', error);
+      throw new Error('Failed to refresh access token');
+    }
+  }
+
+  private async ensureValidToken(): Promise<void> {
+    if (!this.accessToken || new Date() >= this.tokenExpiry) {
+      await this.refreshAccessToken();
+    }
+  }
+
+  private signRequest(
+    method: string,
+    path: string,
+    headers: Record<string, string>,
+    queryParams?: Record<string, any>
+  ): Record<string, string> {
+    const datetime = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = datetime.substr(0, 8);
+    
+    // Create canonical request
+    const canonicalQueryString = queryParams
+      ? Object.entries(queryParams)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([k, v]: any) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+          .join('&')
+      : '';
+    
+    const canonicalHeaders = Object.entries({
+      ...headers,
+      'host': this.axiosInstance.defaults.baseURL!.replace(/^https?:\/\//, ''),
+      'x-amz-date': datetime,
+    })
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]: any) => `${k.toLowerCase()}:${v}`)
+      .join('\n');
+    
+    const signedHeaders = Object.keys({
+      ...headers,
+      'host': true,
+      'x-amz-date': true,
+    })
+      .map((k: any) => k.toLowerCase())
+      .sort()
+      .join(';');
+    
+    const payloadHash = crypto.createHash('sha256').update('').digest('hex');
+    
+    const canonicalRequest = [
+      method,
+      path,
+      canonicalQueryString,
+      canonicalHeaders + '\n',
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    
+    // Create string to sign
+    const algorithm = 'AWS4-HMAC-SHA256';
+    const credentialScope = `${date}/${this.awsCredentials.region}/execute-api/aws4_request`;
+    const hashedCanonicalRequest = crypto
+      .createHash('sha256')
+      .update(canonicalRequest)
+      .digest('hex');
+    
+    const stringToSign = [
+      algorithm,
+      datetime,
+      credentialScope,
+      hashedCanonicalRequest,
+    ].join('\n');
+    
+    // Calculate signature
+    const kDate = crypto
+      .createHmac('sha256', `AWS4${this.awsCredentials.secretAccessKey}`)
+      .update(date)
+      .digest();
+    const kRegion = crypto.createHmac('sha256', kDate).update(this.awsCredentials.region).digest();
+    const kService = crypto.createHmac('sha256', kRegion).update('execute-api').digest();
+    const kSigning = crypto.createHmac('sha256', kService).update('aws4_request').digest();
+    
+    const signature = crypto
+      .createHmac('sha256', kSigning)
+      .update(stringToSign)
+      .digest('hex');
+    
+    // Create authorization header
+    const authorizationHeader = [
+      `${algorithm} Credential=${this.awsCredentials.accessKeyId}/${credentialScope}`,
+      `SignedHeaders=${signedHeaders}`,
+      `Signature=${signature}`,
+    ].join(', ');
+    
+    return {
+      ...headers,
+      'Authorization': authorizationHeader,
+      'x-amz-date': datetime,
+      'x-amz-security-token': this.awsCredentials.sessionToken || '',
+    };
+  }
+
+  /**
+   * Listing restrictions for an ASIN and seller. An empty list means the
+   * seller can list the ASIN in that condition.
+   */
+  async getListingsRestrictions(params: GetListingsRestrictionsParams): Promise<RestrictionList> {
+    // Apply rate limiting
+    await listingsRestrictionsRateLimiter.acquire();
+
+    await this.ensureValidToken();
+
+    const path = '/listings/2021-08-01/restrictions';
+    const headers = {
+      'x-amz-access-token': this.accessToken,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    };
+
+    const queryParams: Record<string, any> = {
+      asin: params.asin,
+      sellerId: params.sellerId,
+      marketplaceIds: params.marketplaceIds.join(','),
+      conditionType: params.conditionType || 'new_new',
+    };
+
+    if (params.reasonLocale) queryParams.reasonLocale = params.reasonLocale;
+
+    const signedHeaders = this.signRequest('GET', path, headers, queryParams);
+
+    try {
+      const response = await this.axiosInstance.get(path, {
+        headers: signedHeaders,
+        params: queryParams,
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error('Error getting listings restrictions:', error.response?.data || error);
+      throw new Error(`Failed to get listings restrictions: ${error.response?.data?.errors?.[0]?.message || error.message}`);
+    }
+  }
+}
@@ -79,6 +79,12 @@ export const catalogAPIRateLimiter = new SPAPIRateLimiter({
   burstCapacity: 2
 });
 
+// getListingsRestrictions: 5 requests/sec, burst capacity: 10
+export const listingsRestrictionsRateLimiter = new SPAPIRateLimiter({
+  requestsPerSecond: 5,
+  burstCapacity: 10
+});
+
 export const ordersAPIRateLimiter = new SPAPIRateLimiter({
   requestsPerSecond: 10,
   burstCapacity: 30
@@ -0,0 +1,316 @@
+/**
+ * Spreadsheet reading for uploaded price lists
+ *
+ * Reads CSV (comma, semicolon or tab separated, with quoted cells) and the
+ * first worksheet of an XLSX workbook into rows of cell text. XLSX files are
+ * zip archives of XML parts, read here with zlib so no spreadsheet library is
+ * needed; formulas come through as their cached values.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+// Uploads larger than this are rejected before parsing
+export const MAX_SPREADSHEET_BYTES = 10 * 1024 * 1024;
+
+// Column XFD, the last one Excel allows; cell refs beyond it are forged
+const MAX_XLSX_COLUMN_INDEX = 16383;
+
+// Limits on what a worksheet may expand to, whatever its XML claims
+const MAX_SHEET_ROWS = 100000;
+const MAX_SHEET_CELLS = 2000000;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const charCode = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(charCode) && charCode <= 0x10FFFF ? String.fromCodePoint(charCode) : entity;
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function detectDelimiter(firstLine: string): string {
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * Parse CSV text. Quoted cells may contain the delimiter, newlines and "" for a quote.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(Boolean));
+}
+
+// Largest uncompressed zip entry read. Entries are decompressed one at a
+// time and only the four parts a worksheet needs are read, so a small upload
+// can't expand into gigabytes.
+const MAX_ZIP_ENTRY_BYTES = 64 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+function assertZip(condition: boolean): void {
+  if (!condition) {
+    throw new Error('Corrupt XLSX file');
+  }
+}
+
+/**
+ * The central directory of a zip archive, by file name. Nothing is decompressed here.
+ */
+function readZipDirectory(data: Buffer): Map<string, ZipEntry> {
+  const entries = new Map<string, ZipEntry>();
+
+  // End of central directory record, searched from the end (it may be followed by a comment)
+  let endOffset = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+
+  if (endOffset < 0) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const entryCount = data.readUInt16LE(endOffset + 10);
+  let offset = data.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    assertZip(offset + 46 <= data.length && data.readUInt32LE(offset) === 0x02014b50);
+
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    assertZip(offset + 46 + nameLength <= data.length);
+
+    entries.set(data.toString('utf8', offset + 46, offset + 46 + nameLength), {
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      uncompressedSize: data.readUInt32LE(offset + 24),
+      localOffset: data.readUInt32LE(offset + 42)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * One file from a zip archive (stored or deflated entries only)
+ */
+function readZipEntry(data: Buffer, entries: Map<string, ZipEntry>, name: string): Buffer | undefined {
+  const entry = entries.get(name);
+  if (!entry) {
+    return undefined;
+  }
+
+  if (entry.uncompressedSize > MAX_ZIP_ENTRY_BYTES) {
+    throw new Error(`${name} is too large to read`);
+  }
+
+  const { localOffset } = entry;
+  assertZip(localOffset + 30 <= data.length && data.readUInt32LE(localOffset) === 0x04034b50);
+
+  const localNameLength = data.readUInt16LE(localOffset + 26);
+  const localExtraLength = data.readUInt16LE(localOffset + 28);
+  const start = localOffset + 30 + localNameLength + localExtraLength;
+  assertZip(start + entry.compressedSize <= data.length);
+
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return compressed;
+  }
+  if (entry.method !== 8) {
+    return undefined;
+  }
+
+  try {
+    // The directory's size can be forged, so cap the output as well
+    return inflateRawSync(compressed, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`${name} is too large to read`);
+    }
+    throw new Error('Corrupt XLSX file');
+  }
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function textOf(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map(match => decodeXml(match[1]))
+    .join('');
+}
+
+/**
+ * Path of the first worksheet listed in the workbook
+ */
+function firstWorksheetPath(data: Buffer, entries: Map<string, ZipEntry>): string | null {
+  const workbook = readZipEntry(data, entries, 'xl/workbook.xml')?.toString('utf8');
+  const rels = readZipEntry(data, entries, 'xl/_rels/workbook.xml.rels')?.toString('utf8');
+  const relationId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+
+  if (relationId && rels) {
+    const relationship = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g))
+      .map(match => match[0])
+      .find(tag => tag.includes(`Id="${relationId}"`));
+    const target = relationship?.match(/Target="([^"]+)"/)?.[1];
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (entries.has(path)) return path;
+    }
+  }
+
+  return Array.from(entries.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, ''), 10) - parseInt(b.replace(/\D/g, ''), 10))[0] || null;
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ */
+export function parseXlsx(data: Buffer): string[][] {
+  const entries = readZipDirectory(data);
+  const sheetPath = firstWorksheetPath(data, entries);
+
+  if (!sheetPath) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const sharedStrings = Array.from(
+    (readZipEntry(data, entries, 'xl/sharedStrings.xml')?.toString('utf8') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)
+  ).map(match => textOf(match[1]));
+
+  const sheet = readZipEntry(data, entries, sheetPath)?.toString('utf8') || '';
+  const rows: string[][] = [];
+  let cellCount = 0;
+
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/i)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+
+      if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue, 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = textOf(body);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+        // Barcodes stored as numbers may come through in exponent form
+        if (type !== 'str' && /e/i.test(value) && Number.isFinite(Number(value))) {
+          value = Number(value).toLocaleString('en-GB', { useGrouping: false, maximumFractionDigits: 10 });
+        }
+      }
+
+      const index = ref ? columnIndex(ref) : cells.length;
+      if (index > MAX_XLSX_COLUMN_INDEX) {
+        throw new Error('The worksheet has cells beyond column XFD');
+      }
+
+      cellCount += Math.max(index + 1 - cells.length, 0);
+      if (cellCount > MAX_SHEET_CELLS) {
+        throw new Error(`The worksheet has more than ${MAX_SHEET_CELLS.toLocaleString('en-GB')} cells`);
+      }
+
+      while (cells.length < index) cells.push('');
+      cells[index] = value.trim();
+    }
+
+    if (cells.some(Boolean)) {
+      if (rows.length >= MAX_SHEET_ROWS) {
+        throw new Error(`The worksheet has more than ${MAX_SHEET_ROWS.toLocaleString('en-GB')} rows`);
+      }
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+}
+
+export function isXlsxFile(data: Buffer, fileName?: string): boolean {
+  return /\.xlsx$/i.test(fileName || '') || (data.length > 4 && data.readUInt32LE(0) === 0x04034b50);
+}
+
+/**
+ * Rows of an uploaded CSV or XLSX file, header row first
+ */
+export function readSpreadsheet(data: Buffer, fileName?: string): string[][] {
+  if (data.length > MAX_SPREADSHEET_BYTES) {
+    throw new Error(`File is larger than ${MAX_SPREADSHEET_BYTES / 1024 / 1024} MB`);
+  }
+
+  return isXlsxFile(data, fileName) ? parseXlsx(data) : parseCsv(data.toString('utf8'));
+}
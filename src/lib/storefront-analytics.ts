@@ -0,0 +1,185 @@
+/**
+ * Competitor storefront analytics
+ *
+ * Built from the storefront's products rows (removed ones included, so past
+ * catalog sizes can be rebuilt from first_seen_at and removed_at), its
+ * storefront_asin_events history and the arbitrage opportunities our scans
+ * saved for it.
+ */
+
+export interface StorefrontAnalyticsProduct {
+  asin: string;
+  brand: string | null;
+  category: string | null;
+  current_sales_rank: number | null;
+  first_seen_at: string | null;
+  created_at: string | null;
+  removed_at: string | null;
+}
+
+export interface StorefrontAnalyticsOpportunity {
+  asin: string;
+  best_profit: number | null;
+}
+
+export interface StorefrontOverlap {
+  storefrontId: string;
+  name: string;
+  sharedAsins: number;
+  sharePercent: number; // Of this storefront's active ASINs
+}
+
+export interface StorefrontMixEntry {
+  label: string;
+  value: number;
+}
+
+export interface StorefrontWeeklyPoint {
+  weekStart: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface StorefrontAnalytics {
+  activeAsins: number;
+  removedAsins: number;
+  medianSalesRank: number | null;
+  asinCountHistory: StorefrontWeeklyPoint[];
+  newAsinVelocity: StorefrontWeeklyPoint[];
+  averageNewAsinsPerWeek: number;
+  categoryMix: StorefrontMixEntry[];
+  brandMix: StorefrontMixEntry[];
+  scannedAsins: number;
+  profitableAsins: number;
+  profitableShare: number | null; // Of scanned ASINs, 0-100
+  overlaps: StorefrontOverlap[];
+}
+
+export const ANALYTICS_WEEKS = 12;
+const MIX_LIMIT = 8;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function getMedian(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+/**
+ * Monday 00:00 UTC of the week containing the date
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+function getWeekStarts(now: Date, weeks: number): Date[] {
+  const current = getWeekStart(now).getTime();
+  return Array.from({ length: weeks }, (_, i) => new Date(current - (weeks - 1 - i) * WEEK_MS));
+}
+
+/**
+ * Top values by product count, with everything past the limit folded into "Other"
+ */
+export function buildMix(values: Array<string | null>, limit: number = MIX_LIMIT): StorefrontMixEntry[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const label = value?.trim() || 'Unknown';
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+
+  const sorted = [...counts.entries()]
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value);
+
+  if (sorted.length <= limit) {
+    return sorted;
+  }
+
+  const other = sorted.slice(limit - 1).reduce((sum, entry) => sum + entry.value, 0);
+  return [...sorted.slice(0, limit - 1), { label: 'Other', value: other }];
+}
+
+/**
+ * ASINs listed at the end of each week, rebuilt from when each was first seen and removed
+ */
+export function buildAsinCountHistory(
+  products: StorefrontAnalyticsProduct[],
+  now: Date = new Date(),
+  weeks: number = ANALYTICS_WEEKS
+): StorefrontWeeklyPoint[] {
+  return getWeekStarts(now, weeks).map(weekStart => {
+    const weekEnd = Math.min(weekStart.getTime() + WEEK_MS, now.getTime());
+    const listed = products.filter(product => {
+      const firstSeen = new Date(product.first_seen_at || product.created_at || 0).getTime();
+      const removed = product.removed_at ? new Date(product.removed_at).getTime() : Infinity;
+      return firstSeen <= weekEnd && removed > weekEnd;
+    });
+
+    return { weekStart: weekStart.toISOString().slice(0, 10), value: listed.length };
+  });
+}
+
+/**
+ * Added events per week. Events rather than first_seen_at, because the first
+ * sync's baseline catalog isn't recorded as added
+ */
+export function buildNewAsinVelocity(
+  addedAt: string[],
+  now: Date = new Date(),
+  weeks: number = ANALYTICS_WEEKS
+): StorefrontWeeklyPoint[] {
+  const counts = new Map<string, number>();
+  for (const occurredAt of addedAt) {
+    const week = getWeekStart(new Date(occurredAt)).toISOString().slice(0, 10);
+    counts.set(week, (counts.get(week) || 0) + 1);
+  }
+
+  return getWeekStarts(now, weeks).map(weekStart => {
+    const week = weekStart.toISOString().slice(0, 10);
+    return { weekStart: week, value: counts.get(week) || 0 };
+  });
+}
+
+export function buildStorefrontAnalytics(input: {
+  products: StorefrontAnalyticsProduct[];
+  addedEventDates: string[];
+  opportunities: StorefrontAnalyticsOpportunity[];
+  overlaps: StorefrontOverlap[];
+  now?: Date;
+}): StorefrontAnalytics {
+  const now = input.now || new Date();
+  const active = input.products.filter(product => !product.removed_at);
+  const ranks = active
+    .map(product => product.current_sales_rank)
+    .filter((rank): rank is number => typeof rank === 'number' && rank > 0);
+
+  // An ASIN counts as profitable if any of our scans found a profit on it
+  const scanned = new Set(input.opportunities.map(opportunity => opportunity.asin));
+  const profitable = new Set(
+    input.opportunities
+      .filter(opportunity => (opportunity.best_profit || 0) > 0)
+      .map(opportunity => opportunity.asin)
+  );
+
+  const newAsinVelocity = buildNewAsinVelocity(input.addedEventDates, now);
+
+  return {
+    activeAsins: active.length,
+    removedAsins: input.products.length - active.length,
+    medianSalesRank: getMedian(ranks),
+    asinCountHistory: buildAsinCountHistory(input.products, now),
+    newAsinVelocity,
+    averageNewAsinsPerWeek: newAsinVelocity.reduce((sum, point) => sum + point.value, 0) / newAsinVelocity.length,
+    categoryMix: buildMix(active.map(product => product.category)),
+    brandMix: buildMix(active.map(product => product.brand)),
+    scannedAsins: scanned.size,
+    profitableAsins: profitable.size,
+    profitableShare: scanned.size > 0 ? (profitable.size / scanned.size) * 100 : null,
+    overlaps: input.overlaps
+  };
+}
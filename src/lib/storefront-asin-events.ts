@@ -0,0 +1,191 @@
+/**
+ * Storefront catalog timeline
+ *
+ * Storefront syncs compare a seller's current Keepa ASIN list with the
+ * storefront's products rows. ASINs that drop off the list are soft-deleted
+ * (products.removed_at) rather than deleted, and every ASIN a seller starts or
+ * stops selling is recorded in storefront_asin_events with when it was first
+ * and last seen.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type StorefrontAsinEventType = 'added' | 'removed';
+
+export interface StorefrontAsinEvent {
+  id: string;
+  storefrontId: string;
+  asin: string;
+  eventType: StorefrontAsinEventType;
+  productName: string | null;
+  firstSeenAt: string | null;
+  lastSeenAt: string | null;
+  occurredAt: string;
+}
+
+export interface StorefrontAsinChanges {
+  newAsins: string[]; // Never seen in this storefront; the caller inserts their product rows
+  returnedAsins: string[]; // Removed earlier and listed again; their rows are restored
+  removedAsins: string[];
+}
+
+// A product the seller stops selling within this many days of listing it is a quick drop
+export const QUICK_DROP_DAYS = 30;
+
+const PAGE_SIZE = 1000;
+const UPDATE_BATCH_SIZE = 500;
+
+export function mapStorefrontAsinEvent(row: any): StorefrontAsinEvent {
+  return {
+    id: row.id,
+    storefrontId: row.storefront_id,
+    asin: row.asin,
+    eventType: row.event_type,
+    productName: row.product_name ?? null,
+    firstSeenAt: row.first_seen_at ?? null,
+    lastSeenAt: row.last_seen_at ?? null,
+    occurredAt: row.occurred_at
+  };
+}
+
+/**
+ * Whole days a removed product was listed, or null when the event doesn't say
+ */
+export function getDaysListed(event: Pick<StorefrontAsinEvent, 'eventType' | 'firstSeenAt' | 'lastSeenAt'>): number | null {
+  if (event.eventType !== 'removed' || !event.firstSeenAt || !event.lastSeenAt) {
+    return null;
+  }
+
+  const days = (new Date(event.lastSeenAt).getTime() - new Date(event.firstSeenAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.round(days));
+}
+
+export function isQuickDrop(event: Pick<StorefrontAsinEvent, 'eventType' | 'firstSeenAt' | 'lastSeenAt'>): boolean {
+  const days = getDaysListed(event);
+  return days !== null && days <= QUICK_DROP_DAYS;
+}
+
+async function fetchStorefrontRows(supabase: SupabaseClient, storefrontId: string): Promise<any[]> {
+  const rows: any[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('asin, product_name, first_seen_at, last_seen_at, removed_at')
+      .eq('storefront_id', storefrontId)
+      .order('asin')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Database fetch error: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+async function updateInBatches(
+  supabase: SupabaseClient,
+  storefrontId: string,
+  asins: string[],
+  values: Record<string, any>,
+  action: string
+) {
+  for (let i = 0; i < asins.length; i += UPDATE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('products')
+      .update(values)
+      .eq('storefront_id', storefrontId)
+      .in('asin', asins.slice(i, i + UPDATE_BATCH_SIZE));
+
+    if (error) {
+      console.error(`[StorefrontAsinEvents] Error ${action} products for ${storefrontId}:`, error);
+    }
+  }
+}
+
+/**
+ * Apply a seller's current ASIN list to their storefront: soft-delete products
+ * no longer listed, restore ones listed again, stamp last_seen_at on the rest
+ * and record the changes. The first sync of a storefront only sets the
+ * baseline, so its whole catalog isn't recorded as added.
+ *
+ * A sync that has only fetched some of the storefront's Keepa pages passes
+ * complete: false, so nothing is removed, and syncStartedAt, so a first sync
+ * spread over several runs stays a baseline on every run.
+ */
+export async function reconcileStorefrontAsins(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    storefrontId: string;
+    listedAsins: string[];
+    complete?: boolean;
+    syncStartedAt?: string;
+  }
+): Promise<StorefrontAsinChanges> {
+  const { userId, storefrontId, complete = true } = params;
+  const listed = new Set(params.listedAsins);
+  const rows = await fetchStorefrontRows(supabase, storefrontId);
+  const rowsByAsin = new Map(rows.map(row => [row.asin as string, row]));
+  const now = new Date().toISOString();
+  const syncStartedAt = new Date(params.syncStartedAt || now).getTime();
+  const isBaseline = !rows.some(row => !row.first_seen_at || new Date(row.first_seen_at).getTime() < syncStartedAt);
+
+  const newAsins = Array.from(listed).filter(asin => !rowsByAsin.has(asin));
+  const returnedAsins = rows.filter(row => row.removed_at && listed.has(row.asin)).map(row => row.asin as string);
+  const removedRows = complete ? rows.filter(row => !row.removed_at && !listed.has(row.asin)) : [];
+  const stillListed = rows.filter(row => !row.removed_at && listed.has(row.asin)).map(row => row.asin as string);
+
+  await updateInBatches(supabase, storefrontId, removedRows.map(row => row.asin), { removed_at: now }, 'removing');
+  await updateInBatches(
+    supabase,
+    storefrontId,
+    returnedAsins,
+    { removed_at: null, first_seen_at: now, last_seen_at: now, updated_at: now },
+    'restoring'
+  );
+  await updateInBatches(supabase, storefrontId, stillListed, { last_seen_at: now }, 'stamping');
+
+  const events = [
+    ...removedRows.map(row => ({
+      user_id: userId,
+      storefront_id: storefrontId,
+      asin: row.asin,
+      event_type: 'removed',
+      product_name: row.product_name || null,
+      first_seen_at: row.first_seen_at,
+      last_seen_at: row.last_seen_at,
+      occurred_at: now
+    })),
+    ...(isBaseline ? [] : [...returnedAsins, ...newAsins]).map(asin => ({
+      user_id: userId,
+      storefront_id: storefrontId,
+      asin,
+      event_type: 'added',
+      product_name: rowsByAsin.get(asin)?.product_name || null,
+      first_seen_at: now,
+      last_seen_at: now,
+      occurred_at: now
+    }))
+  ];
+
+  for (let i = 0; i < events.length; i += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('storefront_asin_events')
+      .insert(events.slice(i, i + PAGE_SIZE));
+
+    if (error) {
+      console.error(`[StorefrontAsinEvents] Error recording events for ${storefrontId}:`, error);
+    }
+  }
+
+  return {
+    newAsins,
+    returnedAsins,
+    removedAsins: removedRows.map(row => row.asin)
+  };
+}
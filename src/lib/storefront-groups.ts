@@ -0,0 +1,49 @@
+/**
+ * Storefront groups
+ *
+ * User-defined tags ("Toys", "Beauty", "DIY") on storefronts. A storefront
+ * can be in any number of groups. Groups filter the storefronts page and can
+ * be scanned as a whole, on demand or on a schedule.
+ */
+
+export interface StorefrontGroup {
+  id: string;
+  name: string;
+  color: StorefrontGroupColor;
+  storefrontIds: string[];
+}
+
+export const STOREFRONT_GROUP_COLORS = ['indigo', 'emerald', 'amber', 'rose', 'sky', 'violet', 'gray'] as const;
+
+export type StorefrontGroupColor = typeof STOREFRONT_GROUP_COLORS[number];
+
+// Full class names so Tailwind keeps them in the build
+const BADGE_CLASSES: Record<StorefrontGroupColor, string> = {
+  indigo: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  emerald: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  amber: 'bg-amber-50 text-amber-700 border-amber-200',
+  rose: 'bg-rose-50 text-rose-700 border-rose-200',
+  sky: 'bg-sky-50 text-sky-700 border-sky-200',
+  violet: 'bg-violet-50 text-violet-700 border-violet-200',
+  gray: 'bg-gray-50 text-gray-700 border-gray-200'
+};
+
+function toGroupColor(value: unknown): StorefrontGroupColor {
+  return STOREFRONT_GROUP_COLORS.includes(value as StorefrontGroupColor) ? value as StorefrontGroupColor : 'indigo';
+}
+
+/**
+ * Map a storefront_groups row selected with its storefront_group_members(storefront_id)
+ */
+export function mapStorefrontGroup(row: any): StorefrontGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    color: toGroupColor(row.color),
+    storefrontIds: (row.storefront_group_members || []).map((member: any) => member.storefront_id)
+  };
+}
+
+export function getGroupBadgeClasses(color: StorefrontGroupColor): string {
+  return BADGE_CLASSES[color];
+}
@@ -0,0 +1,254 @@
+/**
+ * Supplier price lists
+ *
+ * Wholesale suppliers send spreadsheets with a barcode, a trade cost and a
+ * pack size. A column mapping (saved per supplier in
+ * supplier_column_mappings) says which headers hold which field. Costs are in
+ * GBP; the scan works from the ex-VAT cost of one Amazon listing, so a
+ * 6-unit pack quoted at £12 sold as single units costs £2 per listing, and
+ * as a 2-pack listing £4.
+ */
+
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+
+export type SupplierCostBasis = 'unit' | 'pack';
+
+export type SupplierColumnField = 'identifier' | 'cost' | 'packSize' | 'description' | 'sku';
+
+export type SupplierIdentifierType = 'EAN' | 'UPC' | 'GTIN';
+
+/**
+ * Header names for each field, so a mapping survives reordered columns
+ */
+export interface SupplierColumnMapping {
+  identifier: string;
+  cost: string;
+  packSize?: string | null;
+  description?: string | null;
+  sku?: string | null;
+  costBasis: SupplierCostBasis; // Whether the cost column is per unit or per supplier pack
+  costIncludesVat: boolean;
+}
+
+export interface SupplierPriceListRow {
+  rowNumber: number; // Spreadsheet row, header being row 1
+  identifier: string;
+  identifierType: SupplierIdentifierType;
+  cost: number;
+  packSize: number;
+  description: string | null;
+  sku: string | null;
+}
+
+/**
+ * The supplier side of a matched ASIN, carried on the scan product and saved
+ * on arbitrage_opportunities.supplier_item
+ */
+export interface SupplierItem {
+  rowNumber: number;
+  identifier: string;
+  sku: string | null;
+  description: string | null;
+  cost: number; // As quoted
+  packSize: number; // Units per supplier pack
+  unitCost: number; // Ex VAT
+  listingUnits: number; // Units in one Amazon listing (multipacks)
+  costPerListing: number; // Ex VAT, what one Amazon unit costs us
+  casesToOrder?: number; // Supplier packs covering the suggested buy quantity
+}
+
+export const SUPPLIER_COLUMN_FIELDS: Array<{ field: SupplierColumnField; label: string; required: boolean }> = [
+  { field: 'identifier', label: 'EAN / UPC', required: true },
+  { field: 'cost', label: 'Cost', required: true },
+  { field: 'packSize', label: 'Pack size', required: false },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'sku', label: 'Supplier SKU', required: false }
+];
+
+const HEADER_SYNONYMS: Record<SupplierColumnField, string[]> = {
+  identifier: ['ean', 'ean13', 'ean code', 'barcode', 'bar code', 'upc', 'gtin', 'unit barcode'],
+  cost: ['cost', 'unit cost', 'cost price', 'trade price', 'price', 'unit price', 'net price', 'wholesale price', 'case price'],
+  packSize: ['pack size', 'pack qty', 'case size', 'case qty', 'units per case', 'qty per case', 'outer', 'pack'],
+  description: ['description', 'product description', 'product name', 'product', 'title', 'item', 'name'],
+  sku: ['sku', 'product code', 'item code', 'supplier code', 'code', 'ref']
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function findColumnIndex(headers: string[], header?: string | null): number {
+  if (!header) return -1;
+  const wanted = normalizeHeader(header);
+  return headers.findIndex(cell => normalizeHeader(cell) === wanted);
+}
+
+/**
+ * A starting mapping from common header names. Fields with no likely column are left empty.
+ */
+export function guessSupplierColumnMapping(headers: string[]): SupplierColumnMapping {
+  const used = new Set<number>();
+  const guess = (field: SupplierColumnField): string => {
+    for (const synonym of HEADER_SYNONYMS[field]) {
+      const index = headers.findIndex((header, i) => !used.has(i) && normalizeHeader(header) === synonym);
+      if (index >= 0) {
+        used.add(index);
+        return headers[index];
+      }
+    }
+    return '';
+  };
+
+  const identifier = guess('identifier');
+  const cost = guess('cost');
+  const packSize = guess('packSize');
+
+  return {
+    identifier,
+    cost,
+    packSize,
+    description: guess('description'),
+    sku: guess('sku'),
+    costBasis: /case|pack/i.test(cost) ? 'pack' : 'unit',
+    costIncludesVat: false
+  };
+}
+
+/**
+ * A mapping from a request body or supplier_column_mappings.mapping, or null when it's unusable
+ */
+export function toSupplierColumnMapping(value: any): SupplierColumnMapping | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const header = (field: SupplierColumnField) =>
+    typeof value[field] === 'string' && value[field].trim() ? value[field].trim() : null;
+  const identifier = header('identifier');
+  const cost = header('cost');
+
+  if (!identifier || !cost) return null;
+
+  return {
+    identifier,
+    cost,
+    packSize: header('packSize'),
+    description: header('description'),
+    sku: header('sku'),
+    costBasis: value.costBasis === 'pack' ? 'pack' : 'unit',
+    costIncludesVat: value.costIncludesVat === true
+  };
+}
+
+/**
+ * Mapped headers the spreadsheet doesn't have, and required fields left unmapped
+ */
+export function getMissingColumns(headers: string[], mapping: SupplierColumnMapping): string[] {
+  return SUPPLIER_COLUMN_FIELDS
+    .filter(({ field, required }) => {
+      const header = mapping[field];
+      return header ? findColumnIndex(headers, header) < 0 : required;
+    })
+    .map(({ field, label }) => mapping[field] || label);
+}
+
+/**
+ * Digits-only barcode and the identifier type the catalog searches it as
+ */
+export function normalizeBarcode(value: string): { identifier: string; identifierType: SupplierIdentifierType } | null {
+  const digits = String(value || '').replace(/\D/g, '');
+
+  switch (digits.length) {
+    case 8:
+    case 13:
+      return { identifier: digits, identifierType: 'EAN' };
+    case 12:
+      return { identifier: digits, identifierType: 'UPC' };
+    case 14:
+      return { identifier: digits, identifierType: 'GTIN' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a price such as "£1,234.50" or "1,50"
+ */
+export function parseSupplierNumber(value: string): number | null {
+  const cleaned = String(value || '').replace(/[^\d.,-]/g, '');
+  const normalized = /^-?\d+,\d{1,2}$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '');
+  const number = parseFloat(normalized);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Price list rows with a valid barcode and cost. Other rows are reported by row number.
+ */
+export function readSupplierRows(
+  rows: string[][],
+  mapping: SupplierColumnMapping
+): { items: SupplierPriceListRow[]; skippedRows: number[] } {
+  const [headers = [], ...dataRows] = rows;
+  const column = (field: SupplierColumnField) => findColumnIndex(headers, mapping[field]);
+  const identifierColumn = column('identifier');
+  const costColumn = column('cost');
+  const packSizeColumn = column('packSize');
+  const descriptionColumn = column('description');
+  const skuColumn = column('sku');
+
+  const items: SupplierPriceListRow[] = [];
+  const skippedRows: number[] = [];
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const barcode = normalizeBarcode(cells[identifierColumn] || '');
+    const cost = parseSupplierNumber(cells[costColumn] || '');
+    const packSize = packSizeColumn >= 0 ? Math.round(parseSupplierNumber(cells[packSizeColumn] || '') || 1) : 1;
+
+    if (!barcode || cost === null || cost <= 0) {
+      skippedRows.push(rowNumber);
+      return;
+    }
+
+    items.push({
+      rowNumber,
+      ...barcode,
+      cost,
+      packSize: Math.max(1, packSize),
+      description: descriptionColumn >= 0 ? cells[descriptionColumn] || null : null,
+      sku: skuColumn >= 0 ? cells[skuColumn] || null : null
+    });
+  });
+
+  return { items, skippedRows };
+}
+
+/**
+ * Cost of one Amazon listing of listingUnits units, ex VAT
+ */
+export function buildSupplierItem(
+  row: SupplierPriceListRow,
+  listingUnits: number,
+  mapping: Pick<SupplierColumnMapping, 'costBasis' | 'costIncludesVat'>
+): SupplierItem {
+  const costExVat = mapping.costIncludesVat ? row.cost / (1 + MARKETPLACES.UK.vatRate) : row.cost;
+  const unitCost = mapping.costBasis === 'pack' ? costExVat / row.packSize : costExVat;
+  const units = Math.max(1, listingUnits);
+
+  return {
+    rowNumber: row.rowNumber,
+    identifier: row.identifier,
+    sku: row.sku,
+    description: row.description,
+    cost: row.cost,
+    packSize: row.packSize,
+    unitCost,
+    listingUnits: units,
+    costPerListing: unitCost * units
+  };
+}
+
+/**
+ * Supplier packs to order for a number of Amazon listings, rounded up to whole packs
+ */
+export function getCasesToOrder(listings: number, item: Pick<SupplierItem, 'listingUnits' | 'packSize'>): number {
+  return listings > 0 ? Math.ceil((listings * item.listingUnits) / item.packSize) : 0;
+}
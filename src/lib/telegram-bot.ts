@@ -1,10 +1,12 @@
 import { createClient } from '@supabase/supabase-js';
+import { renderNotificationText } from './notification-templates';
 
 interface TelegramMessage {
   chat_id: string;
   text: string;
   parse_mode?: 'Markdown' | 'HTML';
   disable_notification?: boolean;
+  reply_markup?: InlineKeyboardMarkup;
 }
 
 interface TelegramResponse {
@@ -13,6 +15,45 @@ interface TelegramResponse {
   description?: string;
 }
 
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string; // Max 64 bytes
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export function getSellerAmpUrl(asin: string, costPrice?: number, salePrice?: number): string {
+  return `https://sas.selleramp.com/sas/lookup/?searchterm=${asin}&sas_cost_price=${(costPrice || 0).toFixed(2)}&sas_sale_price=${(salePrice || 0).toFixed(2)}`;
+}
+
+/**
+ * Buttons under a deal message, handled by /api/telegram/webhook. Adding to a
+ * sourcing list needs the scan the deal came from.
+ */
+export function buildDealKeyboard(deal: {
+  asin: string;
+  scanId?: string;
+  sourcePriceGbp?: number;
+  targetPrice?: number;
+}): InlineKeyboardMarkup {
+  const actions: InlineKeyboardButton[] = [];
+
+  if (deal.scanId) {
+    actions.push({ text: '📋 Add to sourcing list', callback_data: `add:${deal.scanId}:${deal.asin}` });
+  }
+  actions.push({ text: '🚫 Blacklist', callback_data: `bl:${deal.asin}` });
+
+  return {
+    inline_keyboard: [
+      actions,
+      [{ text: '🔍 Open in SellerAmp', url: getSellerAmpUrl(deal.asin, deal.sourcePriceGbp, deal.targetPrice) }]
+    ]
+  };
+}
+
 export class TelegramBotService {
   private botToken: string;
   private baseUrl: string;
@@ -24,6 +65,13 @@ export class TelegramBotService {
     this.baseUrl = `https://api.telegram.org/bot${this.botToken}`;
   }
 
+  /**
+   * The bot's ID, the part of its token before the colon
+   */
+  getBotId(): string {
+    return this.botToken.split(':')[0];
+  }
+
   /**
    * Send a message to a Telegram chat
    */
@@ -33,6 +81,7 @@ export class TelegramBotService {
     options?: {
       parseMode?: 'Markdown' | 'HTML';
       disableNotification?: boolean;
+      replyMarkup?: InlineKeyboardMarkup;
     }
   ): Promise<TelegramResponse> {
     // Rate limiting
@@ -51,6 +100,7 @@ export class TelegramBotService {
       text: this.formatMessage(text),
       parse_mode: options?.parseMode || 'Markdown',
       disable_notification: options?.disableNotification || false,
+      reply_markup: options?.replyMarkup,
     };
 
     try {
@@ -94,6 +144,7 @@ export class TelegramBotService {
     options?: {
       parseMode?: 'Markdown' | 'HTML';
       disableNotification?: boolean;
+      replyMarkup?: InlineKeyboardMarkup;
     }
   ): Promise<TelegramResponse> {
     let lastError: TelegramResponse = { ok: false, description: 'Max retries exceeded' };
@@ -152,6 +203,48 @@ export class TelegramBotService {
     }
   }
 
+  /**
+   * Acknowledge an inline button press, optionally showing a short toast
+   */
+  async answerCallbackQuery(callbackQueryId: string, text?: string): Promise<TelegramResponse> {
+    return this.callApi('answerCallbackQuery', { callback_query_id: callbackQueryId, text });
+  }
+
+  /**
+   * Deliver updates to our webhook instead of getUpdates. Telegram sends the
+   * secret back in the X-Telegram-Bot-Api-Secret-Token header.
+   */
+  async setWebhook(url: string, secretToken: string): Promise<TelegramResponse> {
+    return this.callApi('setWebhook', {
+      url,
+      secret_token: secretToken,
+      allowed_updates: ['message', 'callback_query']
+    });
+  }
+
+  /**
+   * Set the command list shown in the chat's menu
+   */
+  async setMyCommands(commands: Array<{ command: string; description: string }>): Promise<TelegramResponse> {
+    return this.callApi('setMyCommands', { commands });
+  }
+
+  private async callApi(method: string, body: Record<string, any>): Promise<TelegramResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return await response.json();
+    } catch (error) {
+      return {
+        ok: false,
+        description: error instanceof Error ? error.message : `Failed to call ${method}`,
+      };
+    }
+  }
+
   /**
    * Format message with proper escaping for Markdown
    */
@@ -212,109 +305,22 @@ export class TelegramBotService {
     data: Record<string, any>
   ): Promise<TelegramResponse> {
     const message = this.getNotificationTemplate(type, data);
-    return this.sendMessageWithRetry(chatId, message, 3);
+    const replyMarkup = type === 'high_profit_deal' && data.asin
+      ? buildDealKeyboard({
+          asin: data.asin,
+          scanId: data.scanId,
+          sourcePriceGbp: data.sourcePriceGbp,
+          targetPrice: data.targetPrice
+        })
+      : undefined;
+    return this.sendMessageWithRetry(chatId, message, 3, { replyMarkup });
   }
 
   /**
    * Get notification template
    */
   private getNotificationTemplate(type: string, data: Record<string, any>): string {
-    const templates: Record<string, (data: any) => string> = {
-      // Test notification
-      test_notification: (d) =>
-        `🔔 *Test Notification*\n\n` +
-        `✅ Your Telegram connection is working!\n` +
-        `User: ${d.user || 'Unknown'}\n` +
-        `Time: ${new Date(d.timestamp).toLocaleString()}`,
-      
-      // Storefront notifications
-      storefront_added: (d) => 
-        `🏪 *New Storefront Added*\n\n` +
-        `Name: ${d.name}\n` +
-        `Products: ${d.productCount || 0}\n` +
-        `Added: ${new Date().toLocaleString()}`,
-      
-      products_sync_complete: (d) =>
-        `📦 *Sync Complete*\n\n` +
-        `Storefront: ${d.storefrontName}\n` +
-        `➕ Added: ${d.productsAdded || 0}\n` +
-        `➖ Removed: ${d.productsRemoved || 0}\n` +
-        `Total: ${d.totalProducts || 0} products`,
-      
-      new_products_found: (d) =>
-        `🆕 *New Products Found*\n\n` +
-        `Storefront: ${d.storefrontName}\n` +
-        `New ASINs: ${d.count}\n` +
-        `View in dashboard to analyze`,
-      
-      // Arbitrage notifications
-      high_profit_deal: (d) => {
-        const profitLevel = d.profit >= 20 ? '🚀 MEGA PROFIT' : d.profit >= 10 ? '💰 HIGH PROFIT' : '💵 GOOD PROFIT';
-        const urgency = d.roi >= 100 ? '⚡ ACT FAST!' : d.roi >= 50 ? '🔥 HOT DEAL!' : '📈 Good opportunity';
-        
-        return `${profitLevel} ALERT\n\n` +
-               `📦 *${d.productName}*\n` +
-               `🔗 ASIN: \`${d.asin}\`\n\n` +
-               `💵 *Profit: £${d.profit.toFixed(2)}*\n` +
-               `📊 *ROI: ${d.roi.toFixed(1)}%*\n\n` +
-               `🛒 *Buy:* ${d.sourceMarket} @ £${d.sourcePrice.toFixed(2)}\n` +
-               `🇬🇧 *Sell:* UK @ £${d.targetPrice.toFixed(2)}\n\n` +
-               `${urgency}`;
-      },
-      
-      scan_complete: (d) => {
-        const hasResults = d.profitableCount > 0 && d.totalProfit > 0;
-        
-        if (!hasResults) {
-          return `🏁 *Scan Complete*\n\n` +
-                 `📊 *${d.scanType}*\n` +
-                 `Products Analyzed: ${d.productsAnalyzed}\n` +
-                 `Result: No profitable opportunities found\n\n` +
-                 `💡 Try analyzing different products or check price changes.`;
-        }
-        
-        return `🏁 *Scan Complete*\n\n` +
-               `📊 *${d.scanType}*\n` +
-               `📈 Products Analyzed: ${d.productsAnalyzed}\n` +
-               `💰 Profitable Deals: ${d.profitableCount}\n` +
-               `💵 Total Profit: *£${d.totalProfit.toFixed(2)}*\n` +
-               `🎯 Best Deal: £${d.bestProfit.toFixed(2)} (${d.bestRoi.toFixed(1)}% ROI)\n\n` +
-               `🔥 ${d.profitableCount === 1 ? 'Deal' : 'Deals'} ready for analysis!`;
-      },
-      
-      price_change_alert: (d) =>
-        `📈 *Price Change Alert*\n\n` +
-        `ASIN: \`${d.asin}\`\n` +
-        `Product: ${d.productName}\n` +
-        `Market: ${d.market}\n` +
-        `Old Price: £${d.oldPrice.toFixed(2)}\n` +
-        `New Price: £${d.newPrice.toFixed(2)}\n` +
-        `Change: ${d.changePercent > 0 ? '📈' : '📉'} ${Math.abs(d.changePercent).toFixed(1)}%`,
-      
-      // System notifications
-      scheduled_task_complete: (d) =>
-        `⏰ *Scheduled Task Complete*\n\n` +
-        `Task: ${d.taskName}\n` +
-        `Status: ✅ Success\n` +
-        `Duration: ${d.duration}ms\n` +
-        `Next Run: ${d.nextRun}`,
-      
-      api_quota_warning: (d) =>
-        `⚠️ *API Quota Warning*\n\n` +
-        `API: ${d.apiName}\n` +
-        `Usage: ${d.percentage}%\n` +
-        `Remaining: ${d.remaining}/${d.total}\n` +
-        `Reset: ${d.resetTime}`,
-      
-      keepa_token_low: (d) =>
-        `🔄 *Low Keepa Tokens*\n\n` +
-        `Available: ${d.available}/${d.total}\n` +
-        `Regeneration: ${d.regenerationRate} tokens/min\n` +
-        `Full in: ${d.minutesToFull} minutes`,
-    };
-
-    const template = templates[type];
-    return template ? template(data) : `📢 ${type}: ${JSON.stringify(data)}`;
+    return renderNotificationText(type, data);
   }
 }
 
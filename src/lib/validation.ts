@@ -37,6 +37,8 @@ export const apiSchemas = {
     storefrontId: schemas.uuid,
     debug: schemas.boolean,
     maxProducts: z.number().int().min(1).max(1000).optional(),
+    direction: z.enum(['eu_to_uk', 'uk_to_eu']).default('eu_to_uk'),
+    profileId: schemas.uuid.optional(),
   }),
   
   // Product sync request
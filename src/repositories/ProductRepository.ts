@@ -47,6 +47,7 @@ export class ProductRepository implements IProductRepository {
       .from('products')
       .select('*')
       .contains('storefronts', [storefront.seller_id])
+      .is('removed_at', null)
       .order('current_sales_rank', { ascending: true, nullsFirst: false })
       .limit(500);
 
@@ -8,8 +8,8 @@ import { IProductRepository } from '@/domain/interfaces/IProductRepository';
 import { IExternalPricingService } from '@/domain/interfaces/IExternalPricingService';
 import { Product } from '@/domain/models/Product';
 import { ArbitrageOpportunity, ArbitrageScan } from '@/domain/models/ArbitrageOpportunity';
-import { MARKETPLACES } from '@/lib/amazon-marketplaces';
-import { convertToGBP } from '@/lib/exchange-rates';
+import { MARKETPLACES, getMarketplace, getMarketplaceCurrencies, getSourceMarketplaces } from '@/lib/amazon-marketplaces';
+import { exchangeRateService, convertWithSnapshot } from '@/lib/exchange-rates';
 import { estimateMonthlySales } from '@/lib/sales-estimator';
 
 export class ArbitrageAnalysisService implements IArbitrageService {
@@ -181,8 +181,7 @@ export class ArbitrageAnalysisService implements IArbitrageService {
     const ukPricing = await this.pricingService.getCompetitivePricing(asins, MARKETPLACES.UK.id);
 
     // Get EU pricing for all marketplaces
-    const euPricingPromises = Object.entries(MARKETPLACES)
-      .filter(([key]: any) => key !== 'UK')
+    const euPricingPromises = getSourceMarketplaces()
       .map(async ([key, marketplace]: any) => ({
         marketplace: key,
         pricing: await this.pricingService.getCompetitivePricing(asins, marketplace.id)
@@ -246,11 +245,13 @@ export class ArbitrageAnalysisService implements IArbitrageService {
     const totalUKFees = ukFees.totalFees + digitalServicesFee;
 
     // Check each EU marketplace
+    const rateSnapshot = await exchangeRateService.getSnapshot(getMarketplaceCurrencies());
+
     for (const [marketplace, data] of marketplacePrices) {
       if (marketplace === 'UK') continue;
 
       const sourcePrice = data.price;
-      const sourcePriceGBP = convertToGBP(sourcePrice, 'EUR');
+      const sourcePriceGBP = convertWithSnapshot(sourcePrice, getMarketplace(marketplace)?.currency || 'EUR', rateSnapshot);
       const profitGBP = ukPrice - sourcePriceGBP - totalUKFees;
       const roi = (profitGBP / sourcePriceGBP) * 100;
 
@@ -1,354 +1,1533 @@
-import { injectable, inject } from 'tsyringe';
-import type { 
-  IArbitrageService, 
-  ArbitrageScanResult, 
-  ArbitrageProgressMessage,
-  ProductPricingData 
-} from '@/domain/interfaces/IArbitrageService';
-import type { IProductRepository } from '@/domain/interfaces/IProductRepository';
-import type { IExternalPricingService } from '@/domain/interfaces/IExternalPricingService';
-import type { IArbitrageScanRepository } from '@/domain/interfaces/IArbitrageScanRepository';
-import type { Product } from '@/domain/models/Product';
-import type { ArbitrageOpportunity } from '@/domain/models/ArbitrageOpportunity';
-import { MARKETPLACES } from '@/lib/amazon-marketplaces';
-import { convertToGBP } from '@/lib/exchange-rates';
-import { estimateMonthlySales } from '@/lib/sales-estimator';
-import { TOKENS } from '@/infrastructure/container';
-
-@injectable()
-export class ArbitrageAnalysisServiceV3 implements IArbitrageService {
-  private readonly BATCH_SIZE = 20;
-  private readonly MIN_PROFIT_THRESHOLD = 0;
-  private readonly DIGITAL_SERVICES_TAX_RATE = 0.02;
-
-  constructor(
-    @inject(TOKENS.ProductRepository) private productRepository: IProductRepository,
-    @inject(TOKENS.ExternalPricingService) private pricingService: IExternalPricingService,
-    @inject(TOKENS.ArbitrageScanRepository) private scanRepository: IArbitrageScanRepository
-  ) {}
-
-  async analyzeStorefront(
-    storefrontId: string,
-    userId: string,
-    onProgress?: (message: ArbitrageProgressMessage) => void
-  ): Promise<ArbitrageScanResult> {
-    const results: ArbitrageScanResult[] = [];
-    
-    for await (const message of this.analyzeStorefrontStream(storefrontId, userId)) {
-      onProgress?.(message);
-      if (message.type === 'complete') {
-        results.push(message.data as ArbitrageScanResult);
-      }
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ArbitrageProgressMessage } from '@/domain/interfaces/IArbitrageService';
+import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
+import { SPAPIProductFeesClient } from '@/lib/sp-api-product-fees';
+import { SPAPICatalogClient } from '@/lib/sp-api-catalog';
+import { checkEnvVars } from '@/lib/env-check';
+import { AppError } from '@/lib/error-handling';
+import { BlacklistService } from '@/lib/blacklist-service';
+import { BlacklistRule, findBlacklistRule, mergeRuleExclusions } from '@/lib/blacklist-rules';
+import { categorizeProfitLevel } from '@/lib/profit-categorizer';
+import { estimateMonthlySalesFromRank } from '@/lib/sales-estimator';
+import { notificationService } from '@/lib/notification-service';
+import { listingRestrictionsService, RestrictionStatus } from '@/lib/listing-restrictions';
+import { exchangeRateService, convertWithSnapshot, ExchangeRateSnapshot } from '@/lib/exchange-rates';
+import { MARKETPLACES, SCAN_MARKETPLACE_CODES, getMarketplaceCurrencies } from '@/lib/amazon-marketplaces';
+import {
+  landedCostService,
+  toLandedCostColumns,
+  extractProductDimensions,
+  profileNeedsCatalogData,
+  EMPTY_LANDED_COST_PROFILE,
+  LandedCostProfile,
+  LandedProfit
+} from '@/lib/landed-cost';
+import { fbaClassificationService, FbaClassification } from '@/lib/fba-classification';
+import { toFbaClassificationColumns } from '@/lib/fba-size-tier';
+import { getBuyingSettings, suggestBuyQuantity, toBuyQuantityColumns, BuyingSettings } from '@/lib/buy-quantity';
+import { getCasesToOrder } from '@/lib/supplier-price-list';
+import {
+  getSourcingProfile,
+  getProfileMismatch,
+  SourcingProfile,
+  SourcingProfileCandidate
+} from '@/lib/sourcing-profiles';
+import {
+  analyzeReverseOpportunity,
+  buildReverseOpportunityPayload,
+  buildReverseOpportunityRow,
+  extractFeeBreakdown,
+  FeeBreakdown,
+  ScanDirection,
+  DEFAULT_SCAN_DIRECTION
+} from '@/lib/reverse-arbitrage';
+import {
+  RATE_LIMITS,
+  MarketplacePrice,
+  RequestThrottle,
+  fetchMarketplacePricing,
+  getPricingSalesRank,
+  isRateLimitError
+} from './marketplace-pricing';
+import { shortlistOfferChecks, fetchOfferAnalyses, applyRealisticPrices } from './buy-box-offers';
+import type { ProductSource, ScanProduct } from './product-sources';
+import { createScanEnrichers } from './scan-enrichers';
+import type {
+  ScanEnricher,
+  ScanEnrichmentConfig,
+  ProductDetails,
+  ProductEnrichment,
+  OpportunityContext
+} from './scan-enrichers';
+
+export interface ScanOptions {
+  userId: string;
+  direction?: ScanDirection;
+  enrichments?: ScanEnrichmentConfig;
+  notify?: boolean; // Send scan_complete / high_profit_deal notifications
+  metadata?: Record<string, any>; // Extra arbitrage_scans metadata
+  profileId?: string; // Only save and alert on deals matching this sourcing profile
+  debug?: boolean;
+}
+
+interface ScanState {
+  scanId: string;
+  userId: string;
+  direction: ScanDirection;
+  rateSnapshot: ExchangeRateSnapshot;
+  landedCostProfile: LandedCostProfile;
+  buyingSettings: BuyingSettings;
+  profile: SourcingProfile | null;
+  blacklistRules: BlacklistRule[];
+  ruleExclusions: Record<string, number>; // Products excluded by rules once their catalog data was known
+  enrichers: ScanEnricher[];
+  throttle: RequestThrottle;
+  needsCatalogData: boolean;
+  supplierCosts: boolean;
+  debug: boolean;
+}
+
+/**
+ * Everything a scan needs to continue, persisted on arbitrage_scans.job_config
+ */
+interface ScanJobConfig {
+  scanType: string;
+  direction: ScanDirection;
+  needsCatalogData: boolean;
+  supplierCosts?: boolean; // Products carry a supplier cost and are only priced in the UK
+  enrichments: ScanEnrichmentConfig;
+  notify: boolean;
+  debug: boolean;
+  profile?: SourcingProfile; // Rules as the scan started, so a resumed scan filters the same way
+  summary?: string;
+  totalListings: number;
+  uniqueAsins: number;
+  storefrontsCount?: number;
+  excludedCount: number;
+  blacklistedCount: number;
+}
+
+interface ScanCheckpoint {
+  next_batch: number; // First batch not yet fully processed
+  processed_count: number;
+  opportunities_found: number;
+  skipped_asins?: string[]; // Products in batches that kept failing
+}
+
+// A failing batch is retried this many times before its products are skipped
+const BATCH_RETRIES = 2;
+
+// Status a scan is left in after the engine honours a control request
+const CONTROL_REQUEST_STATUS = {
+  pause: 'paused',
+  cancel: 'cancelled'
+} as const;
+
+type ScanControlRequest = keyof typeof CONTROL_REQUEST_STATUS;
+
+interface ScanJob {
+  scanId: string;
+  userId: string;
+  config: ScanJobConfig;
+  products: ScanProduct[];
+  checkpoint: ScanCheckpoint;
+  rateSnapshot: ExchangeRateSnapshot;
+  metadata: Record<string, any>;
+}
+
+// Conservative estimate accounting for pricing, fees and catalog API delays
+const ESTIMATED_SECONDS_PER_PRODUCT = 3;
+
+const SCAN_TYPE_LABELS: Record<string, string> = {
+  single_storefront: 'Single Storefront',
+  all_storefronts: 'All Storefronts',
+  selected_storefronts: 'Selected Storefronts',
+  storefront_group: 'Storefront Group',
+  asin_check: 'ASIN Check',
+  csv_import: 'CSV Import',
+  supplier_import: 'Supplier Price List'
+};
+
+/**
+ * The scan engine behind every arbitrage stream route.
+ *
+ * A scan loads its products from a ProductSource, filters the blacklist, then
+ * prices each batch in every scan marketplace, estimates fees for the chosen
+ * direction and saves every deal to arbitrage_opportunities. Progress,
+ * opportunities and the final summary are yielded as stream messages.
+ *
+ * Each scan is saved as a job (product list, options and a checkpoint after
+ * every batch) so resumeScanStream can finish it after a server restart.
+ * Between batches the engine also picks up pause and cancel requests made
+ * through the scan control endpoints.
+ */
+export class ArbitrageAnalysisServiceV3 {
+  private readonly BATCH_SIZE = RATE_LIMITS.COMPETITIVE_PRICING.itemsPerRequest;
+
+  private pricingClient: SPAPICompetitivePricingClient;
+  private feesClient: SPAPIProductFeesClient;
+  private catalogClient: SPAPICatalogClient;
+  private blacklistService: BlacklistService;
+
+  constructor(private supabase: SupabaseClient) {
+    const envCheck = checkEnvVars({
+      supabase: { url: true, serviceKey: true },
+      aws: { accessKeyId: true, secretAccessKey: true },
+      amazon: { accessKeyId: true, secretAccessKey: true, refreshToken: true, marketplaceId: true }
+    });
+
+    if (!envCheck.success) {
+      throw new AppError('Service temporarily unavailable', 503, 'SERVICE_UNAVAILABLE');
     }
-    
-    return results[0];
+
+    const credentials = {
+      accessKeyId: envCheck.values.awsAccessKeyId,
+      secretAccessKey: envCheck.values.awsSecretAccessKey,
+      sessionToken: undefined,
+      region: envCheck.values.awsRegion || 'eu-west-1',
+    };
+
+    const spApiConfig = {
+      clientId: envCheck.values.amazonAccessKeyId,
+      clientSecret: envCheck.values.amazonSecretAccessKey,
+      refreshToken: envCheck.values.amazonRefreshToken,
+      marketplaceId: MARKETPLACES.UK.id,
+      region: 'eu' as const,
+    };
+
+    this.pricingClient = new SPAPICompetitivePricingClient(credentials, spApiConfig);
+    this.feesClient = new SPAPIProductFeesClient(credentials, spApiConfig);
+    this.catalogClient = new SPAPICatalogClient(credentials, spApiConfig);
+    this.blacklistService = new BlacklistService(
+      envCheck.values.supabaseUrl,
+      envCheck.values.supabaseServiceKey
+    );
   }
 
-  async *analyzeStorefrontStream(
-    storefrontId: string,
-    userId: string
+  /**
+   * Start a scan: load the products, create the scan record, save the job and run it
+   */
+  async *analyzeProductsStream(
+    source: ProductSource,
+    options: ScanOptions
   ): AsyncGenerator<ArbitrageProgressMessage> {
-    const scan = await this.scanRepository.create({
-      userId,
-      storefrontId,
-      status: 'in_progress',
-      productsScanned: 0,
-      opportunitiesFound: 0,
-      startedAt: new Date()
-    });
+    const { userId } = options;
+    const direction = options.direction || DEFAULT_SCAN_DIRECTION;
+    let scanId: string | null = null;
 
     try {
-      yield { type: 'progress', data: { step: 'Loading products...', progress: 5 } };
-      
-      const products = await this.productRepository.findByStorefront(storefrontId);
-      
-      if (products.length === 0) {
-        throw new Error('No products found for this storefront');
+      yield { type: 'progress', data: { step: 'Initialising scan...', progress: 0 } };
+
+      const profile = options.profileId
+        ? await getSourcingProfile(this.supabase, userId, options.profileId)
+        : null;
+
+      if (options.profileId && !profile) {
+        throw new AppError('Sourcing profile not found', 404, 'NOT_FOUND');
       }
 
-      const opportunities: ArbitrageOpportunity[] = [];
-      let productsAnalyzed = 0;
+      const loaded = await source.load(this.supabase, userId, { catalogClient: this.catalogClient });
 
-      for await (const message of this.analyzeProductsStream(products, scan.id, userId)) {
-        if (message.type === 'opportunity') {
-          opportunities.push(message.data as ArbitrageOpportunity);
-        } else if (message.type === 'progress' && message.data.processedCount) {
-          productsAnalyzed = message.data.processedCount;
+      // Snapshot exchange rates so every price in this scan uses the same rate
+      const rateSnapshot = await exchangeRateService.getSnapshot(getMarketplaceCurrencies());
+
+      const scanMetadata = {
+        exchange_rate: rateSnapshot.rates.EUR,
+        exchange_rates: rateSnapshot,
+        marketplaces: SCAN_MARKETPLACE_CODES,
+        direction,
+        batch_size: this.BATCH_SIZE,
+        ...(profile && { sourcing_profile: profile.name }),
+        ...loaded.metadata,
+        ...options.metadata
+      };
+
+      const { data: scan, error: scanError } = await this.supabase
+        .from('arbitrage_scans')
+        .insert({
+          user_id: userId,
+          scan_type: source.scanType,
+          storefront_id: loaded.storefrontId || null,
+          storefront_name: loaded.scanName,
+          storefront_group_id: loaded.storefrontGroup?.id || null,
+          storefront_group_name: loaded.storefrontGroup?.name || null,
+          status: 'running',
+          direction,
+          sourcing_profile_id: profile?.id || null,
+          metadata: scanMetadata
+        })
+        .select()
+        .single();
+
+      if (scanError || !scan) {
+        console.error('Scan creation error:', scanError);
+        throw new AppError(`Failed to create scan record: ${scanError?.message || 'Unknown error'}`, 500, 'DATABASE_ERROR');
+      }
+
+      scanId = scan.id as string;
+
+      yield { type: 'progress', data: { step: 'Scan started...', progress: 2, scanId } };
+
+      yield { type: 'progress', data: { step: 'Checking blacklist...', progress: 8, scanId } };
+
+      const blacklistedAsins = await this.blacklistService.getBlacklistedAsins(userId);
+      const blacklistRules = await this.blacklistService.getBlacklistRules(userId);
+      const { filteredProducts: products, excludedCount, ruleExclusions } = this.blacklistService.filterBlacklistedProducts(
+        loaded.products,
+        blacklistedAsins,
+        blacklistRules
+      );
+      const fullMetadata = {
+        ...scanMetadata,
+        excluded_asins: excludedCount,
+        blacklisted_asins_count: blacklistedAsins.size,
+        blacklist_rules_count: blacklistRules.length,
+        blacklist_rule_exclusions: ruleExclusions,
+        original_product_count: loaded.products.length
+      };
+
+      if (excludedCount > 0) {
+        yield {
+          type: 'progress',
+          data: {
+            step: `Excluded ${excludedCount} blacklisted products. Proceeding with ${products.length} products...`,
+            progress: 9,
+            scanId,
+            excludedCount,
+            blacklistedCount: blacklistedAsins.size
+          }
+        };
+      }
+
+      if (products.length === 0) {
+        await this.blacklistService.recordRuleExclusions(scanId, blacklistRules, ruleExclusions);
+        await this.supabase
+          .from('arbitrage_scans')
+          .update({
+            status: 'failed',
+            error_message: 'All products blacklisted',
+            completed_at: new Date().toISOString(),
+            metadata: fullMetadata
+          })
+          .eq('id', scanId);
+        scanId = null; // Already marked failed
+
+        throw new AppError(
+          'All products are blacklisted. Please remove some ASINs from blacklist or sync more products.',
+          400,
+          'ALL_BLACKLISTED'
+        );
+      }
+
+      const job: ScanJob = {
+        scanId,
+        userId,
+        rateSnapshot,
+        metadata: fullMetadata,
+        products,
+        checkpoint: { next_batch: 0, processed_count: 0, opportunities_found: 0 },
+        config: {
+          scanType: source.scanType,
+          direction,
+          needsCatalogData: source.needsCatalogData,
+          supplierCosts: source.hasSupplierCosts || false,
+          enrichments: options.enrichments || {},
+          notify: options.notify || false,
+          debug: options.debug || false,
+          profile: profile || undefined,
+          summary: loaded.summary,
+          totalListings: loaded.totalListings,
+          uniqueAsins: loaded.products.length,
+          storefrontsCount: loaded.storefrontsCount,
+          excludedCount,
+          blacklistedCount: blacklistedAsins.size
         }
-        yield message;
+      };
+
+      // Persist the job so the resume worker can continue it after a restart
+      const { error: jobError } = await this.supabase
+        .from('arbitrage_scans')
+        .update({
+          job_config: job.config,
+          scan_products: job.products,
+          checkpoint: job.checkpoint,
+          metadata: fullMetadata
+        })
+        .eq('id', scanId);
+
+      if (jobError) {
+        console.error('Failed to save scan job:', jobError);
       }
-      
-      await this.scanRepository.update(scan.id, {
-        status: 'completed',
-        productsScanned: productsAnalyzed,
-        opportunitiesFound: opportunities.length,
-        completedAt: new Date()
-      });
 
-      const result: ArbitrageScanResult = {
-        scanId: scan.id,
-        productsAnalyzed,
-        opportunitiesFound: opportunities.length,
-        opportunities,
-        completedAt: new Date()
+      if (products.length > 500) {
+        yield {
+          type: 'progress',
+          data: {
+            step: `⚠️ Large scan detected (${products.length} products). This analysis may take several minutes...`,
+            progress: 9
+          }
+        };
+      }
+
+      yield {
+        type: 'progress',
+        data: {
+          step: `Loaded ${products.length} products, starting ${direction === 'uk_to_eu' || source.hasSupplierCosts ? 'UK' : 'EU'} pricing analysis...`,
+          progress: 10,
+          scanId,
+          totalProducts: products.length,
+          totalAsins: products.length,
+          uniqueAsins: loaded.products.length,
+          finalAsinCount: products.length,
+          storefrontsCount: loaded.storefrontsCount,
+          estimatedTimeMinutes: this.estimateMinutesRemaining(products.length),
+          startTime: Date.now(),
+          excludedCount,
+          blacklistedCount: blacklistedAsins.size
+        }
       };
 
-      yield { type: 'complete', data: result };
+      yield* this.runScanJob(job);
     } catch (error) {
-      await this.scanRepository.update(scan.id, {
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
-      });
+      if (scanId) {
+        await this.markScanFailed(scanId, error);
+      }
       throw error;
     }
   }
 
-  async analyzeASINs(
-    asins: string[],
-    userId: string,
-    onProgress?: (message: ArbitrageProgressMessage) => void
-  ): Promise<ArbitrageScanResult> {
-    const results: ArbitrageScanResult[] = [];
-    
-    for await (const message of this.analyzeASINsStream(asins, userId)) {
-      onProgress?.(message);
-      if (message.type === 'complete') {
-        results.push(message.data as ArbitrageScanResult);
-      }
+  /**
+   * Continue a running scan from its last checkpoint (after a server restart)
+   */
+  async *resumeScanStream(scanId: string): AsyncGenerator<ArbitrageProgressMessage> {
+    const { data: scan, error } = await this.supabase
+      .from('arbitrage_scans')
+      .select('*')
+      .eq('id', scanId)
+      .single();
+
+    if (error || !scan) {
+      throw new AppError('Scan not found', 404, 'NOT_FOUND');
     }
-    
-    return results[0];
-  }
 
-  async *analyzeASINsStream(
-    asins: string[],
-    userId: string
-  ): AsyncGenerator<ArbitrageProgressMessage> {
-    const scan = await this.scanRepository.create({
-      userId,
-      asins,
-      status: 'in_progress',
-      productsScanned: 0,
-      opportunitiesFound: 0,
-      startedAt: new Date()
-    });
+    if (scan.status !== 'running' || !scan.job_config || !Array.isArray(scan.scan_products)) {
+      throw new AppError('Scan cannot be resumed', 409, 'SCAN_NOT_RESUMABLE');
+    }
 
     try {
-      const products = await this.productRepository.findByASINs(asins);
-      const opportunities: ArbitrageOpportunity[] = [];
-      let productsAnalyzed = 0;
-
-      for await (const message of this.analyzeProductsStream(products, scan.id, userId)) {
-        if (message.type === 'opportunity') {
-          opportunities.push(message.data as ArbitrageOpportunity);
-        } else if (message.type === 'progress' && message.data.processedCount) {
-          productsAnalyzed = message.data.processedCount;
-        }
-        yield message;
+      const job: ScanJob = {
+        scanId,
+        userId: scan.user_id,
+        rateSnapshot: scan.metadata?.exchange_rates,
+        metadata: scan.metadata || {},
+        products: scan.scan_products,
+        checkpoint: scan.checkpoint || { next_batch: 0, processed_count: 0, opportunities_found: 0 },
+        config: scan.job_config
+      };
+
+      await this.supabase
+        .from('arbitrage_scans')
+        .update({ resume_count: (scan.resume_count || 0) + 1 })
+        .eq('id', scanId);
+
+      if (!job.rateSnapshot) {
+        job.rateSnapshot = await exchangeRateService.getSnapshot(getMarketplaceCurrencies());
       }
-      
-      await this.scanRepository.update(scan.id, {
-        status: 'completed',
-        productsScanned: productsAnalyzed,
-        opportunitiesFound: opportunities.length,
-        completedAt: new Date()
-      });
 
-      const result: ArbitrageScanResult = {
-        scanId: scan.id,
-        productsAnalyzed,
-        opportunitiesFound: opportunities.length,
-        opportunities,
-        completedAt: new Date()
+      const totalBatches = Math.ceil(job.products.length / this.BATCH_SIZE);
+
+      yield {
+        type: 'progress',
+        data: {
+          step: `Resuming scan at batch ${Math.min(job.checkpoint.next_batch + 1, totalBatches)}/${totalBatches}...`,
+          progress: 20 + (job.checkpoint.processed_count / job.products.length) * 70,
+          scanId,
+          processedCount: job.checkpoint.processed_count,
+          totalProducts: job.products.length
+        }
       };
 
-      yield { type: 'complete', data: result };
+      yield* this.runScanJob(job);
     } catch (error) {
-      await this.scanRepository.update(scan.id, {
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
-      });
+      await this.markScanFailed(scanId, error);
       throw error;
     }
   }
 
-  private async *analyzeProductsStream(
-    products: Product[],
-    scanId: string,
-    userId: string
-  ): AsyncGenerator<ArbitrageProgressMessage> {
-    const estimatedTimePerProduct = 3; // seconds
-    const totalEstimatedSeconds = products.length * estimatedTimePerProduct;
+  /**
+   * Analyse the job's products batch by batch from its checkpoint, saving a
+   * checkpoint after each batch, then complete the scan
+   */
+  private async *runScanJob(job: ScanJob): AsyncGenerator<ArbitrageProgressMessage> {
+    const { scanId, userId, config, products } = job;
 
-    yield {
-      type: 'progress',
-      data: {
-        step: `Analyzing ${products.length} products...`,
-        progress: 10,
-        totalProducts: products.length,
-        estimatedTimeMinutes: Math.ceil(totalEstimatedSeconds / 60)
-      }
+    // Deals saved before the last checkpoint (e.g. part of an interrupted batch)
+    // aren't analysed twice, and count towards the opportunities found
+    const { data: savedOpportunities } = await this.supabase
+      .from('arbitrage_opportunities')
+      .select('asin, best_profit')
+      .eq('scan_id', scanId);
+
+    const savedAsins = new Set((savedOpportunities || []).map(opp => opp.asin));
+    let opportunitiesFound = (savedOpportunities || []).filter(opp => (opp.best_profit || 0) > 0).length;
+    let processedCount = job.checkpoint.processed_count;
+    const skippedAsins = [...(job.checkpoint.skipped_asins || [])];
+
+    const state: ScanState = {
+      scanId,
+      userId,
+      direction: config.direction,
+      rateSnapshot: job.rateSnapshot,
+      landedCostProfile: await landedCostService.getProfile(userId),
+      buyingSettings: await getBuyingSettings(this.supabase, userId),
+      profile: config.profile || null,
+      blacklistRules: await this.blacklistService.getBlacklistRules(userId),
+      ruleExclusions: {},
+      enrichers: createScanEnrichers(this.supabase, userId, config.enrichments),
+      throttle: new RequestThrottle(),
+      needsCatalogData: config.needsCatalogData,
+      supplierCosts: config.supplierCosts || false,
+      debug: config.debug
     };
 
-    let processedCount = 0;
+    for (const enricher of state.enrichers) {
+      if (enricher.prepare) {
+        yield* enricher.prepare({ scanId, asinCount: products.length });
+      }
+    }
+
+    const totalBatches = Math.ceil(products.length / this.BATCH_SIZE);
 
-    // Process in batches
-    for (let i = 0; i < products.length; i += this.BATCH_SIZE) {
-      const batch = products.slice(i, i + this.BATCH_SIZE);
+    for (let batchIndex = job.checkpoint.next_batch; batchIndex < totalBatches; batchIndex++) {
+      const i = batchIndex * this.BATCH_SIZE;
+      const batch = products.slice(i, i + this.BATCH_SIZE).filter(p => !savedAsins.has(p.asin));
+      const step = `Processing batch ${batchIndex + 1}/${totalBatches}...`;
       const batchProgress = 20 + (i / products.length) * 60;
 
       yield {
         type: 'progress',
         data: {
-          step: `Processing batch ${Math.floor(i / this.BATCH_SIZE) + 1}/${Math.ceil(products.length / this.BATCH_SIZE)}...`,
+          step,
           progress: batchProgress,
+          scanId,
           processedCount: i,
-          totalProducts: products.length
+          totalProducts: products.length,
+          totalAsins: products.length,
+          estimatedMinutesRemaining: this.estimateMinutesRemaining(products.length - i)
         }
       };
 
-      const batchOpportunities = await this.analyzeBatch(batch);
-      
-      for (const opportunity of batchOpportunities) {
-        processedCount++;
+      await this.updateScanProgress(scanId, batchProgress, step, i);
 
-        // Save opportunity to database
-        await this.scanRepository.addOpportunity(scanId, opportunity);
+      // Retry only the products a failed attempt didn't get to, so no deal is saved twice
+      let pending = batch;
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        const analyzed = new Set<string>();
+
+        try {
+          const asins = pending.map(p => p.asin);
+
+          if (asins.length > 0) {
+            for (const enricher of state.enrichers) {
+              await enricher.beforeBatch?.(asins);
+            }
+          }
+
+          // Supplier costs replace EU prices, so only the UK sell price is needed
+          const pricingByAsin = asins.length > 0
+            ? await fetchMarketplacePricing(this.pricingClient, asins, state.throttle, state.supplierCosts ? ['UK'] : undefined)
+            : new Map<string, Record<string, MarketplacePrice>>();
+
+          // Second pass for likely deals: reprice the sell listing from its offers
+          const offerChecks = state.supplierCosts
+            ? []
+            : shortlistOfferChecks(config.direction, pricingByAsin, job.rateSnapshot);
+          if (offerChecks.length > 0) {
+            const offerAnalyses = await fetchOfferAnalyses(this.pricingClient, offerChecks, pricingByAsin, state.throttle);
+            applyRealisticPrices(pricingByAsin, offerAnalyses);
+          }
+
+          for (const product of pending) {
+            const messages = await this.analyzeProduct(product, pricingByAsin.get(product.asin), state);
+            analyzed.add(product.asin);
+
+            for (const message of messages) {
+              if (message.type === 'opportunity' && message.data.bestOpportunity.profit > 0) {
+                opportunitiesFound++;
+              }
+              yield message;
+            }
+
+            processedCount++;
+
+            // Update progress every 5 products for smooth updates
+            if (processedCount % 5 === 0 || processedCount === products.length) {
+              yield {
+                type: 'progress',
+                data: {
+                  step: `Analyzed ${processedCount}/${products.length} products, found ${opportunitiesFound} opportunities`,
+                  progress: 20 + (processedCount / products.length) * 70,
+                  scanId,
+                  processedCount,
+                  totalProducts: products.length,
+                  totalAsins: products.length,
+                  opportunitiesFound,
+                  estimatedMinutesRemaining: this.estimateMinutesRemaining(products.length - processedCount)
+                }
+              };
+            }
+          }
+
+          pending = [];
+        } catch (batchError) {
+          pending = pending.filter(p => !analyzed.has(p.asin));
+
+          if (attempt >= BATCH_RETRIES) {
+            console.error(`Batch ${batchIndex + 1} failed ${attempt + 1} times, skipping ${pending.length} products:`, batchError);
+            skippedAsins.push(...pending.map(p => p.asin));
+            break;
+          }
+
+          console.error(`Batch ${batchIndex + 1} failed, retrying in 5s:`, batchError);
+          await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.RETRY_DELAY));
+        }
+      }
+
+      processedCount = Math.min(products.length, i + this.BATCH_SIZE);
+      await this.saveCheckpoint(scanId, {
+        next_batch: batchIndex + 1,
+        processed_count: processedCount,
+        opportunities_found: opportunitiesFound,
+        skipped_asins: skippedAsins
+      });
+
+      const stoppedAs = await this.applyControlRequest(scanId, processedCount, products.length);
+
+      if (stoppedAs) {
+        const message = stoppedAs === 'paused'
+          ? `Scan paused after ${processedCount}/${products.length} products. Resume it to continue.`
+          : `Scan cancelled after ${processedCount}/${products.length} products.`;
 
         yield {
-          type: 'opportunity',
-          data: opportunity
+          type: 'complete',
+          data: {
+            scanId,
+            status: stoppedAs,
+            exchangeRate: job.rateSnapshot.rates.EUR,
+            totalProducts: products.length,
+            productsAnalyzed: processedCount,
+            totalAsins: products.length,
+            opportunitiesFound,
+            totalOpportunities: opportunitiesFound,
+            message
+          }
         };
+        return;
       }
     }
 
+    const ruleExclusions = mergeRuleExclusions(job.metadata.blacklist_rule_exclusions, state.ruleExclusions);
+
+    await this.supabase
+      .from('arbitrage_scans')
+      .update({
+        status: 'completed',
+        control_request: null,
+        total_products: config.totalListings,
+        unique_asins: products.length,
+        opportunities_found: opportunitiesFound,
+        completed_at: new Date().toISOString(),
+        metadata: { ...job.metadata, blacklist_rule_exclusions: ruleExclusions, skipped_asins: skippedAsins }
+      })
+      .eq('id', scanId);
+
+    await this.blacklistService.recordRuleExclusions(scanId, state.blacklistRules, ruleExclusions);
+
+    await this.updateScanProgress(scanId, 100, 'Analysis complete', processedCount);
+
+    if (config.notify) {
+      await this.sendNotifications(scanId, userId, config.scanType, products.length, state.profile);
+    }
+
+    const scope = config.summary ? ` ${config.summary}` : '';
+    const found = state.profile
+      ? `${opportunitiesFound} opportunities matching "${state.profile.name}"`
+      : `${opportunitiesFound} profitable opportunities`;
+    const skipped = skippedAsins.length > 0
+      ? ` ${skippedAsins.length} products could not be analysed after repeated errors.`
+      : '';
+    const message = config.excludedCount > 0
+      ? `Analysis complete! Analysed ${products.length} products${scope} (${config.excludedCount} blacklisted products excluded) and found ${found}.${skipped}`
+      : `Analysis complete! Analysed all ${products.length} products${scope} and found ${found}.${skipped}`;
+
     yield {
-      type: 'progress',
+      type: 'complete',
       data: {
-        step: 'Analysis complete',
-        progress: 100,
-        processedCount,
-        totalProducts: products.length
+        scanId,
+        status: 'completed',
+        exchangeRate: job.rateSnapshot.rates.EUR,
+        totalProducts: products.length,
+        productsAnalyzed: products.length,
+        totalAsins: products.length,
+        totalListings: config.totalListings,
+        uniqueAsins: config.uniqueAsins,
+        finalAsinCount: products.length,
+        storefrontsCount: config.storefrontsCount,
+        excludedCount: config.excludedCount,
+        skippedAsins,
+        opportunitiesFound,
+        totalOpportunities: opportunitiesFound,
+        message
       }
     };
   }
 
-  private async analyzeBatch(products: Product[]): Promise<ArbitrageOpportunity[]> {
-    const opportunities: ArbitrageOpportunity[] = [];
-    const asins = products.map((p: any) => p.asin);
+  /**
+   * Analyse one product against its batch pricing. Returns the messages to
+   * stream: an opportunity for every priced deal, profitable or not.
+   */
+  private async analyzeProduct(
+    product: ScanProduct,
+    marketplacePrices: Record<string, MarketplacePrice> | undefined,
+    state: ScanState
+  ): Promise<ArbitrageProgressMessage[]> {
+    const { asin } = product;
+    const ukPricing = marketplacePrices?.UK;
+
+    // Skip products without a valid UK NEW price (might be USED only)
+    if (!marketplacePrices || !ukPricing?.price || ukPricing.price <= 0) {
+      if (state.debug) {
+        console.log(`[DEBUG] Skipping ${asin} - no valid UK NEW price available`);
+      }
+      return [];
+    }
+
+    const hasEuPrice = Object.entries(marketplacePrices)
+      .some(([country, data]) => country !== 'UK' && data.price > 0);
+
+    if (!hasEuPrice && !product.supplierItem) {
+      if (state.debug) {
+        console.log(`[DEBUG] Skipping ${asin} - no valid EU NEW prices available`);
+      }
+      return [];
+    }
+
+    const details = state.needsCatalogData
+      ? await this.getCatalogDetails(product, state.throttle)
+      : {
+          productName: product.productName || asin,
+          productImage: product.productImage,
+          salesRank: product.salesRank || 0,
+          salesPerMonth: product.salesPerMonth || 0,
+          brand: product.brand
+        };
+
+    // Rules on brand, category or title can only be checked once the catalog filled them in
+    if (state.needsCatalogData) {
+      const rule = findBlacklistRule(state.blacklistRules, { asin, ...details });
+      if (rule) {
+        state.ruleExclusions[rule.id] = (state.ruleExclusions[rule.id] || 0) + 1;
+        if (state.debug) {
+          console.log(`[DEBUG] Skipping ${asin} - blacklisted by ${rule.ruleType} rule "${rule.pattern}"`);
+        }
+        return [];
+      }
+    }
+
+    // Use sales rank from the product first, fallback to SP-API pricing data
+    const ukSalesRank = details.salesRank || getPricingSalesRank(ukPricing);
+    details.salesRank = ukSalesRank;
+    details.salesPerMonth = details.salesPerMonth || (ukSalesRank > 0 ? estimateMonthlySalesFromRank(ukSalesRank) : 0);
 
-    // Get UK pricing for all products in batch
-    const ukPricing = await this.pricingService.getCompetitivePricing(asins, MARKETPLACES.UK.id);
+    const enrichment = await this.enrichProduct(asin, details, state.enrichers);
+
+    const base = {
+      asin,
+      productName: enrichment.productName ?? details.productName,
+      productImage: enrichment.productImage ?? details.productImage,
+      ukCompetitors: ukPricing.numberOfOffers,
+      ukSalesRank,
+      salesPerMonth: enrichment.salesPerMonth ?? details.salesPerMonth,
+      storefronts: product.storefronts || []
+    };
 
-    // Get EU pricing for all marketplaces
-    const euPricingPromises = Object.entries(MARKETPLACES)
-      .filter(([key]: any) => key !== 'UK')
-      .map(async ([key, marketplace]: any) => ({
-        marketplace: key,
-        pricing: await this.pricingService.getCompetitivePricing(asins, marketplace.id)
-      }));
+    if (product.supplierItem) {
+      return this.analyzeSupplierDeal(state, product, ukPricing, details, base, enrichment);
+    }
 
-    const euPricingResults = await Promise.all(euPricingPromises);
+    if (state.direction === 'uk_to_eu') {
+      const reverseResult = await analyzeReverseOpportunity({
+        asin,
+        ukPrice: ukPricing.price,
+        marketplacePrices,
+        feesClient: this.feesClient,
+        rateSnapshot: state.rateSnapshot,
+        beforeFeesRequest: () => state.throttle.wait('fees', RATE_LIMITS.PRODUCT_FEES.minInterval)
+      });
 
-    // Analyze each product
-    for (const product of products) {
-      const ukData = ukPricing.get(product.asin);
-      if (!ukData || !ukData.price || ukData.price <= 0) {
-        continue;
+      if (!reverseResult.best) {
+        return [];
       }
 
-      // Collect pricing from all EU marketplaces
-      const marketplacePrices = new Map<string, ProductPricingData>();
-      marketplacePrices.set('UK', ukData);
+      const result = { ...reverseResult, best: reverseResult.best };
+      const landed = await landedCostService.evaluate({
+        asin,
+        profile: state.landedCostProfile,
+        sourceMarketplace: 'UK',
+        sourcePriceGBP: result.best.sourcePriceGBP,
+        profit: result.best.profit,
+        catalogClient: this.catalogClient
+      });
+
+      const matchesProfile = await this.matchesProfile(state, asin, details, {
+        profit: landed.landedProfit,
+        roi: landed.landedRoi,
+        salesRank: ukSalesRank,
+        offers: marketplacePrices[result.best.marketplace]?.numberOfOffers,
+        price: result.best.targetPriceGBP,
+        salesPerMonth: base.salesPerMonth
+      });
 
-      for (const { marketplace, pricing } of euPricingResults) {
-        const euData = pricing.get(product.asin);
-        if (euData && euData.price > 0) {
-          marketplacePrices.set(marketplace, euData);
+      if (!matchesProfile) {
+        return [];
+      }
+
+      const extras = await this.enrichOpportunity(state, {
+        asin,
+        productName: base.productName,
+        ukPrice: ukPricing.price,
+        ukCompetitors: base.ukCompetitors,
+        euMarketplace: result.best.marketplace,
+        euPrice: result.best.targetPrice,
+        euPriceGBP: result.best.targetPriceGBP,
+        profit: result.best.profit,
+        roi: result.best.roi
+      });
+
+      const buyBox = marketplacePrices[result.best.marketplace]?.offers || null;
+      const restrictionStatus = await this.getRestrictionStatus(asin, result.best.marketplace, result.best.profit);
+      const quantity = this.suggestQuantity(state, base, result.best.sourcePriceGBP, landed);
+      // The fees estimate is for the EU marketplace, so only catalog data classifies UK-sourced deals
+      const fbaClassification = await this.getFbaClassification(state, product, result.best.profit);
+
+      await this.saveOpportunity(state.scanId, {
+        ...buildReverseOpportunityRow(state.scanId, base, result, landed),
+        buy_box_analysis: buyBox,
+        restriction_status: restrictionStatus,
+        ...toBuyQuantityColumns(quantity),
+        ...(fbaClassification ? toFbaClassificationColumns(fbaClassification) : {}),
+        ...enrichment.columns
+      });
+
+      return [{
+        type: 'opportunity',
+        data: {
+          ...buildReverseOpportunityPayload(base, result, landed),
+          buyBox,
+          restrictionStatus,
+          ...quantity,
+          ...fbaClassification,
+          ...enrichment.payload,
+          ...extras
         }
+      }];
+    }
+
+    const fees = await this.estimateUkFees(asin, ukPricing.price, state.throttle);
+    if (!fees) {
+      return [];
+    }
+
+    const ukPrice = ukPricing.price;
+    const vatRate = MARKETPLACES.UK.vatRate;
+    const vatOnSale = ukPrice / (1 + vatRate) * vatRate;
+    const netRevenue = ukPrice - vatOnSale;
+
+    const euPrices: any[] = [];
+
+    for (const [country, priceData] of Object.entries(marketplacePrices)) {
+      if (country === 'UK' || !priceData?.price) continue;
+
+      const sourcePrice = priceData.price;
+      const sourcePriceGBP = convertWithSnapshot(sourcePrice, priceData.currency, state.rateSnapshot);
+
+      // Net Profit = (Sale Price - VAT on Sale) - (Cost of Goods + Amazon Fees + Digital Services Fee)
+      const totalCosts = sourcePriceGBP + fees.amazonFees + fees.digitalServicesFee;
+      const profit = netRevenue - totalCosts;
+      const roi = (profit / sourcePriceGBP) * 100;
+      const profitMargin = (profit / netRevenue) * 100;
+
+      const marketplacePrice = {
+        marketplace: country,
+        sourcePrice,
+        sourcePriceGBP,
+        profit,
+        profitMargin,
+        roi,
+        totalCost: totalCosts
+      };
+
+      euPrices.push(marketplacePrice);
+    }
+
+    // Apply the user's landed cost profile (prep, freight, duty, brokerage) to every
+    // source, as freight and duty depend on the source country and can change the best one
+    const dimensions = euPrices.some(price => price.profit > 0) && profileNeedsCatalogData(state.landedCostProfile)
+      ? await landedCostService.getDimensions(asin, this.catalogClient)
+      : undefined;
+
+    let bestOpportunity: any = null;
+    let landed: LandedProfit | null = null;
+
+    for (const marketplacePrice of euPrices) {
+      const sourceLanded = await landedCostService.evaluate({
+        asin,
+        profile: state.landedCostProfile,
+        sourceMarketplace: marketplacePrice.marketplace,
+        sourcePriceGBP: marketplacePrice.sourcePriceGBP,
+        profit: marketplacePrice.profit,
+        dimensions
+      });
+
+      if (!landed || sourceLanded.landedRoi > landed.landedRoi) {
+        bestOpportunity = marketplacePrice;
+        landed = sourceLanded;
+      }
+    }
+
+    if (!bestOpportunity || !landed) {
+      return [];
+    }
+
+    // Save ALL deals (profitable, break-even, and loss-making)
+    const profitCategory = categorizeProfitLevel(bestOpportunity.profit);
+
+    const matchesProfile = await this.matchesProfile(state, asin, details, {
+      profit: landed.landedProfit,
+      roi: landed.landedRoi,
+      salesRank: ukSalesRank,
+      offers: base.ukCompetitors,
+      price: ukPrice,
+      salesPerMonth: base.salesPerMonth
+    });
+
+    if (!matchesProfile) {
+      return [];
+    }
+
+    const extras = await this.enrichOpportunity(state, {
+      asin,
+      productName: base.productName,
+      ukPrice,
+      ukCompetitors: base.ukCompetitors,
+      euMarketplace: bestOpportunity.marketplace,
+      euPrice: bestOpportunity.sourcePrice,
+      euPriceGBP: bestOpportunity.sourcePriceGBP,
+      profit: bestOpportunity.profit,
+      roi: bestOpportunity.roi
+    });
+
+    const restrictionStatus = await this.getRestrictionStatus(asin, 'UK', bestOpportunity.profit);
+    const quantity = this.suggestQuantity(state, base, bestOpportunity.sourcePriceGBP, landed);
+    const fbaClassification = await this.getFbaClassification(state, product, bestOpportunity.profit, fees.fbaFee);
+
+    await this.saveOpportunity(state.scanId, {
+      scan_id: state.scanId,
+      asin,
+      product_name: base.productName,
+      product_image: base.productImage,
+      target_price: ukPrice,
+      amazon_fees: fees.amazonFees,
+      referral_fee: fees.referralFee,
+      digital_services_fee: 0, // Included in total amazon_fees from SP-API
+      uk_competitors: base.ukCompetitors,
+      uk_sales_rank: ukSalesRank,
+      sales_per_month: base.salesPerMonth,
+      best_source_marketplace: bestOpportunity.marketplace,
+      best_source_price: bestOpportunity.sourcePrice,
+      best_source_price_gbp: bestOpportunity.sourcePriceGBP,
+      best_profit: bestOpportunity.profit,
+      best_roi: bestOpportunity.roi,
+      profit_category: profitCategory,
+      ...toLandedCostColumns(landed),
+      all_marketplace_prices: { euPrices },
+      buy_box_analysis: ukPricing.offers || null,
+      restriction_status: restrictionStatus,
+      ...toBuyQuantityColumns(quantity),
+      ...(fbaClassification ? toFbaClassificationColumns(fbaClassification) : {}),
+      storefronts: base.storefronts,
+      ...enrichment.columns
+    });
+
+    return [{
+      type: 'opportunity',
+      data: {
+        ...base,
+        targetPrice: ukPrice,
+        amazonFees: fees.amazonFees,
+        referralFee: fees.referralFee,
+        fbaFee: fees.fbaFee,
+        digitalServicesFee: fees.digitalServicesFee,
+        vatOnSale,
+        netRevenue,
+        euPrices: euPrices.sort((a, b) => b.roi - a.roi),
+        bestOpportunity,
+        profitCategory,
+        buyBox: ukPricing.offers || null,
+        restrictionStatus,
+        ...quantity,
+        ...fbaClassification,
+        ...landed,
+        ...enrichment.payload,
+        ...extras
+      }
+    }];
+  }
+
+  /**
+   * Cost a supplier price list product against its UK sale price. The supplier
+   * quotes a delivered UK trade price, so of the landed cost profile only prep
+   * applies, and there is no EU source to compare price history against.
+   */
+  private async analyzeSupplierDeal(
+    state: ScanState,
+    product: ScanProduct,
+    ukPricing: MarketplacePrice,
+    details: ProductDetails,
+    base: {
+      asin: string;
+      productName: string;
+      productImage: string;
+      ukCompetitors: number;
+      ukSalesRank: number;
+      salesPerMonth: number;
+      storefronts: ScanProduct['storefronts'];
+    },
+    enrichment: ProductEnrichment
+  ): Promise<ArbitrageProgressMessage[]> {
+    const { asin } = product;
+    const supplierItem = product.supplierItem!;
+    const ukPrice = ukPricing.price;
+
+    const fees = await this.estimateUkFees(asin, ukPrice, state.throttle);
+    if (!fees) {
+      return [];
+    }
+
+    const vatRate = MARKETPLACES.UK.vatRate;
+    const vatOnSale = ukPrice / (1 + vatRate) * vatRate;
+    const netRevenue = ukPrice - vatOnSale;
+    const sourcePriceGBP = supplierItem.costPerListing;
+    const totalCost = sourcePriceGBP + fees.amazonFees + fees.digitalServicesFee;
+    const profit = netRevenue - totalCost;
+
+    const bestOpportunity = {
+      marketplace: 'SUPPLIER',
+      sourcePrice: sourcePriceGBP,
+      sourcePriceGBP,
+      profit,
+      profitMargin: (profit / netRevenue) * 100,
+      roi: (profit / sourcePriceGBP) * 100,
+      totalCost
+    };
+    const profitCategory = categorizeProfitLevel(profit);
+
+    const landed = await landedCostService.evaluate({
+      asin,
+      profile: { ...EMPTY_LANDED_COST_PROFILE, prepFeePerUnit: state.landedCostProfile.prepFeePerUnit },
+      sourceMarketplace: 'UK',
+      sourcePriceGBP,
+      profit,
+      dimensions: null
+    });
+
+    const matchesProfile = await this.matchesProfile(state, asin, details, {
+      profit: landed.landedProfit,
+      roi: landed.landedRoi,
+      salesRank: base.ukSalesRank,
+      offers: base.ukCompetitors,
+      price: ukPrice,
+      salesPerMonth: base.salesPerMonth
+    });
+
+    if (!matchesProfile) {
+      return [];
+    }
+
+    const restrictionStatus = await this.getRestrictionStatus(asin, 'UK', profit);
+    const quantity = this.suggestQuantity(state, base, sourcePriceGBP, landed);
+    const fbaClassification = await this.getFbaClassification(state, product, profit, fees.fbaFee);
+    const supplierDeal = {
+      ...supplierItem,
+      casesToOrder: getCasesToOrder(quantity.suggestedQuantity, supplierItem)
+    };
+
+    await this.saveOpportunity(state.scanId, {
+      scan_id: state.scanId,
+      asin,
+      product_name: base.productName,
+      product_image: base.productImage,
+      target_price: ukPrice,
+      amazon_fees: fees.amazonFees,
+      referral_fee: fees.referralFee,
+      digital_services_fee: 0, // Included in total amazon_fees from SP-API
+      uk_competitors: base.ukCompetitors,
+      uk_sales_rank: base.ukSalesRank,
+      sales_per_month: base.salesPerMonth,
+      best_source_marketplace: bestOpportunity.marketplace,
+      best_source_price: sourcePriceGBP,
+      best_source_price_gbp: sourcePriceGBP,
+      best_profit: profit,
+      best_roi: bestOpportunity.roi,
+      profit_category: profitCategory,
+      ...toLandedCostColumns(landed),
+      all_marketplace_prices: { euPrices: [] },
+      buy_box_analysis: null,
+      restriction_status: restrictionStatus,
+      ...toBuyQuantityColumns(quantity),
+      ...(fbaClassification ? toFbaClassificationColumns(fbaClassification) : {}),
+      supplier_item: supplierDeal,
+      storefronts: base.storefronts,
+      ...enrichment.columns
+    });
+
+    return [{
+      type: 'opportunity',
+      data: {
+        ...base,
+        targetPrice: ukPrice,
+        amazonFees: fees.amazonFees,
+        referralFee: fees.referralFee,
+        fbaFee: fees.fbaFee,
+        digitalServicesFee: fees.digitalServicesFee,
+        vatOnSale,
+        netRevenue,
+        euPrices: [],
+        bestOpportunity,
+        profitCategory,
+        buyBox: null,
+        restrictionStatus,
+        ...quantity,
+        ...fbaClassification,
+        ...landed,
+        supplierItem: supplierDeal,
+        ...enrichment.payload
+      }
+    }];
+  }
+
+  /**
+   * Whether a deal passes the scan's sourcing profile. A missing category is
+   * only looked up in the catalog when every other rule already passes.
+   */
+  private async matchesProfile(
+    state: ScanState,
+    asin: string,
+    details: ProductDetails,
+    deal: Omit<SourcingProfileCandidate, 'brand' | 'category'>
+  ): Promise<boolean> {
+    const { profile } = state;
+    if (!profile) {
+      return true;
+    }
+
+    const candidate: SourcingProfileCandidate = { ...deal, brand: details.brand, category: details.category };
+    let mismatch = getProfileMismatch(profile, candidate);
+
+    if (!mismatch && !candidate.category && profile.excludedCategories.length > 0) {
+      candidate.category = (await landedCostService.getDimensions(asin, this.catalogClient))?.category;
+      mismatch = getProfileMismatch(profile, candidate);
+    }
+
+    if (mismatch && state.debug) {
+      console.log(`[DEBUG] Skipping ${asin} - ${mismatch} for profile "${profile.name}"`);
+    }
+
+    return mismatch === null;
+  }
+
+  /**
+   * FBA size tier and hazmat flags for a deal. A size tier stored by an earlier
+   * scan is reused; otherwise the catalog is only queried for profitable deals,
+   * and new results are written back to products.
+   */
+  private async getFbaClassification(
+    state: ScanState,
+    product: ScanProduct,
+    profit: number,
+    fbaFee?: number
+  ): Promise<FbaClassification | null> {
+    if (product.fbaClassification?.fbaSizeTier) {
+      return product.fbaClassification;
+    }
+
+    const classification = await fbaClassificationService.classify({
+      asin: product.asin,
+      catalogClient: this.catalogClient,
+      fbaFee,
+      fetchCatalog: profit > 0,
+      beforeCatalogRequest: () => state.throttle.wait('catalog', RATE_LIMITS.CATALOG.minInterval)
+    });
+
+    if (classification?.fbaSizeTier) {
+      await fbaClassificationService.saveToProducts(product.asin, classification);
+    }
+
+    return classification;
+  }
+
+  /**
+   * Suggested order quantity from our share of sales, costed and priced after landed costs
+   */
+  private suggestQuantity(
+    state: ScanState,
+    base: { salesPerMonth?: number; ukCompetitors?: number },
+    sourcePriceGBP: number,
+    landed: LandedProfit
+  ) {
+    return suggestBuyQuantity({
+      salesPerMonth: base.salesPerMonth,
+      ukCompetitors: base.ukCompetitors,
+      unitCost: sourcePriceGBP + landed.landedCost,
+      unitProfit: landed.landedProfit,
+      settings: state.buyingSettings
+    });
+  }
+
+  /**
+   * Whether we can list a deal in the marketplace it sells in. Only profitable
+   * deals are checked; the rest stay null.
+   */
+  private async getRestrictionStatus(asin: string, marketplace: string, profit: number): Promise<RestrictionStatus | null> {
+    if (profit <= 0) {
+      return null;
+    }
+
+    const statuses = await listingRestrictionsService.getStatuses([asin], marketplace);
+    return statuses.get(asin)?.status || null;
+  }
+
+  /**
+   * Title, image and sales rank from the UK catalog for sources that only have ASINs
+   */
+  private async getCatalogDetails(product: ScanProduct, throttle: RequestThrottle): Promise<ProductDetails> {
+    const { asin } = product;
+    const details: ProductDetails = {
+      productName: product.productName || asin,
+      productImage: product.productImage,
+      salesRank: product.salesRank || 0,
+      salesPerMonth: product.salesPerMonth || 0,
+      brand: product.brand
+    };
+
+    try {
+      await throttle.wait('catalog', RATE_LIMITS.CATALOG.minInterval);
+
+      const catalogData = await this.catalogClient.getCatalogItem(
+        asin,
+        [MARKETPLACES.UK.id],
+        ['attributes', 'images', 'salesRanks', 'summaries', 'dimensions', 'productTypes']
+      );
+
+      // Try multiple sources for the product title
+      const title = catalogData?.attributes?.title?.[0]?.value
+        || catalogData?.summaries?.[0]?.itemName
+        || catalogData?.attributes?.item_name?.[0]?.value;
+
+      if (!product.productName && title) {
+        details.productName = title;
       }
+      if (!details.productImage && catalogData?.images?.[0]?.images?.[0]?.link) {
+        details.productImage = catalogData.images[0].images[0].link;
+      }
+      if (!details.salesRank && catalogData?.salesRanks?.[0]?.ranks?.[0]?.rank) {
+        details.salesRank = catalogData.salesRanks[0].ranks[0].rank;
+      }
+
+      details.brand = details.brand
+        || catalogData?.summaries?.[0]?.brandName
+        || catalogData?.attributes?.brand?.[0]?.value;
+
+      // Landed cost evaluation and FBA classification reuse this lookup
+      const dimensions = extractProductDimensions(catalogData);
+      details.category = dimensions?.category;
+      landedCostService.rememberDimensions(asin, dimensions);
+      fbaClassificationService.rememberCatalogItem(asin, catalogData);
+    } catch (catalogError) {
+      console.error('Catalog error for', asin, catalogError);
+    }
 
-      // Calculate arbitrage opportunities
-      const productOpportunities = await this.calculateArbitrageOpportunity(
-        product,
-        marketplacePrices
+    return details;
+  }
+
+  /**
+   * UK fees estimate at the UK sale price, retried once when rate limited
+   */
+  private async estimateUkFees(asin: string, ukPrice: number, throttle: RequestThrottle): Promise<FeeBreakdown | null> {
+    const requestFees = async () => {
+      await throttle.wait('fees', RATE_LIMITS.PRODUCT_FEES.minInterval);
+      const estimate = await this.feesClient.getMyFeesEstimateForASIN(
+        asin,
+        {
+          listingPrice: {
+            currencyCode: 'GBP',
+            amount: ukPrice
+          }
+        },
+        MARKETPLACES.UK.id
       );
+      return extractFeeBreakdown(estimate);
+    };
 
-      opportunities.push(...productOpportunities);
+    try {
+      return await requestFees();
+    } catch (feeError) {
+      if (!isRateLimitError(feeError)) {
+        console.error(`Fee calculation error for ${asin}:`, feeError);
+        return null;
+      }
+
+      console.log(`Rate limited for ${asin} fees, waiting 5s before retry...`);
+      await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.RETRY_DELAY));
+
+      try {
+        return await requestFees();
+      } catch (retryError) {
+        console.log(`Retry failed for ${asin}, skipping...`);
+        return null;
+      }
+    }
+  }
+
+  private async enrichProduct(
+    asin: string,
+    details: ProductDetails,
+    enrichers: ScanEnricher[]
+  ): Promise<ProductEnrichment> {
+    const merged: ProductEnrichment = { columns: {}, payload: {} };
+
+    for (const enricher of enrichers) {
+      const enrichment = await enricher.enrichProduct?.(asin, details);
+      if (!enrichment) continue;
+
+      merged.productName = enrichment.productName ?? merged.productName;
+      merged.productImage = enrichment.productImage ?? merged.productImage;
+      merged.salesPerMonth = enrichment.salesPerMonth ?? merged.salesPerMonth;
+      Object.assign(merged.columns!, enrichment.columns);
+      Object.assign(merged.payload!, enrichment.payload);
     }
 
-    return opportunities;
+    return merged;
   }
 
-  async calculateArbitrageOpportunity(
-    product: Product,
-    marketplacePrices: Map<string, ProductPricingData>
-  ): Promise<ArbitrageOpportunity[]> {
-    const opportunities: ArbitrageOpportunity[] = [];
-    const ukData = marketplacePrices.get('UK');
-    
-    if (!ukData) {
-      return opportunities;
+  private async enrichOpportunity(
+    state: ScanState,
+    context: Omit<OpportunityContext, 'scanId' | 'userId' | 'direction'>
+  ): Promise<Record<string, any>> {
+    const extras: Record<string, any> = {};
+
+    for (const enricher of state.enrichers) {
+      const result = await enricher.enrichOpportunity?.({
+        ...context,
+        scanId: state.scanId,
+        userId: state.userId,
+        direction: state.direction
+      });
+      Object.assign(extras, result);
     }
 
-    const ukPrice = ukData.price;
-    const ukSalesRank = product.currentSalesRank || ukData.salesRankings?.[0]?.rank || 0;
-    const salesPerMonth = product.salesPerMonth || estimateMonthlySales(ukSalesRank, 'Home & Kitchen');
+    return extras;
+  }
 
-    // Get UK fees
-    const ukFees = await this.pricingService.getFeesEstimate(
-      product.asin,
-      ukPrice,
-      MARKETPLACES.UK.id
-    );
+  private async saveOpportunity(scanId: string, row: Record<string, any>) {
+    // Always save to database first (even if client disconnected)
+    try {
+      const { error } = await this.supabase
+        .from('arbitrage_opportunities')
+        .insert(row);
 
-    const digitalServicesFee = ukFees.totalFees * this.DIGITAL_SERVICES_TAX_RATE;
-    const totalUKFees = ukFees.totalFees + digitalServicesFee;
-
-    // Check each EU marketplace
-    for (const [marketplace, data] of marketplacePrices) {
-      if (marketplace === 'UK') continue;
-
-      const sourcePrice = data.price;
-      const sourcePriceGBP = convertToGBP(sourcePrice, 'EUR');
-      const profitGBP = ukPrice - sourcePriceGBP - totalUKFees;
-      const roi = (profitGBP / sourcePriceGBP) * 100;
-
-      if (profitGBP > this.MIN_PROFIT_THRESHOLD) {
-        opportunities.push({
-          asin: product.asin,
-          productTitle: product.title,
-          ukPrice,
-          ukCompetitors: ukData.numberOfOffers,
-          ukSalesRank,
-          salesPerMonth,
-          sourceMarketplace: marketplace,
-          sourcePrice,
-          sourcePriceGBP,
-          profitGBP,
-          roi,
-          referralFee: ukFees.referralFee,
-          fbaFee: ukFees.fbaFee,
-          digitalServicesFee,
-          totalFees: totalUKFees,
-          netProfit: profitGBP,
-          confidence: this.calculateConfidence(roi, salesPerMonth),
-          lastAnalyzedAt: new Date()
-        });
+      if (error) {
+        console.error('[DB] Failed to save opportunity:', error);
       }
+    } catch (dbError) {
+      console.error(`[DB] Failed to save opportunity for scan ${scanId}:`, dbError);
     }
+  }
 
-    return opportunities;
+  private async updateScanProgress(scanId: string, progress: number, step: string, processedCount: number) {
+    try {
+      await this.supabase
+        .from('arbitrage_scans')
+        .update({
+          progress_percentage: Math.min(100, Math.round(progress)),
+          current_step: step,
+          processed_count: processedCount,
+          last_updated: new Date().toISOString()
+        })
+        .eq('id', scanId);
+    } catch (error) {
+      console.error('Failed to update scan progress:', error);
+    }
   }
 
-  private calculateConfidence(
-    roi: number,
-    salesPerMonth: number
-  ): 'high' | 'medium' | 'low' {
-    if (roi > 30 && salesPerMonth > 50) return 'high';
-    if (roi > 15 && salesPerMonth > 20) return 'medium';
-    return 'low';
+  private async saveCheckpoint(scanId: string, checkpoint: ScanCheckpoint) {
+    try {
+      await this.supabase
+        .from('arbitrage_scans')
+        .update({
+          checkpoint,
+          processed_count: checkpoint.processed_count,
+          opportunities_found: checkpoint.opportunities_found,
+          last_updated: new Date().toISOString()
+        })
+        .eq('id', scanId);
+    } catch (error) {
+      console.error('Failed to save scan checkpoint:', error);
+    }
+  }
+
+  /**
+   * Honour a pending pause or cancel request. The status only changes if the
+   * request is still pending, so a resume that clears it first wins.
+   * Returns the status the scan was left in, or null to keep going.
+   */
+  private async applyControlRequest(
+    scanId: string,
+    processedCount: number,
+    totalProducts: number
+  ): Promise<'paused' | 'cancelled' | null> {
+    const { data: scan, error } = await this.supabase
+      .from('arbitrage_scans')
+      .select('control_request')
+      .eq('id', scanId)
+      .single();
+
+    if (error || !scan?.control_request) {
+      return null;
+    }
+
+    const request = scan.control_request as ScanControlRequest;
+    const status = CONTROL_REQUEST_STATUS[request];
+
+    if (!status) {
+      return null;
+    }
+
+    const { data: updated } = await this.supabase
+      .from('arbitrage_scans')
+      .update({
+        status,
+        control_request: null,
+        current_step: status === 'paused'
+          ? `Paused after ${processedCount}/${totalProducts} products`
+          : `Cancelled after ${processedCount}/${totalProducts} products`,
+        completed_at: status === 'cancelled' ? new Date().toISOString() : null,
+        last_updated: new Date().toISOString()
+      })
+      .eq('id', scanId)
+      .eq('control_request', request)
+      .select('id');
+
+    if (!updated || updated.length === 0) {
+      return null;
+    }
+
+    console.log(`[SCAN] Scan ${scanId} ${status} after ${processedCount}/${totalProducts} products`);
+    return status;
+  }
+
+  private async markScanFailed(scanId: string, error: unknown) {
+    await this.supabase
+      .from('arbitrage_scans')
+      .update({
+        status: 'failed',
+        error_message: error instanceof AppError ? error.message : 'Analysis failed',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', scanId);
+  }
+
+  private estimateMinutesRemaining(remainingProducts: number): number {
+    return Math.ceil(remainingProducts * ESTIMATED_SECONDS_PER_PRODUCT / 60);
+  }
+
+  private async sendNotifications(
+    scanId: string,
+    userId: string,
+    scanType: string,
+    productsAnalyzed: number,
+    profile: SourcingProfile | null
+  ) {
+    try {
+      // Get all opportunities (including non-profitable ones)
+      const { data: allOpportunities } = await this.supabase
+        .from('arbitrage_opportunities')
+        .select('best_profit, best_roi')
+        .eq('scan_id', scanId)
+        .order('best_profit', { ascending: false });
+
+      const profitable = allOpportunities?.filter(opp => (opp.best_profit || 0) > 0) || [];
+      const bestDeal = profitable[0] || allOpportunities?.[0];
+
+      // Digests link back to the scan and group deals by storefront
+      const { data: scan } = await this.supabase
+        .from('arbitrage_scans')
+        .select('storefront_name')
+        .eq('id', scanId)
+        .single();
+      const scanName = scan?.storefront_name || SCAN_TYPE_LABELS[scanType] || scanType;
+
+      await notificationService.sendNotification({
+        userId,
+        type: 'scan_complete',
+        data: {
+          scanId,
+          scanName,
+          scanType: SCAN_TYPE_LABELS[scanType] || scanType,
+          productsAnalyzed,
+          profitableCount: profitable.length,
+          totalProfit: profitable.reduce((sum, opp) => sum + (opp.best_profit || 0), 0),
+          bestProfit: bestDeal?.best_profit || 0,
+          bestRoi: bestDeal?.best_roi || 0
+        }
+      });
+
+      // Send high profit deals notification for exceptional opportunities. A
+      // profile scan only saved deals matching the profile, so its best ones qualify.
+      let highProfitQuery = this.supabase
+        .from('arbitrage_opportunities')
+        .select('*')
+        .eq('scan_id', scanId);
+
+      highProfitQuery = profile
+        ? highProfitQuery.gt('best_profit', 0).order('best_profit', { ascending: false })
+        : highProfitQuery.or('best_profit.gte.10,best_roi.gte.50');
+
+      const { data: highProfitDeals } = await highProfitQuery.limit(5);
+
+      for (const deal of highProfitDeals || []) {
+        await notificationService.sendNotification({
+          userId,
+          type: 'high_profit_deal',
+          data: {
+            asin: deal.asin,
+            productName: deal.product_name || 'Unknown Product',
+            profit: deal.best_profit,
+            roi: deal.best_roi,
+            sourceMarket: deal.best_source_marketplace,
+            sourcePrice: deal.best_source_price,
+            sourcePriceGbp: deal.best_source_price_gbp,
+            targetPrice: deal.target_price,
+            scanId,
+            scanName,
+            storefrontName: deal.storefronts?.[0]?.name || scanName
+          },
+          priority: 'immediate'
+        });
+      }
+    } catch (notificationError) {
+      // Don't fail the scan if notification fails
+      console.error('Failed to send notification:', notificationError);
+    }
   }
-}
\ No newline at end of file
+}
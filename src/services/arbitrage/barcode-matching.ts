@@ -0,0 +1,100 @@
+import { SPAPICatalogClient, CatalogItem } from '@/lib/sp-api-catalog';
+import { MARKETPLACES } from '@/lib/amazon-marketplaces';
+import type { SupplierIdentifierType } from '@/lib/supplier-price-list';
+import { RATE_LIMITS, isRateLimitError } from './marketplace-pricing';
+
+// searchCatalogItems accepts up to 20 identifiers of one type per request
+const IDENTIFIERS_PER_REQUEST = 20;
+
+export const BARCODE_MATCH_INCLUDED_DATA = [
+  'identifiers',
+  'summaries',
+  'attributes',
+  'images',
+  'salesRanks',
+  'productTypes',
+  'dimensions'
+];
+
+// UPC 012345678905 and EAN 0012345678905 are the same barcode
+function barcodeKey(value: string): string {
+  return value.replace(/\D/g, '').replace(/^0+/, '');
+}
+
+function itemBarcodeKeys(item: CatalogItem): string[] {
+  return (item.identifiers || [])
+    .flatMap(entry => entry.identifiers || [])
+    .filter(identifier => ['EAN', 'UPC', 'GTIN'].includes(identifier.identifierType))
+    .map(identifier => barcodeKey(identifier.identifier));
+}
+
+/**
+ * Units in one Amazon listing: the package quantity, else the number of items, else 1
+ */
+export function getListingUnits(item: CatalogItem): number {
+  const quantity = Number(item.attributes?.item_package_quantity?.[0]?.value)
+    || Number(item.attributes?.number_of_items?.[0]?.value);
+  return Number.isFinite(quantity) && quantity > 0 ? Math.round(quantity) : 1;
+}
+
+/**
+ * Look barcodes up in the UK catalog, 20 per request. One barcode can match
+ * several listings; barcodes with no listing are left out of the result.
+ */
+export async function matchBarcodesToCatalog(
+  catalogClient: SPAPICatalogClient,
+  barcodes: Array<{ identifier: string; identifierType: SupplierIdentifierType }>
+): Promise<Map<string, CatalogItem[]>> {
+  const matches = new Map<string, CatalogItem[]>();
+  const byType = new Map<SupplierIdentifierType, string[]>();
+
+  for (const { identifier, identifierType } of barcodes) {
+    const identifiers = byType.get(identifierType) || [];
+    if (!identifiers.includes(identifier)) identifiers.push(identifier);
+    byType.set(identifierType, identifiers);
+  }
+
+  for (const [identifierType, identifiers] of byType) {
+    for (let i = 0; i < identifiers.length; i += IDENTIFIERS_PER_REQUEST) {
+      const batch = identifiers.slice(i, i + IDENTIFIERS_PER_REQUEST);
+      const search = () => catalogClient.searchCatalogItems({
+        identifiers: batch,
+        identifiersType: identifierType,
+        marketplaceIds: [MARKETPLACES.UK.id],
+        includedData: BARCODE_MATCH_INCLUDED_DATA,
+        pageSize: IDENTIFIERS_PER_REQUEST
+      });
+
+      let items: CatalogItem[] = [];
+      try {
+        items = (await search()).items || [];
+      } catch (error) {
+        if (!isRateLimitError(error)) {
+          console.error(`Barcode search failed for ${batch.length} ${identifierType} codes:`, error);
+          continue;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.RETRY_DELAY));
+        try {
+          items = (await search()).items || [];
+        } catch (retryError) {
+          console.error(`Barcode search retry failed for ${batch.length} ${identifierType} codes:`, retryError);
+          continue;
+        }
+      }
+
+      for (const identifier of batch) {
+        const key = barcodeKey(identifier);
+        const matched = batch.length === 1 && items.length > 0
+          ? items
+          : items.filter(item => itemBarcodeKeys(item).includes(key));
+
+        if (matched.length > 0) {
+          matches.set(identifier, matched);
+        }
+      }
+    }
+  }
+
+  return matches;
+}
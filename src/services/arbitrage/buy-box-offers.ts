@@ -0,0 +1,218 @@
+import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
+import { HOME_MARKETPLACE, getMarketplace } from '@/lib/amazon-marketplaces';
+import { convertWithSnapshot, ExchangeRateSnapshot } from '@/lib/exchange-rates';
+import type { ScanDirection } from '@/lib/scan-direction';
+import { RATE_LIMITS, MarketplacePrice, RequestThrottle, isRateLimitError } from './marketplace-pricing';
+
+// FBA offers priced within this fraction of the buy box compete for it
+export const BUY_BOX_BAND = 0.02;
+
+/**
+ * Offer-level view of a listing in the marketplace a deal would sell in
+ */
+export interface OfferAnalysis {
+  marketplace: string;
+  currency: string;
+  competitivePrice: number; // Price getCompetitivePricing reported
+  buyBoxPrice: number | null;
+  realisticPrice: number; // Price used for profit
+  amazonOnListing: boolean | null; // null when Amazon's seller ID isn't known for the marketplace
+  amazonHasBuyBox: boolean;
+  fbaOfferCount: number;
+  fbaSellersNearBuyBox: number;
+  totalOfferCount: number;
+}
+
+export interface OfferCheck {
+  asin: string;
+  marketplace: string;
+}
+
+/**
+ * Listings worth an offers lookup: the sell marketplace of every deal that is
+ * profitable before fees. Fees only reduce profit, so no profitable deal is missed.
+ */
+export function shortlistOfferChecks(
+  direction: ScanDirection,
+  pricingByAsin: Map<string, Record<string, MarketplacePrice>>,
+  rateSnapshot: ExchangeRateSnapshot
+): OfferCheck[] {
+  const checks: OfferCheck[] = [];
+
+  for (const [asin, prices] of pricingByAsin) {
+    const home = prices[HOME_MARKETPLACE];
+    if (!home?.price) continue;
+
+    const sources = Object.entries(prices).filter(([code, price]) => code !== HOME_MARKETPLACE && price.price > 0);
+
+    if (direction === 'uk_to_eu') {
+      // Sell in each EU marketplace whose price ex VAT beats the UK buy price
+      for (const [code, price] of sources) {
+        const vatRate = getMarketplace(code)?.vatRate || 0;
+        const netGBP = convertWithSnapshot(price.price / (1 + vatRate), price.currency, rateSnapshot);
+        if (netGBP > home.price) {
+          checks.push({ asin, marketplace: code });
+        }
+      }
+      continue;
+    }
+
+    // Sell in the UK when any EU buy price is below the UK price ex VAT
+    const ukNet = home.price / (1 + (getMarketplace(HOME_MARKETPLACE)?.vatRate || 0));
+    const hasCheaperSource = sources.some(
+      ([, price]) => convertWithSnapshot(price.price, price.currency, rateSnapshot) < ukNet
+    );
+
+    if (hasCheaperSource) {
+      checks.push({ asin, marketplace: HOME_MARKETPLACE });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Look at the offers on a listing: is Amazon selling, how many FBA sellers
+ * share the buy box, and what price a new seller can realistically get.
+ */
+export function analyzeOffers(payload: any, marketplace: string, competitivePrice: number): OfferAnalysis | null {
+  const offers: any[] = payload?.Offers || [];
+  const summary = payload?.Summary || {};
+
+  if (offers.length === 0) {
+    return null;
+  }
+
+  const landedPrice = (offer: any) =>
+    (offer.ListingPrice?.Amount || 0) + (offer.Shipping?.Amount || 0);
+
+  const currency = offers[0].ListingPrice?.CurrencyCode || getMarketplace(marketplace)?.currency || 'GBP';
+  const amazonSellerId = getMarketplace(marketplace)?.amazonSellerId || null;
+
+  const summaryBuyBox = (summary.BuyBoxPrices || []).find(
+    (price: any) => (price.condition || price.Condition || '').toLowerCase() === 'new'
+  );
+  const winningOffer = offers.find(offer => offer.IsBuyBoxWinner);
+  const buyBoxPrice = summaryBuyBox?.LandedPrice?.Amount
+    ?? summaryBuyBox?.ListingPrice?.Amount
+    ?? (winningOffer ? landedPrice(winningOffer) : null);
+
+  const amazonOffer = amazonSellerId ? offers.find(offer => offer.SellerId === amazonSellerId) : undefined;
+  const fbaOffers = offers.filter(offer => offer.IsFulfilledByAmazon);
+  const fbaSellersNearBuyBox = buyBoxPrice
+    ? fbaOffers.filter(offer => Math.abs(landedPrice(offer) - buyBoxPrice) <= buyBoxPrice * BUY_BOX_BAND).length
+    : 0;
+  const lowestFbaPrice = fbaOffers.length > 0 ? Math.min(...fbaOffers.map(landedPrice)) : null;
+  const lowestPrice = Math.min(...offers.map(landedPrice));
+
+  // Match Amazon when it sells, otherwise the buy box or any cheaper FBA offer
+  const candidates = [
+    amazonOffer ? landedPrice(amazonOffer) : null,
+    buyBoxPrice,
+    lowestFbaPrice
+  ].filter((price): price is number => price !== null && price > 0);
+  const realisticPrice = candidates.length > 0
+    ? Math.min(...candidates)
+    : (lowestPrice > 0 ? lowestPrice : competitivePrice);
+
+  return {
+    marketplace,
+    currency,
+    competitivePrice,
+    buyBoxPrice,
+    realisticPrice,
+    amazonOnListing: amazonSellerId ? !!amazonOffer : null,
+    amazonHasBuyBox: !!amazonOffer?.IsBuyBoxWinner,
+    fbaOfferCount: fbaOffers.length,
+    fbaSellersNearBuyBox,
+    totalOfferCount: summary.TotalOfferCount || offers.length
+  };
+}
+
+/**
+ * Fetch offers for the shortlisted listings, 20 per batch request.
+ * A rate limited request is retried once and otherwise skipped.
+ */
+export async function fetchOfferAnalyses(
+  pricingClient: SPAPICompetitivePricingClient,
+  checks: OfferCheck[],
+  pricingByAsin: Map<string, Record<string, MarketplacePrice>>,
+  throttle: RequestThrottle
+): Promise<Map<string, Record<string, OfferAnalysis>>> {
+  const analyses = new Map<string, Record<string, OfferAnalysis>>();
+  const { requestsPerBatch, minInterval } = RATE_LIMITS.ITEM_OFFERS;
+
+  for (let i = 0; i < checks.length; i += requestsPerBatch) {
+    const chunk = checks.slice(i, i + requestsPerBatch);
+    const requests = chunk.map(check => ({
+      asin: check.asin,
+      marketplaceId: getMarketplace(check.marketplace)?.id,
+      itemCondition: 'New' as const,
+      customerType: 'Consumer' as const
+    }));
+
+    const fetchOffers = async () => {
+      await throttle.wait('offers', minInterval);
+      return pricingClient.getItemOffersBatch(requests);
+    };
+
+    let response: any = null;
+
+    try {
+      response = await fetchOffers();
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.RETRY_DELAY));
+        try {
+          response = await fetchOffers();
+        } catch (retryError) {
+          console.error('Item offers retry failed:', retryError);
+        }
+      } else {
+        console.error('Error fetching item offers:', error);
+      }
+    }
+
+    // Responses come back in request order
+    (response?.responses || []).forEach((result: any, index: number) => {
+      const check = chunk[index];
+      if (!check || result?.status?.statusCode !== 200) return;
+
+      const competitivePrice = pricingByAsin.get(check.asin)?.[check.marketplace]?.price;
+      if (!competitivePrice) return;
+
+      const analysis = analyzeOffers(result.body?.payload, check.marketplace, competitivePrice);
+      if (!analysis) return;
+
+      if (!analyses.has(check.asin)) {
+        analyses.set(check.asin, {});
+      }
+      analyses.get(check.asin)![check.marketplace] = analysis;
+    });
+  }
+
+  return analyses;
+}
+
+/**
+ * Price the analysed listings at their realistic selling price, keeping the offer analysis alongside
+ */
+export function applyRealisticPrices(
+  pricingByAsin: Map<string, Record<string, MarketplacePrice>>,
+  analyses: Map<string, Record<string, OfferAnalysis>>
+): void {
+  for (const [asin, byMarketplace] of analyses) {
+    const prices = pricingByAsin.get(asin);
+    if (!prices) continue;
+
+    for (const [marketplace, analysis] of Object.entries(byMarketplace)) {
+      if (prices[marketplace]) {
+        prices[marketplace] = {
+          ...prices[marketplace],
+          price: analysis.realisticPrice,
+          offers: analysis
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing';
+import { getScanMarketplaces, MarketplaceCode } from '@/lib/amazon-marketplaces';
+import type { OfferAnalysis } from './buy-box-offers';
+
+// Amazon SP-API Rate Limits (Updated 2025 - OFFICIAL LIMITS)
+// Competitive Pricing API: 0.5 requests per second, 20 items per request
+// Product Fees API: 1 request per second
+// Catalog Items API: 2 requests per second
+// Item Offers batch API: 0.5 requests per second, 20 requests per batch
+export const RATE_LIMITS = {
+  COMPETITIVE_PRICING: {
+    itemsPerRequest: 20,
+    minInterval: 2000
+  },
+  ITEM_OFFERS: {
+    requestsPerBatch: 20,
+    minInterval: 2000
+  },
+  PRODUCT_FEES: {
+    minInterval: 1000
+  },
+  CATALOG: {
+    minInterval: 500
+  },
+  RETRY_DELAY: 5000
+};
+
+export type PriceType = 'buy_box' | 'featured_offer' | 'first_available';
+
+export interface MarketplacePrice {
+  price: number;
+  currency: string;
+  priceType: PriceType;
+  competitivePriceId?: string;
+  numberOfOffers: number;
+  salesRankings?: Array<{ rank?: number; Rank?: number }>;
+  offers?: OfferAnalysis; // Set when the offers pass repriced this listing
+}
+
+/**
+ * Minimum interval between requests per key, shared by everything in one scan
+ */
+export class RequestThrottle {
+  private lastRequestTime = new Map<string, number>();
+
+  async wait(key: string, minInterval: number): Promise<void> {
+    const timeSinceLastRequest = Date.now() - (this.lastRequestTime.get(key) || 0);
+    if (timeSinceLastRequest < minInterval) {
+      await new Promise(resolve => setTimeout(resolve, minInterval - timeSinceLastRequest));
+    }
+    this.lastRequestTime.set(key, Date.now());
+  }
+}
+
+export function isRateLimitError(error: any): boolean {
+  const message = error?.message || '';
+  return message.includes('429') || message.includes('QuotaExceeded') || message.includes('TooManyRequests');
+}
+
+/**
+ * Pick the price to use from a competitive pricing result.
+ * Only NEW condition prices count; buy box is preferred, then the featured offer,
+ * then the first available NEW price.
+ */
+export function parseCompetitivePrice(product: any): MarketplacePrice | null {
+  const competitivePrices = product.competitivePricing?.CompetitivePrices || [];
+  const newConditionPrices = competitivePrices.filter(
+    (cp: any) => cp.condition === 'New' || cp.condition === 'new' || !cp.condition
+  );
+
+  if (newConditionPrices.length === 0) {
+    return null;
+  }
+
+  const buyBoxPrice = newConditionPrices.find((cp: any) => cp.CompetitivePriceId === '1');
+  const featuredPrice = newConditionPrices.find(
+    (cp: any) => cp.CompetitivePriceId === 'B2C' || cp.CompetitivePriceId === '2'
+  );
+  const priceData = buyBoxPrice || featuredPrice || newConditionPrices[0];
+
+  // Check both ListingPrice and LandedPrice structures
+  const listingPrice = priceData?.Price?.ListingPrice || priceData?.Price?.LandedPrice;
+  if (!listingPrice?.Amount || !listingPrice?.CurrencyCode) {
+    return null;
+  }
+
+  return {
+    price: listingPrice.Amount,
+    currency: listingPrice.CurrencyCode,
+    priceType: buyBoxPrice ? 'buy_box' : (featuredPrice ? 'featured_offer' : 'first_available'),
+    competitivePriceId: priceData.CompetitivePriceId,
+    numberOfOffers: product.competitivePricing?.NumberOfOfferListings?.find(
+      (l: any) => l.condition === 'New'
+    )?.Count || 0,
+    salesRankings: product.salesRankings
+  };
+}
+
+/**
+ * First sales rank reported alongside competitive pricing
+ */
+export function getPricingSalesRank(price?: MarketplacePrice): number {
+  const ranking = price?.salesRankings?.[0];
+  return ranking?.rank || ranking?.Rank || 0;
+}
+
+/**
+ * Fetch competitive pricing for one batch of ASINs in every scan marketplace
+ * (or only the given ones). Requests run sequentially through the throttle; a
+ * rate limited marketplace is retried once and otherwise left out of the batch.
+ */
+export async function fetchMarketplacePricing(
+  pricingClient: SPAPICompetitivePricingClient,
+  asins: string[],
+  throttle: RequestThrottle,
+  countries?: MarketplaceCode[]
+): Promise<Map<string, Record<string, MarketplacePrice>>> {
+  const pricingByAsin = new Map<string, Record<string, MarketplacePrice>>();
+
+  const fetchPricing = async (marketplaceId: string) => {
+    await throttle.wait('pricing', RATE_LIMITS.COMPETITIVE_PRICING.minInterval);
+    return pricingClient.getCompetitivePricing(asins, marketplaceId, 'Asin', 'Consumer');
+  };
+
+  const marketplaces = getScanMarketplaces().filter(([country]) => !countries || countries.includes(country));
+
+  for (const [country, marketplace] of marketplaces) {
+    let pricing: any[] = [];
+
+    try {
+      pricing = await fetchPricing(marketplace.id);
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+        console.log(`Rate limited for ${country} pricing, waiting 5s...`);
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.RETRY_DELAY));
+        try {
+          pricing = await fetchPricing(marketplace.id);
+        } catch (retryError) {
+          console.error(`Retry failed for ${country}:`, retryError);
+        }
+      } else {
+        console.error(`Error fetching pricing for ${country}:`, error);
+      }
+    }
+
+    for (const product of pricing) {
+      const parsed = parseCompetitivePrice(product);
+      if (!product.asin || !parsed) continue;
+
+      if (!pricingByAsin.has(product.asin)) {
+        pricingByAsin.set(product.asin, {});
+      }
+      pricingByAsin.get(product.asin)![country] = parsed;
+    }
+  }
+
+  return pricingByAsin;
+}
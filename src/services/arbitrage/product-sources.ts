@@ -0,0 +1,505 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '@/lib/error-handling';
+import { mapFbaClassification, FbaClassification } from '@/lib/fba-size-tier';
+import { SPAPICatalogClient } from '@/lib/sp-api-catalog';
+import { extractProductDimensions, landedCostService } from '@/lib/landed-cost';
+import { fbaClassificationService } from '@/lib/fba-classification';
+import {
+  SupplierColumnMapping,
+  SupplierItem,
+  buildSupplierItem,
+  getMissingColumns,
+  readSupplierRows
+} from '@/lib/supplier-price-list';
+import { getListingUnits, matchBarcodesToCatalog } from './barcode-matching';
+
+export interface StorefrontRef {
+  id: string;
+  name: string;
+  seller_id: string;
+}
+
+/**
+ * A product queued for analysis. Fields a source can't provide are null and
+ * are filled in from the catalog when the source asks for catalog data.
+ */
+export interface ScanProduct {
+  asin: string;
+  productName: string | null;
+  productImage: string;
+  salesRank: number | null;
+  salesPerMonth: number | null;
+  brand?: string | null;
+  category?: string | null;
+  fbaClassification?: FbaClassification | null; // Stored by an earlier scan
+  supplierItem?: SupplierItem; // Supplier price list row the ASIN was matched from
+  storefronts?: StorefrontRef[];
+}
+
+export interface LoadedProducts {
+  products: ScanProduct[];
+  scanName: string; // arbitrage_scans.storefront_name
+  storefrontId?: string;
+  storefrontGroup?: { id: string; name: string }; // arbitrage_scans.storefront_group_id / storefront_group_name
+  totalListings: number; // Product rows before ASIN deduplication
+  storefrontsCount?: number;
+  summary?: string; // Appended to the completion message
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Engine clients a source may use while loading
+ */
+export interface ProductSourceContext {
+  catalogClient: SPAPICatalogClient;
+}
+
+/**
+ * Where a scan gets its products from
+ */
+export interface ProductSource {
+  readonly scanType: string;
+  /** Products carry no title, image or rank, so look each one up in the catalog */
+  readonly needsCatalogData: boolean;
+  /** Products carry a supplier cost, so they're costed against the UK price instead of EU prices */
+  readonly hasSupplierCosts?: boolean;
+  load(supabase: SupabaseClient, userId: string, context?: ProductSourceContext): Promise<LoadedProducts>;
+}
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/;
+
+export function normalizeAsins(asins: string[]): string[] {
+  return Array.from(new Set(
+    asins
+      .map(asin => String(asin).trim().toUpperCase())
+      .filter(asin => ASIN_PATTERN.test(asin))
+  ));
+}
+
+function fromProductRow(product: any, storefronts?: StorefrontRef[]): ScanProduct {
+  return {
+    asin: product.asin,
+    productName: product.product_name || product.asin,
+    productImage: product.image_link || '',
+    salesRank: product.current_sales_rank,
+    salesPerMonth: product.sales_per_month,
+    brand: product.brand,
+    category: product.category,
+    fbaClassification: mapFbaClassification(product),
+    storefronts
+  };
+}
+
+function toStorefrontRef(storefront: any): StorefrontRef {
+  return {
+    id: storefront.id,
+    name: storefront.name,
+    seller_id: storefront.seller_id
+  };
+}
+
+/**
+ * Deduplicate product rows by ASIN, tracking every storefront that lists each one
+ */
+function dedupeByAsin(rows: any[]): ScanProduct[] {
+  const uniqueProducts = new Map<string, ScanProduct>();
+
+  for (const row of rows) {
+    if (!row.storefronts) {
+      console.warn(`Product ${row.asin} has no storefront data, skipping`);
+      continue;
+    }
+
+    const storefront = toStorefrontRef(row.storefronts);
+    const existing = uniqueProducts.get(row.asin);
+    if (existing) {
+      existing.storefronts!.push(storefront);
+    } else {
+      uniqueProducts.set(row.asin, fromProductRow(row, [storefront]));
+    }
+  }
+
+  return Array.from(uniqueProducts.values());
+}
+
+/**
+ * Every synced product in one storefront
+ */
+export class StorefrontProductSource implements ProductSource {
+  readonly scanType = 'single_storefront';
+  readonly needsCatalogData = false;
+
+  constructor(private storefrontId: string) {}
+
+  async load(supabase: SupabaseClient): Promise<LoadedProducts> {
+    const { data: storefront } = await supabase
+      .from('storefronts')
+      .select('*')
+      .eq('id', this.storefrontId)
+      .single();
+
+    if (!storefront) {
+      throw new AppError('Storefront not found', 404, 'NOT_FOUND');
+    }
+
+    const { data: products, error } = await supabase
+      .from('products')
+      .select('*')
+      .eq('storefront_id', this.storefrontId)
+      .is('removed_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching products:', error);
+      throw new AppError(`Database error: ${error.message}`, 500, 'DATABASE_ERROR');
+    }
+
+    if (!products || products.length === 0) {
+      throw new AppError('No products found. Please sync products first.', 404, 'NO_PRODUCTS');
+    }
+
+    const storefrontRef = toStorefrontRef(storefront);
+
+    return {
+      products: products.map(product => fromProductRow(product, [storefrontRef])),
+      scanName: storefront.name,
+      storefrontId: storefront.id,
+      totalListings: products.length,
+      storefrontsCount: 1
+    };
+  }
+}
+
+/**
+ * Unique ASINs across all of a user's storefronts
+ */
+export class AllSellersProductSource implements ProductSource {
+  readonly scanType: string = 'all_storefronts';
+  readonly needsCatalogData = false;
+
+  async load(supabase: SupabaseClient, userId: string): Promise<LoadedProducts> {
+    const { data: storefronts, error } = await supabase
+      .from('storefronts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error || !storefronts || storefronts.length === 0) {
+      throw new AppError('No storefronts found', 404, 'NOT_FOUND');
+    }
+
+    return this.loadFromStorefronts(supabase, storefronts, `All Storefronts (${storefronts.length})`);
+  }
+
+  protected async loadFromStorefronts(
+    supabase: SupabaseClient,
+    storefronts: any[],
+    scanName: string
+  ): Promise<LoadedProducts> {
+    const { data: rows, error } = await supabase
+      .from('products')
+      .select('*, storefronts!inner(id, name, seller_id)')
+      .in('storefront_id', storefronts.map(s => s.id))
+      .is('removed_at', null)
+      .order('asin')
+      .limit(50000); // Set high limit to ensure we get all products
+
+    if (error) {
+      console.error('Products query error:', error);
+      throw new AppError(`Failed to fetch products: ${error.message}`, 500, 'DATABASE_ERROR');
+    }
+
+    if (!rows || rows.length === 0) {
+      throw new AppError('No products found in selected storefronts. Please sync your storefronts first.', 404, 'NO_PRODUCTS');
+    }
+
+    const products = dedupeByAsin(rows);
+    console.log(`Deduplicated to ${products.length} unique ASINs from ${rows.length} total products`);
+
+    return {
+      products,
+      scanName,
+      totalListings: rows.length,
+      storefrontsCount: storefronts.length,
+      summary: `from ${rows.length} total products across ${storefronts.length} storefronts`,
+      metadata: { storefronts_count: storefronts.length }
+    };
+  }
+}
+
+/**
+ * Unique ASINs across a chosen set of the user's storefronts
+ */
+export class SelectedStorefrontsProductSource extends AllSellersProductSource {
+  readonly scanType = 'selected_storefronts';
+
+  constructor(private storefrontIds: string[]) {
+    super();
+  }
+
+  async load(supabase: SupabaseClient, userId: string): Promise<LoadedProducts> {
+    const { data: storefronts, error } = await supabase
+      .from('storefronts')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', this.storefrontIds)
+      .order('name');
+
+    if (error || !storefronts || storefronts.length === 0) {
+      throw new AppError('No selected storefronts found', 404, 'NOT_FOUND');
+    }
+
+    if (storefronts.length !== this.storefrontIds.length) {
+      const foundIds = storefronts.map(s => s.id);
+      const missingIds = this.storefrontIds.filter(id => !foundIds.includes(id));
+      console.warn(`Some storefront IDs not found: ${missingIds.join(', ')}`);
+    }
+
+    const storefrontNames = storefronts.map(s => s.name).join(', ');
+    const scanName = storefronts.length === 1
+      ? storefronts[0].name
+      : `${storefronts.length} Selected: ${storefrontNames.length > 50 ? storefrontNames.substring(0, 47) + '...' : storefrontNames}`;
+
+    const loaded = await this.loadFromStorefronts(supabase, storefronts, scanName);
+
+    return {
+      ...loaded,
+      metadata: { ...loaded.metadata, selected_storefront_ids: this.storefrontIds }
+    };
+  }
+}
+
+/**
+ * Unique ASINs across the storefronts in one of the user's storefront groups
+ */
+export class StorefrontGroupProductSource extends AllSellersProductSource {
+  readonly scanType = 'storefront_group';
+
+  constructor(private groupId: string) {
+    super();
+  }
+
+  async load(supabase: SupabaseClient, userId: string): Promise<LoadedProducts> {
+    const { data: group, error } = await supabase
+      .from('storefront_groups')
+      .select('id, name, storefront_group_members(storefront_id)')
+      .eq('id', this.groupId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !group) {
+      throw new AppError('Storefront group not found', 404, 'NOT_FOUND');
+    }
+
+    const storefrontIds = (group.storefront_group_members || []).map((member: any) => member.storefront_id);
+    if (storefrontIds.length === 0) {
+      throw new AppError(`Storefront group ${group.name} has no storefronts`, 400, 'EMPTY_GROUP');
+    }
+
+    const { data: storefronts, error: storefrontsError } = await supabase
+      .from('storefronts')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', storefrontIds)
+      .order('name');
+
+    if (storefrontsError || !storefronts || storefronts.length === 0) {
+      throw new AppError(`No storefronts found in group ${group.name}`, 404, 'NOT_FOUND');
+    }
+
+    const loaded = await this.loadFromStorefronts(supabase, storefronts, group.name);
+
+    return {
+      ...loaded,
+      storefrontGroup: { id: group.id, name: group.name },
+      metadata: { ...loaded.metadata, storefront_group_id: group.id, storefront_group_name: group.name }
+    };
+  }
+}
+
+/**
+ * ASINs supplied directly (ASIN checker)
+ */
+export class AsinListProductSource implements ProductSource {
+  readonly scanType = 'asin_check';
+  readonly needsCatalogData = true;
+
+  constructor(private asins: string[], private scanName: string = 'ASIN Checker') {}
+
+  async load(): Promise<LoadedProducts> {
+    const asins = normalizeAsins(this.asins);
+
+    if (asins.length === 0) {
+      throw new AppError('No valid ASINs provided', 400, 'VALIDATION_ERROR', 'asins');
+    }
+
+    return {
+      products: asins.map(asin => ({
+        asin,
+        productName: null,
+        productImage: '',
+        salesRank: null,
+        salesPerMonth: null
+      })),
+      scanName: this.scanName,
+      totalListings: this.asins.length,
+      metadata: { asins_count: asins.length }
+    };
+  }
+}
+
+/**
+ * ASINs from an uploaded CSV. Uses the column headed "asin" when there is one
+ * (with an optional title column), otherwise any cell that looks like an ASIN.
+ */
+export class CsvProductSource implements ProductSource {
+  readonly scanType = 'csv_import';
+  readonly needsCatalogData = true;
+
+  constructor(private csv: string, private fileName?: string) {}
+
+  async load(): Promise<LoadedProducts> {
+    const rows = this.csv
+      .split(/\r?\n/)
+      .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')))
+      .filter(cells => cells.some(Boolean));
+
+    if (rows.length === 0) {
+      throw new AppError('CSV file is empty', 400, 'VALIDATION_ERROR', 'csv');
+    }
+
+    const header = rows[0].map(cell => cell.toLowerCase());
+    const asinColumn = header.indexOf('asin');
+    const titleColumn = header.findIndex(cell => ['title', 'product_name', 'name'].includes(cell));
+    const titles = new Map<string, string>();
+    let asins: string[];
+
+    if (asinColumn >= 0) {
+      asins = rows.slice(1).map(cells => {
+        const asin = (cells[asinColumn] || '').toUpperCase();
+        if (titleColumn >= 0 && cells[titleColumn]) {
+          titles.set(asin, cells[titleColumn]);
+        }
+        return asin;
+      });
+    } else {
+      asins = rows.flat();
+    }
+
+    const validAsins = normalizeAsins(asins);
+
+    if (validAsins.length === 0) {
+      throw new AppError('No valid ASINs found in CSV', 400, 'VALIDATION_ERROR', 'csv');
+    }
+
+    return {
+      products: validAsins.map(asin => ({
+        asin,
+        productName: titles.get(asin) || null,
+        productImage: '',
+        salesRank: null,
+        salesPerMonth: null
+      })),
+      scanName: this.fileName ? `CSV Import: ${this.fileName}` : 'CSV Import',
+      totalListings: rows.length - (asinColumn >= 0 ? 1 : 0),
+      summary: `from ${this.fileName || 'the uploaded CSV'}`,
+      metadata: { asins_count: validAsins.length, file_name: this.fileName || null }
+    };
+  }
+}
+
+/**
+ * Rows of a supplier price list, matched to UK ASINs by barcode. A barcode
+ * can match several listings (single and multipacks); each is costed for its
+ * own unit count, and an ASIN matched by several rows keeps the cheapest.
+ */
+export class SupplierPriceListProductSource implements ProductSource {
+  readonly scanType = 'supplier_import';
+  readonly needsCatalogData = false;
+  readonly hasSupplierCosts = true;
+
+  constructor(
+    private rows: string[][],
+    private mapping: SupplierColumnMapping,
+    private supplierName: string,
+    private fileName?: string
+  ) {}
+
+  async load(_supabase: SupabaseClient, _userId: string, context?: ProductSourceContext): Promise<LoadedProducts> {
+    if (!context) {
+      throw new AppError('Catalog client is required to match barcodes', 500, 'CONFIG_ERROR');
+    }
+
+    const headers = this.rows[0] || [];
+    const missingColumns = getMissingColumns(headers, this.mapping);
+
+    if (missingColumns.length > 0) {
+      throw new AppError(`Columns not found in the price list: ${missingColumns.join(', ')}`, 400, 'VALIDATION_ERROR', 'mapping');
+    }
+
+    const { items: rows, skippedRows } = readSupplierRows(this.rows, this.mapping);
+
+    if (rows.length === 0) {
+      throw new AppError('No rows with a valid EAN/UPC and cost found in the price list', 400, 'VALIDATION_ERROR', 'file');
+    }
+
+    const matches = await matchBarcodesToCatalog(context.catalogClient, rows);
+    const products = new Map<string, ScanProduct>();
+    const unmatched: string[] = [];
+
+    for (const row of rows) {
+      const items = matches.get(row.identifier);
+
+      if (!items) {
+        unmatched.push(row.identifier);
+        continue;
+      }
+
+      for (const item of items) {
+        const supplierItem = buildSupplierItem(row, getListingUnits(item), this.mapping);
+        const existing = products.get(item.asin);
+
+        if (existing && existing.supplierItem!.costPerListing <= supplierItem.costPerListing) {
+          continue;
+        }
+
+        // Landed cost and FBA classification reuse the search result
+        const dimensions = extractProductDimensions(item);
+        landedCostService.rememberDimensions(item.asin, dimensions);
+        fbaClassificationService.rememberCatalogItem(item.asin, item);
+
+        products.set(item.asin, {
+          asin: item.asin,
+          productName: item.summaries?.[0]?.itemName || row.description || item.asin,
+          productImage: item.images?.[0]?.images?.[0]?.link || '',
+          salesRank: item.salesRanks?.[0]?.ranks?.[0]?.rank || null,
+          salesPerMonth: null,
+          brand: item.summaries?.[0]?.brandName || null,
+          category: dimensions?.category || null,
+          supplierItem
+        });
+      }
+    }
+
+    if (products.size === 0) {
+      throw new AppError('None of the price list barcodes matched an Amazon UK listing', 404, 'NO_PRODUCTS');
+    }
+
+    return {
+      products: Array.from(products.values()),
+      scanName: `${this.supplierName} price list`,
+      totalListings: rows.length,
+      summary: `from ${rows.length - unmatched.length} of ${rows.length} ${this.supplierName} price list rows`,
+      metadata: {
+        supplier_name: this.supplierName,
+        file_name: this.fileName || null,
+        price_list_rows: rows.length,
+        matched_rows: rows.length - unmatched.length,
+        unmatched_rows: unmatched.length,
+        unmatched_sample: unmatched.slice(0, 20),
+        skipped_rows: skippedRows.length,
+        column_mapping: this.mapping
+      }
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '@/lib/error-handling';
+
+/**
+ * Pause, resume and cancel for arbitrage scans.
+ *
+ * A running scan is stopped by setting arbitrage_scans.control_request; the
+ * scan engine checks it after every batch and records the paused or cancelled
+ * status itself, so no batch is cut off half way. A paused scan has no engine
+ * running it and is updated directly.
+ */
+
+export interface ScanControlResult {
+  scanId: string;
+  status: string;
+  controlRequest: 'pause' | 'cancel' | null;
+  needsRunner?: boolean; // A paused scan was set running and must be picked up again
+}
+
+interface ControlledScan {
+  id: string;
+  status: string;
+  control_request: 'pause' | 'cancel' | null;
+  job_config: Record<string, any> | null;
+}
+
+async function loadOwnedScan(supabase: SupabaseClient, scanId: string, userId: string): Promise<ControlledScan> {
+  const { data: scan, error } = await supabase
+    .from('arbitrage_scans')
+    .select('id, status, control_request, job_config')
+    .eq('id', scanId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !scan) {
+    throw new AppError('Scan not found', 404, 'NOT_FOUND');
+  }
+
+  if (!scan.job_config) {
+    // Scans from before jobs were saved can't be checkpointed
+    throw new AppError('This scan does not support pause, resume or cancel', 409, 'SCAN_NOT_CONTROLLABLE');
+  }
+
+  return scan as ControlledScan;
+}
+
+export async function pauseScan(supabase: SupabaseClient, scanId: string, userId: string): Promise<ScanControlResult> {
+  const scan = await loadOwnedScan(supabase, scanId, userId);
+
+  if (scan.status === 'paused' || (scan.status === 'running' && scan.control_request === 'pause')) {
+    return { scanId, status: scan.status, controlRequest: scan.control_request };
+  }
+
+  if (scan.status !== 'running' || scan.control_request === 'cancel') {
+    throw new AppError(`Cannot pause a ${scan.control_request === 'cancel' ? 'cancelling' : scan.status} scan`, 409, 'INVALID_SCAN_STATE');
+  }
+
+  const { data: updated } = await supabase
+    .from('arbitrage_scans')
+    .update({ control_request: 'pause' })
+    .eq('id', scanId)
+    .eq('status', 'running')
+    .is('control_request', null)
+    .select('id');
+
+  if (!updated || updated.length === 0) {
+    throw new AppError('Scan state changed, please try again', 409, 'INVALID_SCAN_STATE');
+  }
+
+  return { scanId, status: 'running', controlRequest: 'pause' };
+}
+
+export async function cancelScan(supabase: SupabaseClient, scanId: string, userId: string): Promise<ScanControlResult> {
+  const scan = await loadOwnedScan(supabase, scanId, userId);
+
+  if (scan.status === 'paused') {
+    const { data: updated } = await supabase
+      .from('arbitrage_scans')
+      .update({
+        status: 'cancelled',
+        control_request: null,
+        completed_at: new Date().toISOString(),
+        last_updated: new Date().toISOString()
+      })
+      .eq('id', scanId)
+      .eq('status', 'paused')
+      .select('id');
+
+    if (!updated || updated.length === 0) {
+      throw new AppError('Scan state changed, please try again', 409, 'INVALID_SCAN_STATE');
+    }
+
+    return { scanId, status: 'cancelled', controlRequest: null };
+  }
+
+  if (scan.status !== 'running') {
+    throw new AppError(`Cannot cancel a ${scan.status} scan`, 409, 'INVALID_SCAN_STATE');
+  }
+
+  // Replaces a pending pause
+  const { data: updated } = await supabase
+    .from('arbitrage_scans')
+    .update({ control_request: 'cancel' })
+    .eq('id', scanId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (!updated || updated.length === 0) {
+    throw new AppError('Scan state changed, please try again', 409, 'INVALID_SCAN_STATE');
+  }
+
+  return { scanId, status: 'running', controlRequest: 'cancel' };
+}
+
+export async function resumeScan(supabase: SupabaseClient, scanId: string, userId: string): Promise<ScanControlResult> {
+  const scan = await loadOwnedScan(supabase, scanId, userId);
+
+  if (scan.status === 'running') {
+    if (scan.control_request !== 'pause') {
+      throw new AppError('Scan is not paused', 409, 'INVALID_SCAN_STATE');
+    }
+
+    // The engine hasn't reached the end of its batch yet - withdraw the request
+    const { data: withdrawn } = await supabase
+      .from('arbitrage_scans')
+      .update({ control_request: null })
+      .eq('id', scanId)
+      .eq('status', 'running')
+      .eq('control_request', 'pause')
+      .select('id');
+
+    if (withdrawn && withdrawn.length > 0) {
+      return { scanId, status: 'running', controlRequest: null };
+    }
+
+    // The engine paused the scan in the meantime
+    return resumeScan(supabase, scanId, userId);
+  }
+
+  if (scan.status !== 'paused') {
+    throw new AppError(`Cannot resume a ${scan.status} scan`, 409, 'INVALID_SCAN_STATE');
+  }
+
+  const { data: updated } = await supabase
+    .from('arbitrage_scans')
+    .update({
+      status: 'running',
+      control_request: null,
+      current_step: 'Resuming...',
+      last_updated: new Date().toISOString()
+    })
+    .eq('id', scanId)
+    .eq('status', 'paused')
+    .select('id');
+
+  if (!updated || updated.length === 0) {
+    throw new AppError('Scan state changed, please try again', 409, 'INVALID_SCAN_STATE');
+  }
+
+  return { scanId, status: 'running', controlRequest: null, needsRunner: true };
+}
@@ -0,0 +1,345 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError } from '@/lib/error-handling';
+import { HOME_MARKETPLACE, getMarketplace } from '@/lib/amazon-marketplaces';
+
+/**
+ * Compare two scans of the same storefront.
+ *
+ * Profitability comes from each scan's arbitrage_opportunities. Marketplace
+ * prices come from the opportunity rows, overridden by any asin_price_history
+ * rows recorded for the scan. Added/removed products use the product list
+ * saved with the scan job, falling back to the ASINs each scan priced.
+ */
+
+export interface ScanDiffScan {
+  id: string;
+  storefrontId: string | null;
+  storefrontName: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  opportunitiesFound: number;
+}
+
+export interface ProfitChange {
+  asin: string;
+  productName: string | null;
+  productImage: string | null;
+  baseProfit: number | null;
+  headProfit: number | null;
+  baseRoi: number | null;
+  headRoi: number | null;
+  baseMarketplace: string | null;
+  headMarketplace: string | null;
+}
+
+export interface MarketplacePriceMove {
+  marketplace: string;
+  currency: string;
+  basePrice: number;
+  headPrice: number;
+  changeAmount: number;
+  changePercentage: number;
+}
+
+export interface PriceMoveItem {
+  asin: string;
+  productName: string | null;
+  productImage: string | null;
+  moves: MarketplacePriceMove[];
+}
+
+export interface ProductChange {
+  asin: string;
+  productName: string | null;
+  productImage: string | null;
+}
+
+export interface ScanDiff {
+  base: ScanDiffScan;
+  head: ScanDiffScan;
+  productListSource: 'scan_products' | 'opportunities';
+  summary: {
+    newlyProfitable: number;
+    noLongerProfitable: number;
+    priceMoves: number;
+    added: number;
+    removed: number;
+  };
+  newlyProfitable: ProfitChange[];
+  noLongerProfitable: ProfitChange[];
+  priceMoves: PriceMoveItem[];
+  added: ProductChange[];
+  removed: ProductChange[];
+}
+
+interface OpportunityRow {
+  asin: string;
+  product_name: string | null;
+  product_image: string | null;
+  target_price: number | null;
+  best_source_marketplace: string | null;
+  best_source_price: number | null;
+  best_profit: number | null;
+  best_roi: number | null;
+  all_marketplace_prices: {
+    direction?: string;
+    euPrices?: Array<{ marketplace: string; sourcePrice: number }>;
+  } | null;
+}
+
+// Ignore rounding noise between scans
+const MIN_PRICE_MOVE = 0.01;
+
+const PAGE_SIZE = 1000;
+
+export async function compareScans(
+  supabase: SupabaseClient,
+  userId: string,
+  baseScanId: string,
+  headScanId: string
+): Promise<ScanDiff> {
+  if (baseScanId === headScanId) {
+    throw new AppError('Choose two different scans to compare', 400, 'INVALID_COMPARISON');
+  }
+
+  const { data: scans, error } = await supabase
+    .from('arbitrage_scans')
+    .select('id, storefront_id, storefront_name, status, started_at, completed_at, opportunities_found, scan_products')
+    .eq('user_id', userId)
+    .in('id', [baseScanId, headScanId]);
+
+  if (error) {
+    throw new AppError('Failed to load scans', 500, 'DATABASE_ERROR');
+  }
+
+  const base = scans?.find(scan => scan.id === baseScanId);
+  const head = scans?.find(scan => scan.id === headScanId);
+
+  if (!base || !head) {
+    throw new AppError('Scan not found', 404, 'NOT_FOUND');
+  }
+
+  if (!base.storefront_id || base.storefront_id !== head.storefront_id) {
+    throw new AppError('Both scans must be of the same storefront', 400, 'INVALID_COMPARISON');
+  }
+
+  const [baseOpportunities, headOpportunities, basePrices, headPrices] = await Promise.all([
+    loadOpportunities(supabase, baseScanId),
+    loadOpportunities(supabase, headScanId),
+    loadRecordedPrices(supabase, baseScanId),
+    loadRecordedPrices(supabase, headScanId)
+  ]);
+
+  const newlyProfitable: ProfitChange[] = [];
+  const noLongerProfitable: ProfitChange[] = [];
+  const priceMoves: PriceMoveItem[] = [];
+
+  for (const asin of new Set([...baseOpportunities.keys(), ...headOpportunities.keys()])) {
+    const before = baseOpportunities.get(asin);
+    const after = headOpportunities.get(asin);
+    const wasProfitable = (before?.best_profit || 0) > 0;
+    const isProfitable = (after?.best_profit || 0) > 0;
+
+    if (isProfitable && !wasProfitable) {
+      newlyProfitable.push(toProfitChange(asin, before, after));
+    } else if (wasProfitable && !isProfitable) {
+      noLongerProfitable.push(toProfitChange(asin, before, after));
+    }
+
+    if (before && after) {
+      const moves = diffPrices(
+        { ...extractMarketplacePrices(before), ...basePrices.get(asin) },
+        { ...extractMarketplacePrices(after), ...headPrices.get(asin) }
+      );
+
+      if (moves.length > 0) {
+        priceMoves.push({
+          asin,
+          productName: after.product_name || before.product_name,
+          productImage: after.product_image || before.product_image,
+          moves
+        });
+      }
+    }
+  }
+
+  // Added/removed products - prefer the full product lists saved with the scan jobs
+  const useScanProducts = Array.isArray(base.scan_products) && Array.isArray(head.scan_products);
+  const baseProducts = useScanProducts
+    ? productsFromScanProducts(base.scan_products)
+    : productsFromOpportunities(baseOpportunities);
+  const headProducts = useScanProducts
+    ? productsFromScanProducts(head.scan_products)
+    : productsFromOpportunities(headOpportunities);
+
+  const added = [...headProducts.values()].filter(product => !baseProducts.has(product.asin));
+  const removed = [...baseProducts.values()].filter(product => !headProducts.has(product.asin));
+
+  newlyProfitable.sort((a, b) => (b.headProfit || 0) - (a.headProfit || 0));
+  noLongerProfitable.sort((a, b) => (b.baseProfit || 0) - (a.baseProfit || 0));
+  priceMoves.sort((a, b) => largestMove(b) - largestMove(a));
+
+  return {
+    base: toDiffScan(base),
+    head: toDiffScan(head),
+    productListSource: useScanProducts ? 'scan_products' : 'opportunities',
+    summary: {
+      newlyProfitable: newlyProfitable.length,
+      noLongerProfitable: noLongerProfitable.length,
+      priceMoves: priceMoves.length,
+      added: added.length,
+      removed: removed.length
+    },
+    newlyProfitable,
+    noLongerProfitable,
+    priceMoves,
+    added,
+    removed
+  };
+}
+
+async function loadOpportunities(supabase: SupabaseClient, scanId: string): Promise<Map<string, OpportunityRow>> {
+  const opportunities = new Map<string, OpportunityRow>();
+
+  // Supabase returns at most 1000 rows per request
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('arbitrage_opportunities')
+      .select('asin, product_name, product_image, target_price, best_source_marketplace, best_source_price, best_profit, best_roi, all_marketplace_prices')
+      .eq('scan_id', scanId)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new AppError('Failed to load scan opportunities', 500, 'DATABASE_ERROR');
+    }
+
+    for (const row of data || []) {
+      opportunities.set(row.asin, row as OpportunityRow);
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      return opportunities;
+    }
+  }
+}
+
+async function loadRecordedPrices(supabase: SupabaseClient, scanId: string): Promise<Map<string, Record<string, number>>> {
+  const prices = new Map<string, Record<string, number>>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('asin_price_history')
+      .select('asin, marketplace, new_price')
+      .eq('scan_id', scanId)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching scan price history:', error);
+      return prices;
+    }
+
+    for (const row of data || []) {
+      if (!prices.has(row.asin)) {
+        prices.set(row.asin, {});
+      }
+      prices.get(row.asin)![row.marketplace] = Number(row.new_price);
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      return prices;
+    }
+  }
+}
+
+/**
+ * Local-currency price per marketplace from an opportunity row. For EU -> UK
+ * deals the UK price is the sell price; for UK -> EU deals it's the buy price
+ * and euPrices holds the EU sell prices.
+ */
+function extractMarketplacePrices(row: OpportunityRow): Record<string, number> {
+  const prices: Record<string, number> = {};
+  const isReverse = row.all_marketplace_prices?.direction === 'uk_to_eu';
+  const homePrice = isReverse ? row.best_source_price : row.target_price;
+
+  if (homePrice) {
+    prices[HOME_MARKETPLACE] = Number(homePrice);
+  }
+
+  for (const price of row.all_marketplace_prices?.euPrices || []) {
+    if (price.sourcePrice) {
+      prices[price.marketplace] = Number(price.sourcePrice);
+    }
+  }
+
+  return prices;
+}
+
+function diffPrices(before: Record<string, number>, after: Record<string, number>): MarketplacePriceMove[] {
+  const moves: MarketplacePriceMove[] = [];
+
+  for (const [marketplace, basePrice] of Object.entries(before)) {
+    const headPrice = after[marketplace];
+
+    if (headPrice === undefined || Math.abs(headPrice - basePrice) < MIN_PRICE_MOVE) {
+      continue;
+    }
+
+    moves.push({
+      marketplace,
+      currency: getMarketplace(marketplace)?.currency || 'GBP',
+      basePrice,
+      headPrice,
+      changeAmount: headPrice - basePrice,
+      changePercentage: basePrice > 0 ? ((headPrice - basePrice) / basePrice) * 100 : 0
+    });
+  }
+
+  return moves;
+}
+
+function largestMove(item: PriceMoveItem): number {
+  return Math.max(...item.moves.map(move => Math.abs(move.changePercentage)));
+}
+
+function toProfitChange(asin: string, before?: OpportunityRow, after?: OpportunityRow): ProfitChange {
+  return {
+    asin,
+    productName: after?.product_name || before?.product_name || null,
+    productImage: after?.product_image || before?.product_image || null,
+    baseProfit: before?.best_profit ?? null,
+    headProfit: after?.best_profit ?? null,
+    baseRoi: before?.best_roi ?? null,
+    headRoi: after?.best_roi ?? null,
+    baseMarketplace: before?.best_source_marketplace || null,
+    headMarketplace: after?.best_source_marketplace || null
+  };
+}
+
+function productsFromScanProducts(products: any[]): Map<string, ProductChange> {
+  return new Map(products.map(product => [product.asin, {
+    asin: product.asin,
+    productName: product.productName || null,
+    productImage: product.productImage || null
+  }]));
+}
+
+function productsFromOpportunities(opportunities: Map<string, OpportunityRow>): Map<string, ProductChange> {
+  return new Map([...opportunities.values()].map(row => [row.asin, {
+    asin: row.asin,
+    productName: row.product_name,
+    productImage: row.product_image
+  }]));
+}
+
+function toDiffScan(scan: Record<string, any>): ScanDiffScan {
+  return {
+    id: scan.id,
+    storefrontId: scan.storefront_id,
+    storefrontName: scan.storefront_name,
+    status: scan.status,
+    startedAt: scan.started_at,
+    completedAt: scan.completed_at,
+    opportunitiesFound: scan.opportunities_found || 0
+  };
+}
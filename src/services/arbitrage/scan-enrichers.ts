@@ -0,0 +1,458 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ArbitrageProgressMessage } from '@/domain/interfaces/IArbitrageService';
+import { KeepaProductService } from '@/services/keepa-product-service';
+import { KeepaComprehensiveAPI } from '@/lib/keepa-comprehensive-api';
+import { AIDealAnalyzer } from '@/services/ai-deal-analyzer';
+import { MARKETPLACES, getMarketplace } from '@/lib/amazon-marketplaces';
+import type { ScanDirection } from '@/lib/scan-direction';
+
+export interface ProductDetails {
+  productName: string;
+  productImage: string;
+  salesRank: number;
+  salesPerMonth: number;
+  brand?: string | null;
+  category?: string | null; // Catalog product type
+}
+
+export interface ProductEnrichment {
+  productName?: string;
+  productImage?: string;
+  salesPerMonth?: number;
+  columns?: Record<string, any>; // Extra arbitrage_opportunities columns
+  payload?: Record<string, any>; // Extra fields on the opportunity message
+}
+
+export interface OpportunityContext {
+  scanId: string;
+  userId: string;
+  direction: ScanDirection;
+  asin: string;
+  productName: string;
+  ukPrice: number;
+  ukCompetitors: number;
+  euMarketplace: string; // Best EU marketplace (source or target depending on direction)
+  euPrice: number; // In the EU marketplace currency
+  euPriceGBP: number;
+  profit: number;
+  roi: number;
+}
+
+/**
+ * Optional extras a scan can run on top of pricing and fees analysis
+ */
+export interface ScanEnricher {
+  prepare?(context: { scanId: string; asinCount: number }): AsyncGenerator<ArbitrageProgressMessage>;
+  beforeBatch?(asins: string[]): Promise<void>;
+  enrichProduct?(asin: string, details: ProductDetails): Promise<ProductEnrichment | null>;
+  enrichOpportunity?(context: OpportunityContext): Promise<Record<string, any> | null>;
+}
+
+interface PriceHistoryInfo {
+  oldPrice?: number;
+  newPrice: number;
+  changeAmount?: number | null;
+  changePercentage?: number | null;
+  isFirstCheck: boolean;
+  lastChecked?: string;
+}
+
+/**
+ * Records UK and best EU prices per ASIN and reports the change since the last check
+ */
+export class PriceHistoryEnricher implements ScanEnricher {
+  private previousPrices = new Map<string, Map<string, any>>();
+
+  constructor(private supabase: SupabaseClient, private userId: string) {}
+
+  async beforeBatch(asins: string[]): Promise<void> {
+    this.previousPrices.clear();
+
+    try {
+      const { data: latestPrices, error } = await this.supabase
+        .from('latest_asin_price_history')
+        .select('asin, marketplace, old_price, new_price, price_change_amount, price_change_percentage, change_detected_at, is_first_check')
+        .eq('user_id', this.userId)
+        .in('asin', asins);
+
+      if (!error && latestPrices) {
+        for (const price of latestPrices) {
+          if (!this.previousPrices.has(price.asin)) {
+            this.previousPrices.set(price.asin, new Map());
+          }
+          this.previousPrices.get(price.asin)!.set(price.marketplace, price);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+    }
+  }
+
+  async enrichOpportunity(context: OpportunityContext) {
+    const previous = this.previousPrices.get(context.asin) || new Map();
+    const now = new Date().toISOString();
+    const uk = this.buildChange(context.ukPrice, previous.get('UK'), now);
+    const bestEu = {
+      marketplace: context.euMarketplace,
+      ...this.buildChange(context.euPrice, previous.get(context.euMarketplace), now)
+    };
+    const euCurrency = getMarketplace(context.euMarketplace)?.currency || 'EUR';
+
+    const toRow = (marketplace: string, info: PriceHistoryInfo, currency: string) => ({
+      user_id: context.userId,
+      asin: context.asin,
+      marketplace,
+      old_price: info.oldPrice || null,
+      new_price: info.newPrice,
+      old_price_currency: currency,
+      new_price_currency: currency,
+      price_change_amount: info.changeAmount || null,
+      price_change_percentage: info.changePercentage || null,
+      product_name: context.productName,
+      change_detected_at: now,
+      scan_id: context.scanId,
+      is_first_check: info.isFirstCheck
+    });
+
+    const priceHistoryInserts = [
+      toRow('UK', uk, 'GBP'),
+      toRow(context.euMarketplace, bestEu, euCurrency)
+    ];
+
+    try {
+      await this.supabase
+        .from('asin_price_history')
+        .insert(priceHistoryInserts);
+
+      await this.supabase
+        .from('latest_asin_price_history')
+        .upsert(priceHistoryInserts, {
+          onConflict: 'user_id,asin,marketplace',
+          ignoreDuplicates: false
+        });
+    } catch (error) {
+      console.error('Error updating price history:', error);
+    }
+
+    return { priceHistory: { uk, bestEu } };
+  }
+
+  private buildChange(newPrice: number, previous: any, now: string): PriceHistoryInfo {
+    const info: PriceHistoryInfo = {
+      newPrice,
+      isFirstCheck: !previous,
+      lastChecked: now
+    };
+
+    if (previous) {
+      info.oldPrice = previous.new_price;
+      info.changeAmount = newPrice - previous.new_price;
+      info.changePercentage = ((newPrice - previous.new_price) / previous.new_price) * 100;
+    }
+
+    return info;
+  }
+}
+
+/**
+ * Keepa sales data (SPM, graph) per product and, optionally, AI deal scoring
+ * for profitable opportunities
+ */
+export class KeepaEnricher implements ScanEnricher {
+  private keepaService: KeepaProductService | null = null;
+  private keepaComprehensiveApi: KeepaComprehensiveAPI | null = null;
+  private aiAnalyzer: AIDealAnalyzer | null = null;
+  private disabledReason: string | null = null;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+    options: { apiKey?: string; includeKeepa: boolean; includeAIAnalysis: boolean }
+  ) {
+    if (options.apiKey && options.includeKeepa) {
+      this.keepaService = new KeepaProductService(options.apiKey, userId, MARKETPLACES.UK.keepaDomainId ?? 2);
+
+      if (options.includeAIAnalysis) {
+        this.keepaComprehensiveApi = new KeepaComprehensiveAPI(options.apiKey, MARKETPLACES.UK.keepaDomainId ?? 2);
+        this.aiAnalyzer = new AIDealAnalyzer();
+      }
+    } else {
+      this.disabledReason = !options.apiKey ? 'No API key found in environment' : 'Disabled for faster processing';
+      console.log(`[KEEPA] ${this.disabledReason} - SPM data will use BSR estimates only`);
+    }
+  }
+
+  async *prepare(context: { scanId: string; asinCount: number }): AsyncGenerator<ArbitrageProgressMessage> {
+    if (!this.keepaService) {
+      yield {
+        type: 'progress',
+        data: {
+          step: `Keepa SPM disabled: ${this.disabledReason}. Using BSR estimates for sales data.`,
+          progress: 5,
+          keepaStatus: 'disabled',
+          keepaReason: this.disabledReason
+        }
+      };
+      return;
+    }
+
+    try {
+      const tokenStatus = await this.keepaService.getTokenStatus();
+      const estimateInfo = await this.keepaService.estimateProcessingTime(context.asinCount, true);
+      const keepaTokens = {
+        available: tokenStatus.availableTokens,
+        needed: estimateInfo.tokensNeeded,
+        sufficient: tokenStatus.availableTokens >= estimateInfo.tokensNeeded
+      };
+
+      yield {
+        type: 'progress',
+        data: {
+          step: estimateInfo.waitTimeMs > 0
+            ? `Keepa tokens: ${tokenStatus.availableTokens} available, ${estimateInfo.tokensNeeded} needed. Wait time: ${Math.ceil(estimateInfo.waitTimeMs / 1000)}s`
+            : `Keepa ready: ${tokenStatus.availableTokens} tokens available for ${estimateInfo.tokensNeeded} needed`,
+          progress: 3,
+          scanId: context.scanId,
+          keepaTokens
+        }
+      };
+
+      if (!keepaTokens.sufficient) {
+        yield {
+          type: 'progress',
+          data: {
+            step: `⚠️ Warning: Only ${tokenStatus.availableTokens} Keepa tokens available, ${estimateInfo.tokensNeeded} needed. SPM data will be limited.`,
+            progress: 4,
+            keepaWarning: true
+          }
+        };
+      }
+    } catch (error) {
+      console.error('[KEEPA] Error checking token status:', error);
+      yield {
+        type: 'progress',
+        data: {
+          step: `Keepa token check failed: ${error instanceof Error ? error.message : 'Unknown error'}. SPM data may be unavailable.`,
+          progress: 3,
+          keepaError: true
+        }
+      };
+    }
+  }
+
+  async enrichProduct(asin: string, details: ProductDetails): Promise<ProductEnrichment | null> {
+    let keepaSalesData = null;
+    let keepaGraphUrl = null;
+    const enrichment: ProductEnrichment = {};
+
+    if (this.keepaService) {
+      try {
+        const keepaResult = await this.keepaService.enrichProduct(asin, true);
+
+        if (keepaResult.keepaData) {
+          keepaSalesData = keepaResult.keepaData;
+          keepaGraphUrl = keepaResult.graphUrl;
+
+          // Use Keepa's more accurate sales estimate if available
+          if (keepaSalesData.estimatedMonthlySales && keepaSalesData.estimatedMonthlySales > 0) {
+            enrichment.salesPerMonth = keepaSalesData.estimatedMonthlySales;
+          }
+
+          // Fill in title and image when the catalog had none
+          if (details.productName === asin && keepaSalesData.title) {
+            enrichment.productName = keepaSalesData.title;
+          }
+          if (!details.productImage && keepaSalesData.mainImage) {
+            enrichment.productImage = keepaSalesData.mainImage;
+          }
+        } else {
+          console.log(`[KEEPA] No data returned for ASIN: ${asin} - may be unlisted or have no sales history`);
+        }
+      } catch (keepaError) {
+        // Continue without Keepa data - this is expected behavior
+        console.error(`[KEEPA] Error fetching data for ASIN ${asin}:`, {
+          error: keepaError instanceof Error ? keepaError.message : String(keepaError),
+          asin,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+
+    const salesPerMonth = enrichment.salesPerMonth ?? details.salesPerMonth;
+
+    enrichment.columns = {
+      keepa_sales_data: keepaSalesData,
+      keepa_graph_url: keepaGraphUrl,
+      spm_data_source: keepaSalesData?.spmDataSource || (salesPerMonth > 0 ? 'estimate' : 'none'),
+      spm_confidence: keepaSalesData?.spmConfidence || (salesPerMonth > 0 ? 'low' : 'none')
+    };
+    enrichment.payload = { keepaSalesData, keepaGraphUrl };
+
+    return enrichment;
+  }
+
+  async enrichOpportunity(context: OpportunityContext) {
+    if (!this.keepaComprehensiveApi || !this.aiAnalyzer || context.profit <= 0) {
+      return { aiAnalysis: null };
+    }
+
+    try {
+      const comprehensiveData = await this.keepaComprehensiveApi.getComprehensiveData(context.asin, {
+        includePriceHistory: false, // Skip history for speed in real-time
+        includeOfferHistory: true,
+        includeRankHistory: false,
+        daysBack: 90,
+        includeReviews: false
+      });
+
+      if (!comprehensiveData) {
+        return { aiAnalysis: null };
+      }
+
+      // Override Keepa FBA count with accurate SP-API data
+      const correctedComprehensiveData = {
+        ...comprehensiveData,
+        fbaOfferCount: context.ukCompetitors,
+        totalOfferCount: context.ukCompetitors
+      };
+
+      const arbitrageContext = {
+        buyPrice: context.direction === 'uk_to_eu' ? context.ukPrice : context.euPriceGBP,
+        sellPrice: context.direction === 'uk_to_eu' ? context.euPriceGBP : context.ukPrice,
+        profit: context.profit,
+        roi: context.roi
+      };
+
+      const aiAnalysis = await this.aiAnalyzer.analyzeComprehensively(correctedComprehensiveData, arbitrageContext, {
+        useOpenAI: true
+      });
+
+      await this.saveAnalysis(context, aiAnalysis, correctedComprehensiveData, arbitrageContext);
+      console.log(`[AI] Analysis complete for ${context.asin}: Score ${aiAnalysis.aiScore}/1000, Classification: ${aiAnalysis.dealType}`);
+
+      return {
+        aiAnalysis: {
+          aiScore: aiAnalysis.aiScore,
+          dealClassification: aiAnalysis.dealType,
+          confidence: aiAnalysis.confidence,
+          priceTrend: aiAnalysis.priceTrend,
+          salesTrend: aiAnalysis.salesTrend,
+          competitionTrend: aiAnalysis.competitionTrend,
+          currentPricePercentile: aiAnalysis.currentPricePercentile,
+          salesVelocityRank: aiAnalysis.salesVelocityRank,
+          optimalBuyingWindow: aiAnalysis.optimalBuyingWindow,
+          topInsights: aiAnalysis.topInsights.slice(0, 3), // Top 3 for UI
+          warnings: aiAnalysis.warnings.slice(0, 2), // Top 2 warnings
+          scoreBreakdown: {
+            sales: aiAnalysis.salesScore,
+            price: aiAnalysis.priceScore,
+            competition: aiAnalysis.competitionScore,
+            opportunity: aiAnalysis.opportunityScore,
+            risk: aiAnalysis.riskScore
+          }
+        }
+      };
+    } catch (aiError) {
+      // Continue without AI analysis - don't fail the entire opportunity
+      console.error(`[AI] Error analyzing ${context.asin}:`, aiError);
+      return { aiAnalysis: null };
+    }
+  }
+
+  private async saveAnalysis(
+    context: OpportunityContext,
+    aiAnalysis: any,
+    keepaDataSnapshot: any,
+    arbitrageContext: Record<string, number>
+  ) {
+    const { data: savedAnalysis } = await this.supabase
+      .from('ai_deal_analysis')
+      .insert({
+        asin: context.asin,
+        user_id: this.userId,
+        ai_score: aiAnalysis.aiScore,
+        confidence_percentage: aiAnalysis.confidence,
+        deal_classification: aiAnalysis.dealType,
+        sales_score: aiAnalysis.salesScore,
+        price_score: aiAnalysis.priceScore,
+        competition_score: aiAnalysis.competitionScore,
+        opportunity_score: aiAnalysis.opportunityScore,
+        risk_score: aiAnalysis.riskScore,
+        predicted_price_30d: aiAnalysis.predictedPriceIn30Days,
+        predicted_sales_30d: aiAnalysis.predictedSalesIn30Days,
+        optimal_buy_timing: aiAnalysis.optimalBuyingWindow,
+        price_trend: aiAnalysis.priceTrend,
+        sales_trend: aiAnalysis.salesTrend,
+        competition_trend: aiAnalysis.competitionTrend,
+        current_price_percentile: aiAnalysis.currentPricePercentile,
+        sales_velocity_rank: aiAnalysis.salesVelocityRank,
+        top_insights: aiAnalysis.topInsights,
+        warnings: aiAnalysis.warnings,
+        opportunities: aiAnalysis.opportunities,
+        keepa_data_snapshot: keepaDataSnapshot,
+        arbitrage_context: arbitrageContext,
+        data_completeness: keepaDataSnapshot.dataCompleteness,
+        keepa_data_source: keepaDataSnapshot.spmDataSource,
+        keepa_confidence: keepaDataSnapshot.spmConfidence,
+      })
+      .select('id')
+      .single();
+
+    // Store OpenAI enhanced analysis if available
+    if (aiAnalysis.openaiAnalysis && savedAnalysis) {
+      await this.supabase
+        .from('openai_analysis')
+        .insert({
+          asin: context.asin,
+          user_id: this.userId,
+          base_ai_analysis_id: savedAnalysis.id,
+          gpt_insights: aiAnalysis.openaiAnalysis.gptInsights,
+          gpt_quality_score: aiAnalysis.openaiAnalysis.gptQualityScore,
+          gpt_confidence: aiAnalysis.openaiAnalysis.gptConfidence,
+          gpt_price_prediction: aiAnalysis.openaiAnalysis.gptPricePrediction,
+          gpt_sales_prediction: aiAnalysis.openaiAnalysis.gptSalesPrediction,
+          gpt_timing_recommendation: aiAnalysis.openaiAnalysis.gptTimingRecommendation,
+          gpt_risks: aiAnalysis.openaiAnalysis.gptRisks,
+          gpt_opportunities: aiAnalysis.openaiAnalysis.gptOpportunities,
+          category_specific_insights: aiAnalysis.openaiAnalysis.categorySpecificInsights,
+          seasonal_factors: aiAnalysis.openaiAnalysis.seasonalFactors,
+          market_context_analysis: aiAnalysis.openaiAnalysis.marketContextAnalysis,
+          score_adjustment: aiAnalysis.openaiAnalysis.scoreAdjustment,
+          adjustment_reason: aiAnalysis.openaiAnalysis.adjustmentReason,
+          prompt_tokens: aiAnalysis.openaiAnalysis.promptTokens,
+          completion_tokens: aiAnalysis.openaiAnalysis.completionTokens,
+          estimated_cost: aiAnalysis.openaiAnalysis.estimatedCost,
+        });
+    }
+  }
+}
+
+/**
+ * Which enrichers a scan runs. Stored with the scan job so a resumed scan
+ * rebuilds the same enrichers.
+ */
+export interface ScanEnrichmentConfig {
+  priceHistory?: boolean;
+  keepa?: { includeKeepa: boolean; includeAIAnalysis: boolean };
+}
+
+export function createScanEnrichers(
+  supabase: SupabaseClient,
+  userId: string,
+  config: ScanEnrichmentConfig = {}
+): ScanEnricher[] {
+  const enrichers: ScanEnricher[] = [];
+
+  if (config.priceHistory) {
+    enrichers.push(new PriceHistoryEnricher(supabase, userId));
+  }
+
+  if (config.keepa) {
+    enrichers.push(new KeepaEnricher(supabase, userId, {
+      apiKey: process.env.KEEPA_API_KEY,
+      ...config.keepa
+    }));
+  }
+
+  return enrichers;
+}
@@ -0,0 +1,333 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getServiceRoleClient } from '@/lib/supabase-server'
+import { checkEnvVars } from '@/lib/env-check'
+import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing'
+import { PriceHistoryService, PriceHistoryEntry } from '@/lib/price-history-service'
+import { notificationService } from '@/lib/notification-service'
+import { MARKETPLACES } from '@/lib/amazon-marketplaces'
+import { calculateNextRun, frequencyFromRow } from '@/lib/next-run'
+import {
+  RATE_LIMITS,
+  RequestThrottle,
+  fetchMarketplacePricing
+} from '@/services/arbitrage/marketplace-pricing'
+
+interface MonitorSettingsRow {
+  id: string
+  user_id: string
+  asin_list_id: string
+  timezone: string | null
+  alert_on_price_drop: boolean | null
+  alert_on_price_increase: boolean | null
+  price_change_threshold: number | null
+  run_count: number | null
+  [column: string]: any
+}
+
+export interface PriceChange {
+  asin: string
+  productName?: string
+  marketplace: string
+  currency: string
+  oldPrice: number
+  newPrice: number
+  changePercent: number
+}
+
+export interface MonitorRunResult {
+  monitorId: string
+  userId: string
+  listId: string
+  listName?: string
+  success: boolean
+  asinsChecked: number
+  pricesRecorded: number
+  changesDetected: number
+  alertsSent: number
+  nextRun?: string
+  error?: string
+}
+
+// Prices within a penny are treated as unchanged
+const MIN_PRICE_CHANGE = 0.01
+
+// A market-wide move on a long list shouldn't flood Telegram
+const MAX_ALERTS_PER_RUN = 20
+
+/**
+ * Runs the ASIN list price monitors configured in ASINMonitorSettings.
+ *
+ * Each due monitor re-prices its list in every scan marketplace, records new
+ * and changed prices in asin_price_history, sends price_change_alert
+ * notifications for changes that cross the monitor's threshold and schedules
+ * its next run. Monitors run one at a time as they share the pricing quota.
+ */
+export class AsinMonitorExecutor {
+  private static instance: AsinMonitorExecutor
+  private isRunning = false
+
+  private constructor() {}
+
+  public static getInstance(): AsinMonitorExecutor {
+    if (!AsinMonitorExecutor.instance) {
+      AsinMonitorExecutor.instance = new AsinMonitorExecutor()
+    }
+    return AsinMonitorExecutor.instance
+  }
+
+  /**
+   * Run enabled monitors whose next_run has passed. Monitors saved without a
+   * next_run (enabled but never run) are due straight away.
+   */
+  public async runDueMonitors(limit: number = 10): Promise<MonitorRunResult[]> {
+    if (this.isRunning) {
+      console.log('⚠️ ASIN monitor run already in progress')
+      return []
+    }
+
+    this.isRunning = true
+
+    try {
+      const supabase = getServiceRoleClient()
+      const now = new Date().toISOString()
+
+      const { data: monitors, error } = await supabase
+        .from('user_asin_monitor_settings')
+        .select('*')
+        .eq('enabled', true)
+        .or(`next_run.is.null,next_run.lte.${now}`)
+        .order('next_run', { ascending: true, nullsFirst: true })
+        .limit(limit)
+
+      if (error) {
+        throw error
+      }
+
+      const results: MonitorRunResult[] = []
+
+      for (const monitor of (monitors || []) as MonitorSettingsRow[]) {
+        results.push(await this.runMonitor(supabase, monitor))
+      }
+
+      return results
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  private async runMonitor(supabase: SupabaseClient, monitor: MonitorSettingsRow): Promise<MonitorRunResult> {
+    const startedAt = new Date()
+    const result: MonitorRunResult = {
+      monitorId: monitor.id,
+      userId: monitor.user_id,
+      listId: monitor.asin_list_id,
+      success: false,
+      asinsChecked: 0,
+      pricesRecorded: 0,
+      changesDetected: 0,
+      alertsSent: 0
+    }
+
+    await supabase
+      .from('user_asin_monitor_settings')
+      .update({ is_running: true })
+      .eq('id', monitor.id)
+
+    try {
+      const { data: list, error: listError } = await supabase
+        .from('asin_lists')
+        .select('id, name, asins, scan_count')
+        .eq('id', monitor.asin_list_id)
+        .eq('user_id', monitor.user_id)
+        .single()
+
+      if (listError || !list) {
+        throw new Error('ASIN list not found')
+      }
+
+      result.listName = list.name
+      const asins: string[] = [...new Set<string>(list.asins || [])]
+
+      const { entries, changes } = await this.priceList(monitor.user_id, asins)
+      result.asinsChecked = asins.length
+      result.pricesRecorded = entries.length
+      result.changesDetected = changes.length
+
+      if (entries.length > 0) {
+        await this.getPriceHistoryService().recordPriceChanges(entries)
+      }
+
+      result.alertsSent = await this.sendAlerts(monitor, changes)
+
+      await supabase
+        .from('asin_lists')
+        .update({
+          last_scanned_at: startedAt.toISOString(),
+          scan_count: (list.scan_count || 0) + 1
+        })
+        .eq('id', list.id)
+
+      result.success = true
+    } catch (error) {
+      console.error(`❌ ASIN monitor ${monitor.id} failed:`, error)
+      result.error = error instanceof Error ? error.message : 'Unknown error'
+    }
+
+    // Schedule the next run even after a failure so a broken list doesn't retry every cron tick
+    const nextRun = calculateNextRun(frequencyFromRow(monitor), monitor.timezone || 'UTC', startedAt)
+    result.nextRun = nextRun.toISOString()
+
+    await supabase
+      .from('user_asin_monitor_settings')
+      .update({
+        is_running: false,
+        last_run: startedAt.toISOString(),
+        next_run: result.nextRun,
+        last_error: result.error || null,
+        run_count: (monitor.run_count || 0) + 1,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', monitor.id)
+
+    return result
+  }
+
+  /**
+   * Current prices for the list compared with the latest recorded prices.
+   * Only first sightings and changed prices become history entries.
+   */
+  private async priceList(userId: string, asins: string[]): Promise<{
+    entries: PriceHistoryEntry[]
+    changes: PriceChange[]
+  }> {
+    const entries: PriceHistoryEntry[] = []
+    const changes: PriceChange[] = []
+
+    if (asins.length === 0) {
+      return { entries, changes }
+    }
+
+    const pricingClient = this.createPricingClient()
+    const throttle = new RequestThrottle()
+    const previousPrices = await this.getPriceHistoryService().getLatestPricesForAsins(userId, asins)
+    const batchSize = RATE_LIMITS.COMPETITIVE_PRICING.itemsPerRequest
+
+    for (let i = 0; i < asins.length; i += batchSize) {
+      const batch = asins.slice(i, i + batchSize)
+      const pricingByAsin = await fetchMarketplacePricing(pricingClient, batch, throttle)
+
+      for (const [asin, prices] of pricingByAsin) {
+        // The title recorded by earlier scans, from whichever marketplace has one
+        const productName = Array.from(previousPrices.get(asin)?.values() || [])
+          .find(previous => previous.product_name)?.product_name
+
+        for (const [marketplace, price] of Object.entries(prices)) {
+          const previous = previousPrices.get(asin)?.get(marketplace)
+          const oldPrice = previous ? Number(previous.price) : undefined
+
+          if (oldPrice !== undefined && Math.abs(price.price - oldPrice) < MIN_PRICE_CHANGE) {
+            continue
+          }
+
+          entries.push({
+            user_id: userId,
+            asin,
+            marketplace,
+            old_price: oldPrice,
+            new_price: price.price,
+            old_price_currency: previous?.currency,
+            new_price_currency: price.currency,
+            product_name: productName
+          })
+
+          if (oldPrice) {
+            changes.push({
+              asin,
+              productName,
+              marketplace,
+              currency: price.currency,
+              oldPrice,
+              newPrice: price.price,
+              changePercent: ((price.price - oldPrice) / oldPrice) * 100
+            })
+          }
+        }
+      }
+    }
+
+    return { entries, changes }
+  }
+
+  /**
+   * Alert on changes at or beyond the threshold in a direction the user asked for,
+   * largest moves first
+   */
+  private async sendAlerts(monitor: MonitorSettingsRow, changes: PriceChange[]): Promise<number> {
+    const threshold = Number(monitor.price_change_threshold) || 5
+    const alertOnDrop = monitor.alert_on_price_drop ?? true
+    const alertOnIncrease = monitor.alert_on_price_increase ?? false
+
+    const alerts = changes
+      .filter(change => Math.abs(change.changePercent) >= threshold)
+      .filter(change => change.changePercent < 0 ? alertOnDrop : alertOnIncrease)
+      .sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+
+    if (alerts.length > MAX_ALERTS_PER_RUN) {
+      console.log(`📉 ${alerts.length} price alerts for monitor ${monitor.id}, sending the ${MAX_ALERTS_PER_RUN} largest`)
+    }
+
+    let sent = 0
+
+    for (const change of alerts.slice(0, MAX_ALERTS_PER_RUN)) {
+      const delivered = await notificationService.sendNotification({
+        userId: monitor.user_id,
+        type: 'price_change_alert',
+        data: {
+          asin: change.asin,
+          productName: change.productName || change.asin,
+          market: change.marketplace,
+          currency: change.currency,
+          oldPrice: change.oldPrice,
+          newPrice: change.newPrice,
+          changePercent: change.changePercent
+        }
+      })
+
+      if (delivered) sent++
+    }
+
+    return sent
+  }
+
+  private createPricingClient(): SPAPICompetitivePricingClient {
+    const envCheck = checkEnvVars({
+      aws: { accessKeyId: true, secretAccessKey: true, region: true },
+      amazon: { accessKeyId: true, secretAccessKey: true, refreshToken: true }
+    })
+
+    if (!envCheck.success) {
+      throw new Error(`Missing environment variables: ${envCheck.missing.join(', ')}`)
+    }
+
+    return new SPAPICompetitivePricingClient(
+      {
+        accessKeyId: envCheck.values.awsAccessKeyId,
+        secretAccessKey: envCheck.values.awsSecretAccessKey,
+        sessionToken: undefined,
+        region: envCheck.values.awsRegion
+      },
+      {
+        clientId: envCheck.values.amazonAccessKeyId,
+        clientSecret: envCheck.values.amazonSecretAccessKey,
+        refreshToken: envCheck.values.amazonRefreshToken,
+        marketplaceId: MARKETPLACES.UK.id,
+        region: 'eu'
+      }
+    )
+  }
+
+  private getPriceHistoryService(): PriceHistoryService {
+    const envCheck = checkEnvVars({ supabase: { url: true, serviceKey: true } })
+    return new PriceHistoryService(envCheck.values.supabaseUrl, envCheck.values.supabaseServiceKey)
+  }
+}
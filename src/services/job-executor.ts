@@ -121,7 +121,7 @@ export class JobExecutor {
       // Get user's schedule settings
       const { data: schedule } = await supabase
         .from('user_arbitrage_schedule_settings')
-        .select('scan_type, storefront_id')
+        .select('scan_type, storefront_id, sourcing_profile_id')
         .eq('user_id', userId)
         .single()
       
@@ -133,6 +133,7 @@ export class JobExecutor {
         user_id: userId,
         scan_type: scanType === 'single_seller' ? 'single' : 'all',
         storefront_id: scanType === 'single_seller' ? schedule?.storefront_id : null,
+        sourcing_profile_id: schedule?.sourcing_profile_id || null,
         status: 'completed',
         total_products: 0,
         opportunities_found: 0,
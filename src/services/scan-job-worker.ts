@@ -0,0 +1,133 @@
+import 'reflect-metadata'
+import { getServiceRoleClient } from '@/lib/supabase-server'
+import { initializeContainer, container, TOKENS } from '@/infrastructure/container'
+import { ArbitrageAnalysisServiceV3, ScanOptions } from '@/services/arbitrage/ArbitrageAnalysisService.v3'
+import { ProductSource } from '@/services/arbitrage/product-sources'
+
+export interface ScanRunResult {
+  scanId?: string
+  opportunities: any[]
+  complete?: any
+}
+
+/**
+ * Picks up arbitrage scans left `running` by a previous server process and
+ * continues them from their last checkpoint. The app runs as a single PM2
+ * instance, so on boot every running scan belongs to a process that is gone.
+ * Also continues paused scans when the user resumes them, and runs scans
+ * started without a client to stream to (Telegram commands, scheduled group
+ * scans).
+ */
+export class ScanJobWorker {
+  private static instance: ScanJobWorker
+  private isResuming = false
+
+  private constructor() {}
+
+  public static getInstance(): ScanJobWorker {
+    if (!ScanJobWorker.instance) {
+      ScanJobWorker.instance = new ScanJobWorker()
+    }
+    return ScanJobWorker.instance
+  }
+
+  public async resumeInterruptedScans(): Promise<void> {
+    if (this.isResuming) {
+      console.log('⚠️ Scan resume already in progress')
+      return
+    }
+
+    this.isResuming = true
+
+    try {
+      const supabase = getServiceRoleClient()
+
+      const { data: scans, error } = await supabase
+        .from('arbitrage_scans')
+        .select('id, job_config, scan_products')
+        .eq('status', 'running')
+        .order('started_at', { ascending: true })
+
+      if (error) {
+        console.error('❌ Failed to load running scans:', error)
+        return
+      }
+
+      if (!scans || scans.length === 0) {
+        return
+      }
+
+      console.log(`🔁 Found ${scans.length} interrupted scans`)
+
+      // One scan at a time - they share the same SP-API quotas
+      for (const scan of scans) {
+        if (!scan.job_config || !scan.scan_products) {
+          // Started before scans were saved as jobs, nothing to resume from
+          await supabase
+            .from('arbitrage_scans')
+            .update({
+              status: 'failed',
+              error_message: 'Interrupted by a server restart',
+              completed_at: new Date().toISOString()
+            })
+            .eq('id', scan.id)
+          continue
+        }
+
+        await this.resumeScan(scan.id)
+      }
+    } catch (error) {
+      console.error('❌ Failed to resume interrupted scans:', error)
+    } finally {
+      this.isResuming = false
+    }
+  }
+
+  /**
+   * Run a scan from its last checkpoint until it completes, pauses or is cancelled
+   */
+  public async resumeScan(scanId: string): Promise<void> {
+    try {
+      const supabase = getServiceRoleClient()
+
+      initializeContainer(supabase)
+      const scanEngine = container.resolve<ArbitrageAnalysisServiceV3>(TOKENS.ScanEngine)
+
+      console.log(`▶️ Resuming scan ${scanId}`)
+
+      for await (const message of scanEngine.resumeScanStream(scanId)) {
+        if (message.type === 'complete') {
+          console.log(`✅ Resumed scan ${scanId} ${message.data.status}: ${message.data.message}`)
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Resumed scan ${scanId} failed:`, error)
+    }
+  }
+
+  /**
+   * Start a scan and run it to completion. Throws if the scan can't start or fails.
+   */
+  public async runScan(source: ProductSource, options: ScanOptions): Promise<ScanRunResult> {
+    const supabase = getServiceRoleClient()
+
+    initializeContainer(supabase)
+    const scanEngine = container.resolve<ArbitrageAnalysisServiceV3>(TOKENS.ScanEngine)
+
+    const result: ScanRunResult = { opportunities: [] }
+
+    for await (const message of scanEngine.analyzeProductsStream(source, options)) {
+      if (message.data?.scanId) {
+        result.scanId = message.data.scanId
+      }
+
+      if (message.type === 'opportunity') {
+        result.opportunities.push(message.data)
+      } else if (message.type === 'complete') {
+        result.complete = message.data
+      }
+    }
+
+    return result
+  }
+}
@@ -19,6 +19,7 @@ export interface StorefrontSchedule {
 export interface ArbitrageSchedule extends StorefrontSchedule {
   scan_type?: 'single_seller' | 'all_sellers'
   storefront_id?: string
+  sourcing_profile_id?: string | null
 }
 
 export class ScheduleManager {
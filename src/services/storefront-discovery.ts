@@ -0,0 +1,331 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getServiceRoleClient } from '@/lib/supabase-server'
+import { checkEnvVars } from '@/lib/env-check'
+import { SPAPICompetitivePricingClient } from '@/lib/sp-api-competitive-pricing'
+import { KeepaStorefrontAPI } from '@/lib/keepa-storefront'
+import { HOME_MARKETPLACE, MARKETPLACES, getMarketplace } from '@/lib/amazon-marketplaces'
+import { RATE_LIMITS, RequestThrottle, isRateLimitError } from '@/services/arbitrage/marketplace-pricing'
+
+export interface DiscoveredSeller {
+  sellerId: string
+  overlapAsins: string[]
+  rating: number | null // Positive feedback percentage
+  feedbackCount: number | null
+  buyBoxWins: number
+}
+
+export interface DiscoveryRunResult {
+  userId: string
+  success: boolean
+  asinsChecked: number
+  sellersFound: number
+  suggestionsSaved: number
+  error?: string
+}
+
+// Best-profit ASINs whose offers are checked per run
+const DISCOVERY_ASIN_LIMIT = 100
+
+// A seller sharing a single ASIN is as likely chance as a lead
+const MIN_OVERLAP = 2
+
+const MAX_SUGGESTIONS = 20
+
+/**
+ * Most shared profitable ASINs first, then the better rated and more established seller
+ */
+export function rankDiscoveredSellers(sellers: DiscoveredSeller[]): DiscoveredSeller[] {
+  return [...sellers].sort((a, b) =>
+    b.overlapAsins.length - a.overlapAsins.length ||
+    (b.rating ?? -1) - (a.rating ?? -1) ||
+    (b.feedbackCount ?? 0) - (a.feedbackCount ?? 0)
+  )
+}
+
+/**
+ * Add the sellers on an item offers payload to the running tally
+ */
+export function collectOfferSellers(
+  payload: any,
+  asin: string,
+  sellers: Map<string, DiscoveredSeller>,
+  excludedSellerIds: Set<string>
+): void {
+  for (const offer of payload?.Offers || []) {
+    const sellerId: string | undefined = offer.SellerId
+    if (!sellerId || excludedSellerIds.has(sellerId)) continue
+
+    if (!sellers.has(sellerId)) {
+      sellers.set(sellerId, { sellerId, overlapAsins: [], rating: null, feedbackCount: null, buyBoxWins: 0 })
+    }
+
+    const seller = sellers.get(sellerId)!
+    if (!seller.overlapAsins.includes(asin)) {
+      seller.overlapAsins.push(asin)
+    }
+    if (offer.IsBuyBoxWinner) {
+      seller.buyBoxWins++
+    }
+
+    const feedback = offer.SellerFeedbackRating
+    if (typeof feedback?.SellerPositiveFeedbackRating === 'number') {
+      seller.rating = feedback.SellerPositiveFeedbackRating
+    }
+    if (typeof feedback?.FeedbackCount === 'number') {
+      seller.feedbackCount = feedback.FeedbackCount
+    }
+  }
+}
+
+/**
+ * Finds sellers worth tracking as storefronts: the other sellers on the
+ * listings of a user's most profitable scanned ASINs. Offers come from the
+ * UK item offers endpoint, seller names from Keepa. Sellers already tracked,
+ * dismissed or added earlier are never suggested, and each run replaces the
+ * previous run's open suggestions.
+ */
+export class StorefrontDiscoveryService {
+  private static instance: StorefrontDiscoveryService
+  private runningUsers = new Set<string>()
+
+  private constructor() {}
+
+  public static getInstance(): StorefrontDiscoveryService {
+    if (!StorefrontDiscoveryService.instance) {
+      StorefrontDiscoveryService.instance = new StorefrontDiscoveryService()
+    }
+    return StorefrontDiscoveryService.instance
+  }
+
+  public isRunning(userId: string): boolean {
+    return this.runningUsers.has(userId)
+  }
+
+  public async discover(userId: string): Promise<DiscoveryRunResult> {
+    const result: DiscoveryRunResult = {
+      userId,
+      success: false,
+      asinsChecked: 0,
+      sellersFound: 0,
+      suggestionsSaved: 0
+    }
+
+    if (this.runningUsers.has(userId)) {
+      result.error = 'Storefront discovery already in progress'
+      return result
+    }
+
+    this.runningUsers.add(userId)
+
+    try {
+      const supabase = getServiceRoleClient()
+      const asins = await this.getProfitableAsins(supabase, userId)
+      result.asinsChecked = asins.length
+
+      if (asins.length === 0) {
+        result.success = true
+        return result
+      }
+
+      const excludedSellerIds = await this.getExcludedSellerIds(supabase, userId)
+      const sellers = await this.collectSellers(asins, excludedSellerIds)
+      result.sellersFound = sellers.size
+
+      const ranked = rankDiscoveredSellers(
+        [...sellers.values()].filter(seller => seller.overlapAsins.length >= MIN_OVERLAP)
+      ).slice(0, MAX_SUGGESTIONS)
+
+      const names = await this.getSellerNames(ranked.map(seller => seller.sellerId))
+      const now = new Date().toISOString()
+
+      await supabase
+        .from('storefront_suggestions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('status', 'suggested')
+
+      if (ranked.length > 0) {
+        const { error } = await supabase
+          .from('storefront_suggestions')
+          .upsert(ranked.map(seller => ({
+            user_id: userId,
+            seller_id: seller.sellerId,
+            seller_name: names.get(seller.sellerId) || null,
+            overlap_count: seller.overlapAsins.length,
+            overlap_asins: seller.overlapAsins,
+            seller_rating: seller.rating,
+            feedback_count: seller.feedbackCount,
+            buy_box_wins: seller.buyBoxWins,
+            status: 'suggested',
+            discovered_at: now,
+            updated_at: now
+          })), { onConflict: 'user_id,seller_id' })
+
+        if (error) {
+          throw error
+        }
+      }
+
+      result.suggestionsSaved = ranked.length
+      result.success = true
+      console.log(`🔭 Storefront discovery for ${userId}: ${asins.length} ASINs, ${sellers.size} sellers, ${ranked.length} suggested`)
+    } catch (error) {
+      console.error(`❌ Storefront discovery failed for ${userId}:`, error)
+      result.error = error instanceof Error ? error.message : 'Unknown error'
+    } finally {
+      this.runningUsers.delete(userId)
+    }
+
+    return result
+  }
+
+  /**
+   * The user's highest-profit scanned ASINs, each once
+   */
+  private async getProfitableAsins(supabase: SupabaseClient, userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('arbitrage_opportunities')
+      .select('asin, best_profit, arbitrage_scans!inner(user_id)')
+      .eq('arbitrage_scans.user_id', userId)
+      .gt('best_profit', 0)
+      .order('best_profit', { ascending: false })
+      .limit(DISCOVERY_ASIN_LIMIT * 5)
+
+    if (error) {
+      throw error
+    }
+
+    return [...new Set<string>((data || []).map(row => row.asin))].slice(0, DISCOVERY_ASIN_LIMIT)
+  }
+
+  /**
+   * Tracked storefronts, suggestions already acted on, Amazon itself and our own seller account
+   */
+  private async getExcludedSellerIds(supabase: SupabaseClient, userId: string): Promise<Set<string>> {
+    const [{ data: storefronts }, { data: decided }] = await Promise.all([
+      supabase.from('storefronts').select('seller_id').eq('user_id', userId),
+      supabase.from('storefront_suggestions').select('seller_id').eq('user_id', userId).neq('status', 'suggested')
+    ])
+
+    const excluded = new Set<string>([
+      ...(storefronts || []).map(row => row.seller_id),
+      ...(decided || []).map(row => row.seller_id)
+    ])
+
+    const amazonSellerId = getMarketplace(HOME_MARKETPLACE)?.amazonSellerId
+    if (amazonSellerId) excluded.add(amazonSellerId)
+
+    const ownSellerId = checkEnvVars({ amazon: { sellerId: true } }).values.amazonSellerId
+    if (ownSellerId) excluded.add(ownSellerId)
+
+    return excluded
+  }
+
+  /**
+   * UK offers for each ASIN, 20 per batch request. A rate limited batch is
+   * retried once and otherwise skipped.
+   */
+  private async collectSellers(asins: string[], excludedSellerIds: Set<string>): Promise<Map<string, DiscoveredSeller>> {
+    const sellers = new Map<string, DiscoveredSeller>()
+    const pricingClient = this.createPricingClient()
+    const throttle = new RequestThrottle()
+    const { requestsPerBatch, minInterval } = RATE_LIMITS.ITEM_OFFERS
+
+    for (let i = 0; i < asins.length; i += requestsPerBatch) {
+      const chunk = asins.slice(i, i + requestsPerBatch)
+      const requests = chunk.map(asin => ({
+        asin,
+        marketplaceId: MARKETPLACES.UK.id,
+        itemCondition: 'New' as const,
+        customerType: 'Consumer' as const
+      }))
+
+      const fetchOffers = async () => {
+        await throttle.wait('offers', minInterval)
+        return pricingClient.getItemOffersBatch(requests)
+      }
+
+      let response: any = null
+
+      try {
+        response = await fetchOffers()
+      } catch (error) {
+        if (isRateLimitError(error)) {
+          await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.RETRY_DELAY))
+          try {
+            response = await fetchOffers()
+          } catch (retryError) {
+            console.error('Item offers retry failed during storefront discovery:', retryError)
+          }
+        } else {
+          console.error('Error fetching item offers during storefront discovery:', error)
+        }
+      }
+
+      // Responses come back in request order
+      const results: any[] = response?.responses || []
+      results.forEach((item, index) => {
+        if (chunk[index] && item?.status?.statusCode === 200) {
+          collectOfferSellers(item.body?.payload, chunk[index], sellers, excludedSellerIds)
+        }
+      })
+    }
+
+    return sellers
+  }
+
+  /**
+   * Seller names from Keepa at a token each. Without a Keepa key, or when a
+   * lookup fails, the suggestion shows the seller ID instead.
+   */
+  private async getSellerNames(sellerIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>()
+    const keepaApiKey = process.env.KEEPA_API_KEY
+
+    if (!keepaApiKey || sellerIds.length === 0) {
+      return names
+    }
+
+    const keepaApi = new KeepaStorefrontAPI(keepaApiKey, parseInt(process.env.KEEPA_DOMAIN || '2'))
+
+    for (const sellerId of sellerIds) {
+      try {
+        const info = await keepaApi.getSellerInfo(sellerId)
+        if (info?.name && info.name !== 'Unknown Seller') {
+          names.set(sellerId, info.name)
+        }
+      } catch (error) {
+        console.error(`Error fetching Keepa seller info for ${sellerId}:`, error)
+      }
+    }
+
+    return names
+  }
+
+  private createPricingClient(): SPAPICompetitivePricingClient {
+    const envCheck = checkEnvVars({
+      aws: { accessKeyId: true, secretAccessKey: true, region: true },
+      amazon: { accessKeyId: true, secretAccessKey: true, refreshToken: true }
+    })
+
+    if (!envCheck.success) {
+      throw new Error(`Missing environment variables: ${envCheck.missing.join(', ')}`)
+    }
+
+    return new SPAPICompetitivePricingClient(
+      {
+        accessKeyId: envCheck.values.awsAccessKeyId,
+        secretAccessKey: envCheck.values.awsSecretAccessKey,
+        sessionToken: undefined,
+        region: envCheck.values.awsRegion
+      },
+      {
+        clientId: envCheck.values.amazonAccessKeyId,
+        clientSecret: envCheck.values.amazonSecretAccessKey,
+        refreshToken: envCheck.values.amazonRefreshToken,
+        marketplaceId: MARKETPLACES.UK.id,
+        region: 'eu'
+      }
+    )
+  }
+}
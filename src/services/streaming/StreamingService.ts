@@ -1,4 +1,5 @@
 import { injectable } from 'tsyringe';
+import { sendStreamError } from '@/lib/error-handling';
 
 export interface StreamMessage {
   type: 'progress' | 'opportunity' | 'complete' | 'error';
@@ -46,15 +47,10 @@ export class StreamingService {
             const message = messageTransformer(item);
             sendMessage(message);
           }
-        } catch (error: any) {
+        } catch (error) {
           if (!isControllerClosed) {
-            sendMessage({
-              type: 'error',
-              data: {
-                error: error.message || 'An unexpected error occurred',
-                code: error.code || 'UNKNOWN_ERROR'
-              }
-            });
+            // Only AppError messages reach the client; anything else is mapped to a safe message
+            sendStreamError(error, sendMessage);
           }
         } finally {
           if (!isControllerClosed) {
@@ -0,0 +1,435 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getServiceRoleClient } from '@/lib/supabase-server'
+import { checkEnvVars } from '@/lib/env-check'
+import { TelegramBotService, buildDealKeyboard } from '@/lib/telegram-bot'
+import { renderNotificationText } from '@/lib/notification-templates'
+import { getScanUrl } from '@/lib/notification-digest'
+import { BlacklistService } from '@/lib/blacklist-service'
+import { SourcingListService } from '@/lib/sourcing-list-service'
+import { KeepaPersistentRateLimiter } from '@/lib/keepa-persistent-rate-limiter'
+import { ScanJobWorker } from '@/services/scan-job-worker'
+import { StorefrontProductSource, AsinListProductSource } from '@/services/arbitrage/product-sources'
+
+/**
+ * The parts of a Telegram Update we handle
+ * https://core.telegram.org/bots/api#update
+ */
+export interface TelegramUpdate {
+  update_id: number
+  message?: {
+    message_id: number
+    chat: { id: number }
+    text?: string
+  }
+  callback_query?: {
+    id: string
+    data?: string
+    message?: { chat: { id: number } }
+  }
+}
+
+interface LinkedChat {
+  userId: string
+  chatId: string
+}
+
+export const BOT_COMMANDS = [
+  { command: 'scan', description: 'Scan a storefront: /scan <name or seller ID>' },
+  { command: 'check', description: 'Check one ASIN: /check <ASIN>' },
+  { command: 'tokens', description: 'Keepa token balance' },
+  { command: 'lists', description: 'Your sourcing lists' },
+  { command: 'blacklist', description: 'Blacklist an ASIN: /blacklist <ASIN>' },
+  { command: 'help', description: 'Show the commands' }
+]
+
+// Deals added with the inline button go to one list per user
+const TELEGRAM_LIST_NAME = 'Telegram Deals'
+
+// Deals sent back after a /scan, most profitable first
+const SCAN_REPLY_DEALS = 3
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/
+
+/**
+ * Handles commands and inline button presses from /api/telegram/webhook.
+ *
+ * The chat is mapped to a user through telegram_connections, and actions go
+ * through the same services as the sourcing-list and blacklist APIs. Scans
+ * and checks run after the webhook has returned, so replies are sent as new
+ * messages rather than webhook responses.
+ */
+export class TelegramCommandHandler {
+  private static instance: TelegramCommandHandler
+
+  private constructor() {}
+
+  public static getInstance(): TelegramCommandHandler {
+    if (!TelegramCommandHandler.instance) {
+      TelegramCommandHandler.instance = new TelegramCommandHandler()
+    }
+    return TelegramCommandHandler.instance
+  }
+
+  /**
+   * The bot an update arrived through. Webhooks are registered with the bot's
+   * ID (the part of its token before the colon) so users with their own bot
+   * get replies from it rather than the default one.
+   */
+  public async getBot(botId: string | null): Promise<TelegramBotService | null> {
+    const defaultToken = process.env.TELEGRAM_BOT_TOKEN || ''
+
+    if (!botId || defaultToken.startsWith(`${botId}:`)) {
+      return defaultToken ? new TelegramBotService(defaultToken) : null
+    }
+
+    const { data } = await getServiceRoleClient()
+      .from('telegram_connections')
+      .select('bot_token')
+      .like('bot_token', `${botId}:%`)
+      .limit(1)
+      .maybeSingle()
+
+    return data?.bot_token ? new TelegramBotService(data.bot_token) : null
+  }
+
+  public async handleUpdate(update: TelegramUpdate, bot: TelegramBotService): Promise<void> {
+    if (update.callback_query) {
+      await this.handleCallback(update.callback_query, bot)
+      return
+    }
+
+    const text = update.message?.text?.trim()
+    if (!update.message || !text?.startsWith('/')) {
+      return
+    }
+
+    const chatId = String(update.message.chat.id)
+    const [rawCommand, ...args] = text.split(/\s+/)
+    // Commands in groups arrive as /scan@YourBot
+    const command = rawCommand.slice(1).split('@')[0].toLowerCase()
+
+    const supabase = getServiceRoleClient()
+    const chat = await this.getLinkedChat(supabase, chatId, bot)
+
+    if (command === 'start' || command === 'help') {
+      await bot.sendMessage(chatId, this.getHelpText(chatId, !!chat))
+      return
+    }
+
+    if (!chat) {
+      await bot.sendMessage(chatId, this.getHelpText(chatId, false))
+      return
+    }
+
+    switch (command) {
+      case 'scan':
+        await this.startStorefrontScan(supabase, chat, args.join(' '), bot)
+        break
+      case 'check':
+        await this.checkAsin(chat, args[0], bot)
+        break
+      case 'tokens':
+        await this.sendTokenStatus(chat, bot)
+        break
+      case 'lists':
+        await this.sendSourcingLists(supabase, chat, bot)
+        break
+      case 'blacklist':
+        await this.blacklistFromCommand(chat, args[0], bot)
+        break
+      default:
+        await bot.sendMessage(chatId, `Unknown command /${command}. Send /help for the list.`)
+    }
+  }
+
+  private getHelpText(chatId: string, linked: boolean): string {
+    const commands = BOT_COMMANDS.map(({ command, description }) => `/${command} - ${description}`).join('\n')
+
+    if (!linked) {
+      return `🤖 *Storefront Stalker*\n\n` +
+             `This chat isn't linked to an account yet.\n` +
+             `Your chat ID is \`${chatId}\` - enter it on the Notifications page.`
+    }
+
+    return `🤖 *Storefront Stalker*\n\n${commands}`
+  }
+
+  private async startStorefrontScan(supabase: SupabaseClient, chat: LinkedChat, query: string, bot: TelegramBotService): Promise<void> {
+    if (!query) {
+      await bot.sendMessage(chat.chatId, 'Usage: /scan <storefront name or seller ID>')
+      return
+    }
+
+    const { data: storefronts } = await supabase
+      .from('storefronts')
+      .select('id, name, seller_id')
+      .eq('user_id', chat.userId)
+
+    const needle = query.toLowerCase()
+    const exact = (storefronts || []).filter(s =>
+      s.seller_id.toLowerCase() === needle || s.name.toLowerCase() === needle
+    )
+    const matches = exact.length > 0
+      ? exact
+      : (storefronts || []).filter(s => s.name.toLowerCase().includes(needle))
+
+    if (matches.length === 0) {
+      await bot.sendMessage(chat.chatId, `No storefront matches "${query}". Send /lists or check the name in the dashboard.`)
+      return
+    }
+
+    if (matches.length > 1) {
+      const names = matches.slice(0, 10).map(s => `• ${s.name} (\`${s.seller_id}\`)`).join('\n')
+      await bot.sendMessage(chat.chatId, `Several storefronts match "${query}":\n${names}\n\nUse the seller ID to pick one.`)
+      return
+    }
+
+    const storefront = matches[0]
+    await bot.sendMessage(chat.chatId, `🔄 Scanning *${storefront.name}*... I'll reply here when it finishes.`)
+
+    // Runs in the background - the webhook has to answer Telegram promptly
+    void ScanJobWorker.getInstance()
+      .runScan(new StorefrontProductSource(storefront.id), { userId: chat.userId, notify: false })
+      .then(async result => {
+        const link = result.scanId ? `\n${getScanUrl(result.scanId)}` : ''
+        await bot.sendMessage(chat.chatId, `🏁 *${storefront.name}*\n${result.complete?.message || 'Scan finished.'}${link}`)
+
+        const deals = result.opportunities
+          .filter(opp => (opp.bestOpportunity?.profit || 0) > 0)
+          .sort((a, b) => b.bestOpportunity.profit - a.bestOpportunity.profit)
+          .slice(0, SCAN_REPLY_DEALS)
+
+        for (const deal of deals) {
+          await this.sendDeal(chat.chatId, deal, result.scanId, bot)
+        }
+      })
+      .catch(error => {
+        console.error(`❌ Telegram scan of ${storefront.id} failed:`, error)
+        return bot.sendMessage(chat.chatId, `❌ Scan of ${storefront.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      })
+  }
+
+  private async checkAsin(chat: LinkedChat, rawAsin: string | undefined, bot: TelegramBotService): Promise<void> {
+    const asin = rawAsin?.toUpperCase()
+
+    if (!asin || !ASIN_PATTERN.test(asin)) {
+      await bot.sendMessage(chat.chatId, 'Usage: /check <ASIN>')
+      return
+    }
+
+    await bot.sendMessage(chat.chatId, `🔎 Checking \`${asin}\` across EU marketplaces...`)
+
+    void ScanJobWorker.getInstance()
+      .runScan(new AsinListProductSource([asin], 'Telegram Check'), { userId: chat.userId, notify: false })
+      .then(async result => {
+        const deal = result.opportunities.find(opp => opp.asin === asin && opp.bestOpportunity)
+
+        if (!deal) {
+          await bot.sendMessage(chat.chatId, `No EU prices found for \`${asin}\`.`)
+          return
+        }
+
+        if (deal.bestOpportunity.profit <= 0) {
+          await bot.sendMessage(
+            chat.chatId,
+            `📉 \`${asin}\` isn't profitable: best source ${deal.bestOpportunity.marketplace} ` +
+            `at £${deal.bestOpportunity.sourcePriceGBP.toFixed(2)} gives £${deal.bestOpportunity.profit.toFixed(2)} ` +
+            `(${deal.bestOpportunity.roi.toFixed(1)}% ROI)`
+          )
+          return
+        }
+
+        await this.sendDeal(chat.chatId, deal, result.scanId, bot)
+      })
+      .catch(error => {
+        console.error(`❌ Telegram check of ${asin} failed:`, error)
+        return bot.sendMessage(chat.chatId, `❌ Check failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      })
+  }
+
+  /**
+   * A scan opportunity in the high_profit_deal format, with the deal buttons
+   */
+  private async sendDeal(chatId: string, deal: any, scanId: string | undefined, bot: TelegramBotService): Promise<void> {
+    const data = {
+      asin: deal.asin,
+      productName: deal.productName || deal.asin,
+      profit: deal.bestOpportunity.profit,
+      roi: deal.bestOpportunity.roi,
+      sourceMarket: deal.bestOpportunity.marketplace,
+      sourcePrice: deal.bestOpportunity.sourcePrice,
+      sourcePriceGbp: deal.bestOpportunity.sourcePriceGBP,
+      targetPrice: deal.targetPrice
+    }
+
+    await bot.sendMessage(chatId, renderNotificationText('high_profit_deal', data), {
+      replyMarkup: buildDealKeyboard({ ...data, scanId })
+    })
+  }
+
+  private async sendTokenStatus(chat: LinkedChat, bot: TelegramBotService): Promise<void> {
+    const status = await new KeepaPersistentRateLimiter(chat.userId).getStatus()
+    const minutesToFull = status.tokensPerMinute > 0
+      ? Math.ceil(Math.max(0, status.maxTokens - status.availableTokens) / status.tokensPerMinute)
+      : 0
+
+    await bot.sendMessage(
+      chat.chatId,
+      `🔄 *Keepa Tokens*\n\n` +
+      `Available: ${status.availableTokens}/${status.maxTokens}\n` +
+      `Regeneration: ${status.tokensPerMinute} tokens/min\n` +
+      `Full in: ${minutesToFull} minutes`
+    )
+  }
+
+  private async sendSourcingLists(supabase: SupabaseClient, chat: LinkedChat, bot: TelegramBotService): Promise<void> {
+    const { data: lists } = await supabase
+      .from('sourcing_lists')
+      .select('name, item_count, total_profit')
+      .eq('user_id', chat.userId)
+      .order('is_favorite', { ascending: false })
+      .order('updated_at', { ascending: false })
+      .limit(15)
+
+    if (!lists || lists.length === 0) {
+      await bot.sendMessage(chat.chatId, 'You have no sourcing lists yet. Tap "Add to sourcing list" on a deal to start one.')
+      return
+    }
+
+    const lines = lists.map(list =>
+      `• *${list.name}*: ${list.item_count || 0} items, £${Number(list.total_profit || 0).toFixed(2)} profit`
+    )
+    await bot.sendMessage(chat.chatId, `📋 *Sourcing Lists*\n\n${lines.join('\n')}`)
+  }
+
+  private async blacklistFromCommand(chat: LinkedChat, rawAsin: string | undefined, bot: TelegramBotService): Promise<void> {
+    const asin = rawAsin?.toUpperCase()
+
+    if (!asin || !ASIN_PATTERN.test(asin)) {
+      await bot.sendMessage(chat.chatId, 'Usage: /blacklist <ASIN>')
+      return
+    }
+
+    await bot.sendMessage(chat.chatId, await this.blacklist(chat.userId, asin))
+  }
+
+  private async blacklist(userId: string, asin: string): Promise<string> {
+    const { item } = await this.getBlacklistService().addAsin(userId, asin, 'Blacklisted from Telegram')
+    return item ? `🚫 ${asin} blacklisted - it will be skipped in future scans` : `${asin} is already blacklisted`
+  }
+
+  /**
+   * Inline button presses: add:<scanId>:<asin> and bl:<asin>
+   */
+  private async handleCallback(query: NonNullable<TelegramUpdate['callback_query']>, bot: TelegramBotService): Promise<void> {
+    const chatId = query.message ? String(query.message.chat.id) : null
+    const supabase = getServiceRoleClient()
+    const chat = chatId ? await this.getLinkedChat(supabase, chatId, bot) : null
+
+    if (!chat) {
+      await bot.answerCallbackQuery(query.id, 'This chat is not linked to an account')
+      return
+    }
+
+    const [action, ...params] = (query.data || '').split(':')
+
+    try {
+      if (action === 'bl' && params[0]) {
+        await bot.answerCallbackQuery(query.id, await this.blacklist(chat.userId, params[0]))
+        return
+      }
+
+      if (action === 'add' && params.length === 2) {
+        await bot.answerCallbackQuery(query.id, await this.addDealToSourcingList(supabase, chat.userId, params[0], params[1]))
+        return
+      }
+
+      await bot.answerCallbackQuery(query.id, 'Unknown action')
+    } catch (error) {
+      console.error('❌ Telegram callback failed:', error)
+      await bot.answerCallbackQuery(query.id, 'Something went wrong, try again from the dashboard')
+    }
+  }
+
+  private async addDealToSourcingList(supabase: SupabaseClient, userId: string, scanId: string, asin: string): Promise<string> {
+    const { data: scan } = await supabase
+      .from('arbitrage_scans')
+      .select('id, storefront_name')
+      .eq('id', scanId)
+      .eq('user_id', userId)
+      .single()
+
+    const { data: deal } = scan
+      ? await supabase
+          .from('arbitrage_opportunities')
+          .select('*')
+          .eq('scan_id', scanId)
+          .eq('asin', asin)
+          .limit(1)
+          .maybeSingle()
+      : { data: null }
+
+    if (!deal) {
+      return 'Deal not found - the scan may have been deleted'
+    }
+
+    const sourcingListService = this.getSourcingListService()
+    const list = await sourcingListService.getOrCreateList(userId, TELEGRAM_LIST_NAME, 'Deals added from Telegram')
+
+    await sourcingListService.addItems(userId, list.id, [{
+      asin: deal.asin,
+      product_name: deal.product_name || deal.asin,
+      product_image: deal.product_image || undefined,
+      uk_price: Number(deal.target_price) || 0,
+      source_marketplace: deal.best_source_marketplace,
+      source_price_gbp: Number(deal.best_source_price_gbp) || 0,
+      profit: Number(deal.best_profit) || 0,
+      roi: Number(deal.best_roi) || 0,
+      profit_margin: Number(deal.profit_margin) || 0,
+      sales_per_month: deal.sales_per_month || undefined,
+      uk_competitors: deal.uk_competitors,
+      storefront_name: scan?.storefront_name || undefined,
+      added_from: 'telegram'
+    }])
+
+    return `📋 Added to ${list.name}`
+  }
+
+  /**
+   * The account linked to this chat on the bot that received the update.
+   * Connections without their own token use the default bot. A chat linked
+   * to several accounts on the same bot is ambiguous, so it is not used.
+   */
+  private async getLinkedChat(supabase: SupabaseClient, chatId: string, bot: TelegramBotService): Promise<LinkedChat | null> {
+    const botId = bot.getBotId()
+    const isDefaultBot = (process.env.TELEGRAM_BOT_TOKEN || '').startsWith(`${botId}:`)
+
+    const query = supabase
+      .from('telegram_connections')
+      .select('user_id, enabled')
+      .eq('chat_id', chatId)
+
+    const { data } = await (isDefaultBot
+      ? query.or(`bot_token.is.null,bot_token.eq."",bot_token.like.${botId}:*`)
+      : query.like('bot_token', `${botId}:%`)
+    ).limit(2)
+
+    if (data && data.length > 1) {
+      console.warn(`⚠️ Telegram chat ${chatId} is linked to several accounts on bot ${botId}, ignoring it`)
+      return null
+    }
+
+    const connection = data?.[0]
+    return connection?.enabled ? { userId: connection.user_id, chatId } : null
+  }
+
+  private getBlacklistService(): BlacklistService {
+    const envCheck = checkEnvVars({ supabase: { url: true, serviceKey: true } })
+    return new BlacklistService(envCheck.values.supabaseUrl, envCheck.values.supabaseServiceKey)
+  }
+
+  private getSourcingListService(): SourcingListService {
+    const envCheck = checkEnvVars({ supabase: { url: true, serviceKey: true } })
+    return new SourcingListService(envCheck.values.supabaseUrl, envCheck.values.supabaseServiceKey)
+  }
+}
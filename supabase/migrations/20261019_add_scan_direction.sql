@@ -0,0 +1,16 @@
+-- Add direction to arbitrage scans so UK -> EU (reverse) scans can sit alongside EU -> UK scans
+ALTER TABLE arbitrage_scans
+ADD COLUMN IF NOT EXISTS direction VARCHAR(10) NOT NULL DEFAULT 'eu_to_uk'
+  CHECK (direction IN ('eu_to_uk', 'uk_to_eu'));
+
+-- Marketplace the opportunity sells into ('UK' for EU -> UK, an EU marketplace for reverse)
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS target_marketplace VARCHAR(10) NOT NULL DEFAULT 'UK';
+
+-- Add indexes for direction filtering
+CREATE INDEX IF NOT EXISTS idx_arbitrage_scans_direction ON arbitrage_scans(direction);
+CREATE INDEX IF NOT EXISTS idx_arbitrage_opportunities_target_marketplace ON arbitrage_opportunities(target_marketplace);
+
+-- Comments for documentation
+COMMENT ON COLUMN arbitrage_scans.direction IS 'eu_to_uk = buy in EU, sell in UK; uk_to_eu = buy in UK, sell in an EU marketplace';
+COMMENT ON COLUMN arbitrage_opportunities.target_marketplace IS 'Marketplace code the product is sold in (target_price is stored in GBP)';
@@ -0,0 +1,31 @@
+-- Create exchange_rates table to persist daily currency rates used by arbitrage scans
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  rate_date DATE NOT NULL,
+  base_currency VARCHAR(3) NOT NULL, -- Currency being converted (EUR)
+  quote_currency VARCHAR(3) NOT NULL, -- Currency converted into (GBP)
+  rate DECIMAL(18, 8) NOT NULL, -- 1 base_currency = rate quote_currency
+  source VARCHAR(50) NOT NULL, -- Provider name (frankfurter, file, static)
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(rate_date, base_currency, quote_currency)
+);
+
+-- Create indexes for efficient lookups of the latest rate
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date ON exchange_rates(base_currency, quote_currency, rate_date DESC);
+
+-- RLS policies
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Rates are not user data - any authenticated user can read them
+CREATE POLICY "Authenticated users can view exchange rates"
+  ON exchange_rates FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Only the service role writes rates
+CREATE POLICY "Service role can manage exchange rates"
+  ON exchange_rates FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE exchange_rates IS 'Daily exchange rates captured from the configured rate provider';
+COMMENT ON COLUMN exchange_rates.rate IS '1 unit of base_currency expressed in quote_currency';
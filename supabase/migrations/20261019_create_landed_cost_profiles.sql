@@ -0,0 +1,53 @@
+-- Create landed_cost_profiles table for per-user inbound costs (EU -> FBA UK)
+CREATE TABLE IF NOT EXISTS landed_cost_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  enabled BOOLEAN DEFAULT true,
+  prep_fee_per_unit DECIMAL(10, 2) DEFAULT 0, -- GBP per unit
+  freight_per_kg JSONB DEFAULT '{}'::jsonb, -- GBP per chargeable kg by source marketplace, e.g. {"DE": 0.80}
+  default_freight_per_kg DECIMAL(10, 2) DEFAULT 0, -- Used when the source marketplace has no entry
+  duty_rates JSONB DEFAULT '{}'::jsonb, -- Import duty percentage by category (catalog product type), e.g. {"TOY": 0}
+  default_duty_rate DECIMAL(5, 2) DEFAULT 0, -- Percentage used when the category has no entry
+  customs_brokerage_fee DECIMAL(10, 2) DEFAULT 0, -- Flat GBP fee per shipment
+  units_per_shipment INTEGER DEFAULT 100 CHECK (units_per_shipment > 0), -- Units the brokerage fee is spread across
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- One profile per user
+  UNIQUE(user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_profiles_user_id ON landed_cost_profiles(user_id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE landed_cost_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own landed cost profile" ON landed_cost_profiles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own landed cost profile" ON landed_cost_profiles
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own landed cost profile" ON landed_cost_profiles
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own landed cost profile" ON landed_cost_profiles
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role reads profiles during scans
+CREATE POLICY "Service role can access all landed cost profiles" ON landed_cost_profiles
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Landed figures alongside the gross best_profit / best_roi
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS landed_cost DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS landed_profit DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS landed_roi DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS landed_cost_breakdown JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_arbitrage_opportunities_landed_profit ON arbitrage_opportunities(landed_profit DESC);
+
+COMMENT ON TABLE landed_cost_profiles IS 'Per-user prep, freight, duty and brokerage costs applied to arbitrage scans';
+COMMENT ON COLUMN arbitrage_opportunities.landed_cost IS 'Per-unit prep + freight + duty + brokerage in GBP';
+COMMENT ON COLUMN arbitrage_opportunities.landed_profit IS 'best_profit after landed costs';
+COMMENT ON COLUMN arbitrage_opportunities.landed_roi IS 'ROI on source price plus landed costs';
@@ -0,0 +1,22 @@
+-- Persist scans as resumable jobs so a server restart doesn't lose a running scan
+ALTER TABLE arbitrage_scans
+ADD COLUMN IF NOT EXISTS job_config JSONB,
+ADD COLUMN IF NOT EXISTS scan_products JSONB,
+ADD COLUMN IF NOT EXISTS checkpoint JSONB,
+ADD COLUMN IF NOT EXISTS resume_count INTEGER NOT NULL DEFAULT 0;
+
+-- Progress columns written while a scan runs (already used by the ASIN checker)
+ALTER TABLE arbitrage_scans
+ADD COLUMN IF NOT EXISTS progress_percentage INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS current_step TEXT,
+ADD COLUMN IF NOT EXISTS processed_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_updated TIMESTAMP WITH TIME ZONE;
+
+-- The resume worker looks up running scans on boot
+CREATE INDEX IF NOT EXISTS idx_arbitrage_scans_running ON arbitrage_scans(status) WHERE status = 'running';
+
+-- Comments for documentation
+COMMENT ON COLUMN arbitrage_scans.job_config IS 'Options needed to continue the scan: direction, enrichments, catalog lookups, totals for the completion summary';
+COMMENT ON COLUMN arbitrage_scans.scan_products IS 'Products queued for analysis after blacklist filtering, in batch order';
+COMMENT ON COLUMN arbitrage_scans.checkpoint IS 'Progress saved after each batch: next_batch, processed_count, opportunities_found';
+COMMENT ON COLUMN arbitrage_scans.resume_count IS 'Times the scan was picked up again after a server restart';
@@ -0,0 +1,7 @@
+-- Let users pause, resume and cancel running scans
+ALTER TABLE arbitrage_scans
+ADD COLUMN IF NOT EXISTS control_request VARCHAR(20) CHECK (control_request IN ('pause', 'cancel'));
+
+-- Comments for documentation
+COMMENT ON COLUMN arbitrage_scans.control_request IS 'Pause or cancel requested by the user, picked up by the scan engine after the current batch';
+COMMENT ON COLUMN arbitrage_scans.status IS 'running, paused, completed, cancelled or failed';
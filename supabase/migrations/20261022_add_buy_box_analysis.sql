@@ -0,0 +1,6 @@
+-- Offer-level buy box check for likely deals (Amazon on listing, FBA sellers near the buy box)
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS buy_box_analysis JSONB;
+
+-- Comments for documentation
+COMMENT ON COLUMN arbitrage_opportunities.buy_box_analysis IS 'Offers in the sell marketplace: buyBoxPrice, realisticPrice (used for profit), amazonOnListing, amazonHasBuyBox, fbaOfferCount, fbaSellersNearBuyBox';
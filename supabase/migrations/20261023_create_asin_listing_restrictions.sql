@@ -0,0 +1,36 @@
+-- Cache of Listings Restrictions API results (can our seller account list an ASIN new in a marketplace)
+CREATE TABLE IF NOT EXISTS asin_listing_restrictions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  asin VARCHAR(10) NOT NULL,
+  seller_id VARCHAR(50) NOT NULL,
+  marketplace VARCHAR(5) NOT NULL, -- Marketplace code (UK, DE, ...)
+  status VARCHAR(20) NOT NULL CHECK (status IN ('ungated', 'approval_required', 'gated')),
+  reasons JSONB DEFAULT '[]'::jsonb, -- [{ reasonCode, message }] as returned by the API
+  checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(asin, seller_id, marketplace)
+);
+
+CREATE INDEX IF NOT EXISTS idx_asin_listing_restrictions_lookup
+  ON asin_listing_restrictions(seller_id, marketplace, checked_at DESC);
+
+-- RLS policies
+ALTER TABLE asin_listing_restrictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view listing restrictions"
+  ON asin_listing_restrictions FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role can manage listing restrictions"
+  ON asin_listing_restrictions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Restriction status of the sell marketplace, recorded on deals and sourcing list items
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS restriction_status VARCHAR(20) CHECK (restriction_status IN ('ungated', 'approval_required', 'gated'));
+
+ALTER TABLE sourcing_list_items
+ADD COLUMN IF NOT EXISTS restriction_status VARCHAR(20) CHECK (restriction_status IN ('ungated', 'approval_required', 'gated'));
+
+COMMENT ON TABLE asin_listing_restrictions IS 'Listings Restrictions API results per ASIN, seller and marketplace, re-checked after 7 days';
+COMMENT ON COLUMN arbitrage_opportunities.restriction_status IS 'Listing restriction in the sell marketplace; only checked for profitable deals';
+COMMENT ON COLUMN sourcing_list_items.restriction_status IS 'Listing restriction in the UK marketplace when the item was added';
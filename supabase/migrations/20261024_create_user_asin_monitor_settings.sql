@@ -0,0 +1,61 @@
+-- Price monitoring schedules for ASIN lists (written by ASINMonitorSettings, run by /api/cron/check-asin-monitors)
+CREATE TABLE IF NOT EXISTS user_asin_monitor_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asin_list_id UUID NOT NULL REFERENCES asin_lists(id) ON DELETE CASCADE,
+  enabled BOOLEAN DEFAULT false,
+
+  -- Frequency (see FrequencySelector)
+  frequency_type VARCHAR(20) DEFAULT 'simple' CHECK (frequency_type IN ('simple', 'hourly', 'multiple_daily', 'custom')),
+  frequency VARCHAR(20) DEFAULT 'daily' CHECK (frequency IN ('daily', 'every_2_days', 'weekly')),
+  hourly_interval INTEGER,
+  daily_times TEXT[], -- HH:MM times for multiple_daily
+  time_of_day TIME DEFAULT '09:00:00',
+  timezone VARCHAR(50) DEFAULT 'UTC',
+  days_of_week INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5, 6, 7], -- 1 = Monday, 7 = Sunday
+  business_hours_only BOOLEAN DEFAULT false,
+  business_hours_start TIME,
+  business_hours_end TIME,
+  custom_interval_hours INTEGER,
+
+  -- Alerts
+  alert_on_price_drop BOOLEAN DEFAULT true,
+  alert_on_price_increase BOOLEAN DEFAULT false,
+  price_change_threshold DECIMAL(5, 2) DEFAULT 5, -- Percentage change that triggers a price_change_alert
+
+  -- Execution state
+  last_run TIMESTAMP WITH TIME ZONE,
+  next_run TIMESTAMP WITH TIME ZONE, -- NULL for an enabled monitor means due now
+  is_running BOOLEAN DEFAULT false,
+  last_error TEXT,
+  run_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- One monitor per list
+  UNIQUE(asin_list_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_asin_monitor_settings_user_id ON user_asin_monitor_settings(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_asin_monitor_settings_due ON user_asin_monitor_settings(next_run) WHERE enabled = true;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE user_asin_monitor_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ASIN monitor settings" ON user_asin_monitor_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own ASIN monitor settings" ON user_asin_monitor_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own ASIN monitor settings" ON user_asin_monitor_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own ASIN monitor settings" ON user_asin_monitor_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role runs the monitors from the cron job
+CREATE POLICY "Service role can access all ASIN monitor settings" ON user_asin_monitor_settings
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE user_asin_monitor_settings IS 'Per-list price monitoring schedule and alert thresholds for asin_lists';
@@ -0,0 +1,47 @@
+-- Notification destinations besides Telegram (which keeps using telegram_connections)
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel_type VARCHAR(20) NOT NULL CHECK (channel_type IN ('email', 'discord', 'slack', 'webhook')),
+  config JSONB NOT NULL DEFAULT '{}'::jsonb, -- email: { to }, discord/slack: { webhookUrl }, webhook: { url, secret }
+  enabled BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, channel_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user ON notification_channels(user_id);
+
+-- RLS policies
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification channels"
+  ON notification_channels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification channels"
+  ON notification_channels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification channels"
+  ON notification_channels FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notification channels"
+  ON notification_channels FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage notification channels"
+  ON notification_channels FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Per-type routing; existing preferences keep going to Telegram
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS channels TEXT[] DEFAULT ARRAY['telegram'];
+
+ALTER TABLE notification_history
+ADD COLUMN IF NOT EXISTS channel VARCHAR(20) DEFAULT 'telegram';
+
+COMMENT ON TABLE notification_channels IS 'Per-user email, Discord, Slack and signed webhook notification destinations';
+COMMENT ON COLUMN notification_preferences.channels IS 'Channels this notification type is delivered to (telegram, email, discord, slack, webhook)';
+COMMENT ON COLUMN notification_history.channel IS 'Channel the notification was sent on';
@@ -0,0 +1,13 @@
+-- Digest delivery: types in daily/weekly mode are queued and sent as one summary per user and type
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS delivery_mode VARCHAR(10) DEFAULT 'instant' CHECK (delivery_mode IN ('instant', 'daily', 'weekly'));
+
+ALTER TABLE notification_queue
+ADD COLUMN IF NOT EXISTS digest BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_notification_queue_due_digests
+  ON notification_queue(scheduled_for)
+  WHERE status = 'pending' AND digest = true;
+
+COMMENT ON COLUMN notification_preferences.delivery_mode IS 'instant sends each notification; daily/weekly collect them into a digest sent at 08:00 UK time (Mondays for weekly)';
+COMMENT ON COLUMN notification_queue.digest IS 'Held for the user''s next digest of this notification type rather than sent individually';
@@ -0,0 +1,57 @@
+-- Purchase orders built from sourcing lists, recording what was actually bought
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  sourcing_list_id UUID REFERENCES sourcing_lists(id) ON DELETE CASCADE NOT NULL,
+  reference VARCHAR(255), -- Supplier order number
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  sourcing_list_item_id UUID REFERENCES sourcing_list_items(id) ON DELETE SET NULL,
+  asin VARCHAR(10) NOT NULL,
+  product_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost_gbp DECIMAL(10,2) NOT NULL CHECK (unit_cost_gbp >= 0),
+  supplier_marketplace VARCHAR(10) NOT NULL,
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_arrival DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'ordered' CHECK (status IN ('ordered', 'shipped', 'received', 'at_fba')),
+  -- Scan estimates when the line was ordered, kept if the list item is removed
+  projected_unit_cost_gbp DECIMAL(10,2) NOT NULL,
+  projected_unit_profit DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_list ON purchase_orders(sourcing_list_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_user ON purchase_orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+
+-- RLS policies
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own purchase orders"
+  ON purchase_orders FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage items in their own purchase orders"
+  ON purchase_order_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND purchase_orders.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE purchase_orders IS 'Orders placed for items in a sourcing list';
+COMMENT ON COLUMN purchase_order_items.unit_cost_gbp IS 'Actual cost per unit paid to the supplier, in GBP';
+COMMENT ON COLUMN purchase_order_items.status IS 'ordered, shipped (from the supplier), received (at our prep address) or at_fba';
+COMMENT ON COLUMN purchase_order_items.projected_unit_profit IS 'Profit per unit the scan estimated for this item';
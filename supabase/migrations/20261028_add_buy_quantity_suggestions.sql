@@ -0,0 +1,43 @@
+-- Per-user inputs for suggested buy quantities
+CREATE TABLE IF NOT EXISTS buying_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_time_days INTEGER DEFAULT 14 CHECK (lead_time_days >= 0), -- Order to live at FBA
+  safety_stock_days INTEGER DEFAULT 7 CHECK (safety_stock_days >= 0),
+  cash_budget DECIMAL(10, 2) DEFAULT 0 CHECK (cash_budget >= 0), -- GBP, 0 = no cap per deal
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- One row per user
+  UNIQUE(user_id)
+);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE buying_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own buying settings" ON buying_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own buying settings" ON buying_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own buying settings" ON buying_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Service role reads settings during scans
+CREATE POLICY "Service role can access all buying settings" ON buying_settings
+  FOR ALL USING (auth.role() = 'service_role');
+
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS suggested_quantity INTEGER,
+ADD COLUMN IF NOT EXISTS projected_30d_profit DECIMAL(10, 2);
+
+ALTER TABLE sourcing_list_items
+ADD COLUMN IF NOT EXISTS uk_competitors INTEGER,
+ADD COLUMN IF NOT EXISTS suggested_quantity INTEGER,
+ADD COLUMN IF NOT EXISTS projected_30d_profit DECIMAL(10, 2);
+
+COMMENT ON TABLE buying_settings IS 'Lead time, safety stock and cash budget used for suggested buy quantities';
+COMMENT ON COLUMN arbitrage_opportunities.suggested_quantity IS 'Units to cover lead time plus safety stock at our share of UK sales, capped by the cash budget';
+COMMENT ON COLUMN arbitrage_opportunities.projected_30d_profit IS 'Landed profit per unit times our expected sales over 30 days';
+COMMENT ON COLUMN sourcing_list_items.suggested_quantity IS 'Suggested buy quantity when the item was added';
@@ -0,0 +1,52 @@
+-- Named deal filters a scan or schedule can run with
+CREATE TABLE IF NOT EXISTS sourcing_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  -- NULL leaves a rule out of the profile
+  min_profit DECIMAL(10, 2), -- GBP, after landed costs
+  min_roi DECIMAL(10, 2), -- Percent, after landed costs
+  max_sales_rank INTEGER CHECK (max_sales_rank > 0),
+  max_offers INTEGER CHECK (max_offers >= 0),
+  min_price DECIMAL(10, 2) CHECK (min_price >= 0), -- Sell price in GBP
+  max_price DECIMAL(10, 2) CHECK (max_price >= 0),
+  min_sales_per_month INTEGER CHECK (min_sales_per_month >= 0),
+  excluded_categories TEXT[] DEFAULT '{}',
+  excluded_brands TEXT[] DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sourcing_profiles_user_id ON sourcing_profiles(user_id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE sourcing_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own sourcing profiles" ON sourcing_profiles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own sourcing profiles" ON sourcing_profiles
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own sourcing profiles" ON sourcing_profiles
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own sourcing profiles" ON sourcing_profiles
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Scans load the profile they run with
+CREATE POLICY "Service role can access all sourcing profiles" ON sourcing_profiles
+  FOR ALL USING (auth.role() = 'service_role');
+
+ALTER TABLE arbitrage_scans
+ADD COLUMN IF NOT EXISTS sourcing_profile_id UUID REFERENCES sourcing_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE user_arbitrage_schedule_settings
+ADD COLUMN IF NOT EXISTS sourcing_profile_id UUID REFERENCES sourcing_profiles(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE sourcing_profiles IS 'Named deal filters; scans run with a profile only save and alert on matching opportunities';
+COMMENT ON COLUMN sourcing_profiles.excluded_categories IS 'Catalog product types, matched case-insensitively';
+COMMENT ON COLUMN arbitrage_scans.sourcing_profile_id IS 'Profile the scan filtered its opportunities with';
+COMMENT ON COLUMN user_arbitrage_schedule_settings.sourcing_profile_id IS 'Profile scheduled scans run with';
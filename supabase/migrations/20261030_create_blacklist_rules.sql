@@ -0,0 +1,39 @@
+-- Brand, category, title keyword and seller exclusions, alongside asin_blacklist
+CREATE TABLE IF NOT EXISTS blacklist_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('brand', 'category', 'keyword', 'seller')),
+  pattern VARCHAR(255) NOT NULL, -- Case-insensitive, * and ? wildcards
+  reason TEXT,
+  last_excluded_count INTEGER, -- Products excluded in the last completed scan
+  last_scan_id UUID REFERENCES arbitrage_scans(id) ON DELETE SET NULL,
+  last_scan_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, rule_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blacklist_rules_user_id ON blacklist_rules(user_id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE blacklist_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own blacklist rules" ON blacklist_rules
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own blacklist rules" ON blacklist_rules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own blacklist rules" ON blacklist_rules
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own blacklist rules" ON blacklist_rules
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Scans apply rules and record how many products each one excluded
+CREATE POLICY "Service role can access all blacklist rules" ON blacklist_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE blacklist_rules IS 'Pattern rules that exclude products from scans by brand, category, title keyword or seller';
+COMMENT ON COLUMN blacklist_rules.pattern IS 'Brand, category and seller rules match the whole value; keyword rules match anywhere in the title';
+COMMENT ON COLUMN blacklist_rules.last_excluded_count IS 'How many products this rule excluded in the scan last_scan_id';
@@ -0,0 +1,25 @@
+-- FBA size tier and possible dangerous goods, classified from UK catalog dimensions and attributes
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS fba_size_tier VARCHAR(30),
+ADD COLUMN IF NOT EXISTS is_oversize BOOLEAN,
+ADD COLUMN IF NOT EXISTS possible_hazmat BOOLEAN,
+ADD COLUMN IF NOT EXISTS hazmat_reasons TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS fba_classified_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS fba_size_tier VARCHAR(30),
+ADD COLUMN IF NOT EXISTS is_oversize BOOLEAN,
+ADD COLUMN IF NOT EXISTS possible_hazmat BOOLEAN,
+ADD COLUMN IF NOT EXISTS hazmat_reasons TEXT[] DEFAULT '{}';
+
+-- Finding flagged products in a storefront
+CREATE INDEX IF NOT EXISTS idx_products_fba_flags
+  ON products(storefront_id)
+  WHERE possible_hazmat = TRUE OR is_oversize = TRUE;
+
+COMMENT ON COLUMN products.fba_size_tier IS 'Amazon UK FBA size tier from package dimensions (light_envelope ... special_oversize); NULL when the catalog has none';
+COMMENT ON COLUMN products.is_oversize IS 'Oversize tier, or an FBA fee above standard-size fees when dimensions are missing';
+COMMENT ON COLUMN products.possible_hazmat IS 'Catalog attributes point to dangerous goods review (SDS, GHS class, UN number, lithium batteries)';
+COMMENT ON COLUMN products.hazmat_reasons IS 'Which attributes raised possible_hazmat';
+COMMENT ON COLUMN products.fba_classified_at IS 'When a scan last classified the ASIN; scans reuse the stored result';
+COMMENT ON COLUMN arbitrage_opportunities.fba_size_tier IS 'FBA size tier when the deal was found; only looked up for profitable deals unless already known';
@@ -0,0 +1,39 @@
+-- Column mappings for supplier price list imports, saved per supplier
+CREATE TABLE IF NOT EXISTS supplier_column_mappings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  supplier_name VARCHAR(100) NOT NULL,
+  mapping JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, supplier_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_column_mappings_user_id ON supplier_column_mappings(user_id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE supplier_column_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own supplier column mappings" ON supplier_column_mappings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own supplier column mappings" ON supplier_column_mappings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own supplier column mappings" ON supplier_column_mappings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own supplier column mappings" ON supplier_column_mappings
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can access all supplier column mappings" ON supplier_column_mappings
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Supplier side of deals found by supplier_import scans
+ALTER TABLE arbitrage_opportunities
+ADD COLUMN IF NOT EXISTS supplier_item JSONB;
+
+COMMENT ON TABLE supplier_column_mappings IS 'Which price list headers hold the barcode, cost, pack size, description and SKU for a supplier';
+COMMENT ON COLUMN supplier_column_mappings.mapping IS 'Header names per field plus costBasis (unit or pack) and costIncludesVat';
+COMMENT ON COLUMN arbitrage_opportunities.supplier_item IS 'Price list row the ASIN matched: barcode, quoted cost, pack size, ex-VAT cost per listing and cases to order. best_source_marketplace is SUPPLIER';
@@ -0,0 +1,52 @@
+-- Products that leave a seller's Keepa list are kept and marked removed instead of deleted
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing rows were first seen when they were created
+UPDATE products
+SET first_seen_at = created_at,
+    last_seen_at = COALESCE(updated_at, created_at)
+WHERE created_at IS NOT NULL AND first_seen_at > created_at;
+
+CREATE INDEX IF NOT EXISTS idx_products_storefront_active
+  ON products(storefront_id)
+  WHERE removed_at IS NULL;
+
+-- What each seller started and stopped selling, one row per change seen in a sync
+CREATE TABLE IF NOT EXISTS storefront_asin_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storefront_id UUID NOT NULL REFERENCES storefronts(id) ON DELETE CASCADE,
+  asin VARCHAR(10) NOT NULL,
+  event_type VARCHAR(10) NOT NULL CHECK (event_type IN ('added', 'removed')),
+  product_name TEXT,
+  first_seen_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_storefront_asin_events_storefront
+  ON storefront_asin_events(storefront_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_storefront_asin_events_user_id ON storefront_asin_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_storefront_asin_events_asin ON storefront_asin_events(asin);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE storefront_asin_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own storefront ASIN events" ON storefront_asin_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own storefront ASIN events" ON storefront_asin_events
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Storefront syncs record the events
+CREATE POLICY "Service role can access all storefront ASIN events" ON storefront_asin_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON COLUMN products.first_seen_at IS 'First sync that found the ASIN in the storefront';
+COMMENT ON COLUMN products.last_seen_at IS 'Last sync that found the ASIN in the storefront';
+COMMENT ON COLUMN products.removed_at IS 'When the ASIN left the storefront; NULL while it is listed. Cleared if the seller lists it again';
+COMMENT ON TABLE storefront_asin_events IS 'Timeline of ASINs a storefront started (added) and stopped (removed) selling';
+COMMENT ON COLUMN storefront_asin_events.first_seen_at IS 'For removed events, when the ASIN was first seen; last_seen_at minus first_seen_at is how long it was listed';
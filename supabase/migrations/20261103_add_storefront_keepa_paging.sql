@@ -0,0 +1,17 @@
+-- Large storefronts are fetched from Keepa a page at a time over several token windows
+ALTER TABLE storefronts
+ADD COLUMN IF NOT EXISTS keepa_next_page INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS keepa_pending_asins TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS keepa_sync_started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS keepa_total_asins INTEGER,
+ADD COLUMN IF NOT EXISTS keepa_sync_partial BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_storefronts_keepa_sync_partial
+  ON storefronts(user_id)
+  WHERE keepa_sync_partial = TRUE;
+
+COMMENT ON COLUMN storefronts.keepa_next_page IS 'Keepa storefront page the next sync resumes from; 0 when no paging pass is in progress';
+COMMENT ON COLUMN storefronts.keepa_pending_asins IS 'ASINs collected from the pages fetched so far in an unfinished paging pass';
+COMMENT ON COLUMN storefronts.keepa_sync_started_at IS 'When the unfinished paging pass fetched its first page';
+COMMENT ON COLUMN storefronts.keepa_total_asins IS 'Storefront size Keepa reported on the last page fetched';
+COMMENT ON COLUMN storefronts.keepa_sync_partial IS 'TRUE while only some pages of the storefront have been fetched; removals are not recorded until the pass completes';
@@ -0,0 +1,41 @@
+-- Sellers found on the offers of our profitable ASINs, suggested as storefronts to track
+CREATE TABLE IF NOT EXISTS storefront_suggestions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  seller_id VARCHAR(20) NOT NULL,
+  seller_name TEXT,
+  overlap_count INTEGER NOT NULL DEFAULT 0,
+  overlap_asins TEXT[] DEFAULT '{}',
+  seller_rating DECIMAL(5, 2),
+  feedback_count INTEGER,
+  buy_box_wins INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'suggested' CHECK (status IN ('suggested', 'dismissed', 'added')),
+  discovered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, seller_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storefront_suggestions_user_status
+  ON storefront_suggestions(user_id, status, overlap_count DESC);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE storefront_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own storefront suggestions" ON storefront_suggestions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own storefront suggestions" ON storefront_suggestions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own storefront suggestions" ON storefront_suggestions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The discovery job writes the suggestions
+CREATE POLICY "Service role can access all storefront suggestions" ON storefront_suggestions
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE storefront_suggestions IS 'Sellers offering the ASINs our scans found profitable, ranked by overlap and feedback rating';
+COMMENT ON COLUMN storefront_suggestions.overlap_asins IS 'Profitable ASINs the seller had an offer on when discovered';
+COMMENT ON COLUMN storefront_suggestions.seller_rating IS 'Positive feedback percentage from the seller''s SP-API offers';
+COMMENT ON COLUMN storefront_suggestions.status IS 'suggested until the user adds the seller as a storefront or dismisses it; dismissed sellers are not suggested again';
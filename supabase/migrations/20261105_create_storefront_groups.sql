@@ -0,0 +1,90 @@
+-- User-defined storefront groups (niches like toys, beauty, DIY) for filtering and group-level scans
+CREATE TABLE IF NOT EXISTS storefront_groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  color VARCHAR(20) DEFAULT 'indigo',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS storefront_group_members (
+  group_id UUID NOT NULL REFERENCES storefront_groups(id) ON DELETE CASCADE,
+  storefront_id UUID NOT NULL REFERENCES storefronts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (group_id, storefront_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storefront_groups_user ON storefront_groups(user_id, name);
+CREATE INDEX IF NOT EXISTS idx_storefront_group_members_storefront ON storefront_group_members(storefront_id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE storefront_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE storefront_group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own storefront groups" ON storefront_groups
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own storefront groups" ON storefront_groups
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own storefront groups" ON storefront_groups
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own storefront groups" ON storefront_groups
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own storefront group members" ON storefront_group_members
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Both the group and the storefront must belong to the user adding the row
+CREATE POLICY "Users can add own storefront group members" ON storefront_group_members
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM storefront_groups
+      WHERE storefront_groups.id = storefront_group_members.group_id
+        AND storefront_groups.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM storefronts
+      WHERE storefronts.id = storefront_group_members.storefront_id
+        AND storefronts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove own storefront group members" ON storefront_group_members
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Scheduled group scans load the group with the service role
+CREATE POLICY "Service role can access all storefront groups" ON storefront_groups
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can access all storefront group members" ON storefront_group_members
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Schedules can target a group as well as one or all storefronts
+ALTER TABLE user_arbitrage_schedule_settings
+ADD COLUMN IF NOT EXISTS storefront_group_id UUID REFERENCES storefront_groups(id) ON DELETE SET NULL;
+
+ALTER TABLE user_arbitrage_schedule_settings
+DROP CONSTRAINT IF EXISTS user_arbitrage_schedule_settings_scan_type_check;
+
+ALTER TABLE user_arbitrage_schedule_settings
+ADD CONSTRAINT user_arbitrage_schedule_settings_scan_type_check CHECK (scan_type IN ('single', 'all', 'group'));
+
+-- The group name is copied so scan history survives the group being renamed or deleted
+ALTER TABLE arbitrage_scans
+ADD COLUMN IF NOT EXISTS storefront_group_id UUID REFERENCES storefront_groups(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS storefront_group_name VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_arbitrage_scans_storefront_group ON arbitrage_scans(storefront_group_id)
+  WHERE storefront_group_id IS NOT NULL;
+
+COMMENT ON TABLE storefront_groups IS 'Named sets of storefronts used to filter the storefronts page and to target scans';
+COMMENT ON COLUMN storefront_groups.color IS 'Tailwind palette name for the group badge';
+COMMENT ON TABLE storefront_group_members IS 'Storefronts tagged with each group; a storefront can belong to several groups';
+COMMENT ON COLUMN user_arbitrage_schedule_settings.storefront_group_id IS 'Group scanned when scan_type is group';
+COMMENT ON COLUMN arbitrage_scans.storefront_group_name IS 'Name of the scanned group at scan time';
@@ -0,0 +1,5 @@
+-- Channel configs hold URLs the server posts to, so they are only written
+-- through /api/notifications/channels, which validates them. Users keep
+-- read and delete access.
+DROP POLICY IF EXISTS "Users can insert own notification channels" ON notification_channels;
+DROP POLICY IF EXISTS "Users can update own notification channels" ON notification_channels;